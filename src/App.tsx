@@ -17,6 +17,9 @@ import Reports from './pages/Reports';
 import LoadingSpinner from './components/common/LoadingSpinner';
 import Profile from './pages/Profile';
 import Users from './pages/Users';
+import JurisdictionRules from './pages/JurisdictionRules';
+import InvoiceIntake from './pages/InvoiceIntake';
+import { jurisdictionRulesService } from './services/jurisdictionRules';
 
 function App() {
   const { isAuthenticated, user, isLoading, initialize, error } = useAuthStore();
@@ -42,6 +45,14 @@ function App() {
     };
   }, []);
 
+  // Rule changes published by admins apply to every calculation, so load them once signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    jurisdictionRulesService.loadPublishedVersions().catch(error => {
+      console.error('Failed to load jurisdiction rule versions:', error);
+    });
+  }, [isAuthenticated]);
+
   // Show loading spinner while initializing
   if (isLoading) {
     return (
@@ -78,6 +89,7 @@ function App() {
             <Route path="/settings" element={<Settings />} />
             <Route path="/quality-control" element={<QualityControl />} />
             <Route path="/reports" element={<Reports />} />
+            <Route path="/invoices" element={<InvoiceIntake />} />
             <Route path="/profile" element={<Profile />} />
           </Route>
         </Route>
@@ -87,6 +99,7 @@ function App() {
           <Route element={<AppLayout />}>
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/users" element={<Users />} />
+            <Route path="/admin/rules" element={<JurisdictionRules />} />
           </Route>
         </Route>
         
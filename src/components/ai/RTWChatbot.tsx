@@ -1,11 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageCircle, X, Send, Bot, User, AlertTriangle, Info, CheckCircle, Clock, ExternalLink, FileText, Users, Calendar, BarChart3, Settings, Calculator } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { format, addWeeks } from 'date-fns';
 import { useCaseStore } from '../../store/caseStore';
 import { useAuthStore } from '../../store/authStore';
 import { useAISettingsStore } from '../../store/aiSettingsStore';
 import { Case, CaseStatus, Communication, Document, CaseNote } from '../../types';
 import { aiService } from '../../services/aiService';
+import { medicalCertificateService } from '../../services/medicalCertificateService';
+import { paymentService } from '../../services/paymentService';
+import { supabaseService } from '../../services/supabaseService';
+import { rtwScheduleService } from '../../services/rtwScheduleService';
 
 interface Message {
   id: string;
@@ -463,7 +468,7 @@ Format as clear, actionable recommendations that can be directly used in an RTW
             const rtwRecommendations = await aiService.chatWithRTWExpert(rtwPrompt, currentCase);
             
             // Parse the AI response to extract structured data
-            const recommendations = parseRTWRecommendations(rtwRecommendations);
+            const recommendations = parseRTWRecommendations(rtwRecommendations, currentCase);
             
             response += `I've analyzed case ${currentCase.claimNumber} and generated RTW plan recommendations:\n\n${rtwRecommendations}\n\n`;
             
@@ -592,8 +597,9 @@ Format as clear, actionable recommendations that can be directly used in an RTW
               case 'compensation_info':
                 response += `Here's information about compensation in case ${currentCase.claimNumber}:\n\n`;
                 if (currentCase.compensation) {
+                  const medicalExcess = paymentService.getMedicalExcess(currentCase, await supabaseService.getPayments(currentCase.id));
                   response += `PIAWE Calculation: Available\n`;
-                  response += `Medical Excess: ${currentCase.medicalExcess ? `Threshold: $${currentCase.medicalExcess.threshold}, Current: $${currentCase.medicalExcess.current}` : 'Not set'}\n`;
+                  response += `Medical Excess: ${medicalExcess ? `Threshold: $${medicalExcess.threshold.toFixed(2)}, Used: $${medicalExcess.current.toFixed(2)}, Remaining: $${Math.max(0, medicalExcess.remaining).toFixed(2)}` : 'None for this case'}\n`;
                 } else {
                   response += `Compensation information not yet available\n`;
                 }
@@ -670,16 +676,13 @@ Format as clear, actionable recommendations that can be directly used in an RTW
   };
 
   // Parse RTW recommendations from AI response
-  const parseRTWRecommendations = (aiResponse: string) => {
+  const parseRTWRecommendations = (aiResponse: string, caseData: Case) => {
     const recommendations = {
       dutiesTasks: '',
       workplaceSupports: '',
       dutiesToAvoid: '',
       medicalRestrictions: '',
-      week1Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-      week2Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-      week3Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-      week4Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' }
+      weekHours: [] as { mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string }[]
     };
 
     const lines = aiResponse.split('\n').filter(line => line.trim());
@@ -726,39 +729,31 @@ Format as clear, actionable recommendations that can be directly used in an RTW
       }
     });
 
-    // Parse hours progression if provided
+    // Ramp the recommended daily hours over the four weeks, within the current certificate
     if (hoursRecommendation) {
       const hoursMatch = hoursRecommendation.match(/(\d+(?:\.\d+)?)\s*hours?/i);
       if (hoursMatch) {
-        const baseHours = parseFloat(hoursMatch[1]);
-        
-        // Distribute hours across weeks with progression
-        const week1Hours = baseHours * 0.5; // Start with 50% of base hours
-        const week2Hours = baseHours * 0.75; // 75% of base hours
-        const week3Hours = baseHours * 0.9; // 90% of base hours
-        const week4Hours = baseHours; // 100% of base hours
-        
-        // Distribute across weekdays (Monday-Friday)
-        ['mon', 'tue', 'wed', 'thu', 'fri'].forEach(day => {
-          recommendations.week1Hours[day as keyof typeof recommendations.week1Hours] = week1Hours.toString();
-          recommendations.week2Hours[day as keyof typeof recommendations.week2Hours] = week2Hours.toString();
-          recommendations.week3Hours[day as keyof typeof recommendations.week3Hours] = week3Hours.toString();
-          recommendations.week4Hours[day as keyof typeof recommendations.week4Hours] = week4Hours.toString();
-        });
-        
-        // Set weekend hours to 0
-        ['sat', 'sun'].forEach(day => {
-          recommendations.week1Hours[day as keyof typeof recommendations.week1Hours] = '0';
-          recommendations.week2Hours[day as keyof typeof recommendations.week2Hours] = '0';
-          recommendations.week3Hours[day as keyof typeof recommendations.week3Hours] = '0';
-          recommendations.week4Hours[day as keyof typeof recommendations.week4Hours] = '0';
+        const startDate = format(new Date(), 'yyyy-MM-dd');
+        const schedule = rtwScheduleService.generate({
+          startDate,
+          targetDate: format(addWeeks(new Date(), 3), 'yyyy-MM-dd'),
+          preInjuryHoursPerDay: parseFloat(hoursMatch[1]),
+          preInjuryDaysPerWeek: 5,
+          rosteredDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+          certificate: medicalCertificateService.getCurrent(caseData.medicalCertificates || [], startDate),
+          profile: 'linear'
         });
-        
-        // Calculate totals
-        recommendations.week1Hours.total = (week1Hours * 5).toString();
-        recommendations.week2Hours.total = (week2Hours * 5).toString();
-        recommendations.week3Hours.total = (week3Hours * 5).toString();
-        recommendations.week4Hours.total = (week4Hours * 5).toString();
+
+        recommendations.weekHours = schedule.weeks.map(week => ({
+          mon: week.monday || '0',
+          tue: week.tuesday || '0',
+          wed: week.wednesday || '0',
+          thu: week.thursday || '0',
+          fri: week.friday || '0',
+          sat: week.saturday || '0',
+          sun: week.sunday || '0',
+          total: week.total || '0'
+        }));
       }
     }
 
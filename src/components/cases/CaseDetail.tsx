@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useCaseStore } from '../../store/caseStore';
 import { format, parseISO } from 'date-fns';
@@ -12,17 +12,23 @@ import CaseNotes from './CaseNotes';
 import ReviewDatesManager from './ReviewDatesManager';
 import SupervisorNotesModal from './SupervisorNotesModal';
 import StakeholderManager from './StakeholderManager';
+import TreatmentApprovals from './TreatmentApprovals';
+import MedicalCertificateRegister from './MedicalCertificateRegister';
 import RTWPlanManager from './RTWPlanManager';
 import CaseStatusManager from './CaseStatusManager';
-import { Case, Document, CaseStatus } from '../../types';
+import EntitlementSchedule from '../compensation/EntitlementSchedule';
+import PaymentLedger from '../compensation/PaymentLedger';
+import ArrearsStatements from '../compensation/ArrearsStatements';
+import { Case, Document, CaseStatus, Payment } from '../../types';
 import { useAuthStore } from '../../store/authStore';
 import { supabaseService } from '../../services/supabaseService';
+import { rtwPlanConflictService } from '../../services/rtwPlanConflictService';
 import { supabase } from '../../lib/supabase';
 import { useState as useReactState } from 'react';
 import EmailModal from './EmailModal';
 import RTWPlanner, { RTWPlannerRef } from './RTWPlanner';
 
-type TabType = 'overview' | 'reviews' | 'case-notes' | 'documents' | 'compensation' | 'ai-insights' | 'stakeholders' | 'rtwc' | 'wages' | 'rtw-planner';
+type TabType = 'overview' | 'reviews' | 'case-notes' | 'documents' | 'certificates' | 'compensation' | 'ai-insights' | 'stakeholders' | 'rtwc' | 'wages' | 'rtw-planner';
 
 const CaseDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -30,6 +36,7 @@ const CaseDetail: React.FC = () => {
   const { user } = useAuthStore();
   const { getCase, updateCase, isLoading, uploadDocument, deleteCase } = useCaseStore();
   const [caseData, setCaseData] = useState<Case | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [isAddCommunicationOpen, setIsAddCommunicationOpen] = useState(false);
   const [isEditDatesOpen, setIsEditDatesOpen] = useState(false);
@@ -74,6 +81,19 @@ const CaseDetail: React.FC = () => {
     fetchCaseData();
   }, [id, getCase, navigate]);
 
+  const loadPayments = useCallback(async () => {
+    if (!id) return;
+    try {
+      setPayments(await supabaseService.getPayments(id));
+    } catch (error) {
+      console.error('Failed to load payments:', error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
   useEffect(() => {
     // Fetch consultants and admins for reassignment
     const fetchConsultants = async () => {
@@ -125,6 +145,25 @@ const CaseDetail: React.FC = () => {
     }
   };
 
+  // A new, deleted or expired certificate can take an active plan over the certified capacity, in
+  // which case the plan goes back to draft
+  const handleCertificatesChange = async () => {
+    if (!id) return;
+    const refreshedData = await getCase(id);
+    if (!refreshedData) return;
+    const { plan, unpublished } = rtwPlanConflictService.enforce(refreshedData.rtwPlan, refreshedData.medicalCertificates || []);
+    if (!unpublished) {
+      setCaseData(refreshedData);
+      return;
+    }
+    try {
+      await updateCase(refreshedData.id, { rtwPlan: plan });
+      await refreshCaseData();
+    } catch (error) {
+      console.error('Failed to move the RTW plan back to draft:', error);
+    }
+  };
+
   const handleDocumentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !caseData) return;
@@ -161,6 +200,17 @@ const CaseDetail: React.FC = () => {
     }
   };
 
+  const handleStartNewRTWPlan = async (plans: Pick<Case, 'rtwPlan' | 'rtwPlanHistory'>) => {
+    if (!caseData) return;
+
+    try {
+      await updateCase(caseData.id, plans);
+      await refreshCaseData();
+    } catch (error) {
+      console.error('Failed to start new RTW plan:', error);
+    }
+  };
+
   const handleStatusUpdate = async (status: CaseStatus, outcome?: any) => {
     if (!caseData) return;
     
@@ -280,6 +330,7 @@ const CaseDetail: React.FC = () => {
     { id: 'reviews', label: 'Review Dates', icon: <Bell className="h-4 w-4" /> },
     { id: 'case-notes', label: 'Case Notes', icon: <StickyNote className="h-4 w-4" /> },
     { id: 'documents', label: 'Case Documents', icon: <Paperclip className="h-4 w-4" /> },
+    { id: 'certificates', label: 'Certificates of Capacity', icon: <Stethoscope className="h-4 w-4" /> },
     ...(caseData.workcoverType !== 'non-workcover'
       ? [
           { id: 'compensation', label: 'Compensation & PIAWE', icon: <DollarSign className="h-4 w-4" /> },
@@ -988,6 +1039,10 @@ const CaseDetail: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'certificates' && (
+            <MedicalCertificateRegister caseData={caseData} onChange={handleCertificatesChange} />
+          )}
+
           {activeTab === 'compensation' && caseData.workcoverType !== 'non-workcover' && (
             <div className="space-y-6">
               {/* Right Sidebar with RTW Planner and PIAWE Calculator */}
@@ -999,7 +1054,12 @@ const CaseDetail: React.FC = () => {
                       <div className="bg-primary-50 rounded-lg p-6">
                         <div className="flex items-center justify-between">
                           <div>
-                            <h4 className="font-medium text-primary-900">Current PIAWE</h4>
+                            <h4 className="font-medium text-primary-900">
+                              {caseData.piaweCalculation.agreed ? 'Agreed PIAWE' : 'Current PIAWE'}
+                              {caseData.piaweCalculation.versionNumber && (
+                                <span className="ml-2 text-xs font-normal text-primary-700">v{caseData.piaweCalculation.versionNumber}</span>
+                              )}
+                            </h4>
                             <p className="text-3xl font-bold text-primary-900">
                               ${caseData.piaweCalculation.finalPIAWE.toFixed(2)}
                             </p>
@@ -1069,6 +1129,12 @@ const CaseDetail: React.FC = () => {
                           </div>
                         </button>
                       </div>
+
+                      <EntitlementSchedule
+                        caseData={caseData}
+                        payments={payments}
+                        onUpdate={() => { refreshCaseData(); loadPayments(); }}
+                      />
                     </div>
                   ) : (
                     <div className="text-center py-12">
@@ -1089,6 +1155,10 @@ const CaseDetail: React.FC = () => {
                       </button>
                     </div>
                   )}
+
+                  <ArrearsStatements caseData={caseData} payments={payments} onChange={loadPayments} />
+
+                  <PaymentLedger caseData={caseData} payments={payments} onChange={loadPayments} />
                 </div>
 
                 {/* Right Sidebar */}
@@ -1209,7 +1279,9 @@ const CaseDetail: React.FC = () => {
                 rtwPlan={caseData.rtwPlan}
                 caseId={caseData.id}
                 workerName={`${caseData.worker.firstName} ${caseData.worker.lastName}`}
+                caseData={caseData}
                 onUpdate={handleRTWPlanUpdate}
+                onStartNewPlan={handleStartNewRTWPlan}
               />
             </div>
           )}
@@ -1225,11 +1297,16 @@ const CaseDetail: React.FC = () => {
           )}
 
           {activeTab === 'stakeholders' && (
-            <div>
+            <div className="space-y-8">
               <StakeholderManager
                 stakeholders={caseData.stakeholders || []}
                 onUpdate={handleStakeholdersUpdate}
               />
+              <TreatmentApprovals
+                caseData={caseData}
+                payments={payments}
+                onChange={() => { refreshCaseData(); loadPayments(); }}
+              />
             </div>
           )}
         </div>
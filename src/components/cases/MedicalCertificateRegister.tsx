@@ -0,0 +1,444 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileCheck, Plus, Trash2, AlertTriangle, ExternalLink, ScanLine, Loader } from 'lucide-react';
+import { format, parseISO, addDays } from 'date-fns';
+import { Case, MedicalCertificate, WorkCapacity } from '../../types';
+import { useAuthStore } from '../../store/authStore';
+import { supabaseService } from '../../services/supabaseService';
+import { medicalCertificateService, WORK_CAPACITIES, CERTIFYING_PRACTITIONERS } from '../../services/medicalCertificateService';
+import { certificateExtractionService, CertificateDraft, CertificateField } from '../../services/certificateExtractionService';
+
+interface MedicalCertificateRegisterProps {
+  caseData: Case;
+  onChange: () => void; // Certificates are loaded with the case, so the case is refreshed after changes
+}
+
+const CAPACITY_STYLES: Record<WorkCapacity, string> = {
+  full: 'bg-success-100 text-success-700',
+  'suitable-duties': 'bg-warning-100 text-warning-800',
+  none: 'bg-error-100 text-error-700'
+};
+
+const CAPACITY_DOTS: Record<WorkCapacity, string> = {
+  full: 'bg-success-500',
+  'suitable-duties': 'bg-warning-500',
+  none: 'bg-error-500'
+};
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Practitioner names compared without titles, case or punctuation
+const sameName = (a: string, b: string | undefined) => {
+  const normalise = (value: string) => value.toLowerCase().replace(/^dr\.?\s+/, '').replace(/[^a-z]/g, '');
+  const [x, y] = [normalise(a), normalise(b || '')];
+  return x !== '' && y !== '' && (x.includes(y) || y.includes(x));
+};
+
+const emptyCertificate = () => ({
+  stakeholderId: '',
+  doctorName: '',
+  issueDate: today(),
+  startDate: today(),
+  endDate: format(addDays(new Date(), 13), 'yyyy-MM-dd'),
+  capacity: 'suitable-duties' as WorkCapacity,
+  hoursPerDay: '',
+  daysPerWeek: '',
+  restrictions: '',
+  recommendations: '',
+  documentId: '',
+  notes: ''
+});
+
+const MedicalCertificateRegister: React.FC<MedicalCertificateRegisterProps> = ({ caseData, onChange }) => {
+  const { user } = useAuthStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [newCertificate, setNewCertificate] = useState(emptyCertificate);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scan, setScan] = useState<{ file: File; url: string; draft: CertificateDraft } | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const expiryRequested = useRef(false);
+  const scanInput = useRef<HTMLInputElement>(null);
+
+  const certificates = useMemo(() => caseData.medicalCertificates || [], [caseData.medicalCertificates]);
+  const practitioners = (caseData.stakeholders || []).filter(stakeholder => stakeholder.isActive && CERTIFYING_PRACTITIONERS.includes(stakeholder.type));
+  const medicalDocuments = caseData.documents.filter(doc => doc.category === 'medical' || doc.name.toLowerCase().includes('certificate'));
+  const timeline = medicalCertificateService.getTimeline(certificates, today()).reverse();
+  const current = medicalCertificateService.getCurrent(certificates, today());
+  const author = { id: user?.id, name: user?.name || 'Unknown user' };
+
+  // Certificates that have lapsed since they were saved are marked expired once per visit
+  useEffect(() => {
+    if (expiryRequested.current || !medicalCertificateService.needsExpiring(certificates, today())) return;
+    expiryRequested.current = true;
+    supabaseService.expireMedicalCertificates()
+      .then(expired => { if (expired > 0) onChange(); })
+      .catch(err => console.error('Failed to expire medical certificates:', err));
+  }, [certificates, onChange]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePractitionerChange = (stakeholderId: string) => {
+    const stakeholder = practitioners.find(practitioner => practitioner.id === stakeholderId);
+    setNewCertificate({ ...newCertificate, stakeholderId, doctorName: stakeholder?.name || newCertificate.doctorName });
+  };
+
+  const closeForm = () => {
+    if (scan) URL.revokeObjectURL(scan.url);
+    setScan(null);
+    setNewCertificate(emptyCertificate());
+    setIsAdding(false);
+  };
+
+  // Reads the scan into a draft certificate, shown beside the image for review before saving
+  const handleScan = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const draft = await certificateExtractionService.extract(file);
+      const { values } = draft;
+      const practitioner = practitioners.find(stakeholder => sameName(stakeholder.name, values.doctorName));
+
+      if (scan) URL.revokeObjectURL(scan.url);
+      setScan({ file, url: URL.createObjectURL(file), draft });
+      setNewCertificate({
+        ...emptyCertificate(),
+        stakeholderId: practitioner?.id || '',
+        doctorName: values.doctorName || '',
+        issueDate: values.issueDate || '',
+        startDate: values.startDate || '',
+        endDate: values.endDate || '',
+        capacity: values.capacity || 'suitable-duties',
+        hoursPerDay: values.hoursPerDay?.toString() || '',
+        daysPerWeek: values.daysPerWeek?.toString() || '',
+        restrictions: (values.restrictions || []).join('\n'),
+        recommendations: (values.recommendations || []).join('\n')
+      });
+      setIsAdding(true);
+    } catch (err: any) {
+      console.error('Failed to read certificate scan:', err);
+      setError(err.message || 'Failed to read certificate scan');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const suitableDuties = newCertificate.capacity === 'suitable-duties';
+    const hoursPerDay = parseFloat(newCertificate.hoursPerDay);
+    const daysPerWeek = parseInt(newCertificate.daysPerWeek, 10);
+
+    if (!newCertificate.doctorName.trim()) {
+      setError('Enter the issuing practitioner');
+      return;
+    }
+    if (!newCertificate.startDate || !newCertificate.endDate || newCertificate.endDate < newCertificate.startDate) {
+      setError('The certificate must end on or after the day it starts');
+      return;
+    }
+    if (suitableDuties && newCertificate.daysPerWeek && !(daysPerWeek >= 1 && daysPerWeek <= 7)) {
+      setError('Days per week must be between 1 and 7');
+      return;
+    }
+
+    run(async () => {
+      // A scanned certificate is filed with the case documents and linked to the register entry
+      const document = scan ? await supabaseService.uploadDocument(scan.file, caseData.id, 'medical') : undefined;
+      await supabaseService.addMedicalCertificate({
+        caseId: caseData.id,
+        stakeholderId: newCertificate.stakeholderId || undefined,
+        doctorName: newCertificate.doctorName.trim(),
+        issueDate: newCertificate.issueDate || undefined,
+        startDate: newCertificate.startDate,
+        endDate: newCertificate.endDate,
+        capacity: newCertificate.capacity,
+        hoursPerDay: suitableDuties && hoursPerDay > 0 ? hoursPerDay : undefined,
+        daysPerWeek: suitableDuties && daysPerWeek > 0 ? daysPerWeek : undefined,
+        restrictions: medicalCertificateService.parseList(newCertificate.restrictions),
+        recommendations: medicalCertificateService.parseList(newCertificate.recommendations),
+        documentId: document?.id || newCertificate.documentId || undefined,
+        notes: newCertificate.notes.trim() || undefined
+      }, author);
+      closeForm();
+    }, 'Failed to add medical certificate');
+  };
+
+  const handleDelete = (certificate: MedicalCertificate) => {
+    if (!window.confirm(`Delete the certificate from ${certificate.doctorName} for ${format(parseISO(certificate.startDate), 'dd/MM/yyyy')} to ${format(parseISO(certificate.endDate), 'dd/MM/yyyy')}?`)) return;
+    run(() => supabaseService.deleteMedicalCertificate(certificate.id), 'Failed to delete medical certificate');
+  };
+
+  const inputClass = 'w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm';
+  // Fields read from a scan without confidence are highlighted for checking against the image
+  const fieldClass = (field: CertificateField) => scan?.draft.lowConfidence.includes(field)
+    ? 'w-full rounded-md border border-warning-400 bg-warning-50 shadow-sm px-3 py-2 text-sm'
+    : inputClass;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <FileCheck className="h-5 w-5 text-primary-500" />
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Certificates of Capacity</h3>
+            <p className="text-sm text-gray-500">
+              {current
+                ? `Currently certified: ${medicalCertificateService.describeCapacity(current)} until ${format(parseISO(current.endDate), 'dd/MM/yyyy')}`
+                : 'No certificate covers today'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            ref={scanInput}
+            type="file"
+            accept="image/*,.pdf"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleScan(file);
+            }}
+          />
+          <button
+            onClick={() => scanInput.current?.click()}
+            disabled={isReading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isReading ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <ScanLine className="h-4 w-4 mr-2" />}
+            {isReading ? 'Reading...' : 'Import from Scan'}
+          </button>
+          <button
+            onClick={() => isAdding ? closeForm() : setIsAdding(true)}
+            className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Certificate
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>
+      )}
+
+      {isAdding && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4 bg-gray-50">
+          {scan && (
+            <div className={`p-3 rounded-md text-sm border ${scan.draft.lowConfidence.length > 0 ? 'bg-warning-50 border-warning-200 text-warning-800' : 'bg-success-50 border-success-200 text-success-700'}`}>
+              {scan.draft.form ? `Read as a ${scan.draft.form}` : 'No standard certificate form was recognised'}
+              {scan.draft.source === 'ai' && ', with AI assistance'}
+              {scan.draft.ocrConfidence !== undefined && ` (OCR confidence ${Math.round(scan.draft.ocrConfidence)}%)`}.{' '}
+              {scan.draft.lowConfidence.length > 0
+                ? `${scan.draft.lowConfidence.length} highlighted field${scan.draft.lowConfidence.length === 1 ? ' was' : 's were'} not read with confidence. Check ${scan.draft.lowConfidence.length === 1 ? 'it' : 'them'} against the scan before saving.`
+                : 'Check the details against the scan before saving.'}
+            </div>
+          )}
+
+          <div className={scan ? 'grid grid-cols-1 lg:grid-cols-2 gap-4' : ''}>
+            {scan && (
+              <div className="border border-gray-200 rounded-md bg-white overflow-hidden">
+                {scan.file.type === 'application/pdf' ? (
+                  <iframe src={scan.url} title="Scanned certificate" className="w-full h-[640px]" />
+                ) : (
+                  <img src={scan.url} alt="Scanned certificate" className="w-full max-h-[640px] object-contain" />
+                )}
+              </div>
+            )}
+
+            <div className={`grid grid-cols-1 ${scan ? 'md:grid-cols-2' : 'md:grid-cols-3'} gap-4 content-start`}>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Issuing practitioner</label>
+                <input
+                  type="text"
+                  value={newCertificate.doctorName}
+                  onChange={(e) => setNewCertificate({ ...newCertificate, doctorName: e.target.value })}
+                  placeholder="Name on the certificate"
+                  className={fieldClass('doctorName')}
+                />
+              </div>
+              {practitioners.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Stakeholder</label>
+                  <select value={newCertificate.stakeholderId} onChange={(e) => handlePractitionerChange(e.target.value)} className={inputClass}>
+                    <option value="">Not linked</option>
+                    {practitioners.map(practitioner => (
+                      <option key={practitioner.id} value={practitioner.id}>
+                        {practitioner.name}{practitioner.organization ? ` (${practitioner.organization})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+                <select
+                  value={newCertificate.capacity}
+                  onChange={(e) => setNewCertificate({ ...newCertificate, capacity: e.target.value as WorkCapacity })}
+                  className={fieldClass('capacity')}
+                >
+                  {WORK_CAPACITIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date issued</label>
+                <input type="date" value={newCertificate.issueDate} onChange={(e) => setNewCertificate({ ...newCertificate, issueDate: e.target.value })} className={fieldClass('issueDate')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" value={newCertificate.startDate} onChange={(e) => setNewCertificate({ ...newCertificate, startDate: e.target.value })} className={fieldClass('startDate')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" value={newCertificate.endDate} onChange={(e) => setNewCertificate({ ...newCertificate, endDate: e.target.value })} className={fieldClass('endDate')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Certificate document</label>
+                {scan ? (
+                  <p className="px-3 py-2 text-sm text-gray-600">{scan.file.name} will be saved to the case documents</p>
+                ) : (
+                  <select value={newCertificate.documentId} onChange={(e) => setNewCertificate({ ...newCertificate, documentId: e.target.value })} className={inputClass}>
+                    <option value="">Not uploaded</option>
+                    {medicalDocuments.map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+                  </select>
+                )}
+              </div>
+              {newCertificate.capacity === 'suitable-duties' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Hours per day</label>
+                    <input type="number" min="0.5" max="24" step="0.5" value={newCertificate.hoursPerDay} onChange={(e) => setNewCertificate({ ...newCertificate, hoursPerDay: e.target.value })} className={fieldClass('hoursPerDay')} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Days per week</label>
+                    <input type="number" min="1" max="7" step="1" value={newCertificate.daysPerWeek} onChange={(e) => setNewCertificate({ ...newCertificate, daysPerWeek: e.target.value })} className={fieldClass('daysPerWeek')} />
+                  </div>
+                </>
+              )}
+              <div className="md:col-span-full">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input type="text" value={newCertificate.notes} onChange={(e) => setNewCertificate({ ...newCertificate, notes: e.target.value })} className={inputClass} />
+              </div>
+              <div className="md:col-span-full grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Restrictions (one per line)</label>
+                  <textarea rows={scan ? 5 : 3} value={newCertificate.restrictions} onChange={(e) => setNewCertificate({ ...newCertificate, restrictions: e.target.value })} placeholder="No lifting over 5kg" className={fieldClass('restrictions')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Recommendations (one per line)</label>
+                  <textarea rows={scan ? 5 : 3} value={newCertificate.recommendations} onChange={(e) => setNewCertificate({ ...newCertificate, recommendations: e.target.value })} placeholder="Physiotherapy twice weekly" className={fieldClass('recommendations')} />
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button onClick={closeForm} className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={isSaving}
+              className="px-3 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              Save Certificate
+            </button>
+          </div>
+        </div>
+      )}
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-gray-500">No certificates of capacity recorded.</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+          {timeline.map(({ certificate, status, gapDaysBefore, overlapsPrevious }) => {
+            const document = caseData.documents.find(doc => doc.id === certificate.documentId);
+            const isCurrent = certificate.id === current?.id;
+
+            return (
+              <li key={certificate.id} className="ml-6">
+                <span className={`absolute -left-[7px] mt-4 h-3 w-3 rounded-full ring-4 ring-white ${status === 'expired' ? 'bg-gray-300' : CAPACITY_DOTS[certificate.capacity]}`} />
+                <div className={`border rounded-lg p-4 ${isCurrent ? 'border-primary-300 bg-primary-50' : 'border-gray-200'} ${status === 'expired' ? 'opacity-75' : ''}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h4 className="font-medium text-gray-900">
+                        {format(parseISO(certificate.startDate), 'dd MMM yyyy')} – {format(parseISO(certificate.endDate), 'dd MMM yyyy')}
+                      </h4>
+                      <p className="text-sm text-gray-500">
+                        {certificate.doctorName}
+                        {certificate.issueDate && ` • issued ${format(parseISO(certificate.issueDate), 'dd/MM/yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${CAPACITY_STYLES[certificate.capacity]}`}>
+                        {medicalCertificateService.describeCapacity(certificate)}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${status === 'expired' ? 'bg-gray-200 text-gray-700' : 'bg-success-100 text-success-700'}`}>
+                        {isCurrent ? 'Current' : status === 'expired' ? 'Expired' : 'Active'}
+                      </span>
+                      <button onClick={() => handleDelete(certificate)} className="text-gray-400 hover:text-error-600" title="Delete certificate">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {(certificate.restrictions.length > 0 || certificate.recommendations.length > 0) && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 text-sm">
+                      {certificate.restrictions.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-gray-500 uppercase">Restrictions</p>
+                          <ul className="list-disc list-inside text-gray-700">
+                            {certificate.restrictions.map(restriction => <li key={restriction}>{restriction}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                      {certificate.recommendations.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-gray-500 uppercase">Recommendations</p>
+                          <ul className="list-disc list-inside text-gray-700">
+                            {certificate.recommendations.map(recommendation => <li key={recommendation}>{recommendation}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {certificate.notes && <p className="text-sm text-gray-600 mt-2">{certificate.notes}</p>}
+
+                  {document && (
+                    <a href={document.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700 mt-2">
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      {document.name}
+                    </a>
+                  )}
+                </div>
+
+                {gapDaysBefore > 0 && (
+                  <p className="mt-2 text-xs text-error-700 flex items-center">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {gapDaysBefore} uncertified day{gapDaysBefore === 1 ? '' : 's'} before this certificate
+                  </p>
+                )}
+                {overlapsPrevious && (
+                  <p className="mt-2 text-xs text-gray-500">Overlaps the previous certificate</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default MedicalCertificateRegister;
@@ -1,19 +1,33 @@
 import React, { useState } from 'react';
-import { Target, Plus, Edit3, Trash2, CheckCircle, Clock, AlertTriangle, Calendar, User, FileText, MessageSquare, Save, X, Flag, TrendingUp, Activity, Users, Briefcase } from 'lucide-react';
+import { Target, Plus, Edit3, Trash2, CheckCircle, Clock, AlertTriangle, Calendar, User, FileText, MessageSquare, Save, X, Flag, TrendingUp, Activity, Users, Briefcase, ShieldAlert } from 'lucide-react';
 import { format, parseISO, isToday, isTomorrow, isPast, addDays, addWeeks, differenceInDays } from 'date-fns';
-import { RtwPlan, Task } from '../../types';
+import { Case, RtwPlan, RtwPlanWeekHours, Task, Weekday } from '../../types';
 import { useAuthStore } from '../../store/authStore';
-import { PDFDocument } from 'pdf-lib';
 import { useAISettingsStore } from '../../store/aiSettingsStore';
 import { aiService } from '../../services/aiService';
+import { rtwPlanConflictService } from '../../services/rtwPlanConflictService';
+import { medicalCertificateService } from '../../services/medicalCertificateService';
+import { rtwPlanTemplateService } from '../../services/rtwPlanTemplateService';
+import { rtwPlanService, NewRtwPlanDetails } from '../../services/rtwPlanService';
 
 interface RTWPlanManagerProps {
   rtwPlan: RtwPlan;
   caseId: string;
   workerName: string;
+  caseData: Case;
   onUpdate: (rtwPlan: RtwPlan) => void;
+  onStartNewPlan: (plans: Pick<Case, 'rtwPlan' | 'rtwPlanHistory'>) => void;
 }
 
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const PLAN_STATUS_STYLES: Record<RtwPlan['status'], string> = {
+  draft: 'bg-warning-100 text-warning-700',
+  active: 'bg-success-100 text-success-700',
+  completed: 'bg-gray-100 text-gray-700',
+  superseded: 'bg-gray-100 text-gray-500'
+};
+
 interface RTWNote {
   id: string;
   content: string;
@@ -33,9 +47,9 @@ interface RTWMilestone {
   type: 'medical' | 'functional' | 'workplace' | 'administrative';
 }
 
-const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, workerName, onUpdate }) => {
+const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, workerName, caseData, onUpdate, onStartNewPlan }) => {
   const { user } = useAuthStore();
-  const [activeSection, setActiveSection] = useState<'overview' | 'tasks' | 'milestones' | 'notes' | 'progress' | 'barriers'>('overview');
+  const [activeSection, setActiveSection] = useState<'overview' | 'hours' | 'plans' | 'tasks' | 'milestones' | 'notes' | 'progress' | 'barriers'>('overview');
   const [isAddingTask, setIsAddingTask] = useState(false);
   const [isAddingMilestone, setIsAddingMilestone] = useState(false);
   const [isAddingNote, setIsAddingNote] = useState(false);
@@ -94,10 +108,28 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
   });
 
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [hoursDraft, setHoursDraft] = useState<RtwPlanWeekHours[] | null>(null);
+  const [newPlan, setNewPlan] = useState<NewRtwPlanDetails | null>(null);
+  const [pdfNotice, setPdfNotice] = useState<{ template: string; unmappedFields: string[]; emptyFields: string[] } | null>(null);
   const [barrierAnalysis, setBarrierAnalysis] = useState<any>({});
   const [isAnalyzingBarriers, setIsAnalyzingBarriers] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+
+  const capacityCheck = rtwPlanConflictService.check(rtwPlan, caseData.medicalCertificates || []);
+  const blockingConflicts = rtwPlanConflictService.getBlocking(capacityCheck);
+  const isOverridden = blockingConflicts.length > 0 && rtwPlanConflictService.isOverridden(rtwPlan, capacityCheck);
   const { selectedModel } = useAISettingsStore();
 
+  // Every save of an active plan is checked again, so an edit that takes it over the certified
+  // capacity unpublishes it rather than leaving it active
+  const savePlan = (plan: RtwPlan) => {
+    const { plan: saved, unpublished } = rtwPlanConflictService.enforce(plan, caseData.medicalCertificates || []);
+    if (unpublished) {
+      setStatusError('The plan no longer fits the certified capacity and has been moved back to draft. Resolve the conflicts below or override them to publish it again.');
+    }
+    onUpdate(saved);
+  };
+
   const flagCategories = [
     {
       color: 'red',
@@ -126,112 +158,29 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
     }
   ];
 
-  // Helper to fetch the fillable PDF template
-  const fetchTemplate = async () => {
-    const response = await fetch('/Return-work-plan-vic.pdf');
-    if (!response.ok) throw new Error('Failed to fetch PDF template');
-    return new Uint8Array(await response.arrayBuffer());
-  };
+  // Schemes whose plan form has not been added yet cannot produce a PDF
+  const planTemplate = rtwPlanTemplateService.getTemplate(caseData.jurisdiction);
+  const pdfUnsupported = rtwPlanTemplateService.isSupported(caseData.jurisdiction)
+    ? undefined
+    : `The ${planTemplate.jurisdiction} ${planTemplate.title} form is not supported yet`;
 
-  // Placeholder: Generate field values for the PDF using the RTW plan and case data
-  const generateFieldMapping = async () => {
-    // Map your RTW plan/case data to the PDF field numbers
-    // Add more logic as your data model grows
-    return {
-      1: workerName,
-      2: rtwPlan.claimNumber || '',
-      3: rtwPlan.preInjuryJobTitle || '',
-      4: rtwPlan.preInjuryWorkHours || '',
-      5: rtwPlan.preInjuryLocation || '',
-      6: rtwPlan.employerName || '',
-      7: rtwPlan.dutiesToBeUndertaken || '',
-      8: rtwPlan.supportsOrModifications || '',
-      9: rtwPlan.dutiesToBeAvoided || '',
-      10: rtwPlan.medicalRestrictions || '',
-      11: rtwPlan.hoursOfWork?.week1?.monday || '',
-      12: rtwPlan.hoursOfWork?.week1?.tuesday || '',
-      13: rtwPlan.hoursOfWork?.week1?.wednesday || '',
-      14: rtwPlan.hoursOfWork?.week1?.thursday || '',
-      15: rtwPlan.hoursOfWork?.week1?.friday || '',
-      16: rtwPlan.hoursOfWork?.week1?.saturday || '',
-      17: rtwPlan.hoursOfWork?.week1?.sunday || '',
-      18: rtwPlan.hoursOfWork?.week1?.total || '',
-      19: rtwPlan.hoursOfWork?.week2?.monday || '',
-      20: rtwPlan.hoursOfWork?.week2?.tuesday || '',
-      21: rtwPlan.hoursOfWork?.week2?.wednesday || '',
-      22: rtwPlan.hoursOfWork?.week2?.thursday || '',
-      23: rtwPlan.hoursOfWork?.week2?.friday || '',
-      24: rtwPlan.hoursOfWork?.week2?.saturday || '',
-      25: rtwPlan.hoursOfWork?.week2?.sunday || '',
-      26: rtwPlan.hoursOfWork?.week2?.total || '',
-      27: rtwPlan.hoursOfWork?.week3?.monday || '',
-      28: rtwPlan.hoursOfWork?.week3?.tuesday || '',
-      29: rtwPlan.hoursOfWork?.week3?.wednesday || '',
-      30: rtwPlan.hoursOfWork?.week3?.thursday || '',
-      31: rtwPlan.hoursOfWork?.week3?.friday || '',
-      32: rtwPlan.hoursOfWork?.week3?.saturday || '',
-      33: rtwPlan.hoursOfWork?.week3?.sunday || '',
-      34: rtwPlan.hoursOfWork?.week3?.total || '',
-      35: rtwPlan.hoursOfWork?.week4?.monday || '',
-      36: rtwPlan.hoursOfWork?.week4?.tuesday || '',
-      37: rtwPlan.hoursOfWork?.week4?.wednesday || '',
-      38: rtwPlan.hoursOfWork?.week4?.thursday || '',
-      39: rtwPlan.hoursOfWork?.week4?.friday || '',
-      40: rtwPlan.hoursOfWork?.week4?.saturday || '',
-      41: rtwPlan.hoursOfWork?.week4?.sunday || '',
-      42: rtwPlan.hoursOfWork?.week4?.total || '',
-      43: rtwPlan.workLocation || '',
-      44: rtwPlan.startDate || '',
-      45: rtwPlan.supervisorDetails || '',
-      46: rtwPlan.reviewDate || '',
-      47: rtwPlan.preparedBy || '',
-      48: rtwPlan.preparedOn || '',
-      49: rtwPlan.workerDetails?.name || '',
-      50: rtwPlan.workerDetails?.phone || '',
-      51: '', // Signature fields are not filled programmatically
-      52: rtwPlan.workerDetails?.date || '',
-      53: rtwPlan.coordinatorDetails?.name || '',
-      54: rtwPlan.coordinatorDetails?.phone || '',
-      55: '',
-      56: rtwPlan.coordinatorDetails?.date || '',
-      57: rtwPlan.supervisorDetailsObj?.name || '',
-      58: rtwPlan.supervisorDetailsObj?.phone || '',
-      59: '',
-      60: rtwPlan.supervisorDetailsObj?.date || '',
-      61: rtwPlan.healthPractitioner?.name || '',
-      62: rtwPlan.healthPractitioner?.phone || '',
-      63: '',
-      64: rtwPlan.healthPractitioner?.date || '',
-      65: rtwPlan.additionalNotes || '',
-    };
-  };
-
-  // Fill the PDF and trigger download
-  const handleGeneratePDF = async () => {
+  // Fill the jurisdiction's plan template and trigger download
+  const handleGeneratePDF = async (plan: RtwPlan) => {
     setIsGeneratingPDF(true);
+    setPdfNotice(null);
     try {
-      const templateBytes = await fetchTemplate();
-      const pdfDoc = await PDFDocument.load(templateBytes);
-      const form = pdfDoc.getForm();
-      const fieldMapping = await generateFieldMapping();
-      Object.entries(fieldMapping).forEach(([field, value]) => {
-        try {
-          form.getTextField(field).setText(String(value));
-        } catch (e) {
-          // Field not found, ignore
-        }
-      });
-      form.flatten();
-      const pdfBytes = await pdfDoc.save();
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+      const { blob, template, unmappedFields, emptyFields } = await rtwPlanTemplateService.generate(plan, caseData);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'RTW-Plan-Filled.pdf';
+      a.download = `RTW-Plan-${template.jurisdiction}-${caseData.claimNumber}${plan.sequence ? `-${plan.sequence}` : ''}.pdf`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
+      if (unmappedFields.length > 0 || emptyFields.length > 0) {
+        setPdfNotice({ template: `${template.jurisdiction} ${template.title}`, unmappedFields, emptyFields });
+      }
     } catch (err) {
       alert('Failed to generate PDF. Make sure the template exists and has the correct fields.');
     } finally {
@@ -239,6 +188,28 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
     }
   };
 
+  // Edits to the hours grid are held locally until saved, so typing does not save every keystroke
+  const hours = hoursDraft || rtwPlanService.getHours(rtwPlan);
+
+  const handleHoursChange = (index: number, day: Weekday, value: string) => {
+    setHoursDraft(hours.map((week, i) => (i === index ? { ...week, [day]: value, total: undefined } : week)));
+  };
+
+  const handleSaveHours = () => {
+    savePlan({
+      ...rtwPlan,
+      hoursOfWork: hours.map(week => ({ ...week, total: rtwPlanTemplateService.getWeekTotal(week) || undefined }))
+    });
+    setHoursDraft(null);
+  };
+
+  const handleStartNewPlan = () => {
+    if (!newPlan || !newPlan.title.trim() || newPlan.endDate < newPlan.startDate) return;
+    onStartNewPlan(rtwPlanService.startNewPlan(caseData, newPlan));
+    setNewPlan(null);
+    setHoursDraft(null);
+  };
+
   const handleAddTask = () => {
     if (!newTask.title.trim()) return;
 
@@ -256,7 +227,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       tasks: [...rtwPlan.tasks, task]
     };
 
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
     setNewTask({
       title: '',
       description: '',
@@ -276,7 +247,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       tasks: updatedTasks
     };
 
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
     setEditingTask(null);
   };
 
@@ -286,7 +257,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       ...rtwPlan,
       tasks: updatedTasks
     };
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
   };
 
   const handleAddGoal = () => {
@@ -297,7 +268,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       goals: [...rtwPlan.goals, newGoal]
     };
 
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
     setNewGoal('');
   };
 
@@ -311,7 +282,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       goals: updatedGoals
     };
 
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
     setEditingGoal(null);
   };
 
@@ -321,7 +292,7 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
       ...rtwPlan,
       goals: updatedGoals
     };
-    onUpdate(updatedPlan);
+    savePlan(updatedPlan);
   };
 
   const handleAddMilestone = () => {
@@ -469,6 +440,8 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
 
   const sections = [
     { id: 'overview', label: 'Overview', icon: <Target className="h-4 w-4" /> },
+    { id: 'hours', label: 'Hours of Work', icon: <Clock className="h-4 w-4" />, count: hours.length },
+    { id: 'plans', label: 'Plans', icon: <FileText className="h-4 w-4" />, count: rtwPlanService.getPlans(caseData).length },
     { id: 'tasks', label: 'Tasks', icon: <CheckCircle className="h-4 w-4" />, count: rtwPlan.tasks.filter(t => !t.completed).length },
     { id: 'milestones', label: 'Milestones', icon: <Flag className="h-4 w-4" />, count: milestones.filter(m => !m.completed).length },
     { id: 'notes', label: 'RTW Notes', icon: <MessageSquare className="h-4 w-4" />, count: rtwNotes.length },
@@ -476,6 +449,22 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
     { id: 'barriers', label: 'RTW Barriers', icon: <AlertTriangle className="h-4 w-4 text-warning-600" /> },
   ];
 
+  // Records who accepted the current blocking conflicts and why, so the plan can be published
+  const handleOverrideConflicts = () => {
+    const reason = window.prompt('Reason for publishing the plan despite the capacity conflicts:');
+    if (!reason?.trim()) return;
+    setStatusError(null);
+    savePlan({
+      ...rtwPlan,
+      capacityOverride: {
+        conflictIds: blockingConflicts.map(conflict => conflict.id),
+        reason: reason.trim(),
+        overriddenBy: user?.name || 'Unknown user',
+        overriddenAt: new Date().toISOString()
+      }
+    });
+  };
+
   const handleAnalyzeBarriers = async () => {
     setIsAnalyzingBarriers(true);
     setBarrierAnalysis({});
@@ -513,8 +502,9 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
         </div>
         <div className="flex items-center space-x-3">
           <button
-            onClick={handleGeneratePDF}
-            disabled={isGeneratingPDF}
+            onClick={() => handleGeneratePDF(rtwPlan)}
+            disabled={isGeneratingPDF || !!pdfUnsupported}
+            title={pdfUnsupported}
             className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
           >
             {isGeneratingPDF ? 'Generating PDF...' : 'Generate RTW Plan PDF'}
@@ -543,6 +533,23 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
         </div>
       </div>
 
+      {pdfNotice && (
+        <div className="p-4 bg-warning-50 border border-warning-200 rounded-md text-sm text-warning-800 flex items-start justify-between">
+          <div className="space-y-1">
+            <p className="font-medium">{pdfNotice.template} generated with gaps</p>
+            {pdfNotice.unmappedFields.length > 0 && (
+              <p>Template fields left unmapped: {pdfNotice.unmappedFields.join(', ')}</p>
+            )}
+            {pdfNotice.emptyFields.length > 0 && (
+              <p>No value recorded for: {pdfNotice.emptyFields.join(', ')}</p>
+            )}
+          </div>
+          <button onClick={() => setPdfNotice(null)} className="text-warning-600 hover:text-warning-800">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Plan Status */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-100">
         <div className="p-6 border-b border-gray-200">
@@ -567,10 +574,13 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
                 value={rtwPlan.status}
                 onChange={e => {
                   const value = e.target.value;
+                  setStatusError(null);
                   if (value === 'on hold') {
-                    onUpdate({ ...rtwPlan, status: 'draft' });
+                    savePlan({ ...rtwPlan, status: 'draft' });
+                  } else if (value === 'active' && !rtwPlanConflictService.canActivate(rtwPlan, capacityCheck)) {
+                    setStatusError('The plan exceeds the certified capacity. Resolve the conflicts below or override them before publishing.');
                   } else {
-                    onUpdate({ ...rtwPlan, status: value as 'draft' | 'active' | 'completed' });
+                    savePlan({ ...rtwPlan, status: value as 'draft' | 'active' | 'completed' });
                   }
                 }}
                 className="ml-2 rounded border border-gray-300 px-2 py-1 text-sm bg-white focus:ring-primary-500 focus:border-primary-500"
@@ -584,6 +594,59 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
           </div>
         </div>
 
+        {/* Capacity Check */}
+        <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <ShieldAlert className={`h-5 w-5 mr-2 ${blockingConflicts.length > 0 && !isOverridden ? 'text-error-600' : capacityCheck.conflicts.length > 0 ? 'text-warning-600' : 'text-success-600'}`} />
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Capacity Check</h4>
+                <p className="text-xs text-gray-500">
+                  {capacityCheck.certificate
+                    ? `Against ${medicalCertificateService.describeCapacity(capacityCheck.certificate)} from ${capacityCheck.certificate.doctorName}, ${format(parseISO(capacityCheck.certificate.startDate), 'dd/MM/yyyy')} to ${format(parseISO(capacityCheck.certificate.endDate), 'dd/MM/yyyy')}`
+                    : 'No certificate of capacity covers this plan'}
+                </p>
+              </div>
+            </div>
+            {blockingConflicts.length > 0 && !isOverridden && (
+              <button
+                onClick={handleOverrideConflicts}
+                className="px-3 py-1.5 text-xs font-medium border border-error-300 text-error-700 rounded-md hover:bg-error-50"
+              >
+                Override Conflicts
+              </button>
+            )}
+          </div>
+
+          {statusError && (
+            <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{statusError}</div>
+          )}
+
+          {capacityCheck.conflicts.length === 0 ? (
+            <p className="text-sm text-success-700">Planned hours and duties are within the certified capacity and restrictions.</p>
+          ) : (
+            <ul className="space-y-1">
+              {capacityCheck.conflicts.map(conflict => (
+                <li key={conflict.id} className={`flex items-start text-sm ${conflict.severity === 'blocking' ? 'text-error-700' : 'text-warning-700'}`}>
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {conflict.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isOverridden && rtwPlan.capacityOverride && (
+            <div className="flex items-start justify-between p-3 bg-warning-50 border border-warning-200 rounded-md text-sm text-warning-800">
+              <span>
+                Conflicts overridden by {rtwPlan.capacityOverride.overriddenBy} on {format(parseISO(rtwPlan.capacityOverride.overriddenAt), 'dd/MM/yyyy')}: {rtwPlan.capacityOverride.reason}
+              </span>
+              <button onClick={() => savePlan({ ...rtwPlan, capacityOverride: undefined })} className="ml-4 text-xs font-medium text-warning-700 hover:text-warning-900 whitespace-nowrap">
+                Remove override
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Section Navigation */}
         <div className="border-b border-gray-200">
           <nav className="flex space-x-8 px-6">
@@ -768,6 +831,185 @@ const RTWPlanManager: React.FC<RTWPlanManagerProps> = ({ rtwPlan, caseId, worker
             </div>
           )}
 
+          {activeSection === 'hours' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="text-lg font-medium">Hours of Work</h4>
+                  <p className="text-sm text-gray-500">
+                    {hours.length} week{hours.length === 1 ? '' : 's'} from {format(parseISO(rtwPlan.startDate), 'dd/MM/yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setHoursDraft([...hours, { ...hours[hours.length - 1] }])}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Plus className="h-4 w-4 inline mr-1" />
+                    Add Week
+                  </button>
+                  <button
+                    onClick={() => setHoursDraft(hours.slice(0, -1))}
+                    disabled={hours.length <= 1}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4 inline mr-1" />
+                    Remove Last Week
+                  </button>
+                  {hoursDraft && (
+                    <>
+                      <button
+                        onClick={() => setHoursDraft(null)}
+                        className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSaveHours}
+                        className="px-3 py-2 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700"
+                      >
+                        <Save className="h-4 w-4 inline mr-1" />
+                        Save Hours
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Week</th>
+                      {WEEKDAYS.map(day => (
+                        <th key={day} className="px-2 py-2 text-left font-medium text-gray-500 capitalize">{day.slice(0, 3)}</th>
+                      ))}
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {hours.map((week, index) => (
+                      <tr key={index}>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <div className="font-medium text-gray-900">Week {index + 1}</div>
+                          <div className="text-xs text-gray-500">{format(addWeeks(parseISO(rtwPlan.startDate), index), 'dd MMM')}</div>
+                        </td>
+                        {WEEKDAYS.map(day => (
+                          <td key={day} className="px-2 py-2">
+                            <input
+                              type="text"
+                              value={week[day] || ''}
+                              onChange={(e) => handleHoursChange(index, day, e.target.value)}
+                              className="w-16 rounded border border-gray-300 px-2 py-1 text-sm"
+                              placeholder="0"
+                            />
+                          </td>
+                        ))}
+                        <td className="px-3 py-2 text-right font-medium">{rtwPlanTemplateService.getWeekTotal(week) || '0'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {hours.length !== rtwPlanService.getWeekCount(rtwPlan) && (
+                <p className="text-sm text-warning-700">
+                  The plan dates cover {rtwPlanService.getWeekCount(rtwPlan)} weeks but {hours.length} are scheduled.
+                </p>
+              )}
+            </div>
+          )}
+
+          {activeSection === 'plans' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-lg font-medium">RTW Plans</h4>
+                {!newPlan && (
+                  <button
+                    onClick={() => setNewPlan(rtwPlanService.getDefaultDetails(caseData))}
+                    className="px-3 py-2 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700"
+                  >
+                    <Plus className="h-4 w-4 inline mr-1" />
+                    Start New Plan
+                  </button>
+                )}
+              </div>
+
+              {newPlan && (
+                <div className="border border-primary-200 bg-primary-50 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-primary-800">
+                    {rtwPlan.title} will be superseded. Its details, open tasks and final week of hours carry over to the new plan as a draft.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <input
+                      type="text"
+                      value={newPlan.title}
+                      onChange={(e) => setNewPlan({ ...newPlan, title: e.target.value })}
+                      placeholder="Plan title"
+                      className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    />
+                    {(['startDate', 'endDate', 'reviewDate'] as const).map(field => (
+                      <div key={field}>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          {field === 'startDate' ? 'Start date' : field === 'endDate' ? 'End date' : 'Review date'}
+                        </label>
+                        <input
+                          type="date"
+                          value={newPlan[field]}
+                          onChange={(e) => setNewPlan({ ...newPlan, [field]: e.target.value })}
+                          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {newPlan.endDate < newPlan.startDate && (
+                    <p className="text-sm text-error-700">The end date must be on or after the start date.</p>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <button onClick={() => setNewPlan(null)} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleStartNewPlan}
+                      disabled={!newPlan.title.trim() || newPlan.endDate < newPlan.startDate}
+                      className="px-3 py-2 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      Start Plan
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {rtwPlanService.getPlans(caseData).reverse().map((plan, index, plans) => (
+                  <div key={plan.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{plan.title}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${PLAN_STATUS_STYLES[plan.status] || PLAN_STATUS_STYLES.draft}`}>
+                          {plan.status}
+                        </span>
+                        {index === 0 && <span className="text-xs text-primary-600">Current</span>}
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Plan {plan.sequence || plans.length - index} • {format(parseISO(plan.startDate), 'dd/MM/yyyy')} - {format(parseISO(plan.endDate), 'dd/MM/yyyy')} • {(plan.hoursOfWork || []).length} weeks of hours
+                        {plan.supersededAt && ` • Superseded ${format(parseISO(plan.supersededAt), 'dd/MM/yyyy')}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleGeneratePDF(plan)}
+                      disabled={isGeneratingPDF || !!pdfUnsupported}
+                      title={pdfUnsupported}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <FileText className="h-4 w-4 inline mr-1" />
+                      PDF
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {activeSection === 'tasks' && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
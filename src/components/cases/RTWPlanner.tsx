@@ -17,9 +17,12 @@ import {
   Mail,
   X
 } from 'lucide-react';
+import { format } from 'date-fns';
 import { aiService } from '../../services/aiService';
+import { medicalCertificateService } from '../../services/medicalCertificateService';
+import { rtwScheduleService, RtwRampProfile, RTW_RAMP_PROFILES } from '../../services/rtwScheduleService';
 import { useAISettingsStore } from '../../store/aiSettingsStore';
-import { Case } from '../../types';
+import { Case, RtwPlanWeekHours, Weekday } from '../../types';
 
 interface RTWPlannerProps {
   caseData: Case;
@@ -27,6 +30,10 @@ interface RTWPlannerProps {
   onPopulateFromAI?: (data: Partial<RTWFormData>) => void;
 }
 
+interface WeekHours {
+  mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string;
+}
+
 interface RTWFormData {
   workerName: string;
   claimNumber: string;
@@ -38,18 +45,7 @@ interface RTWFormData {
   workplaceSupports: string;
   dutiesToAvoid: string;
   medicalRestrictions: string;
-  week1Hours: {
-    mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string;
-  };
-  week2Hours: {
-    mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string;
-  };
-  week3Hours: {
-    mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string;
-  };
-  week4Hours: {
-    mon: string; tue: string; wed: string; thu: string; fri: string; sat: string; sun: string; total: string;
-  };
+  weekHours: WeekHours[];
   workLocationAddress: string;
   startDate: string;
   supervisorName: string;
@@ -76,6 +72,25 @@ interface RTWFormData {
   notes: string;
 }
 
+interface ScheduleOptions {
+  profile: RtwRampProfile;
+  startPercent: string;
+  hoursPerDay: string;
+  daysPerWeek: string;
+  rosteredDays: Weekday[];
+  targetDate: string;
+}
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// The form keys each day by its first three letters
+const toFormWeek = (week: RtwPlanWeekHours): WeekHours => ({
+  ...(Object.fromEntries(WEEKDAYS.map(day => [day.slice(0, 3), week[day] || ''])) as Omit<WeekHours, 'total'>),
+  total: week.total || ''
+});
+
+const EMPTY_WEEK: WeekHours = { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' };
+
 export interface RTWPlannerRef {
   populateFromAI: (data: Partial<RTWFormData>) => void;
 }
@@ -92,10 +107,7 @@ const RTWPlanner = forwardRef<RTWPlannerRef, RTWPlannerProps>(({ caseData, onClo
     workplaceSupports: '',
     dutiesToAvoid: '',
     medicalRestrictions: '',
-    week1Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-    week2Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-    week3Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
-    week4Hours: { mon: '', tue: '', wed: '', thu: '', fri: '', sat: '', sun: '', total: '' },
+    weekHours: Array.from({ length: 4 }, () => ({ ...EMPTY_WEEK })),
     workLocationAddress: '',
     startDate: '',
     supervisorName: '',
@@ -125,8 +137,20 @@ const RTWPlanner = forwardRef<RTWPlannerRef, RTWPlannerProps>(({ caseData, onClo
   const [isLoading, setIsLoading] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
   const [isPopulatedFromAI, setIsPopulatedFromAI] = useState(false);
+  const [scheduleOptions, setScheduleOptions] = useState<ScheduleOptions>({
+    profile: 'linear',
+    startPercent: '50',
+    hoursPerDay: '',
+    daysPerWeek: '5',
+    rosteredDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    targetDate: caseData.rtwPlan?.endDate || ''
+  });
+  const [scheduleNotes, setScheduleNotes] = useState<string[]>([]);
   const { isConnected } = useAISettingsStore();
 
+  const scheduleStart = formData.startDate || format(new Date(), 'yyyy-MM-dd');
+  const scheduleCertificate = medicalCertificateService.getCurrent(caseData.medicalCertificates || [], scheduleStart);
+
   useEffect(() => {
     // Pre-fill form with case data
     if (caseData) {
@@ -155,16 +179,47 @@ const RTWPlanner = forwardRef<RTWPlannerRef, RTWPlannerProps>(({ caseData, onClo
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleWeekHoursChange = (week: 'week1Hours' | 'week2Hours' | 'week3Hours' | 'week4Hours', day: string, value: string) => {
+  const toggleRosteredDay = (day: Weekday) => {
+    setScheduleOptions(prev => ({
+      ...prev,
+      rosteredDays: prev.rosteredDays.includes(day) ? prev.rosteredDays.filter(d => d !== day) : [...prev.rosteredDays, day]
+    }));
+  };
+
+  // Replace the hours grid with the ramp, one row per week up to the target date
+  const handleGenerateSchedule = () => {
+    const schedule = rtwScheduleService.generate({
+      startDate: scheduleStart,
+      targetDate: scheduleOptions.targetDate || scheduleStart,
+      preInjuryHoursPerDay: parseFloat(scheduleOptions.hoursPerDay),
+      preInjuryDaysPerWeek: parseInt(scheduleOptions.daysPerWeek, 10),
+      rosteredDays: scheduleOptions.rosteredDays,
+      certificate: scheduleCertificate,
+      profile: scheduleOptions.profile,
+      startPercent: parseFloat(scheduleOptions.startPercent)
+    });
+
+    setScheduleNotes(schedule.notes);
+    if (schedule.weeks.length === 0) return;
+
+    setFormData(prev => ({ ...prev, weekHours: schedule.weeks.map(toFormWeek) }));
+  };
+
+  const handleWeekHoursChange = (week: number, day: keyof WeekHours, value: string) => {
     setFormData(prev => ({
       ...prev,
-      [week]: {
-        ...prev[week],
-        [day]: value
-      }
+      weekHours: prev.weekHours.map((hours, index) => (index === week ? { ...hours, [day]: value } : hours))
     }));
   };
 
+  const handleAddWeek = () => {
+    setFormData(prev => ({ ...prev, weekHours: [...prev.weekHours, { ...(prev.weekHours[prev.weekHours.length - 1] || EMPTY_WEEK) }] }));
+  };
+
+  const handleRemoveWeek = () => {
+    setFormData(prev => ({ ...prev, weekHours: prev.weekHours.slice(0, -1) }));
+  };
+
   const calculateWeekTotal = (weekHours: any) => {
     const total = Object.keys(weekHours).reduce((sum, day) => {
       if (day !== 'total') {
@@ -410,8 +465,7 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
             <h3>Hours of work</h3>
             <p style="color: #666; font-style: italic;">(It is recommended that where reduced hours are required the hours are gradually increased where appropriate.)</p>
             
-            ${['week1Hours', 'week2Hours', 'week3Hours', 'week4Hours'].map((week, weekIndex) => {
-              const weekData = formData[week as keyof RTWFormData] as any;
+            ${formData.weekHours.map((weekData, weekIndex) => {
               return `
                 <div style="margin-bottom: 20px;">
                   <h4>Week ${weekIndex + 1}</h4>
@@ -570,17 +624,8 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
       const updatedData = { ...data };
       
       // Handle week hours data specifically
-      if (data.week1Hours) {
-        updatedData.week1Hours = { ...formData.week1Hours, ...data.week1Hours };
-      }
-      if (data.week2Hours) {
-        updatedData.week2Hours = { ...formData.week2Hours, ...data.week2Hours };
-      }
-      if (data.week3Hours) {
-        updatedData.week3Hours = { ...formData.week3Hours, ...data.week3Hours };
-      }
-      if (data.week4Hours) {
-        updatedData.week4Hours = { ...formData.week4Hours, ...data.week4Hours };
+      if (data.weekHours?.length) {
+        updatedData.weekHours = data.weekHours.map(week => ({ ...EMPTY_WEEK, ...week }));
       }
       
       console.log('RTW Planner: Updated data structure:', updatedData);
@@ -628,10 +673,12 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
                     workplaceSupports: 'Test workplace supports including ergonomic chair, adjustable desk, regular breaks every 2 hours, and buddy system for complex tasks.',
                     dutiesToAvoid: 'Test duties to avoid including heavy lifting, prolonged standing, repetitive bending, and high-stress situations.',
                     medicalRestrictions: 'Test medical restrictions including no lifting over 5kg, avoid prolonged sitting over 2 hours, and regular movement breaks.',
-                    week1Hours: { mon: '2', tue: '2', wed: '2', thu: '2', fri: '2', sat: '0', sun: '0', total: '10' },
-                    week2Hours: { mon: '3', tue: '3', wed: '3', thu: '3', fri: '3', sat: '0', sun: '0', total: '15' },
-                    week3Hours: { mon: '4', tue: '4', wed: '4', thu: '4', fri: '4', sat: '0', sun: '0', total: '20' },
-                    week4Hours: { mon: '5', tue: '5', wed: '5', thu: '5', fri: '5', sat: '0', sun: '0', total: '25' }
+                    weekHours: [
+                      { mon: '2', tue: '2', wed: '2', thu: '2', fri: '2', sat: '0', sun: '0', total: '10' },
+                      { mon: '3', tue: '3', wed: '3', thu: '3', fri: '3', sat: '0', sun: '0', total: '15' },
+                      { mon: '4', tue: '4', wed: '4', thu: '4', fri: '4', sat: '0', sun: '0', total: '20' },
+                      { mon: '5', tue: '5', wed: '5', thu: '5', fri: '5', sat: '0', sun: '0', total: '25' }
+                    ]
                   };
                   console.log('Testing AI population with data:', testData);
                   setFormData(prev => ({ ...prev, ...testData }));
@@ -891,12 +938,124 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
           <p className="text-sm text-gray-600 mb-4">
             (It is recommended that where reduced hours are required the hours are gradually increased where appropriate.)
           </p>
+
+          {/* Graduated Hours */}
+          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-gray-900 flex items-center">
+                <Clock className="h-5 w-5 mr-2 text-primary-600" />
+                Graduated Hours
+              </h4>
+              <button
+                onClick={handleGenerateSchedule}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Generate Schedule
+              </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Ramp profile</label>
+                <select
+                  value={scheduleOptions.profile}
+                  onChange={(e) => setScheduleOptions(prev => ({ ...prev, profile: e.target.value as RtwRampProfile }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  title={RTW_RAMP_PROFILES.find(option => option.value === scheduleOptions.profile)?.description}
+                >
+                  {RTW_RAMP_PROFILES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Week 1 (% of pre-injury)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={scheduleOptions.startPercent}
+                  disabled={scheduleOptions.profile === 'certificate'}
+                  onChange={(e) => setScheduleOptions(prev => ({ ...prev, startPercent: e.target.value }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Pre-injury hours/day</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.1"
+                  value={scheduleOptions.hoursPerDay}
+                  onChange={(e) => setScheduleOptions(prev => ({ ...prev, hoursPerDay: e.target.value }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  placeholder="e.g. 7.6"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Pre-injury days/week</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="7"
+                  value={scheduleOptions.daysPerWeek}
+                  onChange={(e) => setScheduleOptions(prev => ({ ...prev, daysPerWeek: e.target.value }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Pre-injury hours by</label>
+                <input
+                  type="date"
+                  value={scheduleOptions.targetDate}
+                  onChange={(e) => setScheduleOptions(prev => ({ ...prev, targetDate: e.target.value }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Rostered days</label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleRosteredDay(day)}
+                    className={`px-2 py-1 text-xs rounded border capitalize ${
+                      scheduleOptions.rosteredDays.includes(day)
+                        ? 'bg-primary-100 border-primary-300 text-primary-800'
+                        : 'bg-white border-gray-300 text-gray-500'
+                    }`}
+                  >
+                    {day.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-gray-600">
+              {scheduleCertificate
+                ? `Capped by the certificate from ${scheduleCertificate.doctorName}: ${medicalCertificateService.describeCapacity(scheduleCertificate)}`
+                : 'No certificate covers the start date, so hours are not capped by a certificate.'}
+            </p>
+            {scheduleNotes.length > 0 && (
+              <ul className="text-xs text-yellow-800 space-y-1">
+                {scheduleNotes.map(note => (
+                  <li key={note} className="flex items-start">
+                    <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           
-          {['week1Hours', 'week2Hours', 'week3Hours', 'week4Hours'].map((week, weekIndex) => (
-            <div key={week} className="mb-6">
+          {formData.weekHours.map((week, weekIndex) => (
+            <div key={weekIndex} className="mb-6">
               <h4 className="font-medium text-gray-900 mb-3">Week {weekIndex + 1}</h4>
               <div className="grid grid-cols-8 gap-2">
-                {['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map((day) => (
+                {(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const).map((day) => (
                   <div key={day}>
                     <label className="block text-xs font-medium text-gray-700 mb-1 capitalize">
                       {day}
@@ -906,8 +1065,8 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
                       min="0"
                       max="24"
                       step="0.5"
-                      value={formData[week as keyof RTWFormData][day as keyof typeof formData.week1Hours]}
-                      onChange={(e) => handleWeekHoursChange(week as any, day, e.target.value)}
+                      value={week[day]}
+                      onChange={(e) => handleWeekHoursChange(weekIndex, day, e.target.value)}
                       className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
                       placeholder="0"
                     />
@@ -919,7 +1078,7 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
                   </label>
                   <input
                     type="number"
-                    value={calculateWeekTotal(formData[week as keyof RTWFormData])}
+                    value={calculateWeekTotal(week)}
                     readOnly
                     className="w-full px-2 py-1 text-sm border border-gray-300 rounded bg-gray-50"
                   />
@@ -927,6 +1086,24 @@ Format as structured recommendations that can be directly used in an RTW plan.`;
               </div>
             </div>
           ))}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleAddWeek}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Add Week
+            </button>
+            <button
+              type="button"
+              onClick={handleRemoveWeek}
+              disabled={formData.weekHours.length <= 1}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Remove Last Week
+            </button>
+          </div>
         </div>
 
         {/* Additional Details */}
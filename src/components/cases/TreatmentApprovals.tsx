@@ -0,0 +1,514 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ClipboardCheck, Plus, Trash2, AlertTriangle, CheckCircle, Receipt, CalendarCheck } from 'lucide-react';
+import { format, parseISO, addMonths } from 'date-fns';
+import { Case, Payment, StakeholderType, TreatmentApproval, TreatmentApprovalStatus, TreatmentType, TreatmentUsage } from '../../types';
+import { useAuthStore } from '../../store/authStore';
+import { useCaseStore } from '../../store/caseStore';
+import { supabaseService } from '../../services/supabaseService';
+import { treatmentApprovalService, TREATMENT_TYPES } from '../../services/treatmentApprovalService';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface TreatmentApprovalsProps {
+  caseData: Case;
+  payments: Payment[];
+  onChange: () => void; // Called after tasks or ledger payments are added
+}
+
+const STATE_STYLES: Record<TreatmentApprovalStatus['state'], { label: string; className: string }> = {
+  upcoming: { label: 'Not started', className: 'bg-gray-100 text-gray-700' },
+  active: { label: 'Active', className: 'bg-success-100 text-success-700' },
+  'running-low': { label: 'Running low', className: 'bg-warning-100 text-warning-800' },
+  exhausted: { label: 'Used up', className: 'bg-error-100 text-error-700' },
+  expired: { label: 'Expired', className: 'bg-gray-200 text-gray-700' }
+};
+
+// Treatment a stakeholder usually provides, used to preset the approval type
+const TREATMENT_BY_STAKEHOLDER: Partial<Record<StakeholderType, TreatmentType>> = {
+  physiotherapist: 'physiotherapy',
+  psychologist: 'psychology'
+};
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const emptyApproval = () => ({
+  stakeholderId: '',
+  treatmentType: 'physiotherapy' as TreatmentType,
+  sessionsApproved: '',
+  startDate: today(),
+  endDate: format(addMonths(new Date(), 3), 'yyyy-MM-dd'),
+  costLimit: '',
+  sessionCostLimit: '',
+  reference: '',
+  notes: ''
+});
+
+const emptyUsage = (kind: TreatmentUsage['kind']) => ({
+  kind,
+  date: today(),
+  sessions: '1',
+  amount: '',
+  reference: '',
+  notes: ''
+});
+
+const TreatmentApprovals: React.FC<TreatmentApprovalsProps> = ({ caseData, payments, onChange }) => {
+  const { user } = useAuthStore();
+  const { updateCase } = useCaseStore();
+  const [approvals, setApprovals] = useState<TreatmentApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newApproval, setNewApproval] = useState(emptyApproval);
+  const [recording, setRecording] = useState<{ approvalId: string; usage: ReturnType<typeof emptyUsage> } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const followUpsRaised = useRef(new Set<string>());
+
+  const providers = (caseData.stakeholders || []).filter(stakeholder => stakeholder.isActive);
+  const author = { id: user?.id, name: user?.name || 'Unknown user' };
+
+  const loadApprovals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setApprovals(await supabaseService.getTreatmentApprovals(caseData.id));
+    } catch (err) {
+      console.error('Failed to load treatment approvals:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [caseData.id]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  // Raise a task to request a treatment plan as soon as an approval runs low or runs out
+  useEffect(() => {
+    const existing = caseData.rtwPlan.tasks;
+    const followUps = treatmentApprovalService.toFollowUpTasks(approvals, payments, existing)
+      .slice(existing.length)
+      .filter(task => !followUpsRaised.current.has(task.id));
+    if (followUps.length === 0) return;
+
+    followUps.forEach(task => followUpsRaised.current.add(task.id));
+    updateCase(caseData.id, { rtwPlan: { ...caseData.rtwPlan, tasks: [...existing, ...followUps] } })
+      .then(onChange)
+      .catch(err => console.error('Failed to add treatment plan follow-up task:', err));
+  }, [approvals, payments, caseData.id, caseData.rtwPlan, updateCase, onChange]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadApprovals();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleProviderChange = (stakeholderId: string) => {
+    const stakeholder = providers.find(provider => provider.id === stakeholderId);
+    setNewApproval({
+      ...newApproval,
+      stakeholderId,
+      treatmentType: (stakeholder && TREATMENT_BY_STAKEHOLDER[stakeholder.type]) || newApproval.treatmentType
+    });
+  };
+
+  const handleAddApproval = () => {
+    const stakeholder = providers.find(provider => provider.id === newApproval.stakeholderId);
+    const sessionsApproved = parseInt(newApproval.sessionsApproved, 10);
+    const costLimit = parseFloat(newApproval.costLimit);
+    const sessionCostLimit = parseFloat(newApproval.sessionCostLimit);
+
+    if (!stakeholder) {
+      setError('Choose the treating provider');
+      return;
+    }
+    if (!(sessionsApproved > 0)) {
+      setError('An approval needs at least one session');
+      return;
+    }
+    if (!newApproval.startDate || !newApproval.endDate || newApproval.endDate < newApproval.startDate) {
+      setError('The approval must end on or after the day it starts');
+      return;
+    }
+
+    run(async () => {
+      await supabaseService.addTreatmentApproval(caseData.id, {
+        stakeholderId: stakeholder.id,
+        provider: stakeholder.organization || stakeholder.name,
+        treatmentType: newApproval.treatmentType,
+        sessionsApproved,
+        startDate: newApproval.startDate,
+        endDate: newApproval.endDate,
+        costLimit: costLimit > 0 ? costLimit : undefined,
+        sessionCostLimit: sessionCostLimit > 0 ? sessionCostLimit : undefined,
+        reference: newApproval.reference.trim() || undefined,
+        notes: newApproval.notes.trim() || undefined
+      }, author);
+      setNewApproval(emptyApproval());
+      setIsAdding(false);
+    }, 'Failed to add treatment approval');
+  };
+
+  const handleDeleteApproval = (approval: TreatmentApproval) => {
+    if (!window.confirm(`Delete the ${treatmentApprovalService.getTypeLabel(approval.treatmentType).toLowerCase()} approval for ${approval.provider}?`)) return;
+    run(() => supabaseService.deleteTreatmentApproval(approval.id), 'Failed to delete treatment approval');
+  };
+
+  // Invoices are also raised as draft medical payments so they go through ledger approval
+  const handleRecordUsage = (approval: TreatmentApproval) => {
+    if (!recording) return;
+    const { usage } = recording;
+    const sessions = parseInt(usage.sessions, 10);
+    const amount = usage.kind === 'invoice' ? parseFloat(usage.amount) : undefined;
+
+    if (!usage.date || !(sessions >= 0)) {
+      setError('Enter the date and number of sessions');
+      return;
+    }
+    if (usage.kind === 'invoice' && !(amount! > 0)) {
+      setError('Enter the invoice amount');
+      return;
+    }
+
+    const issues = treatmentApprovalService.getUsageIssues(approval, { date: usage.date, sessions, amount }, payments);
+    if (issues.length > 0 && !window.confirm(`${issues.join('\n')}\n\nRecord this ${usage.kind} anyway?`)) return;
+
+    run(async () => {
+      let paymentId: string | undefined;
+      if (usage.kind === 'invoice') {
+        const [payment] = await supabaseService.addPayments(caseData.id, [{
+          type: 'medical',
+          amount: amount!,
+          date: usage.date,
+          providerId: approval.stakeholderId,
+          provider: approval.provider,
+          reference: usage.reference.trim() || undefined,
+          description: `${treatmentApprovalService.getTypeLabel(approval.treatmentType)}, ${sessions} session${sessions === 1 ? '' : 's'}`
+        }], author);
+        paymentId = payment?.id;
+      }
+
+      await supabaseService.addTreatmentUsage(approval.id, {
+        kind: usage.kind,
+        date: usage.date,
+        sessions,
+        amount,
+        paymentId,
+        notes: usage.notes.trim() || undefined
+      }, author);
+      setRecording(null);
+      if (paymentId) onChange();
+    }, `Failed to record ${usage.kind}`);
+  };
+
+  const handleDeleteUsage = (usage: TreatmentUsage) => {
+    const payment = payments.find(p => p.id === usage.paymentId);
+    const removesPayment = payment?.status === 'draft';
+    if (!window.confirm(removesPayment ? `Delete this ${usage.kind} and its draft payment?` : `Delete this ${usage.kind}?`)) return;
+
+    run(async () => {
+      await supabaseService.deleteTreatmentUsage(usage.id);
+      if (removesPayment) {
+        await supabaseService.deletePayment(payment!.id);
+        onChange();
+      }
+    }, `Failed to delete ${usage.kind}`);
+  };
+
+  const inputClass = 'w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ClipboardCheck className="h-5 w-5 text-primary-500" />
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Treatment Approvals</h3>
+            <p className="text-sm text-gray-500">Sessions approved for treating providers, counted down as attendances and invoices are recorded</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Approval
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>
+      )}
+
+      {isAdding && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4 bg-gray-50">
+          {providers.length === 0 ? (
+            <p className="text-sm text-gray-600">Add the treating provider as a stakeholder before recording an approval.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Treating provider</label>
+                <select value={newApproval.stakeholderId} onChange={(e) => handleProviderChange(e.target.value)} className={inputClass}>
+                  <option value="">Select a stakeholder...</option>
+                  {providers.map(provider => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name}{provider.organization ? ` (${provider.organization})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Treatment</label>
+                <select
+                  value={newApproval.treatmentType}
+                  onChange={(e) => setNewApproval({ ...newApproval, treatmentType: e.target.value as TreatmentType })}
+                  className={inputClass}
+                >
+                  {TREATMENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sessions approved</label>
+                <input type="number" min="1" step="1" value={newApproval.sessionsApproved} onChange={(e) => setNewApproval({ ...newApproval, sessionsApproved: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" value={newApproval.startDate} onChange={(e) => setNewApproval({ ...newApproval, startDate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" value={newApproval.endDate} onChange={(e) => setNewApproval({ ...newApproval, endDate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Approval reference</label>
+                <input type="text" value={newApproval.reference} onChange={(e) => setNewApproval({ ...newApproval, reference: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total cost limit</label>
+                <input type="number" min="0" step="0.01" value={newApproval.costLimit} onChange={(e) => setNewApproval({ ...newApproval, costLimit: e.target.value })} placeholder="No limit" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Limit per session</label>
+                <input type="number" min="0" step="0.01" value={newApproval.sessionCostLimit} onChange={(e) => setNewApproval({ ...newApproval, sessionCostLimit: e.target.value })} placeholder="No limit" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input type="text" value={newApproval.notes} onChange={(e) => setNewApproval({ ...newApproval, notes: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setIsAdding(false)} className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={handleAddApproval}
+              disabled={isSaving || providers.length === 0}
+              className="px-3 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              Save Approval
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : approvals.length === 0 ? (
+        <p className="text-sm text-gray-500">No treatment approvals recorded.</p>
+      ) : (
+        <div className="space-y-4">
+          {approvals.map(approval => {
+            const status = treatmentApprovalService.getStatus(approval, payments);
+            const stateStyle = STATE_STYLES[status.state];
+            const followUpTask = caseData.rtwPlan.tasks.find(task => task.id === treatmentApprovalService.getFollowUpTaskId(approval));
+            const rejected = new Set(payments.filter(payment => payment.status === 'rejected').map(payment => payment.id));
+            const isRecording = recording?.approvalId === approval.id;
+
+            return (
+              <div key={approval.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h4 className="font-medium text-gray-900">
+                      {treatmentApprovalService.getTypeLabel(approval.treatmentType)} • {approval.provider}
+                    </h4>
+                    <p className="text-sm text-gray-500">
+                      {format(parseISO(approval.startDate), 'dd/MM/yyyy')} to {format(parseISO(approval.endDate), 'dd/MM/yyyy')}
+                      {approval.reference && ` • Ref ${approval.reference}`}
+                      {approval.sessionCostLimit !== undefined && ` • Up to $${approval.sessionCostLimit.toFixed(2)} per session`}
+                    </p>
+                    {approval.notes && <p className="text-sm text-gray-600 mt-1">{approval.notes}</p>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${stateStyle.className}`}>{stateStyle.label}</span>
+                    {approval.usage.length === 0 && (
+                      <button onClick={() => handleDeleteApproval(approval)} className="text-gray-400 hover:text-error-600" title="Delete approval">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Sessions</span>
+                      <span>{status.sessionsUsed} of {approval.sessionsApproved} used • {status.sessionsRemaining} left</span>
+                    </div>
+                    <div className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${status.sessionsRemaining === 0 ? 'bg-error-500' : status.state === 'running-low' ? 'bg-warning-500' : 'bg-primary-500'}`}
+                        style={{ width: `${Math.min(100, (status.sessionsUsed / approval.sessionsApproved) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Invoiced</span>
+                      <span>
+                        ${status.costUsed.toFixed(2)}
+                        {approval.costLimit !== undefined && ` of $${approval.costLimit.toFixed(2)} • $${status.costRemaining!.toFixed(2)} left`}
+                      </span>
+                    </div>
+                    {approval.costLimit !== undefined && (
+                      <div className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${status.costRemaining === 0 ? 'bg-error-500' : 'bg-primary-500'}`}
+                          style={{ width: `${Math.min(100, (status.costUsed / approval.costLimit) * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {status.warnings.length > 0 && status.state !== 'upcoming' && (
+                  <div className="p-3 bg-warning-50 border border-warning-200 rounded-md text-sm">
+                    <div className="flex items-start">
+                      <AlertTriangle className="h-4 w-4 text-warning-600 mr-2 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p className="text-warning-800">{status.warnings.join(' • ')}</p>
+                        {followUpTask && (
+                          <p className="text-xs text-warning-700 mt-1 flex items-center">
+                            {followUpTask.completed && <CheckCircle className="h-3 w-3 mr-1" />}
+                            Treatment plan request {followUpTask.completed ? 'completed' : `due ${format(parseISO(followUpTask.dueDate), 'dd/MM/yyyy')}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {approval.usage.length > 0 && (
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-1 pr-4 font-medium">Date</th>
+                        <th className="py-1 pr-4 font-medium">Recorded</th>
+                        <th className="py-1 pr-4 font-medium text-right">Sessions</th>
+                        <th className="py-1 pr-4 font-medium text-right">Amount</th>
+                        <th className="py-1 pr-4 font-medium">Notes</th>
+                        <th className="py-1" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {approval.usage.map(usage => {
+                        const isRejected = !!usage.paymentId && rejected.has(usage.paymentId);
+                        return (
+                          <tr key={usage.id} className={isRejected ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                            <td className="py-1 pr-4">{format(parseISO(usage.date), 'dd/MM/yyyy')}</td>
+                            <td className="py-1 pr-4">{usage.kind === 'invoice' ? 'Invoice' : 'Attendance'}</td>
+                            <td className="py-1 pr-4 text-right">{usage.sessions}</td>
+                            <td className="py-1 pr-4 text-right">{usage.amount !== undefined ? `$${usage.amount.toFixed(2)}` : '-'}</td>
+                            <td className="py-1 pr-4">{isRejected ? 'Payment rejected' : usage.notes || ''}</td>
+                            <td className="py-1 text-right">
+                              <button onClick={() => handleDeleteUsage(usage)} className="text-gray-400 hover:text-error-600" title="Delete">
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+
+                {isRecording ? (
+                  <div className="bg-gray-50 rounded-md p-3 space-y-3">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Date</label>
+                        <input type="date" value={recording.usage.date} onChange={(e) => setRecording({ ...recording, usage: { ...recording.usage, date: e.target.value } })} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Sessions</label>
+                        <input type="number" min="0" step="1" value={recording.usage.sessions} onChange={(e) => setRecording({ ...recording, usage: { ...recording.usage, sessions: e.target.value } })} className={inputClass} />
+                      </div>
+                      {recording.usage.kind === 'invoice' && (
+                        <>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">Amount</label>
+                            <input type="number" min="0" step="0.01" value={recording.usage.amount} onChange={(e) => setRecording({ ...recording, usage: { ...recording.usage, amount: e.target.value } })} className={inputClass} />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">Invoice number</label>
+                            <input type="text" value={recording.usage.reference} onChange={(e) => setRecording({ ...recording, usage: { ...recording.usage, reference: e.target.value } })} className={inputClass} />
+                          </div>
+                        </>
+                      )}
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                        <input type="text" value={recording.usage.notes} onChange={(e) => setRecording({ ...recording, usage: { ...recording.usage, notes: e.target.value } })} className={inputClass} />
+                      </div>
+                    </div>
+                    {recording.usage.kind === 'invoice' && (
+                      <p className="text-xs text-gray-500">
+                        A draft medical payment is added to the ledger. Enter 0 sessions if they are already recorded as attendances.
+                      </p>
+                    )}
+                    <div className="flex justify-end space-x-2">
+                      <button onClick={() => setRecording(null)} className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleRecordUsage(approval)}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        Record {recording.usage.kind === 'invoice' ? 'Invoice' : 'Attendance'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setRecording({ approvalId: approval.id, usage: emptyUsage('attendance') })}
+                      className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      <CalendarCheck className="h-4 w-4 mr-1.5" />
+                      Record Attendance
+                    </button>
+                    <button
+                      onClick={() => setRecording({ approvalId: approval.id, usage: emptyUsage('invoice') })}
+                      className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      <Receipt className="h-4 w-4 mr-1.5" />
+                      Record Invoice
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreatmentApprovals;
@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Receipt, Check, X, Download, ChevronDown, ChevronUp } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ArrearsStatement, ArrearsStatementStatus, Case, Payment } from '../../types';
+import { useAuthStore } from '../../store/authStore';
+import { supabaseService } from '../../services/supabaseService';
+import { paymentService } from '../../services/paymentService';
+import { arrearsService } from '../../services/arrearsService';
+
+interface ArrearsStatementsProps {
+  caseData: Case;
+  payments: Payment[];
+  onChange: () => void;
+}
+
+const STATUS_STYLES: Record<ArrearsStatementStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-success-100 text-success-700',
+  rejected: 'bg-error-100 text-error-700',
+  superseded: 'bg-gray-100 text-gray-500'
+};
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const ArrearsStatements: React.FC<ArrearsStatementsProps> = ({ caseData, payments, onChange }) => {
+  const { user } = useAuthStore();
+  const [statements, setStatements] = useState<ArrearsStatement[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatements = useCallback(async () => {
+    try {
+      const loaded = await supabaseService.getArrearsStatements(caseData.id);
+      setStatements(loaded);
+      setExpandedId(prev => prev ?? loaded.find(statement => statement.status === 'draft')?.id ?? null);
+    } catch (err) {
+      console.error('Failed to load arrears statements:', err);
+    }
+  }, [caseData.id]);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  if (statements.length === 0) return null;
+
+  const author = { id: user?.id, name: user?.name || 'Unknown user' };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadStatements();
+      onChange();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Arrears are paid as one weekly payment, raised and approved with the statement in a single
+  // transaction and so subject to the approver's limit. An approved overpayment is recorded for
+  // recovery without a payment.
+  const handleApprove = (statement: ArrearsStatement) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const approvedAt = new Date().toISOString();
+
+    if (!arrearsService.isArrears(statement)) {
+      if (!window.confirm(`Record an overpayment of ${money(-statement.netAmount)} to recover from the worker?`)) return;
+      run(
+        () => supabaseService.updateArrearsStatement(statement.id, { status: 'approved', approvedBy: author.name, approvedAt }),
+        'Failed to approve overpayment statement'
+      );
+      return;
+    }
+
+    const payment = arrearsService.toPayment(statement, today);
+    const blocker = paymentService.getApprovalBlocker({ ...payment, id: statement.id, status: 'draft' }, user?.role);
+    if (blocker) {
+      setError(blocker);
+      return;
+    }
+    if (!window.confirm(`Approve arrears of ${money(statement.netAmount)} as a single weekly payment?`)) return;
+
+    run(
+      () => supabaseService.approveArrearsStatement(statement.id, payment, author.name),
+      'Failed to approve arrears statement'
+    );
+  };
+
+  const handleReject = (statement: ArrearsStatement) => {
+    const reason = window.prompt('Reason for rejecting this statement:');
+    if (!reason?.trim()) return;
+    run(
+      () => supabaseService.updateArrearsStatement(statement.id, { status: 'rejected', rejectedReason: reason.trim() }),
+      'Failed to reject arrears statement'
+    );
+  };
+
+  const handleDownload = async (statement: ArrearsStatement) => {
+    try {
+      const blob = await arrearsService.generateStatementPdf(statement, caseData);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${arrearsService.getLabel(statement)}-Statement-${caseData.claimNumber.replace(/[^A-Za-z0-9-]+/g, '-')}-${format(parseISO(statement.createdAt), 'yyyy-MM-dd')}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error generating arrears statement:', err);
+      alert('Failed to generate the statement PDF.');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 space-y-4">
+      <div>
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Receipt className="h-5 w-5 mr-2 text-primary-600" />
+          Arrears &amp; Overpayments
+        </h4>
+        <p className="text-sm text-gray-500 mt-1">
+          Raised when a revised PIAWE is agreed, comparing each paid week with the entitlement at the new rate
+        </p>
+      </div>
+
+      {error && <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>}
+
+      <div className="space-y-2">
+        {statements.map(statement => {
+          const expanded = expandedId === statement.id;
+          const linkedPayment = payments.find(payment => payment.id === statement.paymentId);
+
+          return (
+            <div key={statement.id} className="border border-gray-200 rounded-md">
+              <div className="flex items-center justify-between px-3 py-2 text-sm">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : statement.id)}
+                  className="flex items-center text-left"
+                >
+                  {expanded ? <ChevronUp className="h-4 w-4 mr-2 text-gray-400" /> : <ChevronDown className="h-4 w-4 mr-2 text-gray-400" />}
+                  <span>
+                    <span className="font-medium text-gray-900">
+                      {arrearsService.getLabel(statement)} {money(Math.abs(statement.netAmount))}
+                    </span>
+                    <span className="text-gray-500">
+                      {' '}• PIAWE {statement.previousPIAWE !== undefined ? `${money(statement.previousPIAWE)} → ` : ''}{money(statement.newPIAWE)}
+                      {statement.versionNumber && ` (v${statement.versionNumber})`}
+                      {' '}• {format(parseISO(statement.createdAt), 'dd MMM yyyy')}
+                    </span>
+                  </span>
+                </button>
+                <span className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[statement.status]}`}>
+                    {statement.status}
+                  </span>
+                  <button onClick={() => handleDownload(statement)} className="text-gray-400 hover:text-primary-600" title="Download statement">
+                    <Download className="h-4 w-4" />
+                  </button>
+                  {statement.status === 'draft' && (
+                    <>
+                      <button
+                        onClick={() => handleApprove(statement)}
+                        disabled={isSaving}
+                        className="text-success-600 hover:text-success-800 disabled:opacity-50"
+                        title={arrearsService.isArrears(statement) ? 'Approve as a single payment' : 'Record overpayment for recovery'}
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleReject(statement)}
+                        disabled={isSaving}
+                        className="text-error-600 hover:text-error-800 disabled:opacity-50"
+                        title="Reject"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </span>
+              </div>
+
+              {expanded && (
+                <div className="border-t border-gray-200 px-3 py-3 space-y-3">
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    <div>
+                      <p className="text-xs text-gray-500">Entitled at revised PIAWE</p>
+                      <p className="font-medium">{money(statement.totalEntitled)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Paid</p>
+                      <p className="font-medium">{money(statement.totalPaid)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">{arrearsService.isArrears(statement) ? 'Arrears payable' : 'Overpayment to recover'}</p>
+                      <p className={`font-medium ${arrearsService.isArrears(statement) ? 'text-success-700' : 'text-error-700'}`}>
+                        {money(Math.abs(statement.netAmount))}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                      <thead className="text-xs text-gray-500">
+                        <tr>
+                          <th className="py-1 text-left font-medium">Week</th>
+                          <th className="py-1 text-left font-medium">Period</th>
+                          <th className="py-1 text-right font-medium">Entitled</th>
+                          <th className="py-1 text-right font-medium">Paid</th>
+                          <th className="py-1 text-right font-medium">Difference</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {statement.lines.map(line => (
+                          <tr key={line.weekEnding}>
+                            <td className="py-1">{line.weekNumber}</td>
+                            <td className="py-1 whitespace-nowrap">
+                              {format(parseISO(line.weekStarting), 'dd MMM')} – {format(parseISO(line.weekEnding), 'dd MMM yyyy')}
+                            </td>
+                            <td className="py-1 text-right">{money(line.entitled)}</td>
+                            <td className="py-1 text-right">{money(line.paid)}</td>
+                            <td className={`py-1 text-right ${line.difference > 0 ? 'text-success-700' : line.difference < 0 ? 'text-error-700' : 'text-gray-400'}`}>
+                              {money(line.difference)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {statement.status === 'approved' && (
+                    <p className="text-xs text-gray-500">
+                      Approved by {statement.approvedBy}{statement.approvedAt && ` on ${format(parseISO(statement.approvedAt), 'dd/MM/yyyy')}`}
+                      {linkedPayment
+                        ? ` • paid as a ${linkedPayment.status} weekly payment of ${money(linkedPayment.amount)}`
+                        : !arrearsService.isArrears(statement) && ' • overpayment recorded for recovery'}
+                    </p>
+                  )}
+                  {statement.status === 'rejected' && statement.rejectedReason && (
+                    <p className="text-xs text-error-700">Rejected: {statement.rejectedReason}</p>
+                  )}
+                  {statement.status === 'superseded' && (
+                    <p className="text-xs text-gray-500">Superseded by a statement for a later PIAWE version</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ArrearsStatements;
@@ -0,0 +1,424 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarClock, Plus, Trash2, Save, TrendingDown, AlertTriangle, Scale, PiggyBank } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Case, Compensation, CurrentWeeklyEarnings, EntitlementDecisionPoint, Payment, WorkCapacityDecision } from '../../types';
+import { useCaseStore } from '../../store/caseStore';
+import { useAuthStore } from '../../store/authStore';
+import { entitlementService } from '../../services/entitlementService';
+import { supabaseService } from '../../services/supabaseService';
+
+interface EntitlementScheduleProps {
+  caseData: Case;
+  payments: Payment[];
+  onUpdate?: () => void;
+}
+
+const INITIAL_WEEKS_SHOWN = 13;
+
+const EntitlementSchedule: React.FC<EntitlementScheduleProps> = ({ caseData, payments, onUpdate }) => {
+  const { updateCase } = useCaseStore();
+  const { user } = useAuthStore();
+  const calculation = caseData.piaweCalculation;
+  const [startDate, setStartDate] = useState(caseData.compensation?.startDate || calculation?.injuryDate || '');
+  const [earnings, setEarnings] = useState<CurrentWeeklyEarnings[]>(caseData.compensation?.currentWeeklyEarnings || []);
+  const [decisions, setDecisions] = useState<WorkCapacityDecision[]>(caseData.compensation?.workCapacityDecisions || []);
+  const [isAddingEarnings, setIsAddingEarnings] = useState(false);
+  const [newEarnings, setNewEarnings] = useState({ startDate: '', endDate: '', weeklyAmount: '', hoursPerWeek: '' });
+  const [showAllWeeks, setShowAllWeeks] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const schedule = useMemo(
+    () => calculation && startDate
+      ? entitlementService.buildSchedule(calculation, { startDate, currentWeeklyEarnings: earnings, decisions })
+      : null,
+    [calculation, startDate, earnings, decisions]
+  );
+
+  if (!calculation || !schedule) return null;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const currentWeek = schedule.weeks.find(week => week.weekStarting <= today && week.weekEnding >= today);
+  const duration = entitlementService.getBenefitDuration(schedule, calculation.injuryDate, today);
+  const hasSuperannuation = schedule.totalSuperannuation > 0;
+  const visibleWeeks = showAllWeeks ? schedule.weeks : schedule.weeks.slice(0, INITIAL_WEEKS_SHOWN);
+  const savedPayments = payments.filter(payment => payment.scheduleKey && payment.status !== 'rejected').length;
+
+  const handleAddEarnings = () => {
+    const weeklyAmount = parseFloat(newEarnings.weeklyAmount);
+    if (!newEarnings.startDate || isNaN(weeklyAmount)) return;
+
+    setEarnings(prev => [...prev, {
+      id: `cwe-${Date.now()}`,
+      startDate: newEarnings.startDate,
+      endDate: newEarnings.endDate || undefined,
+      weeklyAmount,
+      hoursPerWeek: newEarnings.hoursPerWeek ? parseFloat(newEarnings.hoursPerWeek) : undefined
+    }].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setNewEarnings({ startDate: '', endDate: '', weeklyAmount: '', hoursPerWeek: '' });
+    setIsAddingEarnings(false);
+  };
+
+  const handleDecision = (point: EntitlementDecisionPoint, outcome: WorkCapacityDecision['outcome']) => {
+    const notes = prompt(`Notes for the ${point.label} (optional)`);
+    if (notes === null) return;
+
+    setDecisions(prev => [
+      ...prev.filter(decision => decision.decisionPointId !== point.id),
+      {
+        decisionPointId: point.id,
+        outcome,
+        decidedOn: today,
+        decidedBy: user?.name || 'Unknown user',
+        notes: notes.trim() || undefined
+      }
+    ]);
+  };
+
+  const handleSave = async () => {
+    const existing: Compensation = caseData.compensation || {
+      weeklyAmount: 0,
+      startDate,
+      type: 'weekly',
+      status: 'claimed'
+    };
+
+    setIsSaving(true);
+    try {
+      await supabaseService.replaceScheduledPayments(
+        caseData.id,
+        entitlementService.toPayments(schedule, payments),
+        { id: user?.id, name: user?.name || 'Unknown user' }
+      );
+      await updateCase(caseData.id, {
+        compensation: {
+          ...existing,
+          startDate,
+          weeklyAmount: (currentWeek || schedule.weeks[0])?.weeklyPayable || 0,
+          currentWeeklyEarnings: earnings,
+          workCapacityDecisions: decisions
+        },
+        rtwPlan: {
+          ...caseData.rtwPlan,
+          tasks: entitlementService.toReminderTasks(schedule, caseData.rtwPlan.tasks)
+        }
+      });
+      onUpdate?.();
+    } catch (error) {
+      console.error('Failed to save entitlement schedule:', error);
+      alert('Failed to save the payment schedule. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2 text-primary-600" />
+            Weekly Entitlement Schedule
+          </h4>
+          <p className="text-sm text-gray-500 mt-1">
+            {schedule.weeks.length} weeks • ${schedule.totalPayable.toFixed(2)} total payable
+            {hasSuperannuation && ` • $${schedule.totalSuperannuation.toFixed(2)} superannuation`}
+            {savedPayments > 0 && ` • ${savedPayments} scheduled payments in the ledger`}
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          <div className="flex items-center">
+            <Save className="h-4 w-4 mr-1.5" />
+            {isSaving ? 'Saving...' : 'Save Schedule & Reminders'}
+          </div>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Incapacity Start</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">This Week</p>
+          <p className="text-xl font-bold text-gray-900">
+            {currentWeek ? `$${currentWeek.weeklyPayable.toFixed(2)}` : '-'}
+          </p>
+          {currentWeek && (
+            <p className="text-xs text-gray-500">Week {currentWeek.weekNumber} at {currentWeek.percentage}%</p>
+          )}
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">PIAWE</p>
+          <p className="text-xl font-bold text-gray-900">${calculation.finalPIAWE.toFixed(2)}</p>
+          <p className="text-xs text-gray-500">{calculation.jurisdiction}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Benefit Duration</p>
+          <p className="text-xl font-bold text-gray-900">{duration.weeksSinceInjury} weeks</p>
+          <p className="text-xs text-gray-500">
+            {duration.nextThreshold
+              ? `${duration.nextThreshold.label} in ${duration.nextThreshold.weeksAway} weeks (week ${duration.nextThreshold.weekNumber})`
+              : 'since injury'}
+          </p>
+        </div>
+      </div>
+
+      {/* Superannuation */}
+      {schedule.superannuationFrom && (
+        <div className="flex items-center justify-between text-sm bg-primary-50 border border-primary-200 rounded-md px-3 py-2">
+          <span className="flex items-center text-primary-800">
+            <PiggyBank className="h-4 w-4 mr-2" />
+            Superannuation contributions are paid on weekly payments from {format(parseISO(schedule.superannuationFrom), 'dd MMM yyyy')}
+          </span>
+          <span className="text-primary-700">${schedule.totalSuperannuation.toFixed(2)} scheduled</span>
+        </div>
+      )}
+
+      {/* Work capacity decision points */}
+      {schedule.decisionPoints.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-900 mb-2">Work Capacity Decisions</h5>
+          <div className="space-y-2">
+            {schedule.decisionPoints.map(point => (
+              <div
+                key={point.id}
+                className={`text-sm border rounded-md px-3 py-2 ${point.status === 'pending' ? 'bg-warning-50 border-warning-200' : 'border-gray-200'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center font-medium text-gray-900">
+                    <Scale className="h-4 w-4 mr-2 text-primary-600" />
+                    {point.label}
+                  </span>
+                  <span className="text-gray-600">
+                    Week {point.weekNumber} • {format(parseISO(point.date), 'dd MMM yyyy')}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">{point.description}</p>
+                <div className="flex items-center justify-between mt-2">
+                  {point.decision ? (
+                    <span className={`text-xs ${point.status === 'continue' ? 'text-success-700' : 'text-error-700'}`}>
+                      {point.status === 'continue' ? 'Payments continue' : 'Payments cease'} • decided by {point.decision.decidedBy} on {format(parseISO(point.decision.decidedOn), 'dd/MM/yyyy')}
+                      {point.decision.notes && ` • ${point.decision.notes}`}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-warning-700">
+                      Decision due by {format(parseISO(point.reminderDate), 'dd MMM yyyy')}. Payments from week {point.weekNumber} are not scheduled until it is recorded.
+                    </span>
+                  )}
+                  <span className="flex items-center space-x-2 ml-3 shrink-0">
+                    {point.decision ? (
+                      <button
+                        onClick={() => setDecisions(prev => prev.filter(decision => decision.decisionPointId !== point.id))}
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                      >
+                        Undo
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleDecision(point, 'continue')}
+                          className="px-2 py-1 text-xs bg-success-600 text-white rounded-md hover:bg-success-700"
+                        >
+                          Continue Payments
+                        </button>
+                        <button
+                          onClick={() => handleDecision(point, 'cease')}
+                          className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                        >
+                          Cease Payments
+                        </button>
+                      </>
+                    )}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Step-downs */}
+      {schedule.stepDowns.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-900 mb-2">Step-downs</h5>
+          <div className="space-y-2">
+            {schedule.stepDowns.map(stepDown => (
+              <div key={stepDown.date} className="flex items-center justify-between text-sm bg-warning-50 border border-warning-200 rounded-md px-3 py-2">
+                <span className="flex items-center text-warning-800">
+                  <TrendingDown className="h-4 w-4 mr-2" />
+                  {stepDown.label}: {stepDown.fromPercentage}% → {stepDown.toPercentage}%
+                </span>
+                <span className="text-warning-700">
+                  Week {stepDown.weekNumber} • {format(parseISO(stepDown.date), 'dd MMM yyyy')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Current weekly earnings */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-sm font-medium text-gray-900">Suitable Duties Earnings (CWE)</h5>
+          {!isAddingEarnings && (
+            <button
+              onClick={() => setIsAddingEarnings(true)}
+              className="text-sm text-primary-600 hover:text-primary-700 flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Earnings
+            </button>
+          )}
+        </div>
+
+        {isAddingEarnings && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-3 items-end">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">From</label>
+              <input
+                type="date"
+                value={newEarnings.startDate}
+                onChange={(e) => setNewEarnings({ ...newEarnings, startDate: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">To (optional)</label>
+              <input
+                type="date"
+                value={newEarnings.endDate}
+                onChange={(e) => setNewEarnings({ ...newEarnings, endDate: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Weekly Amount ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={newEarnings.weeklyAmount}
+                onChange={(e) => setNewEarnings({ ...newEarnings, weeklyAmount: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Hours / Week</label>
+              <input
+                type="number"
+                step="0.5"
+                value={newEarnings.hoursPerWeek}
+                onChange={(e) => setNewEarnings({ ...newEarnings, hoursPerWeek: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={handleAddEarnings}
+                className="px-3 py-1 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700"
+              >
+                Add
+              </button>
+              <button
+                onClick={() => setIsAddingEarnings(false)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {earnings.length > 0 ? (
+          <div className="space-y-1">
+            {earnings.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between text-sm border border-gray-200 rounded-md px-3 py-2">
+                <span>
+                  {format(parseISO(entry.startDate), 'dd MMM yyyy')} – {entry.endDate ? format(parseISO(entry.endDate), 'dd MMM yyyy') : 'ongoing'}
+                  {entry.hoursPerWeek !== undefined && <span className="text-gray-500"> • {entry.hoursPerWeek}h/week</span>}
+                </span>
+                <span className="flex items-center space-x-3">
+                  <span className="font-medium">${entry.weeklyAmount.toFixed(2)}/week</span>
+                  <button
+                    onClick={() => setEarnings(prev => prev.filter(e => e.id !== entry.id))}
+                    className="text-gray-400 hover:text-error-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No suitable duties earnings recorded. The full entitlement is payable.</p>
+        )}
+      </div>
+
+      {/* Weekly schedule */}
+      <div>
+        <h5 className="text-sm font-medium text-gray-900 mb-2">Payment Schedule</h5>
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Week</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Period</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Rate</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Entitlement</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">CWE</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Payable</th>
+                {hasSuperannuation && <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Super</th>}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleWeeks.map(week => (
+                <tr key={week.weekNumber} className={week === currentWeek ? 'bg-primary-50' : ''}>
+                  <td className="px-3 py-2">{week.weekNumber}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {format(parseISO(week.weekStarting), 'dd MMM')} – {format(parseISO(week.weekEnding), 'dd MMM yyyy')}
+                  </td>
+                  <td className="px-3 py-2 text-right">{week.percentage}%</td>
+                  <td className="px-3 py-2 text-right">
+                    ${week.grossEntitlement.toFixed(2)}
+                    {week.capped && (
+                      <span title={`Capped under ${week.rulesVersion}`}>
+                        <AlertTriangle className="inline h-3 w-3 ml-1 text-warning-500" />
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {week.currentWeeklyEarnings > 0 ? `-$${week.currentWeeklyEarnings.toFixed(2)}` : '-'}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium">${week.weeklyPayable.toFixed(2)}</td>
+                  {hasSuperannuation && (
+                    <td className="px-3 py-2 text-right">{week.superannuation > 0 ? `$${week.superannuation.toFixed(2)}` : '-'}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {schedule.weeks.length > INITIAL_WEEKS_SHOWN && (
+          <button
+            onClick={() => setShowAllWeeks(!showAllWeeks)}
+            className="mt-2 text-sm text-primary-600 hover:text-primary-700"
+          >
+            {showAllWeeks ? 'Show fewer weeks' : `Show all ${schedule.weeks.length} weeks`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EntitlementSchedule;
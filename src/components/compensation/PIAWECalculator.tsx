@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Calculator, Upload, Download, AlertTriangle, CheckCircle, Plus, Trash2, Edit3, Save, X, User, Briefcase } from 'lucide-react';
-import { PayslipEntry, PIAWECalculation, JurisdictionType, PIAWEAdjustment, ValidationIssue } from '../../types';
-import { piaweService } from '../../services/piaweService';
-import { format, parseISO, subWeeks } from 'date-fns';
+import { PayslipEntry, PIAWECalculation, JurisdictionType, PIAWEAdjustment, PIAWEAdjustmentProposal, ValidationIssue, PayPeriod, PIAWEEmployer, EmploymentType, EarningsComponent, EarningsComponentType, EarningsValuationMethod } from '../../types';
+import { piaweService, EARNINGS_COMPONENT_TYPES, VALUATION_METHOD_LABELS } from '../../services/piaweService';
+import { jurisdictionRulesService } from '../../services/jurisdictionRules';
+import { format, parseISO, subWeeks, subDays } from 'date-fns';
 import { useCaseStore } from '../../store/caseStore';
+import PayslipImportModal from './PayslipImportModal';
+import PIAWEVersionHistory from './PIAWEVersionHistory';
+import PIAWEScenarioWorkspace from './PIAWEScenarioWorkspace';
+
+const PRIMARY_EMPLOYER_ID = 'employer-primary';
 
 interface PIAWECalculatorProps {
   caseId?: string;
@@ -25,14 +31,21 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
   const [selectedCase, setSelectedCase] = useState<any>(null);
   const [payslips, setPayslips] = useState<PayslipEntry[]>([]);
   const [adjustments, setAdjustments] = useState<PIAWEAdjustment[]>([]);
+  const [rejectedProposalIds, setRejectedProposalIds] = useState<string[]>([]);
   const [calculation, setCalculation] = useState<PIAWECalculation | null>(null);
   const [selectedJurisdiction, setSelectedJurisdiction] = useState<JurisdictionType>(initialJurisdiction);
   const [injuryDate, setInjuryDate] = useState(initialInjuryDate);
   const [isCalculating, setIsCalculating] = useState(false);
   const [editingPayslip, setEditingPayslip] = useState<string | null>(null);
   const [showAddPayslip, setShowAddPayslip] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [employers, setEmployers] = useState<PIAWEEmployer[]>([
+    { id: PRIMARY_EMPLOYER_ID, name: 'Primary employer', employmentType: 'full-time', isPrimary: true }
+  ]);
+  const [importEmployerId, setImportEmployerId] = useState(PRIMARY_EMPLOYER_ID);
   const [newPayslip, setNewPayslip] = useState<Partial<PayslipEntry>>({
     weekEnding: format(subWeeks(new Date(), 1), 'yyyy-MM-dd'),
+    payPeriod: 'weekly',
     ordinaryHours: 0,
     ordinaryRate: 0,
     overtimeHours: 0,
@@ -44,7 +57,7 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     unpaidLeave: false
   });
 
-  const jurisdictionRules = piaweService.getJurisdictionRules(selectedJurisdiction);
+  const jurisdictionRules = piaweService.getJurisdictionRules(selectedJurisdiction, injuryDate);
 
   // Available jurisdictions with their full names
   const jurisdictions: { code: JurisdictionType; name: string; description: string }[] = [
@@ -69,6 +82,11 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
         setSelectedCase(caseData);
         setInjuryDate(caseData.injuryDate);
         setSelectedJurisdiction(caseData.jurisdiction || 'NSW');
+        // The claim employer is the primary employer for concurrent employment
+        setEmployers(prev => prev.map(employer => employer.id === PRIMARY_EMPLOYER_ID
+          ? { ...employer, name: caseData.employer.name, employmentType: caseData.wagesSalary?.employmentType || employer.employmentType }
+          : employer
+        ));
         
         // Pre-populate payslips from wages/salary data if available
         if (caseData.wagesSalary) {
@@ -123,20 +141,55 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     setPayslips(generatedPayslips);
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    try {
-      const parsedData = await piaweService.parsePayslipData(file);
-      setPayslips(prev => [...prev, ...parsedData]);
-    } catch (error) {
-      console.error('Error parsing payslip data:', error);
-    }
+    setImportFile(file);
+    e.target.value = '';
   };
 
+  const handleImportPayslips = (imported: PayslipEntry[]) => {
+    // A re-imported week replaces that employer's existing entry rather than being counted twice
+    const tagged = imported.map(p => ({ ...p, employerId: importEmployerId }));
+    const importedWeeks = new Set(tagged.map(p => p.weekEnding));
+    setPayslips(prev => [
+      ...prev.filter(p => !importedWeeks.has(p.weekEnding) || (p.employerId || PRIMARY_EMPLOYER_ID) !== importEmployerId),
+      ...tagged
+    ]);
+    setImportFile(null);
+  };
+
+  const addEmployer = () => {
+    setEmployers(prev => [
+      ...prev,
+      { id: `employer-${Date.now()}`, name: `Employer ${prev.length + 1}`, employmentType: 'casual', isPrimary: false }
+    ]);
+  };
+
+  const updateEmployer = (id: string, updates: Partial<PIAWEEmployer>) => {
+    setEmployers(prev => prev.map(employer => employer.id === id ? { ...employer, ...updates } : employer));
+  };
+
+  const removeEmployer = (id: string) => {
+    const employer = employers.find(e => e.id === id);
+    if (!employer || employer.isPrimary) return;
+
+    const employerPayslips = payslips.filter(p => p.employerId === id);
+    if (employerPayslips.length > 0 &&
+        !window.confirm(`Remove ${employer.name} and its ${employerPayslips.length} payslip(s)?`)) return;
+
+    setEmployers(prev => prev.filter(e => e.id !== id));
+    setPayslips(prev => prev.filter(p => p.employerId !== id));
+    if (importEmployerId === id) setImportEmployerId(PRIMARY_EMPLOYER_ID);
+  };
+
+  const getEmployerName = (employerId?: string) =>
+    employers.find(employer => employer.id === (employerId || PRIMARY_EMPLOYER_ID))?.name || 'Unknown employer';
+
   const addPayslip = () => {
     if (!newPayslip.weekEnding || !newPayslip.ordinaryRate) return;
+    if (newPayslip.payPeriod === 'irregular' && !newPayslip.periodStart) return;
 
     const totalGross = 
       (newPayslip.ordinaryHours || 0) * (newPayslip.ordinaryRate || 0) +
@@ -149,6 +202,9 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     const payslip: PayslipEntry = {
       id: `payslip-${Date.now()}`,
       weekEnding: newPayslip.weekEnding!,
+      payPeriod: newPayslip.payPeriod,
+      periodStart: newPayslip.periodStart || undefined,
+      employerId: newPayslip.employerId || PRIMARY_EMPLOYER_ID,
       ordinaryHours: newPayslip.ordinaryHours || 0,
       ordinaryRate: newPayslip.ordinaryRate || 0,
       overtimeHours: newPayslip.overtimeHours || 0,
@@ -158,14 +214,20 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
       commissions: newPayslip.commissions || 0,
       otherIncome: newPayslip.otherIncome || 0,
       totalGross,
+      earningsComponents: newPayslip.earningsComponents?.filter(component => component.amount > 0),
       unpaidLeave: newPayslip.unpaidLeave || false
     };
 
     setPayslips(prev => [...prev, payslip]);
+    // Default the next entry to the pay period immediately before this one
     setNewPayslip({
-      weekEnding: format(subWeeks(parseISO(newPayslip.weekEnding!), 1), 'yyyy-MM-dd'),
+      weekEnding: format(subDays(piaweService.getPayslipPeriod(payslip).start, 1), 'yyyy-MM-dd'),
+      payPeriod: payslip.payPeriod,
+      employerId: payslip.employerId,
       ordinaryHours: 0,
       ordinaryRate: newPayslip.ordinaryRate,
+      // Benefits usually recur each pay period
+      earningsComponents: payslip.earningsComponents?.map((component, index) => ({ ...component, id: `component-${Date.now()}-${index}` })),
       overtimeHours: 0,
       overtimeRate: newPayslip.overtimeRate,
       allowances: 0,
@@ -177,13 +239,35 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     setShowAddPayslip(false);
   };
 
+  const addEarningsComponent = () => {
+    const component: EarningsComponent = { id: `component-${Date.now()}`, type: 'vehicle', amount: 0, valuationMethod: 'statutory-formula' };
+    setNewPayslip(prev => ({ ...prev, earningsComponents: [...(prev.earningsComponents || []), component] }));
+  };
+
+  const updateEarningsComponent = (id: string, updates: Partial<EarningsComponent>) => {
+    setNewPayslip(prev => ({
+      ...prev,
+      earningsComponents: prev.earningsComponents?.map(component => {
+        if (component.id !== id) return component;
+        const updated = { ...component, ...updates };
+        // Keep the valuation method valid for the component type
+        const methods = EARNINGS_COMPONENT_TYPES[updated.type].valuationMethods;
+        return methods.includes(updated.valuationMethod) ? updated : { ...updated, valuationMethod: methods[0] };
+      })
+    }));
+  };
+
+  const removeEarningsComponent = (id: string) => {
+    setNewPayslip(prev => ({ ...prev, earningsComponents: prev.earningsComponents?.filter(component => component.id !== id) }));
+  };
+
   const updatePayslip = (id: string, updates: Partial<PayslipEntry>) => {
     setPayslips(prev => prev.map(payslip => {
       if (payslip.id === id) {
         const updated = { ...payslip, ...updates };
         updated.totalGross = 
-          updated.ordinaryHours * updated.ordinaryRate +
-          updated.overtimeHours * updated.overtimeRate +
+          piaweService.getOrdinaryPay(updated) +
+          piaweService.getOvertimePay(updated) +
           updated.allowances +
           updated.bonuses +
           updated.commissions +
@@ -198,14 +282,17 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     setPayslips(prev => prev.filter(p => p.id !== id));
   };
 
-  const calculatePIAWE = () => {
+  const calculatePIAWE = (nextAdjustments: PIAWEAdjustment[] = adjustments) => {
     if (payslips.length === 0) return;
 
     setIsCalculating(true);
     try {
-      const result = piaweService.calculatePIAWE(payslips, injuryDate, selectedJurisdiction, adjustments);
+      const result = piaweService.calculatePIAWE(payslips, injuryDate, selectedJurisdiction, nextAdjustments, employers);
       result.caseId = selectedCaseId || '';
       result.workerId = selectedCase?.worker.id || workerId || '';
+      if (selectedCase) {
+        result.workerName = `${selectedCase.worker.firstName} ${selectedCase.worker.lastName}`;
+      }
       setCalculation(result);
       onCalculationComplete?.(result);
     } catch (error) {
@@ -222,18 +309,77 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
     }
   }, [selectedJurisdiction]);
 
-  const downloadStatement = () => {
+  const downloadStatement = async () => {
     if (!calculation) return;
-    
-    const blob = piaweService.generatePIAWEStatement(calculation);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `PIAWE-Statement-${calculation.workerId}-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+
+    try {
+      const blob = await piaweService.generatePIAWEStatement(calculation);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const fileLabel = (calculation.workerName || calculation.workerId || 'worker').replace(/[^A-Za-z0-9-]+/g, '-');
+      a.download = `PIAWE-Statement-${fileLabel}-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error generating PIAWE statement:', error);
+      alert('Failed to generate the PIAWE statement PDF.');
+    }
+  };
+
+  const applyIndexation = () => {
+    if (!calculation) return;
+
+    const indexed = piaweService.applyIndexation(calculation);
+    setCalculation(indexed);
+    onCalculationComplete?.(indexed);
+  };
+
+  const acceptProposal = (proposal: PIAWEAdjustmentProposal) => {
+    const next = [...adjustments, proposal.adjustment];
+    setAdjustments(next);
+    calculatePIAWE(next);
+  };
+
+  const rejectProposal = (proposal: PIAWEAdjustmentProposal) => {
+    setRejectedProposalIds(prev => [...prev, proposal.id]);
+  };
+
+  const removeAdjustment = (id: string) => {
+    const next = adjustments.filter(adjustment => adjustment.id !== id);
+    setAdjustments(next);
+    setRejectedProposalIds(prev => prev.filter(rejected => rejected !== id));
+    calculatePIAWE(next);
+  };
+
+  const loadVersion = (version: PIAWECalculation) => {
+    setPayslips(version.payslips);
+    setAdjustments(version.adjustments);
+    if (version.employers?.length) {
+      setEmployers(version.employers);
+    }
+    setInjuryDate(version.injuryDate);
+    setSelectedJurisdiction(version.jurisdiction);
+    setCalculation(version);
+  };
+
+  const promoteScenario = (promoted: PIAWECalculation) => {
+    const result = {
+      ...promoted,
+      caseId: selectedCaseId || '',
+      workerId: selectedCase?.worker.id || workerId || '',
+      workerName: selectedCase ? `${selectedCase.worker.firstName} ${selectedCase.worker.lastName}` : promoted.workerName
+    };
+    setAdjustments(result.adjustments.filter(adjustment => adjustment.type !== 'indexation'));
+    setCalculation(result);
+    onCalculationComplete?.(result);
+  };
+
+  const handleVersionAgreed = (agreed: PIAWECalculation) => {
+    loadVersion(agreed);
+    onCalculationComplete?.(agreed);
   };
 
   const getValidationIcon = (issue: ValidationIssue) => {
@@ -242,6 +388,24 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
       <AlertTriangle className="h-4 w-4 text-warning-500" />;
   };
 
+  const pendingIndexation = calculation
+    ? jurisdictionRulesService
+        .getIndexationSteps(calculation.jurisdiction, calculation.indexedTo || calculation.injuryDate, format(new Date(), 'yyyy-MM-dd'))
+        .filter(step => !calculation.adjustments.some(adj => adj.ruleVersion === step.version))
+    : [];
+
+  // Payslips named in a validation issue are highlighted in the payslip table
+  const flaggedPayslips = new Map<string, ValidationIssue[]>();
+  calculation?.validationIssues.forEach(issue => {
+    issue.payslipIds?.forEach(id => flaggedPayslips.set(id, [...(flaggedPayslips.get(id) || []), issue]));
+  });
+
+  const proposals = calculation
+    ? piaweService.proposeRateAdjustments(calculation, selectedCase?.wagesSalary)
+        .filter(proposal => !rejectedProposalIds.includes(proposal.id))
+    : [];
+  const rateAdjustments = calculation?.adjustments.filter(adj => adj.type !== 'indexation') || [];
+
   const getJurisdictionInfo = (code: JurisdictionType) => {
     return jurisdictions.find(j => j.code === code);
   };
@@ -357,6 +521,9 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
         <div className="bg-gray-50 rounded-lg p-4">
           <h3 className="text-sm font-medium text-gray-900 mb-3">
             {getJurisdictionInfo(selectedJurisdiction)?.name} ({selectedJurisdiction}) Rules
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {jurisdictionRules.version} • in force on the injury date
+            </span>
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
             <div>
@@ -445,13 +612,25 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-medium">Payslip Data</h3>
             <div className="flex space-x-2">
+              {employers.length > 1 && (
+                <select
+                  value={importEmployerId}
+                  onChange={(e) => setImportEmployerId(e.target.value)}
+                  className="rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm"
+                  title="Employer for uploaded payslips"
+                >
+                  {employers.map(employer => (
+                    <option key={employer.id} value={employer.id}>Upload for {employer.name}</option>
+                  ))}
+                </select>
+              )}
               <label className="cursor-pointer inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
                 <Upload className="h-4 w-4 mr-2" />
                 Upload Payslips
                 <input
                   type="file"
                   className="sr-only"
-                  accept=".pdf,.jpg,.jpeg,.png"
+                  accept=".csv,.xlsx,.pdf"
                   onChange={handleFileUpload}
                 />
               </label>
@@ -467,6 +646,62 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
         </div>
 
         <div className="p-6">
+          {/* Employers */}
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Employers</h4>
+                <p className="text-xs text-gray-500">
+                  Add each concurrent employer the worker had at the injury date. Each employer is averaged over its own payslips.
+                </p>
+              </div>
+              <button
+                onClick={addEmployer}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Employer
+              </button>
+            </div>
+            <div className="space-y-2">
+              {employers.map(employer => (
+                <div key={employer.id} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={employer.name}
+                    onChange={(e) => updateEmployer(employer.id, { name: e.target.value })}
+                    disabled={employer.isPrimary && !!selectedCase}
+                    className="flex-1 rounded-md border border-gray-300 shadow-sm px-3 py-1.5 text-sm disabled:bg-gray-50"
+                  />
+                  <select
+                    value={employer.employmentType}
+                    onChange={(e) => updateEmployer(employer.id, { employmentType: e.target.value as EmploymentType })}
+                    className="rounded-md border border-gray-300 shadow-sm px-3 py-1.5 text-sm"
+                  >
+                    <option value="full-time">Full-time</option>
+                    <option value="part-time">Part-time</option>
+                    <option value="casual">Casual</option>
+                  </select>
+                  <span className="w-28 text-xs text-gray-500">
+                    {employer.isPrimary ? 'Claim employer' : `${payslips.filter(p => p.employerId === employer.id).length} payslip(s)`}
+                  </span>
+                  <button
+                    onClick={() => removeEmployer(employer.id)}
+                    disabled={employer.isPrimary}
+                    className="text-error-600 hover:text-error-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {employers.length > 1 && !jurisdictionRules.includeConcurrentEmployment && (
+              <p className="text-xs text-warning-700 mt-3">
+                {selectedJurisdiction} does not include earnings from concurrent employment. Only the claim employer counts towards PIAWE.
+              </p>
+            )}
+          </div>
+
           {payslips.length === 0 ? (
             <div className="text-center py-8">
               <Calculator className="h-12 w-12 text-gray-400 mx-auto mb-3" />
@@ -483,7 +718,10 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Week Ending</th>
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period Ending</th>
+                    {employers.length > 1 && (
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Employer</th>
+                    )}
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ordinary</th>
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Overtime</th>
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase">Allowances</th>
@@ -494,25 +732,44 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {payslips.map((payslip) => (
-                    <tr key={payslip.id} className={payslip.unpaidLeave ? 'bg-gray-50' : ''}>
+                    <tr
+                      key={payslip.id}
+                      id={`payslip-${payslip.id}`}
+                      className={flaggedPayslips.has(payslip.id) ? 'bg-warning-50' : payslip.unpaidLeave ? 'bg-gray-50' : ''}
+                    >
                       <td className="px-3 py-4 whitespace-nowrap text-sm">
+                        {flaggedPayslips.has(payslip.id) && (
+                          <span title={flaggedPayslips.get(payslip.id)!.map(issue => issue.message).join('\n')}>
+                            <AlertTriangle className="inline h-3.5 w-3.5 text-warning-500 mr-1" />
+                          </span>
+                        )}
                         {format(parseISO(payslip.weekEnding), 'dd/MM/yyyy')}
+                        {piaweService.getPayslipPeriod(payslip).days > 7 && (
+                          <div className="text-xs text-gray-500">
+                            {payslip.payPeriod || 'irregular'} from {format(piaweService.getPayslipPeriod(payslip).start, 'dd/MM/yyyy')}
+                          </div>
+                        )}
                         {payslip.unpaidLeave && (
                           <span className="ml-2 px-2 py-0.5 text-xs bg-warning-100 text-warning-700 rounded">
                             Unpaid Leave
                           </span>
                         )}
                       </td>
+                      {employers.length > 1 && (
+                        <td className="px-3 py-4 whitespace-nowrap text-sm">
+                          {getEmployerName(payslip.employerId)}
+                        </td>
+                      )}
                       <td className="px-3 py-4 whitespace-nowrap text-sm">
-                        ${(payslip.ordinaryHours * payslip.ordinaryRate).toFixed(2)}
+                        ${piaweService.getOrdinaryPay(payslip).toFixed(2)}
                         <div className="text-xs text-gray-500">
-                          {payslip.ordinaryHours}h @ ${payslip.ordinaryRate}
+                          {payslip.ordinaryPay !== undefined ? 'Amount, no hours' : `${payslip.ordinaryHours}h @ $${payslip.ordinaryRate}`}
                         </div>
                       </td>
                       <td className="px-3 py-4 whitespace-nowrap text-sm">
-                        ${(payslip.overtimeHours * payslip.overtimeRate).toFixed(2)}
+                        ${piaweService.getOvertimePay(payslip).toFixed(2)}
                         <div className="text-xs text-gray-500">
-                          {payslip.overtimeHours}h @ ${payslip.overtimeRate}
+                          {payslip.overtimePay !== undefined ? 'Amount, no hours' : `${payslip.overtimeHours}h @ $${payslip.overtimeRate}`}
                         </div>
                       </td>
                       <td className="px-3 py-4 whitespace-nowrap text-sm">
@@ -523,6 +780,11 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                       </td>
                       <td className="px-3 py-4 whitespace-nowrap text-sm font-medium">
                         ${payslip.totalGross.toFixed(2)}
+                        {payslip.earningsComponents && payslip.earningsComponents.length > 0 && (
+                          <div className="text-xs font-normal text-gray-500">
+                            + ${payslip.earningsComponents.reduce((sum, component) => sum + component.amount, 0).toFixed(2)} benefits
+                          </div>
+                        )}
                       </td>
                       <td className="px-3 py-4 whitespace-nowrap text-sm">
                         <div className="flex space-x-1">
@@ -549,6 +811,12 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
         </div>
       </div>
 
+      <PayslipImportModal
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImport={handleImportPayslips}
+      />
+
       {/* Add Payslip Modal */}
       {showAddPayslip && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -560,10 +828,39 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
               </button>
             </div>
             
-            <div className="p-6 space-y-4">
+            <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+              {employers.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Employer</label>
+                  <select
+                    value={newPayslip.employerId || PRIMARY_EMPLOYER_ID}
+                    onChange={(e) => setNewPayslip(prev => ({ ...prev, employerId: e.target.value }))}
+                    className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2"
+                  >
+                    {employers.map(employer => (
+                      <option key={employer.id} value={employer.id}>{employer.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Week Ending</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pay Period</label>
+                  <select
+                    value={newPayslip.payPeriod}
+                    onChange={(e) => setNewPayslip(prev => ({ ...prev, payPeriod: e.target.value as PayPeriod, periodStart: undefined }))}
+                    className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2"
+                  >
+                    <option value="weekly">Weekly</option>
+                    <option value="fortnightly">Fortnightly</option>
+                    <option value="monthly">Monthly</option>
+                    <option value="irregular">Irregular (enter dates)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {newPayslip.payPeriod === 'weekly' ? 'Week Ending' : 'Period Ending'}
+                  </label>
                   <input
                     type="date"
                     value={newPayslip.weekEnding}
@@ -571,6 +868,18 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                     className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2"
                   />
                 </div>
+                {newPayslip.payPeriod === 'irregular' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Period Start</label>
+                    <input
+                      type="date"
+                      value={newPayslip.periodStart || ''}
+                      max={newPayslip.weekEnding}
+                      onChange={(e) => setNewPayslip(prev => ({ ...prev, periodStart: e.target.value }))}
+                      className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2"
+                    />
+                  </div>
+                )}
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -676,6 +985,68 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                   />
                 </div>
               </div>
+
+              {/* Benefits and salary sacrifice */}
+              <div className="border-t border-gray-200 pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Benefits & Salary Sacrifice</label>
+                    <p className="text-xs text-gray-500">Value for this pay period. Not included in total gross.</p>
+                  </div>
+                  <button
+                    onClick={addEarningsComponent}
+                    className="inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                  >
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    Add
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {(newPayslip.earningsComponents || []).map(component => {
+                    const rule = jurisdictionRules.earningsComponentRules[component.type];
+                    return (
+                      <div key={component.id}>
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={component.type}
+                            onChange={(e) => updateEarningsComponent(component.id, { type: e.target.value as EarningsComponentType })}
+                            className="flex-1 rounded-md border border-gray-300 shadow-sm px-2 py-1.5 text-sm"
+                          >
+                            {(Object.keys(EARNINGS_COMPONENT_TYPES) as EarningsComponentType[]).map(type => (
+                              <option key={type} value={type}>{EARNINGS_COMPONENT_TYPES[type].label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={component.valuationMethod}
+                            onChange={(e) => updateEarningsComponent(component.id, { valuationMethod: e.target.value as EarningsValuationMethod })}
+                            className="rounded-md border border-gray-300 shadow-sm px-2 py-1.5 text-sm"
+                          >
+                            {EARNINGS_COMPONENT_TYPES[component.type].valuationMethods.map(method => (
+                              <option key={method} value={method}>{VALUATION_METHOD_LABELS[method]}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={component.amount}
+                            onChange={(e) => updateEarningsComponent(component.id, { amount: parseFloat(e.target.value) || 0 })}
+                            className="w-28 rounded-md border border-gray-300 shadow-sm px-2 py-1.5 text-sm"
+                          />
+                          <button
+                            onClick={() => removeEarningsComponent(component.id)}
+                            className="text-error-600 hover:text-error-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        <p className={`text-xs mt-1 ${rule.included ? 'text-success-700' : 'text-gray-500'}`}>
+                          {rule.included ? 'Included' : 'Excluded'} in {selectedJurisdiction}: {rule.basis}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
             </div>
 
             <div className="flex justify-end space-x-3 p-4 border-t border-gray-200">
@@ -724,6 +1095,14 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                 </h4>
                 <p className="text-primary-700">Final PIAWE ({selectedJurisdiction})</p>
                 <p className="text-sm text-primary-600 mt-1">{calculation.methodUsed}</p>
+                {calculation.scenario && (
+                  <p className="text-xs text-primary-600 mt-1">Scenario: {calculation.scenario.name}</p>
+                )}
+                {calculation.versionNumber && (
+                  <p className="text-xs text-primary-600 mt-1">
+                    Saved version {calculation.versionNumber}{calculation.agreed ? ' • Agreed PIAWE' : ''}
+                  </p>
+                )}
                 {jurisdictionRules.cappingRules?.maxWeeklyAmount && 
                  calculation.finalPIAWE >= jurisdictionRules.cappingRules.maxWeeklyAmount && (
                   <p className="text-xs text-warning-600 mt-2">
@@ -754,6 +1133,43 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
               </div>
             )}
 
+            {/* Concurrent Employment */}
+            {calculation.employerBreakdown && (
+              <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                <h5 className="font-medium mb-3">Employer Breakdown</h5>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Employer</th>
+                        <th className="py-2 pr-4 font-medium">Type</th>
+                        <th className="py-2 pr-4 font-medium text-right">Payslips</th>
+                        <th className="py-2 pr-4 font-medium text-right">52-Week Avg</th>
+                        <th className="py-2 pr-4 font-medium text-right">13-Week Avg</th>
+                        <th className="py-2 font-medium text-right">Average Weekly</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {calculation.employerBreakdown.map(result => (
+                        <tr key={result.employerId} className={result.included ? '' : 'text-gray-400'}>
+                          <td className="py-2 pr-4">
+                            {result.employerName}
+                            {result.isPrimary && <span className="ml-2 text-xs text-primary-600">Claim employer</span>}
+                            {!result.included && <span className="ml-2 text-xs">Not counted in {calculation.jurisdiction}</span>}
+                          </td>
+                          <td className="py-2 pr-4 capitalize">{result.employmentType}</td>
+                          <td className="py-2 pr-4 text-right">{result.payslipCount}</td>
+                          <td className="py-2 pr-4 text-right">${result.period52Week.averageWeekly.toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right">${result.period13Week.averageWeekly.toFixed(2)}</td>
+                          <td className="py-2 text-right font-medium" title={result.methodUsed}>${result.averageWeekly.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* Detailed Breakdown */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
               <div className="border border-gray-200 rounded-lg p-4">
@@ -793,6 +1209,106 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
               </div>
             </div>
 
+            {/* Pay Rise Adjustments */}
+            {(proposals.length > 0 || rateAdjustments.length > 0) && (
+              <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                <h5 className="font-medium mb-3">Adjustments</h5>
+                <div className="space-y-3">
+                  {rateAdjustments.map(adj => (
+                    <div key={adj.id} className="flex items-start justify-between text-sm">
+                      <div>
+                        <p className="text-gray-900">✓ {adj.description}</p>
+                        <p className="text-xs text-gray-500">{adj.rule}</p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">
+                          {adj.type === 'manual-override' ? '=' : '+'}${adj.amount.toFixed(2)}
+                        </span>
+                        <button
+                          onClick={() => removeAdjustment(adj.id)}
+                          className="text-error-600 hover:text-error-700"
+                          title="Remove adjustment"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  {proposals.map(proposal => (
+                    <div key={proposal.id} className="border border-primary-200 bg-primary-50 rounded-lg p-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-primary-900">
+                            Proposed: {proposal.adjustment.description}
+                          </p>
+                          <p className="text-xs text-primary-700">
+                            {proposal.adjustment.rule} • from {proposal.source === 'payslips' ? 'payslip history' : 'case wage details'}
+                          </p>
+                        </div>
+                        <span className="text-sm font-semibold text-primary-900">+${proposal.adjustment.amount.toFixed(2)}</span>
+                      </div>
+                      <ul className="mt-2 space-y-0.5 text-xs text-gray-700">
+                        {proposal.workings.map((line, index) => (
+                          <li key={index}>{line}</li>
+                        ))}
+                      </ul>
+                      <div className="flex justify-end space-x-2 mt-3">
+                        <button
+                          onClick={() => rejectProposal(proposal)}
+                          className="px-3 py-1 text-xs border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => acceptProposal(proposal)}
+                          className="px-3 py-1 text-xs bg-primary-600 text-white rounded-md hover:bg-primary-700"
+                        >
+                          Accept
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Indexation */}
+            {(pendingIndexation.length > 0 || calculation.indexedTo) && (
+              <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h5 className="font-medium">Indexation</h5>
+                  {pendingIndexation.length > 0 && (
+                    <button
+                      onClick={applyIndexation}
+                      className="inline-flex items-center px-3 py-1.5 border border-primary-600 text-primary-600 rounded-md text-sm font-medium hover:bg-primary-50"
+                    >
+                      Apply indexation to today
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-1 text-sm">
+                  {calculation.adjustments.filter(adj => adj.type === 'indexation').map(adj => (
+                    <div key={adj.id} className="flex justify-between text-gray-700">
+                      <span>✓ {adj.description} from {format(parseISO(adj.appliedDate), 'dd/MM/yyyy')}</span>
+                      <span>+${adj.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {pendingIndexation.map(step => (
+                    <div key={step.version} className="flex justify-between text-gray-500">
+                      <span>{step.version} indexation from {format(parseISO(step.effectiveFrom), 'dd/MM/yyyy')}</span>
+                      <span>{step.indexationRate}%</span>
+                    </div>
+                  ))}
+                </div>
+                {calculation.indexedTo && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Indexed to {format(parseISO(calculation.indexedTo), 'dd/MM/yyyy')}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Jurisdiction-specific Information */}
             <div className="bg-gray-50 rounded-lg p-4 mb-6">
               <h5 className="font-medium mb-2">{selectedJurisdiction} Specific Calculation Notes</h5>
@@ -854,6 +1370,19 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
                         {issue.suggestedAction && (
                           <p className="text-xs text-gray-500 mt-1">{issue.suggestedAction}</p>
                         )}
+                        {issue.payslipIds && issue.payslipIds.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {payslips.filter(p => issue.payslipIds!.includes(p.id)).map(p => (
+                              <button
+                                key={p.id}
+                                onClick={() => document.getElementById(`payslip-${p.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+                                className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                              >
+                                {format(parseISO(p.weekEnding), 'dd/MM/yyyy')}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -867,7 +1396,7 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
       {/* Calculate Button */}
       <div className="flex justify-center">
         <button
-          onClick={calculatePIAWE}
+          onClick={() => calculatePIAWE()}
           disabled={payslips.length === 0 || isCalculating}
           className="inline-flex items-center px-6 py-3 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
         >
@@ -884,6 +1413,28 @@ const PIAWECalculator: React.FC<PIAWECalculatorProps> = ({
           )}
         </button>
       </div>
+
+      {/* Saved versions for the selected case */}
+      {calculation && (
+        <PIAWEScenarioWorkspace
+          calculation={calculation}
+          payslips={payslips}
+          adjustments={adjustments}
+          employers={employers}
+          injuryDate={injuryDate}
+          jurisdiction={selectedJurisdiction}
+          onPromote={promoteScenario}
+        />
+      )}
+
+      {selectedCaseId && (
+        <PIAWEVersionHistory
+          caseId={selectedCaseId}
+          calculation={calculation}
+          onLoadVersion={loadVersion}
+          onAgreed={handleVersionAgreed}
+        />
+      )}
     </div>
   );
 };
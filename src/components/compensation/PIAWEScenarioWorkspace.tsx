@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { GitBranch, Plus, X, ArrowUpCircle } from 'lucide-react';
+import { PIAWECalculation, PIAWEScenario, PIAWEScenarioOptions, PIAWEResult, PayslipEntry, PIAWEAdjustment, PIAWEEmployer, JurisdictionType } from '../../types';
+import { piaweService } from '../../services/piaweService';
+import { entitlementService } from '../../services/entitlementService';
+
+interface PIAWEScenarioWorkspaceProps {
+  calculation: PIAWECalculation;
+  payslips: PayslipEntry[];
+  adjustments: PIAWEAdjustment[];
+  employers: PIAWEEmployer[];
+  injuryDate: string;
+  jurisdiction: JurisdictionType;
+  onPromote: (calculation: PIAWECalculation) => void;
+}
+
+const REFERENCE_PERIODS = [52, 39, 26, 13];
+
+const COMPONENT_ROWS: { label: string; key: keyof PIAWEResult; money?: boolean }[] = [
+  { label: 'Ordinary earnings', key: 'ordinaryEarnings', money: true },
+  { label: 'Overtime', key: 'overtimeEarnings', money: true },
+  { label: 'Allowances', key: 'allowancesTotal', money: true },
+  { label: 'Bonuses', key: 'bonusesTotal', money: true },
+  { label: 'Commissions', key: 'commissionsTotal', money: true },
+  { label: 'Other income', key: 'otherIncomeTotal', money: true },
+  { label: 'Non-pecuniary benefits', key: 'nonPecuniaryTotal', money: true },
+  { label: 'Salary sacrifice', key: 'salarySacrificeTotal', money: true },
+  { label: 'Total earnings', key: 'totalEarnings', money: true },
+  { label: 'Included weeks', key: 'includedWeeks' },
+  { label: 'Average weekly', key: 'averageWeekly', money: true }
+];
+
+// The reference period behind the final PIAWE, for the per-component totals
+const getPeriodUsed = (calculation: PIAWECalculation): PIAWEResult => {
+  const { period52Week, period13Week, periodCustom } = calculation.calculations;
+  if (periodCustom) return periodCustom;
+  return calculation.methodUsed.startsWith('13-week') ? period13Week : period52Week;
+};
+
+// First week's payment, which applies the entitlement percentage and the weekly cap
+const getWeeklyEntitlement = (calculation: PIAWECalculation): number =>
+  entitlementService.buildSchedule(calculation, { weeks: 1 }).weeks[0]?.weeklyPayable ?? 0;
+
+const PIAWEScenarioWorkspace: React.FC<PIAWEScenarioWorkspaceProps> = ({
+  calculation,
+  payslips,
+  adjustments,
+  employers,
+  injuryDate,
+  jurisdiction,
+  onPromote
+}) => {
+  const [scenarios, setScenarios] = useState<PIAWEScenario[]>([]);
+  const [name, setName] = useState('');
+
+  const defaultPeriod = piaweService.getJurisdictionRules(jurisdiction, injuryDate).defaultReferencePeriod;
+  const periodOptions = Array.from(new Set([defaultPeriod, ...REFERENCE_PERIODS])).sort((a, b) => b - a);
+
+  const calculate = (scenario: Omit<PIAWEScenario, 'calculation'>): PIAWEScenario => ({
+    ...scenario,
+    calculation: piaweService.calculateScenario(
+      scenario.payslips,
+      scenario.injuryDate,
+      scenario.jurisdiction,
+      scenario.adjustments,
+      scenario.employers,
+      scenario.name,
+      scenario.options
+    )
+  });
+
+  // Scenarios take a copy of the inputs so later edits in the calculator do not change them
+  const cloneScenario = () => {
+    const scenario = calculate({
+      id: `scenario-${Date.now()}`,
+      name: name.trim() || `Scenario ${scenarios.length + 1}`,
+      options: { includeOvertime: true, includeBonuses: true, includeAllowances: true, referencePeriodWeeks: defaultPeriod },
+      payslips: [...payslips],
+      adjustments: adjustments.filter(adjustment => adjustment.type !== 'indexation'),
+      employers: [...employers],
+      injuryDate,
+      jurisdiction,
+      createdAt: new Date().toISOString()
+    });
+    setScenarios(prev => [...prev, scenario]);
+    setName('');
+  };
+
+  const updateOptions = (id: string, updates: Partial<PIAWEScenarioOptions>) => {
+    setScenarios(prev => prev.map(scenario =>
+      scenario.id === id ? calculate({ ...scenario, options: { ...scenario.options, ...updates } }) : scenario
+    ));
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+  };
+
+  const promote = (scenario: PIAWEScenario) => {
+    if (!window.confirm(`Use "${scenario.name}" ($${scenario.calculation.finalPIAWE.toFixed(2)}) as the PIAWE calculation?`)) return;
+    onPromote(scenario.calculation);
+  };
+
+  const columns: { key: string; label: string; calculation: PIAWECalculation; scenario?: PIAWEScenario }[] = [
+    { key: 'current', label: 'Current', calculation },
+    ...scenarios.map(scenario => ({ key: scenario.id, label: scenario.name, calculation: scenario.calculation, scenario }))
+  ];
+
+  const difference = (value: number, base: number) => {
+    const delta = value - base;
+    if (Math.abs(delta) < 0.005) return null;
+    return (
+      <span className={`block text-xs ${delta > 0 ? 'text-success-600' : 'text-error-600'}`}>
+        {delta > 0 ? '+' : '-'}${Math.abs(delta).toFixed(2)}
+      </span>
+    );
+  };
+
+  const toggles: { label: string; key: 'includeOvertime' | 'includeBonuses' | 'includeAllowances' }[] = [
+    { label: 'Include overtime', key: 'includeOvertime' },
+    { label: 'Include bonuses', key: 'includeBonuses' },
+    { label: 'Include allowances', key: 'includeAllowances' }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <GitBranch className="h-5 w-5 text-primary-500 mr-2" />
+          <div>
+            <h3 className="text-lg font-medium">What-if Scenarios</h3>
+            <p className="text-sm text-gray-500">Compare PIAWE with components left out or a different reference period</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scenario name"
+            className="rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm"
+          />
+          <button
+            onClick={cloneScenario}
+            className="inline-flex items-center px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Clone Current Inputs
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Clone the current inputs to try a scenario, for example leaving out irregular overtime.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500"></th>
+                  {columns.map(column => (
+                    <th key={column.key} className="px-3 py-2 text-right text-xs font-medium text-gray-700">
+                      <div className="flex items-center justify-end space-x-1">
+                        <span>{column.label}</span>
+                        {column.scenario && (
+                          <button
+                            onClick={() => removeScenario(column.key)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title="Remove scenario"
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-100">
+                {toggles.map(toggle => (
+                  <tr key={toggle.key}>
+                    <td className="px-3 py-2 text-gray-600">{toggle.label}</td>
+                    {columns.map(column => (
+                      <td key={column.key} className="px-3 py-2 text-right">
+                        {column.scenario ? (
+                          <input
+                            type="checkbox"
+                            checked={column.scenario.options[toggle.key]}
+                            onChange={(e) => updateOptions(column.key, { [toggle.key]: e.target.checked })}
+                            className="rounded border-gray-300 text-primary-600"
+                          />
+                        ) : (
+                          <span className="text-gray-500">Yes</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-3 py-2 text-gray-600">Reference period</td>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-2 text-right">
+                      {column.scenario ? (
+                        <select
+                          value={column.scenario.options.referencePeriodWeeks}
+                          onChange={(e) => updateOptions(column.key, { referencePeriodWeeks: parseInt(e.target.value, 10) })}
+                          className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        >
+                          {periodOptions.map(weeks => (
+                            <option key={weeks} value={weeks}>
+                              {weeks} weeks{weeks === defaultPeriod ? ` (${jurisdiction} method)` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-gray-500">{jurisdiction} method</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+
+                <tr className="bg-primary-50">
+                  <td className="px-3 py-2 font-medium text-primary-900">Final PIAWE</td>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-2 text-right font-semibold text-primary-900">
+                      ${column.calculation.finalPIAWE.toFixed(2)}
+                      {column.scenario && difference(column.calculation.finalPIAWE, calculation.finalPIAWE)}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 font-medium">Weekly entitlement (week 1)</td>
+                  {columns.map(column => {
+                    const entitlement = getWeeklyEntitlement(column.calculation);
+                    return (
+                      <td key={column.key} className="px-3 py-2 text-right font-medium">
+                        ${entitlement.toFixed(2)}
+                        {column.scenario && difference(entitlement, getWeeklyEntitlement(calculation))}
+                      </td>
+                    );
+                  })}
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 text-gray-600">Method</td>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-2 text-right text-xs text-gray-500">
+                      {column.calculation.methodUsed}
+                    </td>
+                  ))}
+                </tr>
+                {COMPONENT_ROWS.map(row => (
+                  <tr key={row.key}>
+                    <td className="px-3 py-2 text-gray-600">{row.label}</td>
+                    {columns.map(column => {
+                      // Calculations saved before a component was added have no total for it
+                      const value = getPeriodUsed(column.calculation)[row.key] ?? 0;
+                      return (
+                        <td key={column.key} className="px-3 py-2 text-right">
+                          {row.money ? `$${value.toFixed(2)}` : value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-3 py-2"></td>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-2 text-right">
+                      {column.scenario && (
+                        <button
+                          onClick={() => promote(column.scenario!)}
+                          className="inline-flex items-center px-2 py-1 text-xs border border-primary-600 text-primary-600 rounded-md hover:bg-primary-50"
+                        >
+                          <ArrowUpCircle className="h-3.5 w-3.5 mr-1" />
+                          Use this PIAWE
+                        </button>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PIAWEScenarioWorkspace;
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Save, CheckCircle, GitCompare, RotateCcw, X, Receipt } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ArrearsStatement, PIAWECalculation, PIAWECalculationVersion, PayslipEntry } from '../../types';
+import { supabaseService } from '../../services/supabaseService';
+import { piaweService } from '../../services/piaweService';
+import { arrearsService } from '../../services/arrearsService';
+import { useAuthStore } from '../../store/authStore';
+import { useCaseStore } from '../../store/caseStore';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface PIAWEVersionHistoryProps {
+  caseId: string;
+  calculation: PIAWECalculation | null;
+  onLoadVersion: (calculation: PIAWECalculation) => void;
+  onAgreed: (calculation: PIAWECalculation) => void;
+}
+
+const formatValue = (value: PayslipEntry[keyof PayslipEntry] | undefined) => {
+  if (value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toFixed(2);
+  if (Array.isArray(value)) return value.map(component => `${component.type} $${component.amount.toFixed(2)}`).join(', ') || '-';
+  return value;
+};
+
+const PIAWEVersionHistory: React.FC<PIAWEVersionHistoryProps> = ({ caseId, calculation, onLoadVersion, onAgreed }) => {
+  const { user } = useAuthStore();
+  const { getCase } = useCaseStore();
+  const [versions, setVersions] = useState<PIAWECalculationVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [reason, setReason] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [arrearsStatement, setArrearsStatement] = useState<ArrearsStatement | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setVersions(await supabaseService.getPiaweVersions(caseId));
+    } catch (error) {
+      console.error('Failed to load PIAWE history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    setCompareIds([]);
+    setArrearsStatement(null);
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleSaveVersion = async () => {
+    if (!calculation || !reason.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const version = await supabaseService.addPiaweVersion(caseId, calculation, reason.trim(), {
+        id: user?.id,
+        name: user?.name || 'Unknown user'
+      });
+      setVersions(prev => [version, ...prev]);
+      setReason('');
+      setShowSaveForm(false);
+    } catch (error) {
+      console.error('Failed to save PIAWE version:', error);
+      alert('Failed to save this calculation version. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Weeks already paid at the old PIAWE are recalculated at the agreed one. A statement is only
+  // raised when the payments made differ from the revised entitlement.
+  const raiseArrearsStatement = async (version: PIAWECalculationVersion, previousPIAWE?: number) => {
+    const [caseData, payments, statements] = await Promise.all([
+      getCase(caseId),
+      supabaseService.getPayments(caseId),
+      supabaseService.getArrearsStatements(caseId)
+    ]);
+    if (!caseData) return null;
+
+    const result = arrearsService.calculate(version.calculation, caseData, payments, statements, format(new Date(), 'yyyy-MM-dd'));
+    if (Math.abs(result.netAmount) < 0.005) return null;
+
+    return supabaseService.addArrearsStatement({
+      ...result,
+      caseId,
+      piaweVersionId: version.id,
+      versionNumber: version.versionNumber,
+      previousPIAWE,
+      newPIAWE: version.finalPIAWE
+    }, { id: user?.id, name: user?.name || 'Unknown user' });
+  };
+
+  const handleAgree = async (version: PIAWECalculationVersion) => {
+    if (!window.confirm(`Mark version ${version.versionNumber} ($${version.finalPIAWE.toFixed(2)}) as the agreed PIAWE?`)) return;
+
+    const previousPIAWE = versions.find(existing => existing.isAgreed)?.finalPIAWE ?? calculation?.finalPIAWE;
+    try {
+      await supabaseService.agreePiaweVersion(caseId, version.id, user?.name || 'Unknown user');
+      await loadVersions();
+      onAgreed({ ...version.calculation, versionNumber: version.versionNumber, agreed: true });
+    } catch (error) {
+      console.error('Failed to mark PIAWE version as agreed:', error);
+      alert('Failed to mark this version as agreed. Please try again.');
+      return;
+    }
+
+    try {
+      setArrearsStatement(await raiseArrearsStatement(version, previousPIAWE));
+    } catch (error) {
+      console.error('Failed to raise arrears statement:', error);
+      alert('The version was agreed, but the arrears statement could not be worked out. Please check the payments ledger.');
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      // Keep the most recent selection when a third version is picked
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  // Always diff the older version against the newer one
+  const compared = versions
+    .filter(version => compareIds.includes(version.id))
+    .sort((a, b) => a.versionNumber - b.versionNumber);
+  const diff = compared.length === 2 ? piaweService.diffCalculations(compared[0].calculation, compared[1].calculation) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-primary-500 mr-2" />
+          <h3 className="text-lg font-medium">Calculation History</h3>
+        </div>
+        <button
+          onClick={() => setShowSaveForm(true)}
+          disabled={!calculation || showSaveForm}
+          className="inline-flex items-center px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Version
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {arrearsStatement && (
+          <div className="flex items-start justify-between border border-warning-200 bg-warning-50 rounded-lg p-4 text-sm">
+            <div className="flex items-start">
+              <Receipt className="h-5 w-5 mr-2 text-warning-600 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-warning-900">
+                  {arrearsService.getLabel(arrearsStatement)} of ${Math.abs(arrearsStatement.netAmount).toFixed(2)} across {arrearsStatement.lines.length} paid weeks
+                </p>
+                <p className="text-warning-800 mt-1">
+                  A draft statement has been raised on the case. Review and approve it under Compensation.
+                </p>
+              </div>
+            </div>
+            <button onClick={() => setArrearsStatement(null)} className="text-warning-600 hover:text-warning-800">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {showSaveForm && calculation && (
+          <div className="border border-primary-200 bg-primary-50 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-primary-900">
+              Saving ${calculation.finalPIAWE.toFixed(2)} ({calculation.methodUsed}) as version {(versions[0]?.versionNumber || 0) + 1}.
+              Saved versions cannot be edited.
+            </p>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="Reason for this calculation (e.g. new payslips received from employer)"
+              className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => { setShowSaveForm(false); setReason(''); }}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveVersion}
+                disabled={!reason.trim() || isSaving}
+                className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No saved versions yet. Save a calculation to start the history for this case.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Compare</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Version</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Saved</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Reason</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">PIAWE</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {versions.map(version => (
+                  <tr key={version.id} className={version.isAgreed ? 'bg-success-50' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(version.id)}
+                        onChange={() => toggleCompare(version.id)}
+                        className="rounded border-gray-300 text-primary-600"
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      v{version.versionNumber}
+                      {version.isAgreed && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-success-100 text-success-800">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Agreed
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <div>{format(parseISO(version.createdAt), 'dd MMM yyyy HH:mm')}</div>
+                      <div className="text-xs text-gray-500">{version.createdBy}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{version.reason}</td>
+                    <td className="px-3 py-2 text-right font-medium">${version.finalPIAWE.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap space-x-2">
+                      <button
+                        onClick={() => onLoadVersion({ ...version.calculation, versionNumber: version.versionNumber, agreed: version.isAgreed })}
+                        className="text-primary-600 hover:text-primary-800"
+                        title="Load into calculator"
+                      >
+                        <RotateCcw className="h-4 w-4 inline" />
+                      </button>
+                      {!version.isAgreed && (
+                        <button
+                          onClick={() => handleAgree(version)}
+                          className="text-xs text-success-700 hover:text-success-900 font-medium"
+                        >
+                          Mark as agreed
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {versions.length > 1 && !diff && (
+              <p className="text-xs text-gray-500 mt-2">Tick two versions to compare them side by side.</p>
+            )}
+          </div>
+        )}
+
+        {/* Side-by-side diff */}
+        {diff && (
+          <div className="border border-gray-200 rounded-lg">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+              <h4 className="font-medium flex items-center">
+                <GitCompare className="h-4 w-4 mr-2 text-primary-500" />
+                v{compared[0].versionNumber} → v{compared[1].versionNumber}
+              </h4>
+              <button onClick={() => setCompareIds([])} className="text-gray-400 hover:text-gray-600">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="py-1 text-left font-medium"></th>
+                    <th className="py-1 text-left font-medium">v{compared[0].versionNumber}</th>
+                    <th className="py-1 text-left font-medium">v{compared[1].versionNumber}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {[
+                    ['Final PIAWE', `$${diff.finalPIAWE.from.toFixed(2)}`, `$${diff.finalPIAWE.to.toFixed(2)}`, diff.finalPIAWE.changed],
+                    ['Method', diff.methodUsed.from, diff.methodUsed.to, diff.methodUsed.changed],
+                    ['Jurisdiction', diff.jurisdiction.from, diff.jurisdiction.to, diff.jurisdiction.changed],
+                    ['Injury date', diff.injuryDate.from, diff.injuryDate.to, diff.injuryDate.changed],
+                    ['Rule set', diff.rulesVersion.from || '-', diff.rulesVersion.to || '-', diff.rulesVersion.changed],
+                    ['Saved by', compared[0].createdBy, compared[1].createdBy, false],
+                    ['Reason', compared[0].reason, compared[1].reason, false]
+                  ].map(([label, from, to, changed]) => (
+                    <tr key={label as string} className={changed ? 'bg-warning-50' : ''}>
+                      <td className="py-1.5 pr-3 text-gray-500 whitespace-nowrap">{label}</td>
+                      <td className="py-1.5 pr-3">{from}</td>
+                      <td className={`py-1.5 ${changed ? 'font-medium' : ''}`}>{to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Payslips ({diff.payslips.length} changed)</h5>
+                {diff.payslips.length === 0 ? (
+                  <p className="text-sm text-gray-500">Payslips are identical.</p>
+                ) : (
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {diff.payslips.map(payslip => (
+                      <div key={`${payslip.weekEnding}-${payslip.employerId || ''}`} className="text-sm border border-gray-100 rounded px-3 py-2">
+                        <span className="font-medium">{format(parseISO(payslip.weekEnding), 'dd MMM yyyy')}</span>
+                        {payslip.employerId && compared[1].calculation.employers && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {(compared[1].calculation.employers.find(e => e.id === payslip.employerId) ||
+                              compared[0].calculation.employers?.find(e => e.id === payslip.employerId))?.name}
+                          </span>
+                        )}
+                        <span className={`ml-2 text-xs ${payslip.status === 'added' ? 'text-success-700' : payslip.status === 'removed' ? 'text-error-700' : 'text-warning-700'}`}>
+                          {payslip.status}
+                        </span>
+                        {payslip.fields.map(change => (
+                          <div key={change.field} className="grid grid-cols-3 text-xs text-gray-600 mt-1">
+                            <span>{change.field}</span>
+                            <span>{formatValue(change.from)}</span>
+                            <span className="font-medium text-gray-900">{formatValue(change.to)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Adjustments ({diff.adjustments.length} changed)</h5>
+                {diff.adjustments.length === 0 ? (
+                  <p className="text-sm text-gray-500">Adjustments are identical.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {diff.adjustments.map(adjustment => (
+                      <div key={adjustment.id} className="grid grid-cols-3 text-sm border border-gray-100 rounded px-3 py-2">
+                        <span>
+                          {adjustment.description}
+                          <span className="ml-2 text-xs text-gray-500">{adjustment.status}</span>
+                        </span>
+                        <span>{adjustment.from ? `$${adjustment.from.amount.toFixed(2)}` : '-'}</span>
+                        <span className="font-medium">{adjustment.to ? `$${adjustment.to.amount.toFixed(2)}` : '-'}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PIAWEVersionHistory;
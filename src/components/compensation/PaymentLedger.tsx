@@ -0,0 +1,492 @@
+import React, { useRef, useState } from 'react';
+import { Wallet, Plus, Check, X, Trash2, FileSpreadsheet, CheckCircle, AlertTriangle, Stethoscope } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Case, Payment, PaymentStatus, PaymentType, RemittanceMatch } from '../../types';
+import { useAuthStore } from '../../store/authStore';
+import { supabaseService } from '../../services/supabaseService';
+import { paymentService, PAYMENT_TYPES, PAYMENT_APPROVAL_LIMITS } from '../../services/paymentService';
+
+interface PaymentLedgerProps {
+  caseData: Case;
+  payments: Payment[];
+  onChange: () => void;
+}
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-primary-100 text-primary-700',
+  processed: 'bg-success-100 text-success-700',
+  rejected: 'bg-error-100 text-error-700'
+};
+
+const EMPTY_PAYMENT = {
+  type: 'medical' as PaymentType,
+  amount: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  providerId: '',
+  reference: '',
+  description: ''
+};
+
+// Who pays a medical payment under the excess. Drafts show where the invoice would go now.
+const MedicalPayer: React.FC<{ split: { employer: number; insurer: number }; exhausts: boolean; insurer: string }> = ({ split, exhausts, insurer }) => (
+  <div className="text-xs mt-0.5">
+    {split.insurer === 0 ? (
+      <span className="text-gray-500">Employer (within excess)</span>
+    ) : split.employer === 0 ? (
+      <span className="text-warning-700">Insurer: {insurer}</span>
+    ) : (
+      <span className="text-warning-700">
+        Employer ${split.employer.toFixed(2)} / {insurer} ${split.insurer.toFixed(2)}
+      </span>
+    )}
+    {exhausts && (
+      <span className="ml-1 px-1.5 py-0.5 rounded bg-warning-100 text-warning-800 font-medium">Excess exhausted</span>
+    )}
+  </div>
+);
+
+const PaymentLedger: React.FC<PaymentLedgerProps> = ({ caseData, payments, onChange }) => {
+  const { user } = useAuthStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newPayment, setNewPayment] = useState(EMPTY_PAYMENT);
+  const [typeFilter, setTypeFilter] = useState<PaymentType | 'all'>('all');
+  const [matches, setMatches] = useState<RemittanceMatch[] | null>(null);
+  const [remittanceErrors, setRemittanceErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const providers = (caseData.stakeholders || []).filter(stakeholder => stakeholder.isActive);
+  const totals = paymentService.getTotals(payments);
+  const rows = paymentService.getRunningTotals(payments)
+    .filter(({ payment }) => typeFilter === 'all' || payment.type === typeFilter)
+    .reverse();
+  const approvalLimit = user ? PAYMENT_APPROVAL_LIMITS[user.role] : 0;
+  const medicalExcess = paymentService.getMedicalExcess(caseData, payments);
+  const insurer = caseData.agent || 'the insurer';
+  const newMedicalSplit = newPayment.type === 'medical' && medicalExcess && parseFloat(newPayment.amount) > 0
+    ? paymentService.splitMedicalPayment(medicalExcess, parseFloat(newPayment.amount))
+    : null;
+  const author = { id: user?.id, name: user?.name || 'Unknown user' };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const amount = parseFloat(newPayment.amount);
+    if (!newPayment.date || !(amount > 0)) {
+      setError('A payment needs a date and an amount');
+      return;
+    }
+    const provider = providers.find(stakeholder => stakeholder.id === newPayment.providerId);
+
+    run(async () => {
+      await supabaseService.addPayments(caseData.id, [{
+        type: newPayment.type,
+        amount,
+        date: newPayment.date,
+        providerId: provider?.id,
+        provider: provider ? provider.organization || provider.name : undefined,
+        reference: newPayment.reference.trim() || undefined,
+        description: newPayment.description.trim() || undefined
+      }], author);
+      setNewPayment(EMPTY_PAYMENT);
+      setIsAdding(false);
+    }, 'Failed to add payment');
+  };
+
+  const handleApprove = (payment: Payment) => {
+    run(() => supabaseService.updatePaymentStatus(payment.id, 'approved', { approvedBy: author.name }), 'Failed to approve payment');
+  };
+
+  const handleReject = (payment: Payment) => {
+    const reason = window.prompt('Reason for rejecting this payment:');
+    if (!reason?.trim()) return;
+    run(() => supabaseService.updatePaymentStatus(payment.id, 'rejected', { rejectedReason: reason.trim() }), 'Failed to reject payment');
+  };
+
+  const handleDelete = (payment: Payment) => {
+    if (!window.confirm('Delete this draft payment?')) return;
+    run(() => supabaseService.deletePayment(payment.id), 'Failed to delete payment');
+  };
+
+  const handleRemittanceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { lines, errors } = paymentService.parseRemittance(await file.text());
+    setRemittanceErrors(errors);
+    setMatches(paymentService.reconcile(payments, lines));
+  };
+
+  const matched = (matches || []).filter(match => match.payment);
+
+  const handleMarkProcessed = () => {
+    run(async () => {
+      for (const match of matched) {
+        await supabaseService.updatePaymentStatus(match.payment!.id, 'processed', {
+          processedAt: match.line.date,
+          remittanceReference: match.line.reference || `Remittance line ${match.line.lineNumber}`
+        });
+      }
+      setMatches(null);
+      setRemittanceErrors([]);
+    }, 'Failed to mark payments processed');
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Wallet className="h-5 w-5 mr-2 text-primary-600" />
+            Payments Ledger
+          </h4>
+          <p className="text-sm text-gray-500 mt-1">
+            {approvalLimit === Infinity
+              ? 'You can approve payments of any amount'
+              : approvalLimit > 0
+                ? `You can approve payments up to $${approvalLimit.toFixed(2)}`
+                : 'Your role cannot approve payments'}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleRemittanceFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            <div className="flex items-center">
+              <FileSpreadsheet className="h-4 w-4 mr-1.5" />
+              Reconcile Remittance
+            </div>
+          </button>
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="px-3 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700"
+          >
+            <div className="flex items-center">
+              <Plus className="h-4 w-4 mr-1.5" />
+              Add Payment
+            </div>
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>}
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 text-left font-medium">Category</th>
+            <th className="py-2 text-right font-medium">Draft</th>
+            <th className="py-2 text-right font-medium">Approved</th>
+            <th className="py-2 text-right font-medium">Processed</th>
+            <th className="py-2 text-right font-medium">Total to date</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {PAYMENT_TYPES.map(({ value, label }) => (
+            <tr key={value}>
+              <td className="py-2">{label}</td>
+              <td className="py-2 text-right text-gray-500">${totals[value].draft.toFixed(2)}</td>
+              <td className="py-2 text-right">${totals[value].approved.toFixed(2)}</td>
+              <td className="py-2 text-right">${totals[value].processed.toFixed(2)}</td>
+              <td className="py-2 text-right font-medium">${totals[value].committed.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {medicalExcess && (
+        <div className={`rounded-md p-4 ${medicalExcess.remaining <= 0 ? 'bg-warning-50 border border-warning-200' : 'bg-gray-50'}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900 flex items-center">
+              <Stethoscope className="h-4 w-4 mr-1.5 text-primary-600" />
+              Medical excess
+            </span>
+            <span className="text-gray-600">
+              ${medicalExcess.current.toFixed(2)} of ${medicalExcess.threshold.toFixed(2)} used • {medicalExcess.rulesVersion}
+            </span>
+          </div>
+          <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${medicalExcess.remaining <= 0 ? 'bg-warning-500' : 'bg-primary-500'}`}
+              style={{ width: `${Math.min(100, (medicalExcess.current / medicalExcess.threshold) * 100)}%` }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-600">
+            {medicalExcess.remaining > 0
+              ? `The employer pays the next $${medicalExcess.remaining.toFixed(2)} of medical costs.`
+              : `Excess used up on ${format(parseISO(medicalExcess.exhaustedOn!), 'dd/MM/yyyy')}. Send further medical invoices to ${insurer}.`}
+          </p>
+        </div>
+      )}
+
+      {isAdding && (
+        <div className="bg-gray-50 rounded-md p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Category</label>
+              <select
+                value={newPayment.type}
+                onChange={(e) => setNewPayment({ ...newPayment, type: e.target.value as PaymentType })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              >
+                {PAYMENT_TYPES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Amount ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={newPayment.amount}
+                onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Payment date</label>
+              <input
+                type="date"
+                value={newPayment.date}
+                onChange={(e) => setNewPayment({ ...newPayment, date: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Payee</label>
+              <select
+                value={newPayment.providerId}
+                onChange={(e) => setNewPayment({ ...newPayment, providerId: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              >
+                <option value="">Worker / not a stakeholder</option>
+                {providers.map(stakeholder => (
+                  <option key={stakeholder.id} value={stakeholder.id}>
+                    {stakeholder.name}{stakeholder.organization ? ` (${stakeholder.organization})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Invoice / reference</label>
+              <input
+                type="text"
+                value={newPayment.reference}
+                onChange={(e) => setNewPayment({ ...newPayment, reference: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Description</label>
+              <input
+                type="text"
+                value={newPayment.description}
+                onChange={(e) => setNewPayment({ ...newPayment, description: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+          </div>
+          {newMedicalSplit && newMedicalSplit.insurer > 0 && (
+            <p className="text-xs text-warning-700">
+              {newMedicalSplit.employer > 0
+                ? `This invoice uses up the medical excess: $${newMedicalSplit.employer.toFixed(2)} is the employer's and $${newMedicalSplit.insurer.toFixed(2)} should go to ${insurer}.`
+                : `The medical excess has been used. Send this invoice to ${insurer}.`}
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setIsAdding(false)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              Add Draft Payment
+            </button>
+          </div>
+        </div>
+      )}
+
+      {matches && (
+        <div className="border border-primary-200 rounded-md">
+          <div className="px-4 py-2 bg-primary-50 flex items-center justify-between">
+            <span className="text-sm font-medium text-primary-900">
+              Remittance: {matched.length} of {matches.length} lines matched
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => { setMatches(null); setRemittanceErrors([]); }}
+                className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMarkProcessed}
+                disabled={isSaving || matched.length === 0}
+                className="px-3 py-1 text-xs bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+              >
+                Mark {matched.length} Processed
+              </button>
+            </div>
+          </div>
+          {remittanceErrors.map(message => (
+            <p key={message} className="px-4 py-1 text-xs text-error-600">{message}</p>
+          ))}
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {matches.map(match => (
+                <tr key={match.line.lineNumber}>
+                  <td className="px-4 py-2 text-gray-500">Line {match.line.lineNumber}</td>
+                  <td className="px-4 py-2">{format(parseISO(match.line.date), 'dd/MM/yyyy')}</td>
+                  <td className="px-4 py-2">{match.line.payee || '-'}</td>
+                  <td className="px-4 py-2">{match.line.reference || '-'}</td>
+                  <td className="px-4 py-2 text-right">${match.line.amount.toFixed(2)}</td>
+                  <td className="px-4 py-2">
+                    {match.payment ? (
+                      <span className="flex items-center text-success-700">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        {match.matchedOn === 'reference' ? 'Reference' : 'Amount and date'}: {match.payment.description || match.payment.provider || paymentService.getTypeLabel(match.payment.type)}
+                      </span>
+                    ) : (
+                      <span className="flex items-center text-warning-700">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        {match.issue}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-sm font-medium text-gray-900">Ledger</h5>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as PaymentType | 'all')}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="all">All categories</option>
+            {PAYMENT_TYPES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No payments recorded.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Category</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Payee / Description</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Amount</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Running total</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(({ payment, runningTotal }) => {
+                  const approvalBlocker = paymentService.getApprovalBlocker(payment, user?.role);
+                  return (
+                    <tr key={payment.id}>
+                      <td className="px-3 py-2 whitespace-nowrap">{format(parseISO(payment.date), 'dd/MM/yyyy')}</td>
+                      <td className="px-3 py-2">{paymentService.getTypeLabel(payment.type)}</td>
+                      <td className="px-3 py-2">
+                        {payment.provider && <div className="font-medium">{payment.provider}</div>}
+                        <div className="text-xs text-gray-500">
+                          {[payment.reference, payment.description].filter(Boolean).join(' • ')}
+                        </div>
+                        {payment.rejectedReason && <div className="text-xs text-error-600">Rejected: {payment.rejectedReason}</div>}
+                        {payment.remittanceReference && <div className="text-xs text-success-700">Remittance {payment.remittanceReference}</div>}
+                        {payment.type === 'medical' && medicalExcess && payment.status !== 'rejected' && (
+                          <MedicalPayer
+                            split={medicalExcess.allocations[payment.id] || paymentService.splitMedicalPayment(medicalExcess, payment.amount)}
+                            exhausts={medicalExcess.exhaustedByPaymentId === payment.id}
+                            insurer={insurer}
+                          />
+                        )}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${payment.status === 'rejected' ? 'line-through text-gray-400' : ''}`}>
+                        ${payment.amount.toFixed(2)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-500">${runningTotal.toFixed(2)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[payment.status]}`}>
+                          {payment.status}
+                        </span>
+                        {payment.approvedBy && payment.status !== 'draft' && (
+                          <div className="text-xs text-gray-500 mt-0.5">by {payment.approvedBy}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        {payment.status === 'draft' && (
+                          <button
+                            onClick={() => handleApprove(payment)}
+                            disabled={isSaving || !!approvalBlocker}
+                            title={approvalBlocker || 'Approve'}
+                            className="p-1 text-success-600 hover:text-success-800 disabled:text-gray-300"
+                          >
+                            <Check className="h-4 w-4" />
+                          </button>
+                        )}
+                        {paymentService.canTransition(payment.status, 'rejected') && (
+                          <button
+                            onClick={() => handleReject(payment)}
+                            disabled={isSaving}
+                            title="Reject"
+                            className="p-1 text-error-600 hover:text-error-800"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                        {payment.status === 'draft' && (
+                          <button
+                            onClick={() => handleDelete(payment)}
+                            disabled={isSaving}
+                            title="Delete draft"
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentLedger;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+import Modal from '../common/Modal';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { PayslipEntry, PayslipImportTable, PayslipColumnMapping, PayslipImportField } from '../../types';
+import { payslipImportService, PAYSLIP_IMPORT_FIELDS } from '../../services/payslipImportService';
+
+interface PayslipImportModalProps {
+  file: File | null;
+  onClose: () => void;
+  onImport: (payslips: PayslipEntry[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const PayslipImportModal: React.FC<PayslipImportModalProps> = ({ file, onClose, onImport }) => {
+  const [table, setTable] = useState<PayslipImportTable | null>(null);
+  const [mapping, setMapping] = useState<PayslipColumnMapping>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+
+    setTable(null);
+    setLoadError(null);
+    setIsLoading(true);
+
+    payslipImportService.readFile(file)
+      .then(result => {
+        setTable(result);
+        setMapping(payslipImportService.suggestMapping(result.headers));
+      })
+      .catch(error => {
+        console.error('Error reading payslip file:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to read payslip file');
+      })
+      .finally(() => setIsLoading(false));
+  }, [file]);
+
+  const result = useMemo(
+    () => (table ? payslipImportService.mapRows(table, mapping) : null),
+    [table, mapping]
+  );
+
+  const updateMapping = (field: PayslipImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!result || result.payslips.length === 0) return;
+    onImport(result.payslips);
+  };
+
+  const errorCount = result?.errors.filter(e => e.severity === 'error').length || 0;
+  const warningCount = result?.errors.filter(e => e.severity === 'warning').length || 0;
+
+  return (
+    <Modal isOpen={!!file} onClose={onClose} title="Import Payslips" size="xl">
+      {isLoading && (
+        <div className="py-12 flex flex-col items-center">
+          <LoadingSpinner />
+          <p className="text-sm text-gray-500 mt-3">Reading {file?.name}...</p>
+        </div>
+      )}
+
+      {loadError && (
+        <div className="bg-error-50 border border-error-200 rounded-lg p-4 flex items-start space-x-2">
+          <AlertTriangle className="h-5 w-5 text-error-500 flex-shrink-0" />
+          <p className="text-sm text-error-700">{loadError}</p>
+        </div>
+      )}
+
+      {table && result && (
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <FileSpreadsheet className="h-4 w-4" />
+            <span>
+              {table.fileName} • {table.source.toUpperCase()} • {table.rows.length} rows
+            </span>
+          </div>
+
+          {/* Column Mapping */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Column Mapping</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {PAYSLIP_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="flex items-center justify-between space-x-3">
+                  <label className="text-sm text-gray-700 w-44">
+                    {label}
+                    {required && <span className="text-error-500 ml-1">*</span>}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    className="flex-1 rounded-md border border-gray-300 shadow-sm px-2 py-1 text-sm"
+                  >
+                    <option value="">Not mapped</option>
+                    {table.headers.map((header, index) => (
+                      <option key={index} value={index}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Map either hours and rate or the pay amount. Amount-only columns are imported as a single line.
+            </p>
+          </div>
+
+          {/* Source Preview */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Preview (first {Math.min(PREVIEW_ROWS, table.rows.length)} rows)</h4>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {table.headers.map((header, index) => (
+                      <th key={index} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {table.headers.map((_, index) => (
+                        <td key={index} className="px-3 py-2 whitespace-nowrap text-gray-700">{row[index]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Row Report */}
+          <div>
+            <div className="flex items-center space-x-4 text-sm mb-3">
+              <span className="flex items-center text-success-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {result.payslips.length} payslips ready
+              </span>
+              {errorCount > 0 && (
+                <span className="flex items-center text-error-700">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {errorCount} errors
+                </span>
+              )}
+              {warningCount > 0 && (
+                <span className="flex items-center text-warning-700">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {warningCount} warnings
+                </span>
+              )}
+              {result.skippedRows > 0 && (
+                <span className="text-gray-500">{result.skippedRows} rows skipped</span>
+              )}
+            </div>
+
+            {result.errors.length > 0 && (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-60">
+                <table className="min-w-full divide-y divide-gray-200 text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Field</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Value</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.errors.map((error, index) => (
+                      <tr key={index} className={error.severity === 'error' ? 'bg-error-50' : 'bg-warning-50'}>
+                        <td className="px-3 py-2">{error.rowNumber}</td>
+                        <td className="px-3 py-2">
+                          {PAYSLIP_IMPORT_FIELDS.find(f => f.field === error.field)?.label || '-'}
+                        </td>
+                        <td className="px-3 py-2 font-mono">{error.value || ''}</td>
+                        <td className="px-3 py-2">{error.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-4 mt-4 border-t border-gray-200">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 border border-gray-300 rounded-md"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!result || result.payslips.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import {result?.payslips.length || 0} Payslips
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default PayslipImportModal;
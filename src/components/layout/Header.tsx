@@ -41,7 +41,9 @@ const Header = () => {
     if (path === '/settings') return 'Settings';
     if (path === '/quality-control') return 'Quality Control';
     if (path === '/admin') return 'Admin Dashboard';
+    if (path === '/admin/rules') return 'Jurisdiction Rules';
     if (path === '/piawe') return 'PIAWE Calculator';
+    if (path === '/invoices') return 'Invoice Intake';
     return '';
   };
 
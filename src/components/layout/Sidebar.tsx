@@ -12,7 +12,9 @@ import {
   ChevronRight,
   Calculator,
   Shield,
-  MessageSquare
+  MessageSquare,
+  Scale,
+  Receipt
 } from 'lucide-react';
 import { useAuthStore } from '../../store/authStore';
 
@@ -44,6 +46,11 @@ const Sidebar = () => {
       icon: <Calculator className="w-5 h-5" />,
       path: '/piawe',
     },
+    {
+      name: 'Invoice Intake',
+      icon: <Receipt className="w-5 h-5" />,
+      path: '/invoices',
+    },
     {
       name: 'Quality Control',
       icon: <MessageSquare className="w-5 h-5" />,
@@ -66,6 +73,11 @@ const Sidebar = () => {
       name: 'User Management',
       icon: <Users className="w-5 h-5" />,
       path: '/users',
+    },
+    {
+      name: 'Jurisdiction Rules',
+      icon: <Scale className="w-5 h-5" />,
+      path: '/admin/rules',
     }
   ];
   
@@ -78,7 +90,7 @@ const Sidebar = () => {
   ];
   
   const isActive = (path: string) => {
-    if (path === '/dashboard') {
+    if (path === '/dashboard' || path === '/admin') {
       return location.pathname === path;
     }
     return location.pathname.startsWith(path);
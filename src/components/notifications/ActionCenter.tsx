@@ -1,16 +1,30 @@
 import React from 'react';
-import { Bell, Calendar, Clock, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Bell, Calendar, Clock, AlertTriangle, CheckCircle, Stethoscope } from 'lucide-react';
 import { format, parseISO, isToday, isTomorrow, isPast, addDays } from 'date-fns';
 import { Case } from '../../types';
 import { Link } from 'react-router-dom';
+import { useCaseStore } from '../../store/caseStore';
+import { useAlertSettingsStore } from '../../store/alertSettingsStore';
+import { medicalCertificateService, CertificateAlert } from '../../services/medicalCertificateService';
 
 interface ActionCenterProps {
   cases: Case[];
 }
 
 const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
+  const { updateCase } = useCaseStore();
+  const { certificateExpiryWarningDays } = useAlertSettingsStore();
+
   const getNotifications = () => {
-    const notifications = [];
+    const notifications: {
+      type: string;
+      title: string;
+      description: string;
+      date: Date;
+      caseId: string;
+      priority: string;
+      certificateAlert?: CertificateAlert;
+    }[] = [];
     const today = new Date();
     
     cases.forEach(c => {
@@ -70,6 +84,24 @@ const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
         });
       }
       
+      // Check certificate of capacity coverage
+      if (c.status !== 'closed') {
+        medicalCertificateService
+          .getCoverageAlerts(c.medicalCertificates || [], format(today, 'yyyy-MM-dd'), certificateExpiryWarningDays)
+          .filter(alert => !medicalCertificateService.hasRequestTask(c, alert))
+          .forEach(alert => {
+            notifications.push({
+              type: 'certificate',
+              title: alert.message,
+              description: `Case: ${c.worker.firstName} ${c.worker.lastName}`,
+              date: alert.type === 'expiring' ? parseISO(alert.from) : today,
+              caseId: c.id,
+              priority: alert.type === 'expiring' ? 'medium' : 'high',
+              certificateAlert: alert
+            });
+          });
+      }
+
       // Check upcoming tasks
       c.rtwPlan.tasks.forEach(task => {
         const dueDate = parseISO(task.dueDate);
@@ -95,6 +127,20 @@ const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
   };
   
   const notifications = getNotifications();
+
+  // Adds the request to the case's tasks, which also clears the alert
+  const requestCertificate = async (event: React.MouseEvent, caseId: string, alert: CertificateAlert) => {
+    event.preventDefault();
+    const caseItem = cases.find(c => c.id === caseId);
+    if (!caseItem) return;
+
+    const task = medicalCertificateService.toRequestTask(alert, caseItem);
+    try {
+      await updateCase(caseId, { rtwPlan: { ...caseItem.rtwPlan, tasks: [...caseItem.rtwPlan.tasks, task] } });
+    } catch (error) {
+      console.error('Failed to add certificate request task:', error);
+    }
+  };
   
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -106,6 +152,8 @@ const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
         return <Clock className="h-5 w-5 text-success-500" />;
       case 'rtw-end':
         return <CheckCircle className="h-5 w-5 text-warning-500" />;
+      case 'certificate':
+        return <Stethoscope className="h-5 w-5 text-error-500" />;
       default:
         return <Bell className="h-5 w-5 text-gray-500" />;
     }
@@ -121,6 +169,8 @@ const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
         return 'bg-success-50 border-success-100';
       case 'rtw-end':
         return 'bg-warning-50 border-warning-100';
+      case 'certificate':
+        return 'bg-error-50 border-error-100';
       default:
         return 'bg-gray-50 border-gray-100';
     }
@@ -174,6 +224,14 @@ const ActionCenter: React.FC<ActionCenterProps> = ({ cases }) => {
                         ? 'Tomorrow'
                         : format(notification.date, 'MMM d, yyyy')}
                     </p>
+                    {notification.certificateAlert && (
+                      <button
+                        onClick={(e) => requestCertificate(e, notification.caseId, notification.certificateAlert!)}
+                        className="mt-2 px-2 py-1 text-xs font-medium bg-white border border-error-200 text-error-700 rounded hover:bg-error-100"
+                      >
+                        Request updated certificate
+                      </button>
+                    )}
                   </div>
                 </div>
               </Link>
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, X, Calendar, Clock, AlertTriangle, CheckCircle, User, FileText, MessageSquare, Users, Shield } from 'lucide-react';
+import { Bell, X, Calendar, Clock, AlertTriangle, CheckCircle, User, FileText, MessageSquare, Users, Shield, Stethoscope } from 'lucide-react';
 import { format, parseISO, isToday, isTomorrow, isPast, differenceInDays, differenceInHours } from 'date-fns';
 import { Case, SupervisorNote } from '../../types';
 import { Link } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import { useCaseStore } from '../../store/caseStore';
+import { useAlertSettingsStore } from '../../store/alertSettingsStore';
+import { medicalCertificateService, CertificateAlert } from '../../services/medicalCertificateService';
 
 interface Notification {
   id: string;
-  type: 'review_due' | 'task_overdue' | 'document_required' | 'communication_needed' | 'compliance_alert' | 'system_update' | 'supervisor_note';
+  type: 'review_due' | 'task_overdue' | 'document_required' | 'communication_needed' | 'compliance_alert' | 'system_update' | 'supervisor_note' | 'certificate_alert';
   title: string;
   message: string;
   caseId?: string;
@@ -20,6 +23,7 @@ interface Notification {
   category: 'case_management' | 'compliance' | 'system' | 'reminder' | 'supervisor';
   supervisorNoteId?: string;
   supervisorNoteType?: 'instruction' | 'question' | 'reply' | 'general';
+  certificateAlert?: CertificateAlert;
 }
 
 interface NotificationCenterProps {
@@ -30,12 +34,14 @@ interface NotificationCenterProps {
 
 const NotificationCenter: React.FC<NotificationCenterProps> = ({ cases, isOpen, onClose }) => {
   const { user } = useAuthStore();
+  const { updateCase } = useCaseStore();
+  const { certificateExpiryWarningDays } = useAlertSettingsStore();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [filter, setFilter] = useState<'all' | 'unread' | 'high_priority' | 'supervisor'>('all');
 
   useEffect(() => {
     generateNotifications();
-  }, [cases, user]);
+  }, [cases, user, certificateExpiryWarningDays]);
 
   const generateNotifications = () => {
     const newNotifications: Notification[] = [];
@@ -240,6 +246,29 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ cases, isOpen,
         });
       }
 
+      // Certificate of capacity coverage alerts
+      if (caseItem.status !== 'closed') {
+        medicalCertificateService
+          .getCoverageAlerts(caseItem.medicalCertificates || [], format(new Date(), 'yyyy-MM-dd'), certificateExpiryWarningDays)
+          .forEach(alert => {
+            newNotifications.push({
+              id: `certificate-${alert.id}`,
+              type: 'certificate_alert',
+              title: alert.type === 'gap' ? 'Certificate Gap' : alert.type === 'lapsed' ? 'Certificate Expired' : 'Certificate Expiring',
+              message: `${alert.message} for ${workerName}`,
+              caseId: caseItem.id,
+              workerName,
+              priority: alert.type === 'lapsed' ? 'critical' : alert.type === 'gap' || alert.days <= 2 ? 'high' : 'medium',
+              createdAt: new Date().toISOString(),
+              dueDate: alert.type === 'expiring' ? alert.from : undefined,
+              read: false,
+              actionRequired: !medicalCertificateService.hasRequestTask(caseItem, alert),
+              category: 'compliance',
+              certificateAlert: alert
+            });
+          });
+      }
+
       // PIAWE calculation alerts
       if (caseItem.wagesSalary && !caseItem.piaweCalculation) {
         newNotifications.push({
@@ -284,6 +313,19 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ cases, isOpen,
     );
   };
 
+  const requestCertificate = async (notification: Notification) => {
+    const caseItem = cases.find(c => c.id === notification.caseId);
+    if (!caseItem || !notification.certificateAlert) return;
+
+    const task = medicalCertificateService.toRequestTask(notification.certificateAlert, caseItem);
+    try {
+      await updateCase(caseItem.id, { rtwPlan: { ...caseItem.rtwPlan, tasks: [...caseItem.rtwPlan.tasks, task] } });
+      markAsRead(notification.id);
+    } catch (error) {
+      console.error('Failed to add certificate request task:', error);
+    }
+  };
+
   const dismissNotification = (notificationId: string) => {
     setNotifications(prev => 
       prev.filter(notif => notif.id !== notificationId)
@@ -311,6 +353,8 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ cases, isOpen,
         return <MessageSquare className="h-4 w-4" />;
       case 'compliance_alert':
         return <AlertTriangle className="h-4 w-4" />;
+      case 'certificate_alert':
+        return <Stethoscope className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -516,6 +560,15 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ cases, isOpen,
                         </div>
                         
                         <div className="flex items-center space-x-2 ml-4">
+                          {notification.certificateAlert && notification.actionRequired && (
+                            <button
+                              onClick={() => requestCertificate(notification)}
+                              className="text-xs text-primary-600 hover:text-primary-700 font-medium whitespace-nowrap"
+                            >
+                              Request Certificate
+                            </button>
+                          )}
+
                           {notification.caseId && (
                             <Link
                               to={`/cases/${notification.caseId}`}
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useAlertSettingsStore } from '../../store/alertSettingsStore';
+
+const NotificationSettings: React.FC = () => {
+  const { certificateExpiryWarningDays, setCertificateExpiryWarningDays } = useAlertSettingsStore();
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-md font-medium text-gray-900 mb-4">Certificate Alerts</h3>
+      <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="certificate-expiry-warning-days">
+        Warn when a certificate of capacity expires within
+      </label>
+      <div className="flex items-center space-x-2">
+        <input
+          id="certificate-expiry-warning-days"
+          type="number"
+          min={0}
+          value={certificateExpiryWarningDays}
+          onChange={(e) => setCertificateExpiryWarningDays(Number(e.target.value) || 0)}
+          className="w-24 border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+        <span className="text-sm text-gray-600">days</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Expiring certificates are listed in the Action Center and notifications with a task to request an updated certificate.
+      </p>
+    </div>
+  );
+};
+
+export default NotificationSettings;
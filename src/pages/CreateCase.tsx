@@ -179,8 +179,8 @@ const CreateCase = () => {
       }
       
       // Add jurisdiction-specific notes
-      const jurisdictionRules = piaweService.getJurisdictionRules(formData.jurisdiction);
-      validationMessages.push(`Using ${formData.jurisdiction} jurisdiction rules`);
+      const jurisdictionRules = piaweService.getJurisdictionRules(formData.jurisdiction, calculation.injuryDate);
+      validationMessages.push(`Using ${jurisdictionRules.version} jurisdiction rules`);
       
       if (jurisdictionRules.cappingRules?.maxWeeklyAmount && calculation.finalPIAWE > jurisdictionRules.cappingRules.maxWeeklyAmount) {
         validationMessages.push(`PIAWE may be capped at $${jurisdictionRules.cappingRules.maxWeeklyAmount} per ${formData.jurisdiction} regulations`);
@@ -1085,6 +1085,7 @@ const CreateCase = () => {
                   <option value="fortnightly">Fortnightly</option>
                   <option value="monthly">Monthly</option>
                   <option value="annual">Annual</option>
+                  <option value="irregular">Irregular</option>
                 </select>
               </div>
 
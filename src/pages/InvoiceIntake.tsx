@@ -0,0 +1,447 @@
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Loader, Receipt, Upload, AlertTriangle, Check, X, Link2 } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useCaseStore } from '../store/caseStore';
+import { supabaseService } from '../services/supabaseService';
+import { invoiceIntakeService } from '../services/invoiceIntakeService';
+import { treatmentApprovalService } from '../services/treatmentApprovalService';
+import { InvoiceLine, InvoiceLineStatus, Payment, TreatmentApproval } from '../types';
+
+const TABS: { status: InvoiceLineStatus; label: string; description: string }[] = [
+  { status: 'unmatched', label: 'Work queue', description: 'Lines that could not be matched to a case and treating provider' },
+  { status: 'matched', label: 'Ready to approve', description: 'Matched lines waiting for approval into the payments ledger' },
+  { status: 'approved', label: 'Approved', description: 'Lines raised as draft medical payments, or sent to the insurer once the medical excess is used' },
+  { status: 'rejected', label: 'Rejected', description: 'Lines that will not be paid' }
+];
+
+interface ImportSummary {
+  fileName: string;
+  imported: number;
+  matched: number;
+  errors: string[];
+}
+
+interface MatchDraft {
+  lineId: string;
+  caseId: string;
+  stakeholderId: string;
+  approvalId: string;
+}
+
+export default function InvoiceIntake() {
+  const { user } = useAuthStore();
+  const { cases, fetchCases } = useCaseStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [lines, setLines] = useState<InvoiceLine[]>([]);
+  const [approvalsByCase, setApprovalsByCase] = useState<Record<string, TreatmentApproval[]>>({});
+  const [paymentsByCase, setPaymentsByCase] = useState<Record<string, Payment[]>>({});
+  const [tab, setTab] = useState<InvoiceLineStatus>('unmatched');
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [matchDraft, setMatchDraft] = useState<MatchDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const author = { id: user?.id, name: user?.name || 'Unknown user' };
+
+  // Approvals and payments for the given cases, merged into what is already loaded. Returns only
+  // the cases asked for.
+  const loadCaseContext = useCallback(async (caseIds: string[]) => {
+    const ids = [...new Set(caseIds)];
+    const loaded = await Promise.all(ids.map(async caseId => ({
+      caseId,
+      approvals: await supabaseService.getTreatmentApprovals(caseId),
+      payments: await supabaseService.getPayments(caseId)
+    })));
+
+    const approvals: Record<string, TreatmentApproval[]> = Object.fromEntries(loaded.map(entry => [entry.caseId, entry.approvals]));
+    const payments: Record<string, Payment[]> = Object.fromEntries(loaded.map(entry => [entry.caseId, entry.payments]));
+    setApprovalsByCase(prev => ({ ...prev, ...approvals }));
+    setPaymentsByCase(prev => ({ ...prev, ...payments }));
+    return { approvals, payments };
+  }, []);
+
+  const loadLines = useCallback(async () => {
+    const loadedLines = await supabaseService.getInvoiceLines();
+    setLines(loadedLines);
+    await loadCaseContext(
+      loadedLines
+        .filter(line => line.caseId && (line.status === 'unmatched' || line.status === 'matched'))
+        .map(line => line.caseId!)
+    );
+  }, [loadCaseContext]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        await loadLines();
+      } catch (err: any) {
+        console.error('Failed to load invoice lines:', err);
+        setError(err.message || 'Failed to load invoice lines');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [loadLines]);
+
+  // Cases are needed to match lines, so they are loaded if no other page has loaded them
+  useEffect(() => {
+    if (cases.length === 0) fetchCases();
+  }, [cases.length, fetchCases]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadLines();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      setSummary(null);
+      const { lines: imported, errors } = invoiceIntakeService.parseRows(await invoiceIntakeService.readFile(file), file.name);
+      const matchedCaseIds = imported
+        .map(line => invoiceIntakeService.matchCase(line, cases)?.id)
+        .filter((id): id is string => !!id);
+      const context = await loadCaseContext(matchedCaseIds);
+
+      const saved = await supabaseService.addInvoiceLines(
+        imported.map(line => ({ ...line, ...invoiceIntakeService.match(line, cases, context.approvals, context.payments) })),
+        author
+      );
+      const matched = saved.filter(line => line.status === 'matched').length;
+      setSummary({ fileName: file.name, imported: saved.length, matched, errors });
+      setTab(matched < saved.length ? 'unmatched' : 'matched');
+    }, 'Failed to import invoice');
+  };
+
+  const startMatch = (line: InvoiceLine) => {
+    setMatchDraft({ lineId: line.id, caseId: line.caseId || '', stakeholderId: line.stakeholderId || '', approvalId: line.approvalId || '' });
+  };
+
+  const handleMatchCase = async (caseId: string) => {
+    if (!matchDraft) return;
+    const line = lines.find(l => l.id === matchDraft.lineId)!;
+    const caseData = cases.find(c => c.id === caseId);
+    const stakeholder = caseData ? invoiceIntakeService.matchStakeholder(line, caseData) : undefined;
+    setMatchDraft({ ...matchDraft, caseId, stakeholderId: stakeholder?.id || '', approvalId: '' });
+    if (caseId && !approvalsByCase[caseId]) {
+      try {
+        await loadCaseContext([caseId]);
+      } catch (err) {
+        console.error('Failed to load treatment approvals:', err);
+      }
+    }
+  };
+
+  const handleSaveMatch = () => {
+    if (!matchDraft) return;
+    run(async () => {
+      await supabaseService.updateInvoiceLine(matchDraft.lineId, {
+        caseId: matchDraft.caseId,
+        stakeholderId: matchDraft.stakeholderId,
+        approvalId: matchDraft.approvalId,
+        status: matchDraft.caseId && matchDraft.stakeholderId ? 'matched' : 'unmatched'
+      });
+      setMatchDraft(null);
+    }, 'Failed to save the match');
+  };
+
+  // Approved lines become draft medical payments, so the ledger's approval limits still apply.
+  // Once the case's medical excess is used up, the rest of the line goes to the insurer instead.
+  const handleApprove = (line: InvoiceLine) => {
+    const payments = paymentsByCase[line.caseId!] || [];
+    const flags = invoiceIntakeService.getFlags(line, lines, approvalsByCase[line.caseId!] || [], payments);
+    if (flags.length > 0 && !window.confirm(`${flags.map(flag => flag.message).join('\n')}\n\nApprove this line anyway?`)) return;
+
+    const caseData = cases.find(c => c.id === line.caseId);
+    const stakeholder = caseData?.stakeholders?.find(s => s.id === line.stakeholderId);
+    const split = caseData ? invoiceIntakeService.getMedicalSplit(line, caseData, payments) : { employer: line.amount, insurer: 0 };
+    if (split.insurer > 0) {
+      const insurer = caseData?.agent || 'the insurer';
+      const message = split.employer > 0
+        ? `This line uses up the medical excess. A payment of $${split.employer.toFixed(2)} will be raised and $${split.insurer.toFixed(2)} should be sent to ${insurer}.`
+        : `The medical excess has been used. No payment will be raised and this line should be sent to ${insurer}.`;
+      if (!window.confirm(`${message}\n\nApprove this line?`)) return;
+    }
+
+    run(async () => {
+      const [payment] = split.employer > 0
+        ? await supabaseService.addPayments(line.caseId!, [{
+            type: 'medical',
+            amount: split.employer,
+            date: line.serviceDate,
+            providerId: line.stakeholderId,
+            provider: stakeholder ? stakeholder.organization || stakeholder.name : line.provider,
+            reference: line.invoiceNumber,
+            description: [line.itemCode, line.description].filter(Boolean).join(' ') || undefined
+          }], author)
+        : [];
+
+      if (line.approvalId) {
+        await supabaseService.addTreatmentUsage(line.approvalId, {
+          kind: 'invoice',
+          date: line.serviceDate,
+          sessions: line.sessions,
+          amount: line.amount,
+          paymentId: payment?.id,
+          notes: line.invoiceNumber ? `Invoice ${line.invoiceNumber}` : undefined
+        }, author);
+      }
+
+      await supabaseService.updateInvoiceLine(line.id, {
+        status: 'approved',
+        paymentId: payment?.id,
+        ...(split.insurer > 0 && { insurerAmount: split.insurer })
+      });
+      await loadCaseContext([line.caseId!]);
+    }, 'Failed to approve invoice line');
+  };
+
+  const handleReject = (line: InvoiceLine) => {
+    const reason = window.prompt('Reason for rejecting this invoice line:');
+    if (!reason?.trim()) return;
+    run(() => supabaseService.updateInvoiceLine(line.id, { status: 'rejected', rejectedReason: reason.trim() }), 'Failed to reject invoice line');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  const visible = lines.filter(line => line.status === tab);
+  const selectClass = 'block w-full rounded-md border border-gray-300 shadow-sm px-2 py-1 text-sm';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Receipt className="h-6 w-6 text-primary-500 mr-2" />
+            Invoice Intake
+          </h1>
+          <p className="text-sm text-gray-500">
+            Import provider invoices as CSV or PDF. Lines are matched to the case, treating provider and treatment approval.
+          </p>
+        </div>
+        <div>
+          <input ref={fileInputRef} type="file" accept=".csv,.pdf,text/csv,application/pdf" onChange={handleFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+          >
+            {busy ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import Invoice
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>
+      )}
+
+      {summary && (
+        <div className="p-4 bg-primary-50 border border-primary-200 rounded-md text-sm text-primary-900">
+          <p>
+            Imported {summary.imported} line{summary.imported === 1 ? '' : 's'} from {summary.fileName}: {summary.matched} matched,{' '}
+            {summary.imported - summary.matched} in the work queue.
+          </p>
+          {summary.errors.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-error-700">
+              {summary.errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8 px-6">
+            {TABS.map(option => (
+              <button
+                key={option.status}
+                onClick={() => setTab(option.status)}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  tab === option.status
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.label}
+                <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">
+                  {lines.filter(line => line.status === option.status).length}
+                </span>
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="p-6">
+          <p className="text-sm text-gray-500 mb-4">{TABS.find(option => option.status === tab)?.description}</p>
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-gray-500">No invoice lines.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Service</th>
+                    <th className="py-2 pr-4 font-medium">Provider</th>
+                    <th className="py-2 pr-4 font-medium">Claim / worker</th>
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 pr-4 font-medium">Match</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visible.map(line => {
+                    const caseData = cases.find(c => c.id === line.caseId);
+                    const stakeholder = caseData?.stakeholders?.find(s => s.id === line.stakeholderId);
+                    const approvals = line.caseId ? approvalsByCase[line.caseId] || [] : [];
+                    const approval = approvals.find(a => a.id === line.approvalId);
+                    const flags = invoiceIntakeService.getFlags(line, lines, approvals, line.caseId ? paymentsByCase[line.caseId] || [] : []);
+                    const isEditing = matchDraft?.lineId === line.id;
+                    const draftCase = isEditing ? cases.find(c => c.id === matchDraft.caseId) : undefined;
+
+                    return (
+                      <tr key={line.id} className="align-top">
+                        <td className="py-3 pr-4">
+                          <div className="font-medium text-gray-900">{format(parseISO(line.serviceDate), 'dd/MM/yyyy')}</div>
+                          <div className="text-gray-600">
+                            {[line.itemCode, line.description].filter(Boolean).join(' • ') || '-'}
+                            {line.sessions !== 1 && ` (${line.sessions} sessions)`}
+                          </div>
+                          <div className="text-xs text-gray-400">{line.fileName}, line {line.lineNumber}</div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div className="text-gray-900">{line.provider}</div>
+                          {line.invoiceNumber && <div className="text-xs text-gray-500">Invoice {line.invoiceNumber}</div>}
+                          {line.providerNumber && <div className="text-xs text-gray-500">Provider no. {line.providerNumber}</div>}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-700">
+                          <div>{line.claimNumber || '-'}</div>
+                          {line.workerName && <div className="text-xs text-gray-500">{line.workerName}</div>}
+                        </td>
+                        <td className="py-3 pr-4 text-right font-medium text-gray-900">
+                          ${line.amount.toFixed(2)}
+                          {line.insurerAmount !== undefined && (
+                            <div className="text-xs font-normal text-warning-700">${line.insurerAmount.toFixed(2)} to insurer</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          {isEditing ? (
+                            <div className="space-y-2 min-w-[14rem]">
+                              <select value={matchDraft.caseId} onChange={(e) => handleMatchCase(e.target.value)} className={selectClass}>
+                                <option value="">No case</option>
+                                {cases.map(c => (
+                                  <option key={c.id} value={c.id}>{c.worker.firstName} {c.worker.lastName} - {c.claimNumber}</option>
+                                ))}
+                              </select>
+                              <select
+                                value={matchDraft.stakeholderId}
+                                onChange={(e) => setMatchDraft({ ...matchDraft, stakeholderId: e.target.value, approvalId: '' })}
+                                disabled={!draftCase}
+                                className={selectClass}
+                              >
+                                <option value="">No provider</option>
+                                {(draftCase?.stakeholders || []).map(s => (
+                                  <option key={s.id} value={s.id}>{s.name}{s.organization ? ` (${s.organization})` : ''}</option>
+                                ))}
+                              </select>
+                              <select
+                                value={matchDraft.approvalId}
+                                onChange={(e) => setMatchDraft({ ...matchDraft, approvalId: e.target.value })}
+                                disabled={!matchDraft.stakeholderId}
+                                className={selectClass}
+                              >
+                                <option value="">No approval</option>
+                                {(approvalsByCase[matchDraft.caseId] || [])
+                                  .filter(a => a.stakeholderId === matchDraft.stakeholderId)
+                                  .map(a => (
+                                    <option key={a.id} value={a.id}>
+                                      {treatmentApprovalService.getTypeLabel(a.treatmentType)} {format(parseISO(a.startDate), 'dd/MM/yyyy')} to {format(parseISO(a.endDate), 'dd/MM/yyyy')}
+                                    </option>
+                                  ))}
+                              </select>
+                              <div className="flex space-x-2">
+                                <button onClick={handleSaveMatch} disabled={busy} className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50">
+                                  Save
+                                </button>
+                                <button onClick={() => setMatchDraft(null)} className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-50">
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="space-y-0.5">
+                              {caseData ? (
+                                <Link to={`/cases/${caseData.id}`} className="text-primary-600 hover:underline">
+                                  {caseData.worker.firstName} {caseData.worker.lastName}
+                                </Link>
+                              ) : (
+                                <div className="text-gray-400">No case</div>
+                              )}
+                              {line.caseId && <div className={stakeholder ? 'text-gray-700' : 'text-gray-400'}>{stakeholder ? stakeholder.organization || stakeholder.name : 'No provider'}</div>}
+                              {approval && (
+                                <div className="text-xs text-gray-500">
+                                  {treatmentApprovalService.getTypeLabel(approval.treatmentType)} approval to {format(parseISO(approval.endDate), 'dd/MM/yyyy')}
+                                </div>
+                              )}
+                              {flags.map(flag => (
+                                <div key={flag.message} className={`text-xs flex items-start ${flag.type === 'duplicate' ? 'text-error-700' : 'text-warning-700'}`}>
+                                  <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                                  {flag.message}
+                                </div>
+                              ))}
+                              {line.rejectedReason && <div className="text-xs text-error-700">{line.rejectedReason}</div>}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          {(line.status === 'unmatched' || line.status === 'matched') && !isEditing && (
+                            <div className="flex justify-end space-x-2">
+                              <button onClick={() => startMatch(line)} className="text-gray-500 hover:text-primary-600" title="Match">
+                                <Link2 className="h-4 w-4" />
+                              </button>
+                              {line.status === 'matched' && (
+                                <button onClick={() => handleApprove(line)} disabled={busy} className="text-success-600 hover:text-success-700 disabled:opacity-50" title="Approve">
+                                  <Check className="h-4 w-4" />
+                                </button>
+                              )}
+                              <button onClick={() => handleReject(line)} disabled={busy} className="text-error-600 hover:text-error-700 disabled:opacity-50" title="Reject">
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,559 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, subWeeks } from 'date-fns';
+import { Loader, Scale, Eye, Upload, History } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useCaseStore } from '../store/caseStore';
+import { jurisdictionRulesService } from '../services/jurisdictionRules';
+import { piaweService } from '../services/piaweService';
+import { entitlementService } from '../services/entitlementService';
+import { supabaseService } from '../services/supabaseService';
+import {
+  JurisdictionType,
+  JurisdictionRuleOverride,
+  JurisdictionRuleVersion,
+  PayslipEntry,
+  PIAWECalculation
+} from '../types';
+
+const JURISDICTIONS: JurisdictionType[] = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'NT', 'ACT'];
+
+const SAMPLE_CASE_ID = 'sample';
+
+const RULE_LABELS: Record<keyof JurisdictionRuleOverride, string> = {
+  defaultReferencePeriod: 'Default reference period',
+  alternativeReferencePeriods: 'Alternative reference periods',
+  minimumWeeksRequired: 'Minimum weeks required',
+  maxOvertimeInclusion: 'Overtime included',
+  allowanceInclusions: 'Allowances included',
+  bonusInclusions: 'Bonuses included',
+  cappingRules: 'Maximum weekly amount',
+  medicalExcessThreshold: 'Medical excess'
+};
+
+interface RuleForm {
+  defaultReferencePeriod: string;
+  alternativeReferencePeriods: string;
+  minimumWeeksRequired: string;
+  maxOvertimeInclusion: string;
+  allowanceInclusions: string;
+  regularBonus: boolean;
+  performanceBonus: boolean;
+  annualBonus: boolean;
+  maxWeeklyAmount: string;
+  medicalExcessThreshold: string;
+}
+
+interface PreviewResult {
+  label: string;
+  note?: string;
+  current: PIAWECalculation;
+  draft: PIAWECalculation;
+  currentEntitlement: number;
+  draftEntitlement: number;
+}
+
+const toForm = (rules: JurisdictionRuleOverride): RuleForm => ({
+  defaultReferencePeriod: String(rules.defaultReferencePeriod ?? ''),
+  alternativeReferencePeriods: (rules.alternativeReferencePeriods || []).join(', '),
+  minimumWeeksRequired: String(rules.minimumWeeksRequired ?? ''),
+  maxOvertimeInclusion: String(rules.maxOvertimeInclusion ?? ''),
+  allowanceInclusions: (rules.allowanceInclusions || []).join(', '),
+  regularBonus: rules.bonusInclusions?.regularBonus ?? false,
+  performanceBonus: rules.bonusInclusions?.performanceBonus ?? false,
+  annualBonus: rules.bonusInclusions?.annualBonus ?? false,
+  maxWeeklyAmount: rules.cappingRules?.maxWeeklyAmount ? String(rules.cappingRules.maxWeeklyAmount) : '',
+  medicalExcessThreshold: rules.medicalExcessThreshold ? String(rules.medicalExcessThreshold) : ''
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const fromForm = (form: RuleForm): JurisdictionRuleOverride => {
+  const maxWeeklyAmount = parseFloat(form.maxWeeklyAmount);
+  const medicalExcessThreshold = parseFloat(form.medicalExcessThreshold);
+  return {
+    defaultReferencePeriod: parseInt(form.defaultReferencePeriod, 10),
+    alternativeReferencePeriods: splitList(form.alternativeReferencePeriods).map(weeks => parseInt(weeks, 10)),
+    minimumWeeksRequired: parseInt(form.minimumWeeksRequired, 10),
+    maxOvertimeInclusion: parseFloat(form.maxOvertimeInclusion),
+    allowanceInclusions: splitList(form.allowanceInclusions),
+    bonusInclusions: {
+      regularBonus: form.regularBonus,
+      performanceBonus: form.performanceBonus,
+      annualBonus: form.annualBonus
+    },
+    cappingRules: maxWeeklyAmount > 0 ? { maxWeeklyAmount, maxAnnualAmount: maxWeeklyAmount * 52 } : {},
+    medicalExcessThreshold: medicalExcessThreshold > 0 ? medicalExcessThreshold : 0
+  };
+};
+
+const validateForm = (form: RuleForm): string | null => {
+  const override = fromForm(form);
+  if (!(override.defaultReferencePeriod! > 0)) return 'Default reference period must be a whole number of weeks';
+  if (override.alternativeReferencePeriods!.some(weeks => !(weeks > 0))) return 'Alternative reference periods must be whole numbers of weeks';
+  if (!(override.minimumWeeksRequired! >= 0)) return 'Minimum weeks required must be zero or more';
+  if (!(override.maxOvertimeInclusion! >= 0 && override.maxOvertimeInclusion! <= 100)) return 'Overtime included must be between 0 and 100%';
+  if (form.maxWeeklyAmount.trim() && !(parseFloat(form.maxWeeklyAmount) > 0)) return 'Maximum weekly amount must be more than zero, or blank for no cap';
+  if (form.medicalExcessThreshold.trim() && !(parseFloat(form.medicalExcessThreshold) > 0)) return 'Medical excess must be more than zero, or blank for none';
+  return null;
+};
+
+// Only the fields that differ from the rules in force, with the values they replace
+const diffRules = (before: JurisdictionRuleOverride, after: JurisdictionRuleOverride) => {
+  const rules: JurisdictionRuleOverride = {};
+  const previousRules: JurisdictionRuleOverride = {};
+  (Object.keys(RULE_LABELS) as (keyof JurisdictionRuleOverride)[]).forEach(key => {
+    if (JSON.stringify(before[key] ?? {}) !== JSON.stringify(after[key] ?? {})) {
+      (rules as Record<string, unknown>)[key] = after[key];
+      (previousRules as Record<string, unknown>)[key] = before[key];
+    }
+  });
+  return { rules, previousRules };
+};
+
+const formatRuleValue = (key: keyof JurisdictionRuleOverride, rules: JurisdictionRuleOverride): string => {
+  switch (key) {
+    case 'defaultReferencePeriod':
+    case 'minimumWeeksRequired':
+      return rules[key] !== undefined ? `${rules[key]} weeks` : '-';
+    case 'alternativeReferencePeriods':
+      return rules[key]?.length ? rules[key]!.map(weeks => `${weeks} weeks`).join(', ') : 'None';
+    case 'maxOvertimeInclusion':
+      return rules[key] !== undefined ? `${rules[key]}%` : '-';
+    case 'allowanceInclusions':
+      return rules[key]?.length ? rules[key]!.join(', ') : 'None';
+    case 'bonusInclusions': {
+      const bonuses = rules[key];
+      const included = [
+        bonuses?.regularBonus && 'Regular',
+        bonuses?.performanceBonus && 'Performance',
+        bonuses?.annualBonus && 'Annual'
+      ].filter(Boolean);
+      return included.length ? included.join(', ') : 'None';
+    }
+    case 'cappingRules':
+      return rules[key]?.maxWeeklyAmount ? `$${rules[key]!.maxWeeklyAmount!.toFixed(2)}` : 'No cap';
+    case 'medicalExcessThreshold':
+      return rules[key] ? `$${rules[key]!.toFixed(2)}` : 'None';
+  }
+};
+
+// A full-time worker on $30 an hour with overtime every other week, a shift allowance and a
+// quarterly bonus, for previewing rule changes without a real case
+const buildSamplePayslips = (injuryDate: string): PayslipEntry[] =>
+  Array.from({ length: 52 }, (_, index) => {
+    const overtimeHours = index % 2 === 0 ? 4 : 0;
+    const bonuses = index % 13 === 0 ? 500 : 0;
+    const gross = 38 * 30 + overtimeHours * 45 + 50 + bonuses;
+    return {
+      id: `sample-${index + 1}`,
+      weekEnding: format(subWeeks(parseISO(injuryDate), index + 1), 'yyyy-MM-dd'),
+      ordinaryHours: 38,
+      ordinaryRate: 30,
+      overtimeHours,
+      overtimeRate: 45,
+      allowances: 50,
+      bonuses,
+      commissions: 0,
+      otherIncome: 0,
+      totalGross: gross,
+      unpaidLeave: false
+    };
+  });
+
+// Supabase errors are plain objects with a message rather than Error instances
+const errorMessage = (err: unknown, fallback: string): string =>
+  (err as { message?: string } | null)?.message || fallback;
+
+const getWeeklyEntitlement = (calculation: PIAWECalculation): number =>
+  entitlementService.buildSchedule(calculation, { weeks: 1 }).weeks[0]?.weeklyPayable ?? 0;
+
+const JurisdictionRules = () => {
+  const { user } = useAuthStore();
+  const { cases, fetchCases } = useCaseStore();
+  const [versions, setVersions] = useState<JurisdictionRuleVersion[]>([]);
+  const [jurisdiction, setJurisdiction] = useState<JurisdictionType>('NSW');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [form, setForm] = useState<RuleForm>(() =>
+    toForm(jurisdictionRulesService.getOverridableRules('NSW', format(new Date(), 'yyyy-MM-dd')))
+  );
+  const [reason, setReason] = useState('');
+  const [previewCaseId, setPreviewCaseId] = useState(SAMPLE_CASE_ID);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      setLoading(true);
+      try {
+        setVersions(await jurisdictionRulesService.loadPublishedVersions());
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to load rule versions'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchVersions();
+  }, []);
+
+  useEffect(() => {
+    if (cases.length === 0) fetchCases();
+  }, [cases.length, fetchCases]);
+
+  const currentRules = useMemo(
+    () => jurisdictionRulesService.getOverridableRules(jurisdiction, effectiveFrom || format(new Date(), 'yyyy-MM-dd'), versions),
+    [jurisdiction, effectiveFrom, versions]
+  );
+
+  // Start each edit from the rules in force on the effective date
+  useEffect(() => {
+    setForm(toForm(currentRules));
+    setPreview(null);
+    setPreviewCaseId(SAMPLE_CASE_ID);
+  }, [currentRules]);
+
+  const previewCases = cases.filter(c =>
+    c.piaweCalculation?.jurisdiction === jurisdiction &&
+    (c.piaweCalculation.payslips?.length || 0) > 0
+  );
+
+  const formError = validateForm(form);
+  const changes = formError ? null : diffRules(currentRules, fromForm(form));
+  const changedKeys = changes ? (Object.keys(changes.rules) as (keyof JurisdictionRuleOverride)[]) : [];
+
+  const buildChange = (): Omit<JurisdictionRuleVersion, 'id' | 'publishedAt'> => ({
+    jurisdiction,
+    version: `${jurisdiction} ${effectiveFrom} (admin)`,
+    effectiveFrom,
+    rules: changes?.rules || {},
+    previousRules: changes?.previousRules || {},
+    reason: reason.trim() || 'Draft',
+    publishedBy: user?.name || 'Unknown user',
+    publishedById: user?.id
+  });
+
+  const updateForm = (updates: Partial<RuleForm>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const runPreview = () => {
+    const draft: JurisdictionRuleVersion = { ...buildChange(), id: 'draft', publishedAt: new Date().toISOString() };
+    const sampleCase = previewCases.find(c => c.id === previewCaseId);
+    const saved = sampleCase?.piaweCalculation;
+
+    const calculate = () => saved
+      ? piaweService.calculatePIAWE(saved.payslips, saved.injuryDate, jurisdiction, saved.adjustments, saved.employers)
+      : piaweService.calculatePIAWE(buildSamplePayslips(effectiveFrom), effectiveFrom, jurisdiction);
+
+    const current = calculate();
+    const draftCalculation = jurisdictionRulesService.preview(draft, calculate);
+    setPreview({
+      label: sampleCase ? `${sampleCase.worker.firstName} ${sampleCase.worker.lastName} (${sampleCase.claimNumber})` : 'Sample worker injured on the effective date',
+      note: saved && parseISO(saved.injuryDate) < parseISO(effectiveFrom)
+        ? `This case's injury date (${format(parseISO(saved.injuryDate), 'dd/MM/yyyy')}) is before the effective date, so the change does not apply to it.`
+        : undefined,
+      current,
+      draft: draftCalculation,
+      currentEntitlement: getWeeklyEntitlement(current),
+      draftEntitlement: jurisdictionRulesService.preview(draft, () => getWeeklyEntitlement(draftCalculation))
+    });
+  };
+
+  const handlePublish = async () => {
+    if (!changes || changedKeys.length === 0) return;
+    if (!effectiveFrom || !reason.trim()) {
+      setError('An effective date and a reason are required to publish');
+      return;
+    }
+    if (!window.confirm(`Publish ${changedKeys.length} rule change(s) for ${jurisdiction} from ${format(parseISO(effectiveFrom), 'dd/MM/yyyy')}? Published versions cannot be edited.`)) return;
+
+    setPublishing(true);
+    setError(null);
+    try {
+      const draft = buildChange();
+      await supabaseService.publishJurisdictionRuleVersion({ ...draft, reason: reason.trim() });
+      setVersions(await jurisdictionRulesService.loadPublishedVersions());
+      setReason('');
+      setMessage(`${draft.version} published`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to publish rule change'));
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <div className="flex justify-center items-center h-64 text-error-600 font-bold">
+        Access denied. Admins only.
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  const history = versions
+    .filter(version => version.jurisdiction === jurisdiction)
+    .sort((a, b) => parseISO(b.publishedAt).getTime() - parseISO(a.publishedAt).getTime());
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Scale className="h-6 w-6 text-primary-500 mr-2" />
+            Jurisdiction Rules
+          </h1>
+          <p className="text-sm text-gray-500">
+            PIAWE rule changes take effect from their effective date. Claims with an earlier injury date keep the rules they started under.
+          </p>
+        </div>
+        <select
+          value={jurisdiction}
+          onChange={(e) => setJurisdiction(e.target.value as JurisdictionType)}
+          className="rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm"
+        >
+          {JURISDICTIONS.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="p-3 bg-error-50 border border-error-200 rounded-md text-sm text-error-700">{error}</div>}
+      {message && <div className="p-3 bg-success-50 border border-success-200 rounded-md text-sm text-success-700">{message}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h3 className="text-lg font-medium">Rules</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Effective from</label>
+            <input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500">
+              Editing the {jurisdictionRulesService.getRulesInForce(jurisdiction, effectiveFrom || format(new Date(), 'yyyy-MM-dd'), versions).version} rules in force on this date
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Default reference period (weeks)</label>
+              <input type="number" min="1" value={form.defaultReferencePeriod} onChange={(e) => updateForm({ defaultReferencePeriod: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Alternative periods (weeks)</label>
+              <input type="text" value={form.alternativeReferencePeriods} onChange={(e) => updateForm({ alternativeReferencePeriods: e.target.value })} placeholder="26, 13" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Minimum weeks required</label>
+              <input type="number" min="0" value={form.minimumWeeksRequired} onChange={(e) => updateForm({ minimumWeeksRequired: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Overtime included (%)</label>
+              <input type="number" min="0" max="100" value={form.maxOvertimeInclusion} onChange={(e) => updateForm({ maxOvertimeInclusion: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Allowances included</label>
+            <input type="text" value={form.allowanceInclusions} onChange={(e) => updateForm({ allowanceInclusions: e.target.value })} placeholder="shift, penalties" className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500">Comma separated. Leave blank to exclude allowances.</p>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Bonuses included</span>
+            <div className="mt-2 flex space-x-6 text-sm">
+              {([
+                ['regularBonus', 'Regular'],
+                ['performanceBonus', 'Performance'],
+                ['annualBonus', 'Annual']
+              ] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form[key]}
+                    onChange={(e) => updateForm({ [key]: e.target.checked })}
+                    className="rounded border-gray-300 text-primary-600 mr-2"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Maximum weekly amount ($)</label>
+            <input type="number" min="0" step="0.01" value={form.maxWeeklyAmount} onChange={(e) => updateForm({ maxWeeklyAmount: e.target.value })} placeholder="No cap" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Medical excess ($)</label>
+            <input type="number" min="0" step="0.01" value={form.medicalExcessThreshold} onChange={(e) => updateForm({ medicalExcessThreshold: e.target.value })} placeholder="None" className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500">Medical costs the employer pays before the insurer, for claims with an injury date from the effective date.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason for change</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="e.g. Regulator guidance on overtime, effective 1 July"
+              className={inputClass}
+            />
+          </div>
+          {formError && <p className="text-sm text-error-600">{formError}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h3 className="text-lg font-medium">Changes and Preview</h3>
+          {changedKeys.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes from the rules in force on the effective date.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Rule</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Current</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">New</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {changedKeys.map(key => (
+                  <tr key={key}>
+                    <td className="px-3 py-2 text-gray-600">{RULE_LABELS[key]}</td>
+                    <td className="px-3 py-2 text-gray-500">{formatRuleValue(key, changes!.previousRules)}</td>
+                    <td className="px-3 py-2 font-medium">{formatRuleValue(key, changes!.rules)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Preview against</label>
+              <select value={previewCaseId} onChange={(e) => { setPreviewCaseId(e.target.value); setPreview(null); }} className={inputClass}>
+                <option value={SAMPLE_CASE_ID}>Sample worker</option>
+                {previewCases.map(c => (
+                  <option key={c.id} value={c.id}>{c.worker.firstName} {c.worker.lastName} ({c.claimNumber})</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={runPreview}
+              disabled={!!formError || changedKeys.length === 0 || !effectiveFrom}
+              className="inline-flex items-center px-3 py-2 border border-primary-600 text-primary-600 rounded-md text-sm font-medium hover:bg-primary-50 disabled:opacity-50"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </button>
+          </div>
+
+          {preview && (
+            <div className="border border-gray-200 rounded-md">
+              <div className="px-3 py-2 bg-gray-50 text-sm font-medium">{preview.label}</div>
+              {preview.note && <p className="px-3 py-2 text-xs text-warning-700 bg-warning-50">{preview.note}</p>}
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500"></th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Current rules</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">With changes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  <tr>
+                    <td className="px-3 py-2 font-medium">PIAWE</td>
+                    <td className="px-3 py-2 text-right">${preview.current.finalPIAWE.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right font-semibold">${preview.draft.finalPIAWE.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td className="px-3 py-2">Weekly entitlement (week 1)</td>
+                    <td className="px-3 py-2 text-right">${preview.currentEntitlement.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right">${preview.draftEntitlement.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td className="px-3 py-2">Method</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-500">{preview.current.methodUsed}</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-500">{preview.draft.methodUsed}</td>
+                  </tr>
+                  <tr>
+                    <td className="px-3 py-2">Rules version</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-500">{preview.current.rulesVersion}</td>
+                    <td className="px-3 py-2 text-right text-xs text-gray-500">{preview.draft.rulesVersion}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end pt-2 border-t border-gray-200">
+            <button
+              onClick={handlePublish}
+              disabled={publishing || !!formError || changedKeys.length === 0 || !preview || !reason.trim() || !effectiveFrom}
+              className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+              title={!preview ? 'Preview the change before publishing' : undefined}
+            >
+              {publishing ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Publish
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md">
+        <div className="p-6 border-b border-gray-200 flex items-center">
+          <History className="h-5 w-5 text-primary-500 mr-2" />
+          <h3 className="text-lg font-medium">{jurisdiction} Change History</h3>
+        </div>
+        {history.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">No rule changes have been published for {jurisdiction}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Effective</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Published</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-100">
+                {history.map(version => (
+                  <tr key={version.id} className="align-top">
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {format(parseISO(version.effectiveFrom), 'dd/MM/yyyy')}
+                      <div className="text-xs text-gray-500">{version.version}</div>
+                    </td>
+                    <td className="px-4 py-2">
+                      {(Object.keys(version.rules) as (keyof JurisdictionRuleOverride)[]).map(key => (
+                        <div key={key}>
+                          <span className="text-gray-600">{RULE_LABELS[key]}:</span>{' '}
+                          <span className="text-gray-400 line-through">{formatRuleValue(key, version.previousRules)}</span>{' '}
+                          <span className="font-medium">{formatRuleValue(key, version.rules)}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{version.reason}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {version.publishedBy}
+                      <div className="text-xs text-gray-500">{format(parseISO(version.publishedAt), 'dd/MM/yyyy HH:mm')}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JurisdictionRules;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { User, Shield, Bell, Palette, Database, Brain, CheckCircle, XCircle, AlertTriangle, RefreshCw, Info, Zap, Settings as SettingsIcon } from 'lucide-react';
 import { useAISettingsStore } from '../store/aiSettingsStore';
 import { setModelSelector } from '../services/aiService';
+import NotificationSettings from '../components/notifications/NotificationSettings';
 
 const Settings: React.FC = () => {
   const [activeTab, setActiveTab] = useState('profile');
@@ -34,7 +35,7 @@ const Settings: React.FC = () => {
   const tabs = [
     { id: 'profile', name: 'Profile', icon: User, component: null },
     { id: 'security', name: 'Security', icon: Shield, component: null },
-    { id: 'notifications', name: 'Notifications', icon: Bell, component: null },
+    { id: 'notifications', name: 'Notifications', icon: Bell, component: NotificationSettings },
     { id: 'appearance', name: 'Appearance', icon: Palette, component: null },
     { id: 'data', name: 'Data & Storage', icon: Database, component: null },
   ];
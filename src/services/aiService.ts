@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { CertificateField, ExtractedCertificate } from './certificateExtractionService';
 
 const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
 
@@ -266,6 +267,97 @@ Please format your response clearly and provide actionable insights.
     }
   }
 
+  async extractDocumentData(documentContent: string): Promise<{ dates: string[]; restrictions: string[]; recommendations: string[] }> {
+    const empty = { dates: [], restrictions: [], recommendations: [] };
+    if (!openai) return empty;
+
+    try {
+      const completion = await openai.chat.completions.create({
+        model: this.getModel(),
+        messages: [
+          {
+            role: 'system',
+            content: 'You extract information from workers compensation documents. Reply with JSON only.'
+          },
+          {
+            role: 'user',
+            content: `Return a JSON object with "dates" (important dates with what they relate to), "restrictions" (work restrictions) and "recommendations" (medical recommendations), each an array of strings.\n\nDocument Content:\n${documentContent}`
+          }
+        ],
+        response_format: { type: 'json_object' },
+        max_tokens: 600,
+        temperature: 0
+      });
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      return {
+        dates: Array.isArray(parsed.dates) ? parsed.dates.map(String) : [],
+        restrictions: Array.isArray(parsed.restrictions) ? parsed.restrictions.map(String) : [],
+        recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations.map(String) : []
+      };
+    } catch (error) {
+      console.error('Error extracting document data:', error);
+      return empty;
+    }
+  }
+
+  // Reads a certificate of capacity into the register's fields. Returns null when AI is not
+  // configured or the reply cannot be read, so callers fall back to their own parsing.
+  async extractCertificateData(documentContent: string): Promise<{ values: ExtractedCertificate; uncertain: CertificateField[] } | null> {
+    if (!openai) return null;
+
+    try {
+      const completion = await openai.chat.completions.create({
+        model: this.getModel(),
+        messages: [
+          {
+            role: 'system',
+            content: 'You extract fields from Australian workers compensation certificates of capacity that were read by OCR. Reply with JSON only and never guess a value that is not on the certificate.'
+          },
+          {
+            role: 'user',
+            content: `Return a JSON object with these keys, omitting any that are not on the certificate:
+- "doctorName": the certifying practitioner
+- "issueDate", "startDate", "endDate": dates as YYYY-MM-DD (Australian dates are day first)
+- "capacity": "full", "suitable-duties" or "none"
+- "hoursPerDay", "daysPerWeek": numbers, for suitable duties only
+- "restrictions", "recommendations": arrays of short strings
+- "uncertain": an array of the keys above you could not read clearly
+
+Certificate Text:
+${documentContent}`
+          }
+        ],
+        response_format: { type: 'json_object' },
+        max_tokens: 600,
+        temperature: 0
+      });
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+      const isNumber = (value: unknown) => typeof value === 'number' && value > 0 ? value : undefined;
+      const isList = (value: unknown) => Array.isArray(value) ? value.map(String).filter(Boolean) : undefined;
+
+      return {
+        values: {
+          doctorName: typeof parsed.doctorName === 'string' && parsed.doctorName.trim() ? parsed.doctorName.trim() : undefined,
+          issueDate: isDate(parsed.issueDate),
+          startDate: isDate(parsed.startDate),
+          endDate: isDate(parsed.endDate),
+          capacity: ['full', 'suitable-duties', 'none'].includes(parsed.capacity) ? parsed.capacity : undefined,
+          hoursPerDay: isNumber(parsed.hoursPerDay),
+          daysPerWeek: isNumber(parsed.daysPerWeek),
+          restrictions: isList(parsed.restrictions),
+          recommendations: isList(parsed.recommendations)
+        },
+        uncertain: isList(parsed.uncertain) as CertificateField[] || []
+      };
+    } catch (error) {
+      console.error('Error extracting certificate data:', error);
+      return null;
+    }
+  }
+
   // Helper methods for extracting structured information from AI responses
   private extractRecommendations(response: string): string[] {
     const recommendations = response.match(/recommendations?[:\s]+(.*?)(?=\n\n|\n[A-Z]|$)/is);
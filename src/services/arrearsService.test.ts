@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ArrearsStatement, Case, Payment, PIAWECalculation } from '../types';
+import { arrearsService } from './arrearsService';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const TODAY = '2024-07-25';
+
+const calculation = { id: 'piawe-2', jurisdiction: 'NSW', injuryDate: '2024-07-01', finalPIAWE: 1000 } as PIAWECalculation;
+const caseData = { id: 'case-1', injuryDate: '2024-07-01' } as Case;
+
+// One weekly payment per week of the schedule, dated the last day of the week
+const weeklyPayments = (amount: number, weekEndings: string[], overrides: Partial<Payment> = {}): Payment[] =>
+  weekEndings.map((weekEnding, index) => ({
+    id: `weekly-${index + 1}`,
+    date: weekEnding,
+    amount,
+    type: 'weekly',
+    status: 'processed',
+    periodEnd: weekEnding,
+    ...overrides
+  }));
+
+const WEEK_ENDINGS = ['2024-07-07', '2024-07-14', '2024-07-21'];
+
+const makeStatement = (overrides: Partial<ArrearsStatement> = {}): ArrearsStatement => ({
+  id: 'statement-1',
+  caseId: 'case-1',
+  newPIAWE: 1000,
+  lines: [],
+  totalEntitled: 0,
+  totalPaid: 0,
+  netAmount: 0,
+  status: 'draft',
+  createdBy: 'Case Manager',
+  createdAt: '2024-07-25T00:00:00Z',
+  ...overrides
+});
+
+describe('arrearsService.calculate', () => {
+  it('compares each paid week with the entitlement at the revised PIAWE', () => {
+    const result = arrearsService.calculate(calculation, caseData, weeklyPayments(855, WEEK_ENDINGS), [], TODAY);
+
+    expect(result.lines).toEqual([
+      { weekNumber: 1, weekStarting: '2024-07-01', weekEnding: '2024-07-07', entitled: 950, paid: 855, difference: 95 },
+      { weekNumber: 2, weekStarting: '2024-07-08', weekEnding: '2024-07-14', entitled: 950, paid: 855, difference: 95 },
+      { weekNumber: 3, weekStarting: '2024-07-15', weekEnding: '2024-07-21', entitled: 950, paid: 855, difference: 95 }
+    ]);
+    expect(result).toMatchObject({ totalEntitled: 2850, totalPaid: 2565, netAmount: 285 });
+    expect(arrearsService.getLabel(result)).toBe('Arrears');
+  });
+
+  it('reports an overpayment when the revised PIAWE is lower', () => {
+    const result = arrearsService.calculate(calculation, caseData, weeklyPayments(1000, WEEK_ENDINGS), [], TODAY);
+
+    expect(result.netAmount).toBe(-150);
+    expect(arrearsService.getLabel(result)).toBe('Overpayment');
+  });
+
+  it('leaves out unpaid weeks and payments that were not approved', () => {
+    const payments = [
+      ...weeklyPayments(855, WEEK_ENDINGS.slice(0, 1)),
+      ...weeklyPayments(855, WEEK_ENDINGS.slice(1, 2), { id: 'draft', status: 'draft' }),
+      ...weeklyPayments(855, WEEK_ENDINGS.slice(2), { id: 'rejected', status: 'rejected' })
+    ];
+    const result = arrearsService.calculate(calculation, caseData, payments, [], TODAY);
+
+    expect(result.lines.map(line => line.weekNumber)).toEqual([1]);
+    expect(result.netAmount).toBe(95);
+  });
+
+  it('counts weeks settled by an earlier approved statement once', () => {
+    const earlier = makeStatement({
+      status: 'approved',
+      paymentId: 'arrears-1',
+      lines: [
+        { weekNumber: 1, weekStarting: '2024-07-01', weekEnding: '2024-07-07', entitled: 950, paid: 855, difference: 95 },
+        { weekNumber: 2, weekStarting: '2024-07-08', weekEnding: '2024-07-14', entitled: 950, paid: 855, difference: 95 }
+      ]
+    });
+    const payments = [
+      ...weeklyPayments(855, WEEK_ENDINGS),
+      { id: 'arrears-1', date: '2024-07-16', amount: 190, type: 'weekly', status: 'approved', periodStart: '2024-07-01', periodEnd: '2024-07-14' } as Payment
+    ];
+    const result = arrearsService.calculate(calculation, caseData, payments, [earlier], TODAY);
+
+    expect(result.lines.map(line => line.paid)).toEqual([950, 950, 855]);
+    expect(result.netAmount).toBe(95);
+  });
+
+  it('ignores draft and rejected statements', () => {
+    const draft = makeStatement({ lines: [{ weekNumber: 1, weekStarting: '2024-07-01', weekEnding: '2024-07-07', entitled: 950, paid: 855, difference: 95 }] });
+    const rejected = { ...draft, id: 'statement-2', status: 'rejected' as const };
+
+    expect(arrearsService.calculate(calculation, caseData, weeklyPayments(855, WEEK_ENDINGS), [draft, rejected], TODAY).netAmount).toBe(285);
+  });
+});
+
+describe('arrearsService.toPayment', () => {
+  it('raises one weekly payment covering the statement weeks', () => {
+    const { lines, ...totals } = arrearsService.calculate(calculation, caseData, weeklyPayments(855, WEEK_ENDINGS), [], TODAY);
+    const statement = makeStatement({ ...totals, lines, versionNumber: 2 });
+
+    expect(arrearsService.toPayment(statement, '2024-07-26')).toEqual({
+      date: '2024-07-26',
+      amount: 285,
+      type: 'weekly',
+      description: 'Arrears for weeks 1 to 3 at revised PIAWE $1000.00 (version 2)',
+      periodStart: '2024-07-01',
+      periodEnd: '2024-07-21'
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { ArrearsLine, ArrearsStatement, Case, Payment, PIAWECalculation } from '../types';
+import { format, parseISO } from 'date-fns';
+import { entitlementService } from './entitlementService';
+import { PdfDocumentBuilder } from '../utils/pdfDocumentBuilder';
+
+export type ArrearsCalculation = Pick<ArrearsStatement, 'lines' | 'totalEntitled' | 'totalPaid' | 'netAmount'>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const arrearsService = {
+  isArrears(statement: Pick<ArrearsStatement, 'netAmount'>): boolean {
+    return statement.netAmount > 0;
+  },
+
+  getLabel(statement: Pick<ArrearsStatement, 'netAmount'>): string {
+    return this.isArrears(statement) ? 'Arrears' : 'Overpayment';
+  },
+
+  // Recomputes every week up to today at the revised PIAWE and compares it with what was paid.
+  // Only weeks with an approved or processed weekly payment are compared; unpaid weeks are left to
+  // the entitlement schedule, which regenerates its draft payments at the new rate. Payments raised
+  // by earlier statements are counted through those statements' line items, so each week's
+  // difference is only paid or recovered once.
+  calculate(
+    calculation: PIAWECalculation,
+    caseData: Case,
+    payments: Payment[],
+    statements: ArrearsStatement[],
+    today: string
+  ): ArrearsCalculation {
+    const schedule = entitlementService.buildSchedule(calculation, {
+      startDate: caseData.compensation?.startDate,
+      currentWeeklyEarnings: caseData.compensation?.currentWeeklyEarnings,
+      decisions: caseData.compensation?.workCapacityDecisions
+    });
+
+    const statementPayments = new Set(statements.map(statement => statement.paymentId).filter(Boolean));
+    const weeklyPayments = payments.filter(payment =>
+      payment.type === 'weekly' &&
+      (payment.status === 'approved' || payment.status === 'processed') &&
+      !statementPayments.has(payment.id)
+    );
+
+    const settled = new Map<string, number>();
+    statements
+      .filter(statement => statement.status === 'approved')
+      .forEach(statement => statement.lines.forEach(line => {
+        settled.set(line.weekEnding, roundCents((settled.get(line.weekEnding) || 0) + line.difference));
+      }));
+
+    const lines: ArrearsLine[] = [];
+    schedule.weeks
+      .filter(week => week.weekStarting <= today)
+      .forEach(week => {
+        const paidThisWeek = weeklyPayments.filter(payment => {
+          const covered = payment.periodEnd || payment.date;
+          return covered >= week.weekStarting && covered <= week.weekEnding;
+        });
+        if (paidThisWeek.length === 0 && !settled.has(week.weekEnding)) return;
+
+        const paid = roundCents(paidThisWeek.reduce((sum, payment) => sum + payment.amount, 0) + (settled.get(week.weekEnding) || 0));
+        lines.push({
+          weekNumber: week.weekNumber,
+          weekStarting: week.weekStarting,
+          weekEnding: week.weekEnding,
+          entitled: week.weeklyPayable,
+          paid,
+          difference: roundCents(week.weeklyPayable - paid)
+        });
+      });
+
+    return {
+      lines,
+      totalEntitled: roundCents(lines.reduce((sum, line) => sum + line.entitled, 0)),
+      totalPaid: roundCents(lines.reduce((sum, line) => sum + line.paid, 0)),
+      netAmount: roundCents(lines.reduce((sum, line) => sum + line.difference, 0))
+    };
+  },
+
+  // The single weekly payment that settles approved arrears
+  toPayment(statement: ArrearsStatement, date: string): Omit<Payment, 'id' | 'status'> {
+    const first = statement.lines[0];
+    const last = statement.lines[statement.lines.length - 1];
+    return {
+      date,
+      amount: statement.netAmount,
+      type: 'weekly',
+      description: `Arrears for weeks ${first.weekNumber} to ${last.weekNumber} at revised PIAWE $${statement.newPIAWE.toFixed(2)}${statement.versionNumber ? ` (version ${statement.versionNumber})` : ''}`,
+      periodStart: first.weekStarting,
+      periodEnd: last.weekEnding
+    };
+  },
+
+  async generateStatementPdf(statement: ArrearsStatement, caseData: Case): Promise<Blob> {
+    const money = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+    const date = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+    const workerName = `${caseData.worker.firstName} ${caseData.worker.lastName}`;
+    const label = this.getLabel(statement);
+
+    const pdf = await PdfDocumentBuilder.create(`${label} Statement - ${workerName}`);
+    pdf.setTitle(`${label} Statement - ${workerName}`);
+    pdf.title(`${label} Statement`, `Claim ${caseData.claimNumber}`);
+
+    pdf.keyValues([
+      ['Worker', workerName],
+      ['Claim Number', caseData.claimNumber],
+      ['Injury Date', date(caseData.injuryDate)],
+      ['Previous PIAWE', statement.previousPIAWE !== undefined ? money(statement.previousPIAWE) : 'Not recorded'],
+      ['Revised PIAWE', `${money(statement.newPIAWE)}${statement.versionNumber ? ` (version ${statement.versionNumber})` : ''}`],
+      ['Prepared By', statement.createdBy],
+      ['Prepared On', date(statement.createdAt)],
+      ['Status', statement.status]
+    ]);
+
+    pdf.heading('Summary');
+    pdf.keyValues([
+      ['Entitlement at revised PIAWE', money(statement.totalEntitled)],
+      ['Weekly payments made', money(statement.totalPaid)],
+      [statement.netAmount > 0 ? 'Arrears payable' : 'Overpayment to recover', money(Math.abs(statement.netAmount))]
+    ]);
+
+    pdf.heading('Weekly Comparison');
+    pdf.table(
+      [
+        { header: 'Week', width: 0.1 },
+        { header: 'Period', width: 0.3 },
+        { header: 'Entitled', width: 0.2, align: 'right' },
+        { header: 'Paid', width: 0.2, align: 'right' },
+        { header: 'Difference', width: 0.2, align: 'right' }
+      ],
+      [
+        ...statement.lines.map(line => [
+          String(line.weekNumber),
+          `${date(line.weekStarting)} - ${date(line.weekEnding)}`,
+          money(line.entitled),
+          money(line.paid),
+          money(line.difference)
+        ]),
+        ['', 'Total', money(statement.totalEntitled), money(statement.totalPaid), money(statement.netAmount)]
+      ],
+      { size: 8, boldRows: [statement.lines.length] }
+    );
+
+    pdf.paragraph(
+      'Entitlement is recalculated for each week already paid using the revised PIAWE, the entitlement period percentage, the weekly cap in force that week and any suitable duties earnings. Weeks not yet paid are scheduled at the revised rate.',
+      { muted: true }
+    );
+
+    return pdf.toBlob();
+  }
+};
@@ -0,0 +1,305 @@
+import { JurisdictionType, MedicalCertificate, WorkCapacity } from '../types';
+import { format, parseISO, addDays, addWeeks } from 'date-fns';
+import Tesseract from 'tesseract.js';
+import { payslipImportService } from './payslipImportService';
+import { aiService } from './aiService';
+
+export type CertificateField = 'doctorName' | 'issueDate' | 'startDate' | 'endDate' | 'capacity' | 'hoursPerDay' | 'daysPerWeek' | 'restrictions' | 'recommendations';
+
+export type ExtractedCertificate = Partial<Pick<MedicalCertificate, CertificateField>>;
+
+// A certificate read from a scan, for the consultant to review before it is saved
+export interface CertificateDraft {
+  values: ExtractedCertificate;
+  lowConfidence: CertificateField[]; // Fields the consultant should check against the scan
+  form?: string; // The state form that was recognised, if any
+  source: 'form' | 'ai' | 'text';
+  ocrConfidence?: number; // Tesseract's mean word confidence, 0 to 100
+}
+
+interface StateForm {
+  jurisdiction: JurisdictionType;
+  label: string;
+  detect: RegExp;
+  capacity: Record<WorkCapacity, RegExp>;
+}
+
+// The certificate of capacity each state regulator publishes. Each form prints all three capacity
+// options, so the ticked one is the option read with a tick mark in front of it.
+const STATE_FORMS: StateForm[] = [
+  {
+    jurisdiction: 'NSW',
+    label: 'NSW Certificate of Capacity',
+    detect: /state insurance regulatory|\bsira\b|icare/i,
+    capacity: {
+      full: /fit for (?:pre-?injury|full|normal) duties/i,
+      'suitable-duties': /(?:has )?capacity for some (?:type of )?employment|fit for (?:suitable|modified|selected) duties/i,
+      none: /(?:has )?no current (?:work )?capacity/i
+    }
+  },
+  {
+    jurisdiction: 'VIC',
+    label: 'WorkSafe Victoria Certificate of Capacity',
+    detect: /worksafe\s*victoria|worksafe\.vic/i,
+    capacity: {
+      full: /capacity for (?:their )?pre-?injury (?:employment|duties)/i,
+      'suitable-duties': /capacity for suitable employment|modified duties/i,
+      none: /no capacity for (?:any )?employment/i
+    }
+  },
+  {
+    jurisdiction: 'QLD',
+    label: 'Queensland Work Capacity Certificate',
+    detect: /workcover\s*queensland|work capacity certificate.*qld|\bq-?comp\b/i,
+    capacity: {
+      full: /fit for (?:normal|full|pre-?injury) duties/i,
+      'suitable-duties': /fit for suitable duties/i,
+      none: /(?:not fit|unfit) for (?:any )?(?:work|duties)/i
+    }
+  },
+  {
+    jurisdiction: 'SA',
+    label: 'ReturnToWorkSA Work Capacity Certificate',
+    detect: /return\s*to\s*work\s*sa|rtwsa/i,
+    capacity: {
+      full: /fit for (?:full|pre-?injury|normal) (?:duties|work)/i,
+      'suitable-duties': /fit for (?:modified|suitable|restricted) (?:duties|work)/i,
+      none: /unfit for (?:any )?work/i
+    }
+  },
+  {
+    jurisdiction: 'WA',
+    label: 'WorkCover WA Certificate of Capacity',
+    detect: /workcover\s*wa|workcover western australia/i,
+    capacity: {
+      full: /fit for (?:pre-?injury|full) (?:duties|work)|has capacity for pre-?injury/i,
+      'suitable-duties': /fit for modified (?:duties|work)|has partial capacity/i,
+      none: /(?:has )?no (?:current )?capacity for work|unfit for work/i
+    }
+  },
+  {
+    jurisdiction: 'TAS',
+    label: 'WorkSafe Tasmania Workers Compensation Medical Certificate',
+    detect: /worksafe\s*tasmania|workcover tasmania/i,
+    capacity: {
+      full: /fit for (?:pre-?injury|full) duties/i,
+      'suitable-duties': /fit for suitable (?:duties|employment)/i,
+      none: /unfit for (?:any )?work/i
+    }
+  }
+];
+
+// Capacity wording used by letters and forms that are not recognised
+const GENERIC_CAPACITY: Record<WorkCapacity, RegExp> = {
+  full: /fit for (?:full|normal|pre-?injury) (?:duties|work)|full capacity/i,
+  'suitable-duties': /(?:suitable|modified|restricted|selected|light) duties|partial capacity/i,
+  none: /unfit for (?:any )?work|no (?:current )?(?:work )?capacity|totally unfit/i
+};
+
+// OCR renders a ticked box as one of these
+const TICK = String.raw`(?:\[\s*[xX✓✔]\s*\]|[☒☑✓✔]|\(\s*[xX]\s*\)|\b[xX]\b)\s*`;
+
+const DATE = String.raw`(\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}|\d{1,2}\s+[A-Za-z]{3,9}\s+\d{4})`;
+
+const LABELLED: { field: 'doctorName' | 'issueDate'; pattern: RegExp }[] = [
+  { field: 'doctorName', pattern: /(?:medical practitioner|treating (?:medical )?practitioner|treating doctor|doctor|practitioner)(?:'s)?\s*(?:full\s*)?name\s*:?\s*(.+)/i },
+  { field: 'issueDate', pattern: new RegExp(String.raw`(?:date of (?:examination|issue|certification|consultation)|date issued|examination date|signed on|(?:reviewed|seen|examined) on)\s*:?\s*${DATE}`, 'i') }
+];
+
+// Headings that end a free text section such as restrictions
+const SECTION_END = /^(?:recommend|treatment|management plan|comments|clinical|diagnosis|declaration|signature|medical practitioner|next review|review date|capacity|\d+\.\s)/i;
+
+// Below this mean word confidence every field read from the scan is flagged for checking
+const MIN_OCR_CONFIDENCE = 70;
+
+const FIELDS: CertificateField[] = ['doctorName', 'issueDate', 'startDate', 'endDate', 'capacity', 'hoursPerDay', 'daysPerWeek', 'restrictions', 'recommendations'];
+
+const parseDate = (raw: string | undefined) => payslipImportService.parseDate(raw);
+
+export const certificateExtractionService = {
+  // Text from a scanned image, or the text layer of a PDF
+  async readText(file: File): Promise<{ text: string; ocrConfidence?: number }> {
+    if (file.type.startsWith('image/')) {
+      const { data } = await Tesseract.recognize(file, 'eng');
+      return { text: data.text, ocrConfidence: data.confidence };
+    }
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      const pages = await payslipImportService.readPdfLines(file);
+      if (pages.every(lines => lines.length === 0)) {
+        throw new Error('This PDF has no text layer. Upload the certificate as a photo or image scan so it can be read.');
+      }
+      return { text: pages.map(lines => lines.map(cells => cells.join(' ')).join('\n')).join('\n') };
+    }
+    throw new Error(`Unsupported certificate file "${file.name}". Upload an image or PDF.`);
+  },
+
+  // Reads the file and parses it with the state form rules, then asks the AI service to fill
+  // anything the rules could not read with confidence. Without an AI key the rules stand alone.
+  async extract(file: File): Promise<CertificateDraft> {
+    const { text, ocrConfidence } = await this.readText(file);
+    const draft = this.parse(text, ocrConfidence);
+    if (draft.lowConfidence.length === 0) return draft;
+
+    const ai = await aiService.extractCertificateData(text);
+    return ai ? this.merge(draft, ai.values, ai.uncertain) : draft;
+  },
+
+  detectForm(text: string): StateForm | undefined {
+    return STATE_FORMS.find(form => form.detect.test(text));
+  },
+
+  // Rule-based reading of a certificate. A field is confident when it was read from its label on a
+  // recognised form; anything found by looser wording, or from a poor scan, is flagged.
+  parse(text: string, ocrConfidence?: number): CertificateDraft {
+    const form = this.detectForm(text);
+    const values: ExtractedCertificate = {};
+    const confident = new Set<CertificateField>();
+    const found = (field: CertificateField, sure: boolean) => { if (sure) confident.add(field); };
+
+    LABELLED.forEach(({ field, pattern }) => {
+      const match = text.match(pattern);
+      if (!match) return;
+      if (field === 'doctorName') {
+        values.doctorName = match[1].replace(/\s{2,}.*$|\s+(?:provider|phone|ph|date|signature)\b.*$/i, '').trim();
+      } else {
+        values.issueDate = parseDate(match[1]) || undefined;
+      }
+      found(field, !!form && !!values[field]);
+    });
+    if (!values.doctorName) {
+      const doctor = text.match(/\bDr\.?\s+[A-Z][A-Za-z'-]+(?:\s+[A-Z][A-Za-z'-]+){0,2}/);
+      if (doctor) values.doctorName = doctor[0].trim();
+    }
+
+    this.parsePeriod(text, values, found, !!form);
+
+    const capacity = this.parseCapacity(text, form);
+    if (capacity) {
+      values.capacity = capacity.value;
+      found('capacity', capacity.ticked);
+    }
+
+    if (values.capacity !== 'full' && values.capacity !== 'none') {
+      const hours = text.match(/(\d{1,2}(?:\.\d)?)\s*(?:hours|hrs|h)\s*(?:per|\/|a|each)\s*day/i);
+      const days = text.match(/(\d)\s*days?\s*(?:per|\/|a|each)\s*week/i);
+      if (hours) {
+        values.hoursPerDay = parseFloat(hours[1]);
+        found('hoursPerDay', !!form);
+      }
+      if (days && parseInt(days[1], 10) >= 1 && parseInt(days[1], 10) <= 7) {
+        values.daysPerWeek = parseInt(days[1], 10);
+        found('daysPerWeek', !!form);
+      }
+    }
+
+    const restrictions = this.readSection(text, /(?:physical |work |functional )?restrictions?|functional ability/i);
+    if (restrictions.length > 0) {
+      values.restrictions = restrictions;
+      found('restrictions', !!form);
+    } else {
+      const phrases = text.split('\n').map(line => line.trim()).filter(line => /^(?:no|avoid|limit|lifting|maximum|max\.?)\b.*\b(?:lift|bend|kneel|climb|reach|stand|sit|walk|driv|push|pull|\d+\s*kg|hours?\b)/i.test(line));
+      if (phrases.length > 0) values.restrictions = phrases;
+    }
+
+    const recommendations = this.readSection(text, /recommendations?|treatment plan|management plan/i);
+    if (recommendations.length > 0) {
+      values.recommendations = recommendations;
+      found('recommendations', !!form);
+    }
+
+    const goodScan = ocrConfidence === undefined || ocrConfidence >= MIN_OCR_CONFIDENCE;
+    return {
+      values,
+      lowConfidence: FIELDS.filter(field => this.isExpected(field, values) && (!goodScan || !confident.has(field))),
+      form: form?.label,
+      source: form ? 'form' : 'text',
+      ocrConfidence
+    };
+  },
+
+  // "From dd/mm/yyyy to dd/mm/yyyy" is printed on every state form. Letters often give a
+  // duration instead, which is read from the issue date.
+  parsePeriod(text: string, values: ExtractedCertificate, found: (field: CertificateField, sure: boolean) => void, onForm: boolean) {
+    const period = text.match(new RegExp(String.raw`from\s*:?\s*${DATE}\s*(?:to|until|-|–)\s*:?\s*${DATE}`, 'i'));
+    if (period) {
+      values.startDate = parseDate(period[1]) || undefined;
+      values.endDate = parseDate(period[2]) || undefined;
+      found('startDate', onForm && !!values.startDate);
+      found('endDate', onForm && !!values.endDate);
+      return;
+    }
+
+    const until = text.match(new RegExp(String.raw`(?:until|to|valid to|next review(?: on)?)\s*:?\s*${DATE}`, 'i'));
+    if (until) values.endDate = parseDate(until[1]) || undefined;
+    values.startDate = values.issueDate;
+
+    const duration = text.match(/for\s+(\d{1,2})\s*(days?|weeks?)/i);
+    if (!values.endDate && values.startDate && duration) {
+      const start = parseISO(values.startDate);
+      const amount = parseInt(duration[1], 10);
+      const end = /week/i.test(duration[2]) ? addDays(addWeeks(start, amount), -1) : addDays(start, amount - 1);
+      values.endDate = format(end, 'yyyy-MM-dd');
+    }
+  },
+
+  parseCapacity(text: string, form: StateForm | undefined): { value: WorkCapacity; ticked: boolean } | undefined {
+    const options = form?.capacity || GENERIC_CAPACITY;
+    const capacities = Object.keys(options) as WorkCapacity[];
+
+    const ticked = capacities.filter(capacity => new RegExp(TICK + options[capacity].source, 'i').test(text));
+    if (ticked.length === 1) return { value: ticked[0], ticked: true };
+
+    // A blank form prints every option; only a single mention can be read without a tick
+    const mentioned = capacities.filter(capacity => options[capacity].test(text));
+    return mentioned.length === 1 ? { value: mentioned[0], ticked: false } : undefined;
+  },
+
+  // Lines under a heading, up to the next heading or blank line
+  readSection(text: string, heading: RegExp): string[] {
+    const lines = text.split('\n').map(line => line.trim());
+    const start = lines.findIndex(line => new RegExp(`^(?:${heading.source})\\s*:?`, 'i').test(line));
+    if (start === -1) return [];
+
+    const sameLine = lines[start].replace(new RegExp(`^(?:${heading.source})\\s*:?`, 'i'), '').trim();
+    const items = sameLine ? [sameLine] : [];
+    for (const line of lines.slice(start + 1)) {
+      if (!line || SECTION_END.test(line)) break;
+      items.push(line);
+    }
+
+    return items
+      .flatMap(item => item.split(/;|\s+[•·]\s+/))
+      .map(item => item.replace(/^[-•*·\d.)\s]+/, '').trim())
+      .filter(item => item.length > 2 && !/^(?:nil|none|n\/a)$/i.test(item));
+  },
+
+  // Hours and days only apply to suitable duties; every other field is expected on a certificate
+  isExpected(field: CertificateField, values: ExtractedCertificate): boolean {
+    if (field === 'hoursPerDay' || field === 'daysPerWeek') return values.capacity === 'suitable-duties';
+    if (field === 'recommendations') return values.recommendations !== undefined;
+    return true;
+  },
+
+  // AI values replace fields the rules missed or were unsure of. They stay flagged when the AI
+  // reports it was unsure too.
+  merge(draft: CertificateDraft, ai: ExtractedCertificate, uncertain: CertificateField[]): CertificateDraft {
+    const values: ExtractedCertificate = { ...draft.values };
+    const lowConfidence = new Set(draft.lowConfidence);
+    let used = false;
+
+    FIELDS.forEach(field => {
+      const value = ai[field];
+      if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) return;
+      if (values[field] !== undefined && !lowConfidence.has(field)) return;
+      (values as Record<CertificateField, unknown>)[field] = value;
+      used = true;
+      if (!uncertain.includes(field)) lowConfidence.delete(field);
+    });
+
+    const merged = { ...draft, values, source: used && !draft.form ? 'ai' as const : draft.source };
+    return {
+      ...merged,
+      lowConfidence: FIELDS.filter(field => lowConfidence.has(field) && this.isExpected(field, values))
+    };
+  }
+};
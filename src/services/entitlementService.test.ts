@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PIAWECalculation } from '../types';
+import { entitlementService } from './entitlementService';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const makeCalculation = (overrides: Partial<PIAWECalculation> = {}) => ({
+  id: 'piawe-1',
+  jurisdiction: 'NSW',
+  injuryDate: '2024-07-01',
+  finalPIAWE: 1000,
+  ...overrides
+}) as PIAWECalculation;
+
+describe('entitlementService.buildSchedule', () => {
+  it('steps down from 95% to 80% of PIAWE in week 14', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation(), { weeks: 20 });
+
+    expect(schedule.weeks).toHaveLength(20);
+    expect(schedule.weeks[12]).toMatchObject({ weekNumber: 13, percentage: 95, weeklyPayable: 950 });
+    expect(schedule.weeks[13]).toMatchObject({ weekNumber: 14, weekStarting: '2024-09-30', percentage: 80, weeklyPayable: 800 });
+    expect(schedule.stepDowns).toEqual([
+      { weekNumber: 14, date: '2024-09-30', fromPercentage: 95, toPercentage: 80, label: 'Second entitlement period' }
+    ]);
+  });
+
+  it('runs to the end of the last entitlement period', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation());
+
+    expect(schedule.weeks).toHaveLength(130);
+    expect(schedule.totalPayable).toBe(13 * 950 + 117 * 800);
+    expect(schedule.stepDowns[schedule.stepDowns.length - 1]).toMatchObject({ weekNumber: 131, fromPercentage: 80, toPercentage: 0 });
+  });
+
+  it('caps each week at the maximum in force that week', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation({ finalPIAWE: 3500 }), { weeks: 20 });
+
+    expect(schedule.weeks[0]).toMatchObject({ grossEntitlement: 3325, weeklyPayable: 2450, capped: true, rulesVersion: 'NSW 2024-04' });
+    expect(schedule.weeks[14]).toMatchObject({ weekStarting: '2024-10-07', grossEntitlement: 2800, weeklyPayable: 2500, capped: true, rulesVersion: 'NSW 2024-10' });
+  });
+
+  it('deducts current weekly earnings, pro rata for part weeks', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation(), {
+      weeks: 3,
+      currentWeeklyEarnings: [{ id: 'cwe-1', startDate: '2024-07-04', endDate: '2024-07-14', weeklyAmount: 700 }]
+    });
+
+    expect(schedule.weeks.map(week => week.currentWeeklyEarnings)).toEqual([400, 700, 0]);
+    expect(schedule.weeks.map(week => week.weeklyPayable)).toEqual([550, 250, 950]);
+  });
+
+  it('never pays less than nothing when earnings exceed the entitlement', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation(), {
+      weeks: 1,
+      currentWeeklyEarnings: [{ id: 'cwe-1', startDate: '2024-07-01', weeklyAmount: 1200 }]
+    });
+
+    expect(schedule.weeks[0].weeklyPayable).toBe(0);
+  });
+
+  it('starts the schedule from the first day of incapacity', () => {
+    const schedule = entitlementService.buildSchedule(makeCalculation(), { startDate: '2024-07-10', weeks: 14 });
+
+    expect(schedule.startDate).toBe('2024-07-10');
+    expect(schedule.stepDowns[0].date).toBe('2024-10-09');
+  });
+});
@@ -0,0 +1,288 @@
+import { PIAWECalculation, EntitlementSchedule, EntitlementWeek, EntitlementStepDown, EntitlementPeriod, EntitlementDecisionPoint, CurrentWeeklyEarnings, WorkCapacityDecision, WorkCapacityDecisionPoint, BenefitDuration, Payment, Task } from '../types';
+import { parseISO, addDays, addWeeks, subWeeks, format, differenceInCalendarDays, differenceInCalendarWeeks, max as maxDate, min as minDate } from 'date-fns';
+import { jurisdictionRulesService } from './jurisdictionRules';
+
+// Schedules run to the end of the last closed entitlement period, or this many weeks when the
+// final period is open-ended. An open-ended period that starts later is scheduled for a year.
+const DEFAULT_SCHEDULE_WEEKS = 104;
+const OPEN_PERIOD_WEEKS = 52;
+
+// Payments and reminders created from a schedule carry these keys so regenerating the schedule
+// can replace them without touching anything entered by hand
+const PAYMENT_KEY_PREFIX = 'entitlement-';
+const STEP_DOWN_TASK_PREFIX = 'step-down-';
+const DECISION_TASK_PREFIX = 'work-capacity-';
+const SUPERANNUATION_TASK_PREFIX = 'superannuation-';
+const SCHEDULE_TASK_PREFIXES = [STEP_DOWN_TASK_PREFIX, DECISION_TASK_PREFIX, SUPERANNUATION_TASK_PREFIX];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+interface ScheduleOptions {
+  startDate?: string; // First day of incapacity, defaults to the injury date
+  weeks?: number;
+  currentWeeklyEarnings?: CurrentWeeklyEarnings[];
+  decisions?: WorkCapacityDecision[];
+}
+
+export const entitlementService = {
+  getEntitlementPeriod(periods: EntitlementPeriod[], weekNumber: number): EntitlementPeriod | undefined {
+    return periods.find(period => weekNumber >= period.fromWeek && (period.toWeek === undefined || weekNumber <= period.toWeek));
+  },
+
+  getScheduleLength(periods: EntitlementPeriod[]): number {
+    const last = periods[periods.length - 1];
+    return last?.toWeek ?? Math.max(DEFAULT_SCHEDULE_WEEKS, last ? last.fromWeek + OPEN_PERIOD_WEEKS - 1 : 0);
+  },
+
+  // Entitlement periods with the continuation of each decision point that has been decided in
+  // favour of the worker. Decision points after a pending or ceased one are never reached.
+  getDecidedPeriods(
+    periods: EntitlementPeriod[],
+    decisionPoints: WorkCapacityDecisionPoint[],
+    decisions: WorkCapacityDecision[]
+  ): EntitlementPeriod[] {
+    const decided = [...periods];
+    for (const point of [...decisionPoints].sort((a, b) => a.week - b.week)) {
+      if (decisions.find(decision => decision.decisionPointId === point.id)?.outcome !== 'continue') break;
+      decided.push(point.continuation);
+    }
+    return decided;
+  },
+
+  // Suitable duties earnings for a week. Entries that only partly overlap the week count pro rata by day.
+  getCurrentWeeklyEarnings(earnings: CurrentWeeklyEarnings[], weekStarting: string, weekEnding: string): number {
+    const weekStart = parseISO(weekStarting);
+    const weekEnd = parseISO(weekEnding);
+
+    const total = earnings.reduce((sum, entry) => {
+      const start = maxDate([parseISO(entry.startDate), weekStart]);
+      const end = minDate([entry.endDate ? parseISO(entry.endDate) : weekEnd, weekEnd]);
+      const days = differenceInCalendarDays(end, start) + 1;
+      return days > 0 ? sum + entry.weeklyAmount * (days / 7) : sum;
+    }, 0);
+
+    return roundCents(total);
+  },
+
+  // Week-by-week entitlement: the period percentage of PIAWE, limited to the weekly cap in force
+  // that week, less current weekly earnings from suitable duties. Superannuation is added on top
+  // where the jurisdiction pays it, and payments stop at a decision point until it is decided.
+  buildSchedule(calculation: PIAWECalculation, options: ScheduleOptions = {}): EntitlementSchedule {
+    const startDate = options.startDate || calculation.injuryDate;
+    const earnings = options.currentWeeklyEarnings || [];
+    const decisions = options.decisions || [];
+    const injuryRules = jurisdictionRulesService.getRulesInForce(calculation.jurisdiction, calculation.injuryDate);
+    const points = injuryRules.decisionPoints || [];
+    const periods = this.getDecidedPeriods(injuryRules.entitlementPeriods, points, decisions);
+    const totalWeeks = options.weeks ?? this.getScheduleLength(periods);
+
+    const weeks: EntitlementWeek[] = [];
+    const stepDowns: EntitlementStepDown[] = [];
+    let previous: EntitlementPeriod | undefined;
+
+    // Runs one week past the schedule so the end of a closed final period is recorded as a step-down
+    for (let weekNumber = 1; weekNumber <= totalWeeks + 1; weekNumber++) {
+      const period = this.getEntitlementPeriod(periods, weekNumber);
+      const weekStart = addWeeks(parseISO(startDate), weekNumber - 1);
+      const weekStarting = format(weekStart, 'yyyy-MM-dd');
+
+      if (!period || weekNumber > totalWeeks) {
+        // Entitlement has run out
+        if (!period && previous) {
+          const point = points.find(p => p.week === weekNumber);
+          const ceased = point && decisions.some(d => d.decisionPointId === point.id && d.outcome === 'cease');
+          stepDowns.push({
+            weekNumber,
+            date: weekStarting,
+            fromPercentage: previous.percentage,
+            toPercentage: 0,
+            label: point ? `Weekly payments end ${ceased ? 'after' : 'pending'} the ${point.label}` : 'Weekly payments end'
+          });
+        }
+        break;
+      }
+
+      if (previous && previous.percentage !== period.percentage) {
+        stepDowns.push({
+          weekNumber,
+          date: weekStarting,
+          fromPercentage: previous.percentage,
+          toPercentage: period.percentage,
+          label: period.label
+        });
+      }
+      previous = period;
+
+      const weekEnding = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+      const rules = jurisdictionRulesService.getRulesInForce(calculation.jurisdiction, weekStarting);
+      const grossEntitlement = roundCents(calculation.finalPIAWE * (period.percentage / 100));
+      const cap = rules.cappingRules?.maxWeeklyAmount;
+      const capped = cap !== undefined && grossEntitlement > cap;
+      const currentWeeklyEarnings = this.getCurrentWeeklyEarnings(earnings, weekStarting, weekEnding);
+      const weeklyPayable = roundCents(Math.max(0, (capped ? cap : grossEntitlement) - currentWeeklyEarnings));
+      const superannuation = rules.superannuation && weekNumber >= rules.superannuation.fromWeek
+        ? roundCents(weeklyPayable * (rules.superannuation.rate / 100))
+        : 0;
+
+      weeks.push({
+        weekNumber,
+        weekStarting,
+        weekEnding,
+        periodLabel: period.label,
+        percentage: period.percentage,
+        piawe: calculation.finalPIAWE,
+        grossEntitlement,
+        currentWeeklyEarnings,
+        weeklyPayable,
+        superannuation,
+        capped,
+        rulesVersion: rules.version
+      });
+    }
+
+    return {
+      calculationId: calculation.id,
+      jurisdiction: calculation.jurisdiction,
+      startDate,
+      weeks,
+      stepDowns,
+      decisionPoints: this.getDecisionPoints(points, decisions, startDate),
+      superannuationFrom: weeks.find(week => week.superannuation > 0)?.weekStarting,
+      totalPayable: roundCents(weeks.reduce((sum, week) => sum + week.weeklyPayable, 0)),
+      totalSuperannuation: roundCents(weeks.reduce((sum, week) => sum + week.superannuation, 0)),
+      generatedAt: new Date().toISOString()
+    };
+  },
+
+  // Decision points up to the first one that is pending or stops payments
+  getDecisionPoints(points: WorkCapacityDecisionPoint[], decisions: WorkCapacityDecision[], startDate: string): EntitlementDecisionPoint[] {
+    const result: EntitlementDecisionPoint[] = [];
+    for (const point of [...points].sort((a, b) => a.week - b.week)) {
+      const decision = decisions.find(d => d.decisionPointId === point.id);
+      const date = addWeeks(parseISO(startDate), point.week - 1);
+      result.push({
+        id: point.id,
+        weekNumber: point.week,
+        date: format(date, 'yyyy-MM-dd'),
+        label: point.label,
+        description: point.description,
+        reminderDate: format(subWeeks(date, point.noticeWeeks), 'yyyy-MM-dd'),
+        status: decision?.outcome || 'pending',
+        decision
+      });
+      if (decision?.outcome !== 'continue') break;
+    }
+    return result;
+  },
+
+  // Weeks since the injury, the current week of incapacity and the next threshold to act on
+  getBenefitDuration(schedule: EntitlementSchedule, injuryDate: string, today: string): BenefitDuration {
+    const current = schedule.weeks.find(week => week.weekStarting <= today && week.weekEnding >= today);
+    const thresholds = [
+      ...schedule.stepDowns.map(stepDown => ({ label: stepDown.label, date: stepDown.date, weekNumber: stepDown.weekNumber })),
+      ...schedule.decisionPoints
+        .filter(point => point.status === 'pending')
+        .map(point => ({ label: point.label, date: point.date, weekNumber: point.weekNumber })),
+      ...(schedule.superannuationFrom
+        ? [{
+          label: 'Superannuation contributions start',
+          date: schedule.superannuationFrom,
+          weekNumber: schedule.weeks.find(week => week.weekStarting === schedule.superannuationFrom)!.weekNumber
+        }]
+        : [])
+    ]
+      .filter(threshold => threshold.date > today)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const next = thresholds[0];
+
+    return {
+      weeksSinceInjury: Math.max(0, differenceInCalendarWeeks(parseISO(today), parseISO(injuryDate))),
+      weekOfIncapacity: current?.weekNumber,
+      nextThreshold: next && {
+        ...next,
+        weeksAway: Math.ceil(differenceInCalendarDays(parseISO(next.date), parseISO(today)) / 7)
+      }
+    };
+  },
+
+  // Draft weekly payments for the schedule. Weeks that already have an approved, processed or
+  // rejected scheduled payment are not scheduled again; earlier drafts are replaced.
+  toPayments(schedule: EntitlementSchedule, existing: Payment[] = []): Payment[] {
+    const settledWeeks = new Set(
+      existing.filter(payment => payment.scheduleKey && payment.status !== 'draft').map(payment => payment.scheduleKey)
+    );
+
+    const weekly: Payment[] = schedule.weeks
+      .filter(week => week.weeklyPayable > 0 && !settledWeeks.has(`${PAYMENT_KEY_PREFIX}${week.weekEnding}`))
+      .map(week => ({
+        id: `${PAYMENT_KEY_PREFIX}${week.weekEnding}`,
+        date: week.weekEnding,
+        amount: week.weeklyPayable,
+        type: 'weekly',
+        description: `Week ${week.weekNumber} - ${week.percentage}% of PIAWE${week.currentWeeklyEarnings > 0 ? ` less $${week.currentWeeklyEarnings.toFixed(2)} CWE` : ''}${week.capped ? ' (capped)' : ''}`,
+        status: 'draft',
+        periodStart: week.weekStarting,
+        periodEnd: week.weekEnding,
+        scheduleKey: `${PAYMENT_KEY_PREFIX}${week.weekEnding}`
+      }));
+
+    const superannuation: Payment[] = schedule.weeks
+      .filter(week => week.superannuation > 0 && !settledWeeks.has(`${PAYMENT_KEY_PREFIX}super-${week.weekEnding}`))
+      .map(week => ({
+        id: `${PAYMENT_KEY_PREFIX}super-${week.weekEnding}`,
+        date: week.weekEnding,
+        amount: week.superannuation,
+        type: 'superannuation',
+        description: `Week ${week.weekNumber} - superannuation on $${week.weeklyPayable.toFixed(2)} weekly payment`,
+        status: 'draft',
+        periodStart: week.weekStarting,
+        periodEnd: week.weekEnding,
+        scheduleKey: `${PAYMENT_KEY_PREFIX}super-${week.weekEnding}`
+      }));
+
+    return [...weekly, ...superannuation];
+  },
+
+  // One reminder task per step-down and pending decision point, and one when superannuation
+  // contributions start. Open reminders from an earlier schedule are replaced, completed ones are
+  // left alone.
+  toReminderTasks(schedule: EntitlementSchedule, existing: Task[] = []): Task[] {
+    const completed = new Set(existing.filter(task => task.completed).map(task => task.id));
+    const kept = existing.filter(task => task.completed || !SCHEDULE_TASK_PREFIXES.some(prefix => task.id.startsWith(prefix)));
+
+    const reminders: Task[] = schedule.stepDowns
+      .filter(stepDown => !completed.has(`${STEP_DOWN_TASK_PREFIX}${stepDown.date}`))
+      .map(stepDown => ({
+        id: `${STEP_DOWN_TASK_PREFIX}${stepDown.date}`,
+        title: stepDown.toPercentage > 0
+          ? `Weekly payments step down to ${stepDown.toPercentage}%`
+          : 'Weekly payments end',
+        description: `${stepDown.label} from week ${stepDown.weekNumber}. Weekly payments change from ${stepDown.fromPercentage}% to ${stepDown.toPercentage}% of PIAWE. Notify the worker and update the payment schedule.`,
+        dueDate: stepDown.date,
+        completed: false
+      }));
+
+    schedule.decisionPoints
+      .filter(point => point.status === 'pending' && !completed.has(`${DECISION_TASK_PREFIX}${point.id}`))
+      .forEach(point => reminders.push({
+        id: `${DECISION_TASK_PREFIX}${point.id}`,
+        title: `Work capacity decision due: ${point.label}`,
+        description: `${point.description}. Weekly payments from week ${point.weekNumber} (${format(parseISO(point.date), 'dd/MM/yyyy')}) are not scheduled until a decision is recorded.`,
+        dueDate: point.reminderDate,
+        completed: false
+      }));
+
+    const superannuationTaskId = `${SUPERANNUATION_TASK_PREFIX}${schedule.superannuationFrom}`;
+    if (schedule.superannuationFrom && !completed.has(superannuationTaskId)) {
+      reminders.push({
+        id: superannuationTaskId,
+        title: 'Start superannuation contributions',
+        description: 'Superannuation contributions are payable on weekly payments from this week. Confirm the worker\'s super fund details before the first contribution.',
+        dueDate: schedule.superannuationFrom,
+        completed: false
+      });
+    }
+
+    return [...kept, ...reminders];
+  }
+};
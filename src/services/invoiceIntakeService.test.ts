@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Case, InvoiceLine, Payment, TreatmentApproval } from '../types';
+import { ImportedInvoiceLine, invoiceIntakeService } from './invoiceIntakeService';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const makeCase = (id: string, claimNumber: string, firstName: string, lastName: string, overrides: Partial<Case> = {}) => ({
+  id,
+  claimNumber,
+  worker: { id: `worker-${id}`, firstName, lastName },
+  status: 'active',
+  stakeholders: [
+    { id: `physio-${id}`, type: 'physiotherapist', name: 'Sam Lee', organization: 'Harbour Physiotherapy', phone: '', isPrimary: false, isActive: true, addedDate: '2025-06-01' }
+  ],
+  ...overrides
+}) as Case;
+
+const makeApproval = (overrides: Partial<TreatmentApproval> = {}): TreatmentApproval => ({
+  id: 'approval-1',
+  caseId: 'case-1',
+  stakeholderId: 'physio-case-1',
+  provider: 'Harbour Physiotherapy',
+  treatmentType: 'physiotherapy',
+  sessionsApproved: 6,
+  startDate: '2025-07-01',
+  endDate: '2025-08-31',
+  usage: [],
+  createdAt: '2025-07-01T00:00:00Z',
+  ...overrides
+});
+
+const makeImported = (overrides: Partial<ImportedInvoiceLine> = {}): ImportedInvoiceLine => ({
+  fileName: 'invoice.csv',
+  lineNumber: 2,
+  invoiceNumber: 'INV-100',
+  provider: 'Harbour Physio',
+  claimNumber: 'CLM-001',
+  serviceDate: '2025-07-14',
+  itemCode: 'PTA002',
+  amount: 95,
+  sessions: 1,
+  ...overrides
+});
+
+const makeLine = (overrides: Partial<InvoiceLine> = {}): InvoiceLine => ({
+  id: 'line-1',
+  ...makeImported(),
+  caseId: 'case-1',
+  stakeholderId: 'physio-case-1',
+  approvalId: 'approval-1',
+  status: 'matched',
+  importedAt: '2025-07-20T00:00:00Z',
+  ...overrides
+});
+
+const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'payment-1',
+  date: '2025-07-14',
+  amount: 95,
+  type: 'medical',
+  providerId: 'physio-case-1',
+  provider: 'Harbour Physiotherapy',
+  reference: 'INV-100',
+  description: 'PTA002 Standard consultation',
+  status: 'approved',
+  ...overrides
+});
+
+const cases = [
+  makeCase('case-1', 'CLM-001', 'Jordan', 'Smith'),
+  makeCase('case-2', 'CLM-002', 'Alex', 'Nguyen'),
+  makeCase('case-3', 'CLM-003', 'Alex', 'Nguyen', { status: 'closed' })
+];
+
+describe('invoiceIntakeService.match', () => {
+  it('matches the case on the claim number and the provider to a case stakeholder', () => {
+    const match = invoiceIntakeService.match(makeImported(), cases, { 'case-1': [makeApproval()] }, {});
+
+    expect(match).toEqual({ caseId: 'case-1', stakeholderId: 'physio-case-1', approvalId: 'approval-1', status: 'matched' });
+  });
+
+  it('falls back to the worker name, preferring the only open case', () => {
+    const line = makeImported({ claimNumber: undefined, workerName: 'Nguyen, Alex' });
+
+    expect(invoiceIntakeService.match(line, cases, {}, {})).toMatchObject({ caseId: 'case-2', status: 'matched' });
+    expect(invoiceIntakeService.match(makeImported({ claimNumber: 'CLM-999', workerName: 'Jordan Smith' }), cases, {}, {}).caseId).toBe('case-1');
+  });
+
+  it('leaves a line unmatched when no case or stakeholder matches', () => {
+    expect(invoiceIntakeService.match(makeImported({ claimNumber: 'CLM-999' }), cases, {}, {})).toEqual({ status: 'unmatched' });
+    expect(invoiceIntakeService.match(makeImported({ provider: 'City Psychology' }), cases, {}, {})).toEqual({
+      caseId: 'case-1',
+      stakeholderId: undefined,
+      approvalId: undefined,
+      status: 'unmatched'
+    });
+  });
+
+  it('prefers the overlapping approval with sessions left', () => {
+    const used = makeApproval({
+      id: 'approval-used',
+      sessionsApproved: 1,
+      usage: [{ id: 'usage-1', kind: 'attendance', date: '2025-07-02', sessions: 1 }]
+    });
+    const match = invoiceIntakeService.match(makeImported(), cases, { 'case-1': [used, makeApproval()] }, {});
+
+    expect(match.approvalId).toBe('approval-1');
+  });
+});
+
+describe('invoiceIntakeService.getFlags', () => {
+  const approvals = [makeApproval()];
+  const flagTypes = (line: InvoiceLine, lines: InvoiceLine[] = [], payments: Payment[] = []) =>
+    invoiceIntakeService.getFlags(line, lines, approvals, payments).map(flag => flag.type);
+
+  it('has no flags for a new line within its approval', () => {
+    expect(flagTypes(makeLine())).toEqual([]);
+  });
+
+  it('flags the same service already in the queue', () => {
+    const earlier = makeLine({ id: 'line-0', fileName: 'earlier.csv', status: 'approved' });
+    const flags = invoiceIntakeService.getFlags(makeLine(), [earlier], approvals, []);
+
+    expect(flags).toEqual([{ type: 'duplicate', message: 'Same service as line 2 of earlier.csv, already approved' }]);
+    expect(flagTypes(makeLine(), [{ ...earlier, status: 'rejected' }])).toEqual([]);
+  });
+
+  it('flags a line that matches a payment for the same invoice, date, amount and item', () => {
+    const flags = invoiceIntakeService.getFlags(makeLine(), [], approvals, [makePayment()]);
+
+    expect(flags).toEqual([{ type: 'duplicate', message: 'Matches an approved payment of $95.00 on 14/07/2025' }]);
+  });
+
+  it('does not flag other sessions paid under the same invoice number', () => {
+    const payments = [
+      makePayment({ date: '2025-07-07' }),
+      makePayment({ id: 'payment-2', description: 'PTA001 Initial consultation' }),
+      makePayment({ id: 'payment-3', status: 'rejected' })
+    ];
+
+    expect(flagTypes(makeLine(), [], payments)).toEqual([]);
+  });
+
+  it('does not flag the line against its own payment', () => {
+    expect(flagTypes(makeLine({ paymentId: 'payment-1' }), [], [makePayment()])).toEqual([]);
+  });
+
+  it('flags services outside or beyond the provider approvals', () => {
+    expect(flagTypes(makeLine({ approvalId: undefined, serviceDate: '2025-09-02' }))).toEqual(['outside-approval']);
+    expect(flagTypes(makeLine({ sessions: 7, amount: 665 }))).toEqual(['over-approval']);
+    expect(invoiceIntakeService.getFlags(makeLine({ stakeholderId: 'other', provider: 'City Psychology' }), [], approvals, [])).toEqual([
+      { type: 'outside-approval', message: 'No treatment approval for City Psychology' }
+    ]);
+  });
+
+  it('does not flag settled lines', () => {
+    expect(flagTypes(makeLine({ status: 'approved', sessions: 7 }), [], [makePayment()])).toEqual([]);
+  });
+});
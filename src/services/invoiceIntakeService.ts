@@ -0,0 +1,335 @@
+import { Case, InvoiceLine, InvoiceLineFlag, Payment, Stakeholder, TreatmentApproval } from '../types';
+import { format, parseISO } from 'date-fns';
+import { payslipImportService } from './payslipImportService';
+import { paymentService } from './paymentService';
+import { treatmentApprovalService } from './treatmentApprovalService';
+
+type InvoiceField = 'invoiceNumber' | 'provider' | 'providerNumber' | 'claimNumber' | 'workerName' | 'serviceDate' | 'itemCode' | 'description' | 'amount' | 'sessions';
+
+// An invoice line as read from the file, before it is matched or saved
+export type ImportedInvoiceLine = Pick<InvoiceLine,
+  'fileName' | 'lineNumber' | 'invoiceNumber' | 'provider' | 'providerNumber' | 'claimNumber' | 'workerName' | 'serviceDate' | 'itemCode' | 'description' | 'amount' | 'sessions'>;
+
+export type InvoiceLineMatch = Pick<InvoiceLine, 'caseId' | 'stakeholderId' | 'approvalId' | 'status'>;
+
+// Header aliases for invoice files, matched on lower case alphanumerics
+const FIELD_ALIASES: Record<InvoiceField, string[]> = {
+  invoiceNumber: ['invoice', 'invoiceno', 'invoicenumber', 'invoicenum', 'invoiceid', 'invno'],
+  provider: ['provider', 'providername', 'practitioner', 'practitionername', 'practice', 'clinic', 'supplier', 'payee'],
+  providerNumber: ['providernumber', 'providerno', 'providerid', 'abn'],
+  claimNumber: ['claim', 'claimno', 'claimnumber', 'claimnum', 'claimreference'],
+  workerName: ['patient', 'patientname', 'worker', 'workername', 'client', 'clientname', 'injuredworker'],
+  serviceDate: ['servicedate', 'dateofservice', 'date', 'treatmentdate', 'consultationdate', 'appointmentdate'],
+  itemCode: ['item', 'itemcode', 'itemno', 'itemnumber', 'servicecode', 'code'],
+  description: ['description', 'service', 'servicedescription', 'details'],
+  amount: ['amount', 'fee', 'charge', 'total', 'amountcharged', 'cost', 'linetotal'],
+  sessions: ['quantity', 'qty', 'sessions', 'units']
+};
+
+// Invoice PDFs print the provider, invoice and claim details once above a table of services.
+// These patterns read the details from the page text.
+const PDF_DETAIL_PATTERNS: { field: InvoiceField; pattern: RegExp }[] = [
+  { field: 'provider', pattern: /^(?:provider|practitioner|practice)(?:\s*name)?\s*:\s*(.+)$/im },
+  { field: 'providerNumber', pattern: /provider\s*(?:no|number|#)\.?\s*:?\s*([A-Z0-9]+)/i },
+  { field: 'invoiceNumber', pattern: /(?:tax\s*)?invoice\s*(?:no|number|#)\.?\s*:?\s*([A-Z0-9-]+)/i },
+  { field: 'claimNumber', pattern: /claim\s*(?:no|number|#)\.?\s*:?\s*([A-Z0-9-]+)/i },
+  { field: 'workerName', pattern: /^(?:patient|client|worker)(?:\s*name)?\s*:\s*(.+)$/im }
+];
+
+const PDF_HEADERS: Record<InvoiceField, string> = {
+  invoiceNumber: 'Invoice Number',
+  provider: 'Provider',
+  providerNumber: 'Provider Number',
+  claimNumber: 'Claim Number',
+  workerName: 'Patient',
+  serviceDate: 'Service Date',
+  itemCode: 'Item Code',
+  description: 'Description',
+  amount: 'Amount',
+  sessions: 'Quantity'
+};
+
+// Looks like a fee schedule item code, e.g. PTA001, 10960 or PS010
+const ITEM_CODE_PATTERN = /^[A-Z]{0,4}[0-9]{3,6}[A-Z]?$/i;
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+// Approved lines are paid with the item code as the first word of the description. A payment
+// whose description does not start with a code could be for any item.
+const sameItem = (description: string | undefined, itemCode: string | undefined) => {
+  if (!itemCode || !description) return true;
+  const first = normalise(description.trim().split(/\s+/)[0]);
+  return first === normalise(itemCode) || !/\d/.test(first);
+};
+
+// True when either name contains the other, ignoring case and punctuation
+const namesMatch = (a: string | undefined, b: string | undefined) => {
+  if (!a || !b) return false;
+  const [x, y] = [normalise(a), normalise(b)];
+  return x !== '' && y !== '' && (x.includes(y) || y.includes(x));
+};
+
+export const invoiceIntakeService = {
+  // Header row followed by one row per invoice line
+  async readFile(file: File): Promise<string[][]> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'csv' || file.type === 'text/csv') {
+      return payslipImportService.parseCSV(await file.text());
+    }
+    if (extension === 'pdf' || file.type === 'application/pdf') {
+      const pages = await payslipImportService.readPdfLines(file);
+      if (pages.every(lines => lines.length === 0)) {
+        throw new Error('This PDF has no text layer. Scanned invoices cannot be imported; ask the provider for a CSV or text-based PDF.');
+      }
+      return this.extractPdfInvoice(pages);
+    }
+    throw new Error(`Unsupported invoice file "${file.name}". Upload a CSV or text-based PDF.`);
+  },
+
+  // Rows in the same layout as a CSV import, with the invoice details repeated on every service line
+  extractPdfInvoice(pages: string[][][]): string[][] {
+    const fields = Object.keys(PDF_HEADERS) as InvoiceField[];
+    const rows: string[][] = [];
+
+    pages.forEach(lines => {
+      const text = lines.map(cells => cells.join(' ')).join('\n');
+      const details: Partial<Record<InvoiceField, string>> = {};
+      PDF_DETAIL_PATTERNS.forEach(({ field, pattern }) => {
+        const match = text.match(pattern);
+        if (match) details[field] = match[1].trim();
+      });
+      // Invoices without a labelled provider usually print the practice name first
+      if (!details.provider && lines[0]) details.provider = lines[0].join(' ');
+
+      const headerIndex = lines.findIndex(cells => {
+        const columns = this.findColumns(cells);
+        return columns.serviceDate >= 0 && columns.amount >= 0;
+      });
+      if (headerIndex === -1) return;
+
+      const columns = this.findColumns(lines[headerIndex]);
+      lines.slice(headerIndex + 1).forEach(cells => {
+        const line: Partial<Record<InvoiceField, string>> = { ...details };
+        if (cells.length === lines[headerIndex].length) {
+          fields.forEach(field => {
+            if (columns[field] >= 0) line[field] = cells[columns[field]];
+          });
+        } else {
+          // Wrapped or merged columns: take the first date, the last amount and what lies between
+          const dateIndex = cells.findIndex(cell => payslipImportService.parseDate(cell) !== null);
+          const [first = '', ...rest] = cells.slice(dateIndex + 1, -1).join(' ').split(' ');
+          line.serviceDate = cells[dateIndex];
+          line.amount = cells[cells.length - 1];
+          if (ITEM_CODE_PATTERN.test(first)) {
+            line.itemCode = first;
+            line.description = rest.join(' ');
+          } else {
+            line.description = [first, ...rest].join(' ');
+          }
+        }
+        if (payslipImportService.parseDate(line.serviceDate) && payslipImportService.parseNumber(line.amount) !== null) {
+          rows.push(fields.map(field => line[field] || ''));
+        }
+      });
+    });
+
+    if (rows.length === 0) {
+      throw new Error('No service lines could be recognised in this PDF. Ask the provider for a CSV export instead.');
+    }
+
+    return [fields.map(field => PDF_HEADERS[field]), ...rows];
+  },
+
+  findColumns(headers: string[]): Record<InvoiceField, number> {
+    return Object.fromEntries(
+      (Object.keys(FIELD_ALIASES) as InvoiceField[]).map(field => [
+        field,
+        headers.findIndex(header => FIELD_ALIASES[field].includes(normalise(header)))
+      ])
+    ) as Record<InvoiceField, number>;
+  },
+
+  // Invoice lines from the rows of a file. Lines without a provider, valid service date or amount
+  // are reported as errors.
+  parseRows(rows: string[][], fileName: string): { lines: ImportedInvoiceLine[]; errors: string[] } {
+    const [headers = [], ...body] = rows;
+    const columns = this.findColumns(headers);
+
+    const missing = (['provider', 'serviceDate', 'amount'] as InvoiceField[]).filter(field => columns[field] < 0);
+    if (missing.length > 0) {
+      return { lines: [], errors: [`The invoice needs ${missing.map(field => PDF_HEADERS[field].toLowerCase()).join(', ')} columns`] };
+    }
+
+    const lines: ImportedInvoiceLine[] = [];
+    const errors: string[] = [];
+    body.forEach((row, index) => {
+      if (row.every(cell => cell.trim() === '')) return;
+      const lineNumber = index + 2; // Header is line 1
+      const cell = (field: InvoiceField) => (columns[field] >= 0 ? row[columns[field]]?.trim() || undefined : undefined);
+      const serviceDate = payslipImportService.parseDate(cell('serviceDate'));
+      const amount = payslipImportService.parseNumber(cell('amount'));
+      const sessions = payslipImportService.parseNumber(cell('sessions'));
+      const provider = cell('provider');
+
+      if (!provider || !serviceDate || amount === null || amount <= 0) {
+        errors.push(`Line ${lineNumber}: ${!provider ? 'provider is missing' : !serviceDate ? 'service date could not be read' : 'amount could not be read'}`);
+        return;
+      }
+
+      lines.push({
+        fileName,
+        lineNumber,
+        invoiceNumber: cell('invoiceNumber'),
+        provider,
+        providerNumber: cell('providerNumber'),
+        claimNumber: cell('claimNumber'),
+        workerName: cell('workerName'),
+        serviceDate,
+        itemCode: cell('itemCode'),
+        description: cell('description'),
+        amount,
+        sessions: sessions !== null && sessions >= 0 ? Math.round(sessions) : 1
+      });
+    });
+
+    return { lines, errors };
+  },
+
+  // The case with the line's claim number, or failing that the only case for a worker of that name
+  matchCase(line: Pick<InvoiceLine, 'claimNumber' | 'workerName'>, cases: Case[]): Case | undefined {
+    if (line.claimNumber) {
+      const byClaim = cases.find(c => c.claimNumber && normalise(c.claimNumber) === normalise(line.claimNumber!));
+      if (byClaim) return byClaim;
+    }
+    if (!line.workerName) return undefined;
+
+    const name = normalise(line.workerName);
+    const byName = cases.filter(c =>
+      normalise(`${c.worker.firstName}${c.worker.lastName}`) === name ||
+      normalise(`${c.worker.lastName}${c.worker.firstName}`) === name
+    );
+    const open = byName.filter(c => c.status !== 'closed');
+    return byName.length === 1 ? byName[0] : open.length === 1 ? open[0] : undefined;
+  },
+
+  // The case stakeholder whose name or organisation matches the invoice provider
+  matchStakeholder(line: Pick<InvoiceLine, 'provider'>, caseData: Case): Stakeholder | undefined {
+    const stakeholders = caseData.stakeholders || [];
+    return stakeholders.find(s => normalise(s.organization || '') === normalise(line.provider) || normalise(s.name) === normalise(line.provider)) ||
+      stakeholders.find(s => namesMatch(s.organization, line.provider) || namesMatch(s.name, line.provider));
+  },
+
+  // The provider's approval covering the service date. Where approvals overlap, the one with
+  // sessions left is preferred.
+  matchApproval(
+    line: Pick<InvoiceLine, 'serviceDate' | 'provider'>,
+    stakeholderId: string | undefined,
+    approvals: TreatmentApproval[],
+    payments: Payment[]
+  ): TreatmentApproval | undefined {
+    const covering = this.getProviderApprovals(line, stakeholderId, approvals)
+      .filter(approval => line.serviceDate >= approval.startDate && line.serviceDate <= approval.endDate);
+    return covering.find(approval => treatmentApprovalService.getStatus(approval, payments, parseISO(line.serviceDate)).sessionsRemaining > 0) ||
+      covering[0];
+  },
+
+  getProviderApprovals(line: Pick<InvoiceLine, 'provider'>, stakeholderId: string | undefined, approvals: TreatmentApproval[]): TreatmentApproval[] {
+    return approvals.filter(approval =>
+      stakeholderId && approval.stakeholderId ? approval.stakeholderId === stakeholderId : namesMatch(approval.provider, line.provider)
+    );
+  },
+
+  match(
+    line: ImportedInvoiceLine,
+    cases: Case[],
+    approvalsByCase: Record<string, TreatmentApproval[]>,
+    paymentsByCase: Record<string, Payment[]>
+  ): InvoiceLineMatch {
+    const caseData = this.matchCase(line, cases);
+    if (!caseData) return { status: 'unmatched' };
+
+    const stakeholder = this.matchStakeholder(line, caseData);
+    const approval = this.matchApproval(line, stakeholder?.id, approvalsByCase[caseData.id] || [], paymentsByCase[caseData.id] || []);
+    return {
+      caseId: caseData.id,
+      stakeholderId: stakeholder?.id,
+      approvalId: approval?.id,
+      status: stakeholder ? 'matched' : 'unmatched'
+    };
+  },
+
+  // Lines already in the queue or ledger for the same service
+  isDuplicateOf(line: InvoiceLine, other: InvoiceLine): boolean {
+    return other.id !== line.id &&
+      other.status !== 'rejected' &&
+      normalise(other.provider) === normalise(line.provider) &&
+      other.serviceDate === line.serviceDate &&
+      normalise(other.itemCode || '') === normalise(line.itemCode || '') &&
+      sameAmount(other.amount, line.amount) &&
+      (line.caseId && other.caseId
+        ? other.caseId === line.caseId
+        : normalise(other.claimNumber || other.workerName || '') === normalise(line.claimNumber || line.workerName || ''));
+  },
+
+  // How much of a line the employer pays within the case's medical excess and how much goes to the
+  // insurer. Draft medical payments waiting for approval are counted against the excess too, so
+  // approving several lines in a row cannot each claim the same remaining excess.
+  getMedicalSplit(line: InvoiceLine, caseData: Case, payments: Payment[]): { employer: number; insurer: number } {
+    const excess = paymentService.getMedicalExcess(caseData, payments);
+    if (!excess) return { employer: line.amount, insurer: 0 };
+    const pending = payments
+      .filter(payment => payment.type === 'medical' && payment.status === 'draft')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    return paymentService.splitMedicalPayment({ ...excess, remaining: excess.remaining - pending }, line.amount);
+  },
+
+  // Duplicates, and services outside or beyond the provider's treatment approvals. Approved and
+  // rejected lines are settled, so only open lines are checked.
+  getFlags(line: InvoiceLine, lines: InvoiceLine[], approvals: TreatmentApproval[], payments: Payment[]): InvoiceLineFlag[] {
+    if (line.status === 'approved' || line.status === 'rejected') return [];
+    const flags: InvoiceLineFlag[] = [];
+
+    const duplicate = lines.find(other => this.isDuplicateOf(line, other));
+    if (duplicate) {
+      flags.push({
+        type: 'duplicate',
+        message: `Same service as line ${duplicate.lineNumber} of ${duplicate.fileName}${duplicate.status === 'approved' ? ', already approved' : ''}`
+      });
+    } else {
+      // An invoice number only identifies the invoice, so each line must also match on date, amount
+      // and item; a multi-session invoice pays the same amount under one number on several dates
+      const paid = payments.find(payment =>
+        payment.id !== line.paymentId &&
+        payment.status !== 'rejected' &&
+        payment.date === line.serviceDate &&
+        sameAmount(payment.amount, line.amount) &&
+        sameItem(payment.description, line.itemCode) &&
+        (line.invoiceNumber && payment.reference
+          ? normalise(payment.reference) === normalise(line.invoiceNumber)
+          : payment.providerId ? payment.providerId === line.stakeholderId : namesMatch(payment.provider, line.provider))
+      );
+      if (paid) flags.push({ type: 'duplicate', message: `Matches ${paid.status === 'approved' ? 'an' : 'a'} ${paid.status} payment of $${paid.amount.toFixed(2)} on ${formatDate(paid.date)}` });
+    }
+
+    if (line.caseId) {
+      const providerApprovals = this.getProviderApprovals(line, line.stakeholderId, approvals);
+      const approval = approvals.find(a => a.id === line.approvalId);
+      if (providerApprovals.length === 0) {
+        flags.push({ type: 'outside-approval', message: `No treatment approval for ${line.provider}` });
+      } else if (!approval) {
+        flags.push({ type: 'outside-approval', message: `${formatDate(line.serviceDate)} is outside ${line.provider}'s approvals` });
+      } else {
+        treatmentApprovalService
+          .getUsageIssues(approval, { date: line.serviceDate, sessions: line.sessions, amount: line.amount }, payments)
+          .forEach(message => flags.push({
+            type: line.serviceDate < approval.startDate || line.serviceDate > approval.endDate ? 'outside-approval' : 'over-approval',
+            message
+          }));
+      }
+    }
+
+    return flags;
+  }
+};
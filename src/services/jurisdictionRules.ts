@@ -0,0 +1,449 @@
+import { JurisdictionType, JurisdictionRules, JurisdictionRuleSet, JurisdictionRuleOverride, JurisdictionRuleVersion } from '../types';
+import { parseISO, subDays, format } from 'date-fns';
+import { supabaseService } from './supabaseService';
+
+// SA insurers pay superannuation on weekly payments after 52 weeks of incapacity, at the
+// superannuation guarantee rate in force
+const SA_SUPERANNUATION = { fromWeek: 53, label: 'Superannuation contributions' };
+
+// Jurisdiction-specific rules based on actual legislation. Caps and indexation change every
+// financial year and are versioned separately in RULE_VERSIONS.
+const BASE_RULES: Record<JurisdictionType, JurisdictionRules> = {
+  NSW: {
+    jurisdiction: 'NSW',
+    defaultReferencePeriod: 52,
+    alternativeReferencePeriods: [13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100,
+    allowanceInclusions: ['shift', 'piece-rates', 'bonuses'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: false, // Only if regular
+      annualBonus: false // Excludes one-off bonuses
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: true,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'average-from-increase'
+    },
+    includeConcurrentEmployment: true,
+    earningsComponentRules: {
+      vehicle: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      accommodation: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      'salary-sacrifice': { included: true, basis: 'Salary-sacrificed amounts form part of ordinary earnings' },
+      'salary-sacrifice-super': { included: true, basis: 'Salary-sacrificed amounts form part of ordinary earnings' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 13, percentage: 95, label: 'First entitlement period' },
+      { fromWeek: 14, toWeek: 130, percentage: 80, label: 'Second entitlement period' }
+    ],
+    decisionPoints: [
+      {
+        id: 'nsw-130-weeks',
+        week: 131,
+        label: '130-week work capacity decision',
+        description: 'Weekly payments stop after 130 weeks unless the worker has no current work capacity, or is working at least 15 hours a week and earning at least the prescribed amount (s 38 Workers Compensation Act 1987)',
+        noticeWeeks: 13,
+        continuation: { fromWeek: 131, toWeek: 260, percentage: 80, label: 'After the second entitlement period' }
+      },
+      {
+        id: 'nsw-260-weeks',
+        week: 261,
+        label: '260-week impairment decision',
+        description: 'Weekly payments stop after 260 weeks unless the worker has more than 20% whole person impairment (s 39 Workers Compensation Act 1987)',
+        noticeWeeks: 13,
+        continuation: { fromWeek: 261, percentage: 80, label: 'Highest needs worker' }
+      }
+    ]
+  },
+  VIC: {
+    jurisdiction: 'VIC',
+    defaultReferencePeriod: 52,
+    alternativeReferencePeriods: [13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100, // Regular overtime only
+    allowanceInclusions: ['shift', 'commissions', 'bonuses'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false // Excludes irregular overtime
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: true,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: true,
+    earningsComponentRules: {
+      vehicle: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      accommodation: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as gross earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded from pre-injury earnings' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 13, percentage: 95, label: 'First entitlement period' },
+      { fromWeek: 14, toWeek: 130, percentage: 80, label: 'Second entitlement period' }
+    ],
+    decisionPoints: [
+      {
+        id: 'vic-130-weeks',
+        week: 131,
+        label: '130-week capacity assessment',
+        description: 'Weekly payments stop after 130 weeks unless the worker has no current work capacity that is likely to continue indefinitely (s 165 Workplace Injury Rehabilitation and Compensation Act 2013)',
+        noticeWeeks: 13,
+        continuation: { fromWeek: 131, percentage: 80, label: 'After 130 weeks' }
+      }
+    ]
+  },
+  QLD: {
+    jurisdiction: 'QLD',
+    defaultReferencePeriod: 52, // 12 months = 52 weeks
+    alternativeReferencePeriods: [26, 13], // Shorter periods for seasonal workers
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100, // Consistent overtime
+    allowanceInclusions: ['allowances', 'penalties'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: true,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: true,
+    earningsComponentRules: {
+      vehicle: { included: false, basis: 'Normal weekly earnings only cover amounts paid to the worker' },
+      accommodation: { included: false, basis: 'Normal weekly earnings only cover amounts paid to the worker' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 26, percentage: 85, label: 'First 26 weeks' },
+      { fromWeek: 27, toWeek: 104, percentage: 75, label: 'Weeks 27 to 104' }
+    ]
+  },
+  WA: {
+    jurisdiction: 'WA',
+    defaultReferencePeriod: 52, // 12 months
+    alternativeReferencePeriods: [26, 13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100,
+    allowanceInclusions: ['bonuses', 'allowances', 'incentive-payments'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: true
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: true,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: false,
+    earningsComponentRules: {
+      vehicle: { included: false, basis: 'Non-cash benefits are outside the WA definition of earnings' },
+      accommodation: { included: false, basis: 'Non-cash benefits are outside the WA definition of earnings' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 13, percentage: 100, label: 'First 13 weeks' },
+      { fromWeek: 14, percentage: 85, label: 'After 13 weeks' }
+    ]
+  },
+  SA: {
+    jurisdiction: 'SA',
+    defaultReferencePeriod: 52, // 12 months
+    alternativeReferencePeriods: [26, 13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100, // Regular overtime
+    allowanceInclusions: ['overtime', 'penalties', 'loadings'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: true,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: true,
+    earningsComponentRules: {
+      vehicle: { included: true, basis: 'Value of a private-use vehicle is part of average weekly earnings' },
+      accommodation: { included: true, basis: 'Value of accommodation is part of average weekly earnings' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation is paid separately after 52 weeks' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 52, percentage: 100, label: 'First 52 weeks' },
+      { fromWeek: 53, toWeek: 104, percentage: 80, label: 'Weeks 53 to 104' }
+    ],
+    superannuation: { ...SA_SUPERANNUATION, rate: 11 },
+    decisionPoints: [
+      {
+        id: 'sa-104-weeks',
+        week: 105,
+        label: '104-week serious injury assessment',
+        description: 'Weekly payments stop after 104 weeks unless the worker is assessed as seriously injured with 30% or more whole person impairment (s 39 Return to Work Act 2014)',
+        noticeWeeks: 13,
+        continuation: { fromWeek: 105, percentage: 80, label: 'Seriously injured worker' }
+      }
+    ]
+  },
+  TAS: {
+    jurisdiction: 'TAS',
+    defaultReferencePeriod: 52,
+    alternativeReferencePeriods: [26, 13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100,
+    allowanceInclusions: ['shift', 'overtime', 'allowances'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: false,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: false,
+    earningsComponentRules: {
+      vehicle: { included: false, basis: 'Non-cash benefits are outside normal weekly earnings' },
+      accommodation: { included: false, basis: 'Non-cash benefits are outside normal weekly earnings' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 26, percentage: 100, label: 'First 26 weeks' },
+      { fromWeek: 27, toWeek: 78, percentage: 90, label: 'Weeks 27 to 78' },
+      { fromWeek: 79, percentage: 80, label: 'After 78 weeks' }
+    ]
+  },
+  NT: {
+    jurisdiction: 'NT',
+    defaultReferencePeriod: 52,
+    alternativeReferencePeriods: [26, 13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100,
+    allowanceInclusions: ['shift', 'overtime', 'allowances'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: false,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: false,
+    earningsComponentRules: {
+      vehicle: { included: true, basis: 'Value of a private-use vehicle is part of normal weekly earnings' },
+      accommodation: { included: true, basis: 'Value of accommodation is part of normal weekly earnings' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 26, percentage: 100, label: 'First 26 weeks' },
+      { fromWeek: 27, percentage: 75, label: 'After 26 weeks' }
+    ]
+  },
+  ACT: {
+    jurisdiction: 'ACT',
+    defaultReferencePeriod: 52,
+    alternativeReferencePeriods: [26, 13],
+    minimumWeeksRequired: 1,
+    maxOvertimeInclusion: 100,
+    allowanceInclusions: ['shift', 'overtime', 'allowances'],
+    bonusInclusions: {
+      regularBonus: true,
+      performanceBonus: true,
+      annualBonus: false
+    },
+    adjustmentRules: {
+      baseRateIncrease: true,
+      industrialAgreement: false,
+      inflationAdjustment: false,
+      rateIncreaseMethod: 'uplift-prior-weeks'
+    },
+    includeConcurrentEmployment: true,
+    earningsComponentRules: {
+      vehicle: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      accommodation: { included: true, basis: 'Non-pecuniary benefit the worker no longer receives while incapacitated' },
+      'salary-sacrifice': { included: true, basis: 'Pre-tax salary sacrifice counts as earnings' },
+      'salary-sacrifice-super': { included: false, basis: 'Superannuation contributions are excluded' }
+    },
+    entitlementPeriods: [
+      { fromWeek: 1, toWeek: 26, percentage: 100, label: 'First 26 weeks' },
+      { fromWeek: 27, percentage: 65, label: 'After 26 weeks' }
+    ]
+  }
+};
+
+type RuleVersion = Pick<JurisdictionRuleSet, 'version' | 'effectiveFrom' | 'indexationRate' | 'source' | 'medicalExcessThreshold' | 'superannuation'> & {
+  maxWeeklyAmount?: number;
+};
+
+// Published caps, indexation, medical excess thresholds and superannuation rates, oldest first.
+// Each entry takes effect on its effectiveFrom date and stays in force until the next entry. Add a
+// new entry when the regulator publishes the next indexation notice rather than editing an existing
+// one, so older claims keep their original cap.
+const RULE_VERSIONS: Record<JurisdictionType, RuleVersion[]> = {
+  NSW: [
+    { version: 'NSW 2023-10', effectiveFrom: '2023-10-01', maxWeeklyAmount: 2410, indexationRate: 2.9, source: 'SIRA indexation notice October 2023' },
+    { version: 'NSW 2024-04', effectiveFrom: '2024-04-01', maxWeeklyAmount: 2450, indexationRate: 1.7, source: 'SIRA indexation notice April 2024' },
+    { version: 'NSW 2024-10', effectiveFrom: '2024-10-01', maxWeeklyAmount: 2500, indexationRate: 2.0, source: 'SIRA indexation notice October 2024' }
+  ],
+  VIC: [
+    { version: 'VIC 2023-24', effectiveFrom: '2023-07-01', maxWeeklyAmount: 2290, indexationRate: 4.3, medicalExcessThreshold: 826, source: 'WorkSafe Victoria indexation 1 July 2023' },
+    { version: 'VIC 2024-25', effectiveFrom: '2024-07-01', maxWeeklyAmount: 2400, indexationRate: 4.8, medicalExcessThreshold: 891, source: 'WorkSafe Victoria indexation 1 July 2024' }
+  ],
+  QLD: [{ version: 'QLD base', effectiveFrom: '1900-01-01' }],
+  WA: [{ version: 'WA base', effectiveFrom: '1900-01-01' }],
+  SA: [
+    { version: 'SA base', effectiveFrom: '1900-01-01' },
+    { version: 'SA 2024-25', effectiveFrom: '2024-07-01', superannuation: { ...SA_SUPERANNUATION, rate: 11.5 }, source: 'Superannuation guarantee rate 1 July 2024' },
+    { version: 'SA 2025-26', effectiveFrom: '2025-07-01', superannuation: { ...SA_SUPERANNUATION, rate: 12 }, source: 'Superannuation guarantee rate 1 July 2025' }
+  ],
+  TAS: [{ version: 'TAS base', effectiveFrom: '1900-01-01' }],
+  NT: [{ version: 'NT base', effectiveFrom: '1900-01-01' }],
+  ACT: [{ version: 'ACT base', effectiveFrom: '1900-01-01' }]
+};
+
+// Rule changes published by admins, loaded from the database at sign-in
+let publishedVersions: JurisdictionRuleVersion[] = [];
+// An unpublished draft, only set while a preview calculation runs
+let previewVersions: JurisdictionRuleVersion[] = [];
+
+interface RuleChange {
+  version: string;
+  effectiveFrom: string;
+  indexationRate?: number;
+  source?: string;
+  rules: Partial<JurisdictionRules>;
+}
+
+const toRuleChange = ({ maxWeeklyAmount, medicalExcessThreshold, superannuation, ...meta }: RuleVersion): RuleChange => ({
+  ...meta,
+  rules: {
+    ...(maxWeeklyAmount ? { cappingRules: { maxWeeklyAmount, maxAnnualAmount: maxWeeklyAmount * 52 } } : {}),
+    ...(medicalExcessThreshold ? { medicalExcessThreshold } : {}),
+    ...(superannuation ? { superannuation } : {})
+  }
+});
+
+// Built-in versions and published changes in date order. Each change applies on top of the rules
+// before it, so an admin change carries forward through later indexation versions. A change on the
+// same date as an earlier one replaces that version rather than leaving a zero-length one behind.
+const buildRuleSets = (
+  jurisdiction: JurisdictionType,
+  extraVersions: JurisdictionRuleVersion[] = [],
+  published: JurisdictionRuleVersion[] = publishedVersions
+): JurisdictionRuleSet[] => {
+  const changes: RuleChange[] = [
+    ...RULE_VERSIONS[jurisdiction].map(toRuleChange),
+    ...[...published, ...extraVersions]
+      .filter(version => version.jurisdiction === jurisdiction)
+      .map(version => ({
+        version: version.version,
+        effectiveFrom: version.effectiveFrom,
+        source: version.reason,
+        rules: version.rules
+      }))
+  ].sort((a, b) => parseISO(a.effectiveFrom).getTime() - parseISO(b.effectiveFrom).getTime());
+
+  const ruleSets: JurisdictionRuleSet[] = [];
+  changes.forEach(change => {
+    const previous = ruleSets[ruleSets.length - 1];
+    const sameDay = previous?.effectiveFrom === change.effectiveFrom;
+    const ruleSet: JurisdictionRuleSet = {
+      ...(previous || BASE_RULES[jurisdiction]),
+      ...change.rules,
+      version: change.version,
+      effectiveFrom: change.effectiveFrom,
+      effectiveTo: undefined,
+      // Indexation is a step on its effective date, so it is not carried into later versions
+      indexationRate: change.indexationRate ?? (sameDay ? previous.indexationRate : undefined),
+      source: change.source
+    };
+    if (sameDay) {
+      ruleSets[ruleSets.length - 1] = ruleSet;
+    } else {
+      ruleSets.push(ruleSet);
+    }
+  });
+
+  return ruleSets.map((ruleSet, index) => {
+    const next = ruleSets[index + 1];
+    return next
+      ? { ...ruleSet, effectiveTo: format(subDays(parseISO(next.effectiveFrom), 1), 'yyyy-MM-dd') }
+      : ruleSet;
+  });
+};
+
+export const jurisdictionRulesService = {
+  // `published` defaults to the versions last loaded; pass a list to build from that instead
+  getRuleSets(jurisdiction: JurisdictionType, published?: JurisdictionRuleVersion[]): JurisdictionRuleSet[] {
+    return buildRuleSets(jurisdiction, previewVersions, published);
+  },
+
+  async loadPublishedVersions(): Promise<JurisdictionRuleVersion[]> {
+    publishedVersions = await supabaseService.getJurisdictionRuleVersions();
+    return publishedVersions;
+  },
+
+  // The fields admins can change, as in force on the given date
+  getOverridableRules(jurisdiction: JurisdictionType, date: string, published?: JurisdictionRuleVersion[]): JurisdictionRuleOverride {
+    const rules = this.getRulesInForce(jurisdiction, date, published);
+    return {
+      defaultReferencePeriod: rules.defaultReferencePeriod,
+      alternativeReferencePeriods: rules.alternativeReferencePeriods,
+      minimumWeeksRequired: rules.minimumWeeksRequired,
+      maxOvertimeInclusion: rules.maxOvertimeInclusion,
+      allowanceInclusions: rules.allowanceInclusions,
+      bonusInclusions: rules.bonusInclusions,
+      cappingRules: rules.cappingRules,
+      medicalExcessThreshold: rules.medicalExcessThreshold ?? 0
+    };
+  },
+
+  // Runs a calculation as if the draft had been published. The calculation must be synchronous,
+  // as the draft is only in place until it returns.
+  preview<T>(draft: JurisdictionRuleVersion, calculate: () => T): T {
+    previewVersions = [draft];
+    try {
+      return calculate();
+    } finally {
+      previewVersions = [];
+    }
+  },
+
+  // Rules in force on the given date. Dates before the first recorded version use the oldest version.
+  getRulesInForce(jurisdiction: JurisdictionType, date: string, published?: JurisdictionRuleVersion[]): JurisdictionRuleSet {
+    const ruleSets = this.getRuleSets(jurisdiction, published);
+    const target = parseISO(date).getTime();
+    const inForce = ruleSets.filter(ruleSet => parseISO(ruleSet.effectiveFrom).getTime() <= target);
+    return inForce.length > 0 ? inForce[inForce.length - 1] : ruleSets[0];
+  },
+
+  // Indexation steps that took effect after `from` and on or before `to`, oldest first
+  getIndexationSteps(jurisdiction: JurisdictionType, from: string, to: string): JurisdictionRuleSet[] {
+    const start = parseISO(from).getTime();
+    const end = parseISO(to).getTime();
+    return this.getRuleSets(jurisdiction).filter(ruleSet => {
+      const effective = parseISO(ruleSet.effectiveFrom).getTime();
+      return ruleSet.indexationRate !== undefined && effective > start && effective <= end;
+    });
+  }
+};
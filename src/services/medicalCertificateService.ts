@@ -0,0 +1,179 @@
+import { Case, MedicalCertificate, StakeholderType, Task, WorkCapacity } from '../types';
+import { format, parseISO, addDays, subDays, max as maxDate, differenceInCalendarDays } from 'date-fns';
+import { rtwPlanService } from './rtwPlanService';
+
+export const WORK_CAPACITIES: { value: WorkCapacity; label: string }[] = [
+  { value: 'full', label: 'Full capacity' },
+  { value: 'suitable-duties', label: 'Suitable duties' },
+  { value: 'none', label: 'No capacity' }
+];
+
+// Stakeholders who can issue a certificate of capacity
+export const CERTIFYING_PRACTITIONERS: StakeholderType[] = ['gp', 'specialist', 'physiotherapist', 'psychologist', 'occupational_therapist'];
+
+// Default for the expiry alert window, which can be changed under Settings > Notifications
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 7;
+
+// Lead time for a request task before the current certificate ends
+const REQUEST_LEAD_DAYS = 2;
+
+// Task ids for certificate requests are derived from the certificate they follow on from, so an
+// alert only ever raises one request
+const REQUEST_TASK_PREFIX = 'certificate-request-';
+
+export interface CertificateAlert {
+  id: string;
+  type: 'gap' | 'lapsed' | 'expiring';
+  certificate: MedicalCertificate; // The certificate the uncovered period or expiry follows
+  from: string; // First uncovered day, or the expiry date
+  to?: string; // Last uncovered day of a gap between certificates
+  days: number; // Uncovered days, or days until expiry
+  message: string;
+}
+
+export interface CertificateTimelineEntry {
+  certificate: MedicalCertificate;
+  status: MedicalCertificate['status'];
+  gapDaysBefore: number; // Uncertified days between the previous certificate and this one
+  overlapsPrevious: boolean;
+}
+
+const nextDay = (value: string) => format(addDays(parseISO(value), 1), 'yyyy-MM-dd');
+
+export const medicalCertificateService = {
+  getCapacityLabel(capacity: WorkCapacity): string {
+    return WORK_CAPACITIES.find(option => option.value === capacity)?.label || capacity;
+  },
+
+  // Capacity with the hours and days a suitable duties certificate allows
+  describeCapacity(certificate: MedicalCertificate): string {
+    const parts = [
+      certificate.hoursPerDay !== undefined ? `${certificate.hoursPerDay} h/day` : '',
+      certificate.daysPerWeek !== undefined ? `${certificate.daysPerWeek} days/week` : ''
+    ].filter(Boolean);
+    const label = this.getCapacityLabel(certificate.capacity);
+    return parts.length > 0 ? `${label} • ${parts.join(', ')}` : label;
+  },
+
+  // Expired once the end date has passed, whether or not the stored status has caught up
+  getStatus(certificate: MedicalCertificate, today: string): MedicalCertificate['status'] {
+    return certificate.endDate < today ? 'expired' : certificate.status;
+  },
+
+  needsExpiring(certificates: MedicalCertificate[], today: string): boolean {
+    return certificates.some(certificate => certificate.status === 'active' && certificate.endDate < today);
+  },
+
+  // The certificate covering today. Where certificates overlap the most recently started one wins.
+  getCurrent(certificates: MedicalCertificate[], today: string): MedicalCertificate | undefined {
+    return certificates
+      .filter(certificate => certificate.startDate <= today && certificate.endDate >= today)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+  },
+
+  // Certificates in date order, with the uncertified days before each one
+  getTimeline(certificates: MedicalCertificate[], today: string): CertificateTimelineEntry[] {
+    const sorted = [...certificates].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.endDate.localeCompare(b.endDate));
+    let coveredTo: string | undefined;
+
+    return sorted.map(certificate => {
+      const gap = coveredTo ? differenceInCalendarDays(parseISO(certificate.startDate), parseISO(coveredTo)) - 1 : 0;
+      const entry = {
+        certificate,
+        status: this.getStatus(certificate, today),
+        gapDaysBefore: Math.max(0, gap),
+        overlapsPrevious: coveredTo !== undefined && gap < 0
+      };
+      if (!coveredTo || certificate.endDate > coveredTo) coveredTo = certificate.endDate;
+      return entry;
+    });
+  },
+
+  // Uncovered days between consecutive certificates, no certificate covering today, and the
+  // current certificate ending within the warning window without a successor
+  getCoverageAlerts(certificates: MedicalCertificate[], today: string, withinDays: number = CERTIFICATE_EXPIRY_WARNING_DAYS): CertificateAlert[] {
+    const date = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+    const alerts: CertificateAlert[] = [];
+    let covering: MedicalCertificate | undefined;
+
+    for (const { certificate, gapDaysBefore } of this.getTimeline(certificates, today)) {
+      if (covering && gapDaysBefore > 0) {
+        const to = format(subDays(parseISO(certificate.startDate), 1), 'yyyy-MM-dd');
+        alerts.push({
+          id: `gap-${covering.id}`,
+          type: 'gap',
+          certificate: covering,
+          from: nextDay(covering.endDate),
+          to,
+          days: gapDaysBefore,
+          message: `No certificate covers ${date(nextDay(covering.endDate))} to ${date(to)} (${gapDaysBefore} day${gapDaysBefore === 1 ? '' : 's'})`
+        });
+      }
+      if (!covering || certificate.endDate > covering.endDate) covering = certificate;
+    }
+
+    if (!covering) return alerts;
+
+    const daysLeft = differenceInCalendarDays(parseISO(covering.endDate), parseISO(today));
+    if (daysLeft < 0) {
+      alerts.push({
+        id: `lapsed-${covering.id}`,
+        type: 'lapsed',
+        certificate: covering,
+        from: nextDay(covering.endDate),
+        days: -daysLeft,
+        message: `Certificate from ${covering.doctorName} expired on ${date(covering.endDate)}, leaving ${-daysLeft} day${daysLeft === -1 ? '' : 's'} uncovered`
+      });
+    } else if (daysLeft <= withinDays) {
+      alerts.push({
+        id: `expiring-${covering.id}`,
+        type: 'expiring',
+        certificate: covering,
+        from: covering.endDate,
+        days: daysLeft,
+        message: `Certificate from ${covering.doctorName} expires ${daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`} (${date(covering.endDate)})`
+      });
+    }
+
+    return alerts;
+  },
+
+  // The worker's GP when one is recorded, otherwise whoever issued the certificate
+  getTreatingPractitioner(caseData: Case, certificate: MedicalCertificate): string {
+    const gp = (caseData.stakeholders || []).find(stakeholder => stakeholder.isActive && stakeholder.type === 'gp');
+    return gp?.name || certificate.doctorName;
+  },
+
+  getRequestTaskId(alert: CertificateAlert): string {
+    return `${REQUEST_TASK_PREFIX}${alert.certificate.id}`;
+  },
+
+  // Earlier plans are checked too, since starting a new plan moves completed tasks into the history
+  hasRequestTask(caseData: Case, alert: CertificateAlert): boolean {
+    const id = this.getRequestTaskId(alert);
+    return rtwPlanService.getPlans(caseData).some(plan => plan.tasks.some(task => task.id === id));
+  },
+
+  toRequestTask(alert: CertificateAlert, caseData: Case, today: Date = new Date()): Task {
+    const practitioner = this.getTreatingPractitioner(caseData, alert.certificate);
+    const period = alert.type === 'gap'
+      ? `covering ${format(parseISO(alert.from), 'dd/MM/yyyy')} to ${format(parseISO(alert.to!), 'dd/MM/yyyy')}`
+      : `from ${format(parseISO(alert.type === 'expiring' ? nextDay(alert.from) : alert.from), 'dd/MM/yyyy')}`;
+    const dueDate = alert.type === 'expiring'
+      ? maxDate([today, subDays(parseISO(alert.from), REQUEST_LEAD_DAYS)])
+      : today;
+
+    return {
+      id: this.getRequestTaskId(alert),
+      title: `Request updated certificate of capacity from ${practitioner}`,
+      description: `${alert.message}. Ask ${practitioner} for a certificate of capacity ${period}.`,
+      dueDate: format(dueDate, 'yyyy-MM-dd'),
+      completed: false
+    };
+  },
+
+  // One restriction or recommendation per line
+  parseList(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+};
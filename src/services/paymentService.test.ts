@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Case, Payment, RemittanceLine } from '../types';
+import { paymentService } from './paymentService';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'payment-1',
+  date: '2025-07-07',
+  amount: 250,
+  type: 'medical',
+  status: 'approved',
+  ...overrides
+});
+
+const makeLine = (overrides: Partial<RemittanceLine> = {}): RemittanceLine => ({
+  lineNumber: 2,
+  date: '2025-07-09',
+  amount: 250,
+  ...overrides
+});
+
+describe('paymentService.reconcile', () => {
+  it('matches on the payment reference first', () => {
+    const payments = [makePayment({ id: 'by-amount' }), makePayment({ id: 'by-reference', date: '2025-06-01', reference: 'INV-100' })];
+    const [match] = paymentService.reconcile(payments, [makeLine({ reference: 'inv 100' })]);
+
+    expect(match).toMatchObject({ payment: { id: 'by-reference' }, matchedOn: 'reference' });
+  });
+
+  it('reports a referenced payment that cannot be settled', () => {
+    const payments = [
+      makePayment({ id: 'draft', reference: 'INV-1', status: 'draft' }),
+      makePayment({ id: 'processed', reference: 'INV-2', status: 'processed' }),
+      makePayment({ id: 'different', reference: 'INV-3', amount: 300 })
+    ];
+    const matches = paymentService.reconcile(payments, [
+      makeLine({ reference: 'INV-1' }),
+      makeLine({ reference: 'INV-2' }),
+      makeLine({ reference: 'INV-3' })
+    ]);
+
+    expect(matches.map(match => match.issue)).toEqual([
+      'Payment has not been approved',
+      'Payment is already processed',
+      'Amount does not match the payment of $300.00'
+    ]);
+  });
+
+  it('falls back to the amount within a week of the payment date, closest first', () => {
+    const payments = [
+      makePayment({ id: 'far', date: '2025-07-03' }),
+      makePayment({ id: 'near', date: '2025-07-08' }),
+      makePayment({ id: 'too-far', date: '2025-07-20' })
+    ];
+    const matches = paymentService.reconcile(payments, [makeLine(), makeLine({ lineNumber: 3 }), makeLine({ lineNumber: 4 })]);
+
+    expect(matches.map(match => match.payment?.id)).toEqual(['near', 'far', undefined]);
+    expect(matches[0].matchedOn).toBe('amount-and-date');
+    expect(matches[2].issue).toBe('No approved payment matches this line');
+  });
+
+  it('only matches the amount for the same payee, either name containing the other', () => {
+    const payments = [makePayment({ provider: 'Harbour Physiotherapy' })];
+
+    expect(paymentService.reconcile(payments, [makeLine({ payee: 'City Psychology' })])[0].payment).toBeUndefined();
+    expect(paymentService.reconcile(payments, [makeLine({ payee: 'HARBOUR PHYSIOTHERAPY PTY' })])[0].payment?.id).toBe('payment-1');
+    expect(paymentService.reconcile(payments, [makeLine({ payee: 'Harbour Physio' })])[0].payment?.id).toBe('payment-1');
+  });
+
+  it('matches each payment once', () => {
+    const payments = [makePayment({ reference: 'INV-1' })];
+    const matches = paymentService.reconcile(payments, [makeLine({ reference: 'INV-1' }), makeLine({ lineNumber: 3, reference: 'INV-1' })]);
+
+    expect(matches[1]).toMatchObject({ issue: 'Payment already matched to an earlier line' });
+  });
+});
+
+describe('paymentService.getMedicalExcess', () => {
+  const caseData = { jurisdiction: 'VIC', injuryDate: '2024-08-01', workcoverType: 'workcover' } as Case;
+
+  it('uses the threshold in force on the injury date', () => {
+    expect(paymentService.getMedicalExcess(caseData, [])).toMatchObject({ threshold: 891, current: 0, remaining: 891, rulesVersion: 'VIC 2024-25' });
+    expect(paymentService.getMedicalExcess({ ...caseData, injuryDate: '2024-06-30' }, [])?.threshold).toBe(826);
+  });
+
+  it('uses up the excess with approved and processed medical payments in date order', () => {
+    const excess = paymentService.getMedicalExcess(caseData, [
+      makePayment({ id: 'second', date: '2024-09-10', amount: 500, status: 'processed' }),
+      makePayment({ id: 'first', date: '2024-09-01', amount: 600 }),
+      makePayment({ id: 'third', date: '2024-09-20', amount: 100 }),
+      makePayment({ id: 'draft', date: '2024-08-20', amount: 100, status: 'draft' }),
+      makePayment({ id: 'weekly', date: '2024-08-20', amount: 100, type: 'weekly' })
+    ]);
+
+    expect(excess).toMatchObject({ current: 891, remaining: 0, exhaustedByPaymentId: 'second', exhaustedOn: '2024-09-10' });
+    expect(excess?.allocations).toEqual({
+      first: { employer: 600, insurer: 0 },
+      second: { employer: 291, insurer: 209 },
+      third: { employer: 0, insurer: 100 }
+    });
+  });
+
+  it('has no excess for non-WorkCover cases or schemes without a threshold', () => {
+    expect(paymentService.getMedicalExcess({ ...caseData, workcoverType: 'non-workcover' }, [])).toBeNull();
+    expect(paymentService.getMedicalExcess({ ...caseData, jurisdiction: 'NSW' }, [])).toBeNull();
+  });
+});
+
+describe('paymentService.splitMedicalPayment', () => {
+  const excess = { threshold: 891, current: 800, remaining: 91, rulesVersion: 'VIC 2024-25', allocations: {} };
+
+  it('splits a payment at the remaining excess', () => {
+    expect(paymentService.splitMedicalPayment(excess, 50)).toEqual({ employer: 50, insurer: 0 });
+    expect(paymentService.splitMedicalPayment(excess, 120.5)).toEqual({ employer: 91, insurer: 29.5 });
+    expect(paymentService.splitMedicalPayment({ ...excess, remaining: -20 }, 80)).toEqual({ employer: 0, insurer: 80 });
+  });
+
+  it('leaves the whole payment with the employer when there is no excess', () => {
+    expect(paymentService.splitMedicalPayment(null, 120)).toEqual({ employer: 120, insurer: 0 });
+  });
+});
@@ -0,0 +1,208 @@
+import { Case, MedicalExcess, Payment, PaymentType, PaymentStatus, RemittanceLine, RemittanceMatch, UserRole } from '../types';
+import { parseISO, differenceInCalendarDays } from 'date-fns';
+import { payslipImportService } from './payslipImportService';
+import { jurisdictionRulesService } from './jurisdictionRules';
+
+export const PAYMENT_TYPES: { value: PaymentType; label: string }[] = [
+  { value: 'weekly', label: 'Weekly compensation' },
+  { value: 'superannuation', label: 'Superannuation' },
+  { value: 'medical', label: 'Medical' },
+  { value: 'legal', label: 'Legal' },
+  { value: 'other', label: 'Other' }
+];
+
+// Largest single payment each role can approve. Kept in line with payment_approval_limit() in
+// the payments migration, which enforces the same limits when a payment is approved.
+export const PAYMENT_APPROVAL_LIMITS: Record<UserRole, number> = {
+  support: 0,
+  consultant: 5000,
+  admin: Infinity
+};
+
+// A remittance line dated this many days either side of a payment can still match it
+const REMITTANCE_DATE_TOLERANCE_DAYS = 7;
+
+// Header aliases for remittance files, matched on lower case alphanumerics
+const REMITTANCE_ALIASES: Record<'reference' | 'payee' | 'date' | 'amount', string[]> = {
+  reference: ['reference', 'ref', 'paymentreference', 'remittancereference', 'invoice', 'invoicenumber', 'invoiceno', 'claimreference'],
+  payee: ['payee', 'payeename', 'provider', 'providername', 'supplier', 'suppliername', 'name'],
+  date: ['date', 'paymentdate', 'paiddate', 'datepaid', 'valuedate'],
+  amount: ['amount', 'amountpaid', 'paidamount', 'paymentamount', 'total', 'net']
+};
+
+export interface PaymentTotals {
+  draft: number;
+  approved: number;
+  processed: number;
+  committed: number; // Approved and processed
+}
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+export const paymentService = {
+  getTypeLabel(type: PaymentType): string {
+    return PAYMENT_TYPES.find(option => option.value === type)?.label || type;
+  },
+
+  // Why the role cannot approve the payment, or null when it can
+  getApprovalBlocker(payment: Payment, role: UserRole | undefined): string | null {
+    if (payment.status !== 'draft') return 'Only draft payments can be approved';
+    const limit = role ? PAYMENT_APPROVAL_LIMITS[role] : 0;
+    if (limit <= 0) return 'Your role cannot approve payments';
+    if (payment.amount > limit) return `Over your approval limit of $${limit.toFixed(2)}`;
+    return null;
+  },
+
+  canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+    return (from === 'draft' && (to === 'approved' || to === 'rejected')) ||
+      (from === 'approved' && (to === 'processed' || to === 'rejected'));
+  },
+
+  // Totals per category. Rejected payments are left out.
+  getTotals(payments: Payment[]): Record<PaymentType, PaymentTotals> {
+    const totals = Object.fromEntries(
+      PAYMENT_TYPES.map(({ value }) => [value, { draft: 0, approved: 0, processed: 0, committed: 0 }])
+    ) as Record<PaymentType, PaymentTotals>;
+
+    payments.forEach(payment => {
+      if (payment.status === 'rejected') return;
+      const total = totals[payment.type];
+      total[payment.status] = roundCents(total[payment.status] + payment.amount);
+      if (payment.status !== 'draft') total.committed = roundCents(total.committed + payment.amount);
+    });
+
+    return totals;
+  },
+
+  // Payments in date order with the approved and processed total to date for their category
+  getRunningTotals(payments: Payment[]): { payment: Payment; runningTotal: number }[] {
+    const running: Partial<Record<PaymentType, number>> = {};
+    return [...payments]
+      .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime())
+      .map(payment => {
+        if (payment.status === 'approved' || payment.status === 'processed') {
+          running[payment.type] = roundCents((running[payment.type] || 0) + payment.amount);
+        }
+        return { payment, runningTotal: running[payment.type] || 0 };
+      });
+  },
+
+  // The jurisdiction's medical excess for the injury year, used up by approved and processed medical
+  // payments in date order. Null when the case has no excess to track.
+  getMedicalExcess(caseData: Case, payments: Payment[]): MedicalExcess | null {
+    const jurisdiction = caseData.jurisdiction || caseData.piaweCalculation?.jurisdiction;
+    if (caseData.workcoverType === 'non-workcover' || !jurisdiction || !caseData.injuryDate) return null;
+
+    const rules = jurisdictionRulesService.getRulesInForce(jurisdiction, caseData.injuryDate);
+    const threshold = rules.medicalExcessThreshold;
+    if (!threshold) return null;
+
+    const excess: MedicalExcess = { threshold, current: 0, remaining: threshold, rulesVersion: rules.version, allocations: {} };
+    payments
+      .filter(payment => payment.type === 'medical' && (payment.status === 'approved' || payment.status === 'processed'))
+      .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime())
+      .forEach(payment => {
+        const allocation = this.splitMedicalPayment(excess, payment.amount);
+        excess.allocations[payment.id] = allocation;
+        excess.current = roundCents(excess.current + allocation.employer);
+        excess.remaining = roundCents(threshold - excess.current);
+        if (!excess.exhaustedByPaymentId && excess.remaining <= 0) {
+          excess.exhaustedByPaymentId = payment.id;
+          excess.exhaustedOn = payment.date;
+        }
+      });
+
+    return excess;
+  },
+
+  // How much of a medical payment falls within the remaining excess and how much goes to the insurer
+  splitMedicalPayment(excess: MedicalExcess | null, amount: number): { employer: number; insurer: number } {
+    if (!excess) return { employer: amount, insurer: 0 };
+    const employer = roundCents(Math.min(amount, Math.max(0, excess.remaining)));
+    return { employer, insurer: roundCents(amount - employer) };
+  },
+
+  // Remittance lines from a CSV export. Lines without a valid date or amount are reported as errors.
+  parseRemittance(text: string): { lines: RemittanceLine[]; errors: string[] } {
+    const [headers = [], ...rows] = payslipImportService.parseCSV(text);
+    const column = (field: keyof typeof REMITTANCE_ALIASES) =>
+      headers.findIndex(header => REMITTANCE_ALIASES[field].includes(normalise(header)));
+    const columns = {
+      reference: column('reference'),
+      payee: column('payee'),
+      date: column('date'),
+      amount: column('amount')
+    };
+
+    if (columns.date < 0 || columns.amount < 0) {
+      return { lines: [], errors: ['The remittance needs a date and an amount column'] };
+    }
+
+    const lines: RemittanceLine[] = [];
+    const errors: string[] = [];
+    rows.forEach((row, index) => {
+      if (row.every(cell => cell.trim() === '')) return;
+      const lineNumber = index + 2; // Header is line 1
+      const date = payslipImportService.parseDate(row[columns.date]);
+      const amount = payslipImportService.parseNumber(row[columns.amount]);
+      if (!date || amount === null || amount <= 0) {
+        errors.push(`Line ${lineNumber}: ${!date ? 'date' : 'amount'} could not be read`);
+        return;
+      }
+      lines.push({
+        lineNumber,
+        date,
+        amount,
+        reference: columns.reference >= 0 ? row[columns.reference]?.trim() || undefined : undefined,
+        payee: columns.payee >= 0 ? row[columns.payee]?.trim() || undefined : undefined
+      });
+    });
+
+    return { lines, errors };
+  },
+
+  // Matches each remittance line to one approved payment: first on the payment reference, then on
+  // the same amount within a week of the payment date for the same payee. Each payment matches once.
+  reconcile(payments: Payment[], lines: RemittanceLine[]): RemittanceMatch[] {
+    const used = new Set<string>();
+
+    return lines.map(line => {
+      const byReference = line.reference
+        ? payments.find(payment => payment.reference && normalise(payment.reference) === normalise(line.reference!))
+        : undefined;
+
+      if (byReference) {
+        if (used.has(byReference.id)) return { line, issue: 'Payment already matched to an earlier line' };
+        if (byReference.status !== 'approved') {
+          return { line, issue: byReference.status === 'draft' ? 'Payment has not been approved' : `Payment is already ${byReference.status}` };
+        }
+        if (!sameAmount(byReference.amount, line.amount)) {
+          return { line, issue: `Amount does not match the payment of $${byReference.amount.toFixed(2)}` };
+        }
+        used.add(byReference.id);
+        return { line, payment: byReference, matchedOn: 'reference' };
+      }
+
+      const candidates = payments
+        .filter(payment =>
+          payment.status === 'approved' &&
+          !used.has(payment.id) &&
+          sameAmount(payment.amount, line.amount) &&
+          Math.abs(differenceInCalendarDays(parseISO(payment.date), parseISO(line.date))) <= REMITTANCE_DATE_TOLERANCE_DAYS &&
+          (!line.payee || !payment.provider ||
+            normalise(payment.provider).includes(normalise(line.payee)) ||
+            normalise(line.payee).includes(normalise(payment.provider)))
+        )
+        .sort((a, b) =>
+          Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(line.date))) -
+          Math.abs(differenceInCalendarDays(parseISO(b.date), parseISO(line.date)))
+        );
+
+      if (candidates.length === 0) return { line, issue: 'No approved payment matches this line' };
+      used.add(candidates[0].id);
+      return { line, payment: candidates[0], matchedOn: 'amount-and-date' };
+    });
+  }
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PayslipColumnMapping, PayslipImportTable } from '../types';
+import { payslipImportService } from './payslipImportService';
+
+const HEADERS = ['Week Ending', 'Ordinary Hours', 'Ordinary Pay', 'Overtime Hours', 'Overtime Pay', 'Allowances', 'Total Gross'];
+
+const MAPPING: PayslipColumnMapping = {
+  weekEnding: 0,
+  ordinaryHours: 1,
+  ordinaryPay: 2,
+  overtimeHours: 3,
+  overtimePay: 4,
+  allowances: 5,
+  totalGross: 6
+};
+
+const mapRows = (...rows: string[][]) => {
+  const table: PayslipImportTable = { source: 'csv', fileName: 'payslips.csv', headers: HEADERS, rows };
+  return payslipImportService.mapRows(table, MAPPING);
+};
+
+describe('payslipImportService.mapRows', () => {
+  it('derives the rate from hours and an amount', () => {
+    const { payslips, errors } = mapRows(['07/07/2025', '38', '1140', '2', '90', '50', '1280']);
+
+    expect(errors).toEqual([]);
+    expect(payslips).toHaveLength(1);
+    expect(payslips[0]).toMatchObject({
+      weekEnding: '2025-07-07',
+      ordinaryHours: 38,
+      ordinaryRate: 30,
+      overtimeHours: 2,
+      overtimeRate: 45,
+      allowances: 50,
+      totalGross: 1280
+    });
+    expect(payslips[0].ordinaryPay).toBeUndefined();
+    expect(payslips[0].overtimePay).toBeUndefined();
+  });
+
+  it('keeps an amount without hours as an amount with no rate', () => {
+    const { payslips, errors } = mapRows(['07/07/2025', '', '1140', '', '90', '', '1230']);
+
+    expect(errors).toEqual([]);
+    expect(payslips[0]).toMatchObject({
+      ordinaryHours: 0,
+      ordinaryRate: 0,
+      ordinaryPay: 1140,
+      overtimeHours: 0,
+      overtimeRate: 0,
+      overtimePay: 90,
+      totalGross: 1230,
+      notes: 'Ordinary pay imported as an amount without hours; Overtime imported as an amount without hours'
+    });
+  });
+
+  it('skips blank and total rows', () => {
+    const { payslips, errors, skippedRows } = mapRows(
+      ['07/07/2025', '38', '1140', '', '', '', '1140'],
+      ['', '', '', '', '', '', ''],
+      ['Total', '38', '1140', '', '', '', '1140']
+    );
+
+    expect(payslips).toHaveLength(1);
+    expect(errors).toEqual([]);
+    expect(skippedRows).toBe(2);
+  });
+
+  it('rejects a row with a date it cannot read', () => {
+    const { payslips, errors, skippedRows } = mapRows(['next week', '38', '1140', '', '', '', '1140']);
+
+    expect(payslips).toEqual([]);
+    expect(skippedRows).toBe(1);
+    expect(errors).toEqual([expect.objectContaining({ rowNumber: 1, field: 'weekEnding', severity: 'error', message: 'Unrecognised date format' })]);
+  });
+
+  it('rejects negative hours', () => {
+    const { payslips, errors } = mapRows(['07/07/2025', '-4', '-120', '', '', '', '-120']);
+
+    expect(payslips).toEqual([]);
+    expect(errors).toEqual([expect.objectContaining({ field: 'ordinaryHours', severity: 'error', message: 'Hours cannot be negative' })]);
+  });
+
+  it('warns when the gross does not match the mapped columns but keeps the row', () => {
+    const { payslips, errors } = mapRows(['07/07/2025', '38', '1140', '', '', '', '1400']);
+
+    expect(payslips).toHaveLength(1);
+    expect(payslips[0].totalGross).toBe(1400);
+    expect(errors).toEqual([expect.objectContaining({ field: 'totalGross', severity: 'warning' })]);
+  });
+});
@@ -0,0 +1,531 @@
+import { PayslipEntry, PayslipImportField, PayslipImportTable, PayslipImportResult, PayslipImportRowError, PayslipColumnMapping, PayslipImportSource, PayPeriod } from '../types';
+import { parse, isValid, format, addDays, parseISO, differenceInCalendarDays } from 'date-fns';
+import readXlsxFile from 'read-excel-file';
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Header aliases used to suggest a column mapping. Matching is done on a normalised
+// header (lower case, alphanumerics only), so "Week Ending" and "week_ending" both match.
+const FIELD_ALIASES: Record<PayslipImportField, string[]> = {
+  weekEnding: ['weekending', 'weekend', 'periodending', 'periodend', 'payperiodend', 'payperiodending', 'enddate', 'paydate', 'paymentdate', 'date'],
+  periodStart: ['periodstart', 'periodstarting', 'payperiodstart', 'payperiodstarting', 'periodfrom', 'startdate', 'from'],
+  ordinaryHours: ['ordinaryhours', 'ordhours', 'ordinaryhrs', 'ordhrs', 'normalhours', 'basehours', 'hoursworked', 'hours'],
+  ordinaryRate: ['ordinaryrate', 'ordrate', 'hourlyrate', 'baserate', 'payrate', 'normalrate', 'rate'],
+  ordinaryPay: ['ordinarypay', 'ordinaryearnings', 'ordinaryamount', 'basepay', 'basesalary', 'salary', 'normalpay', 'wages'],
+  overtimeHours: ['overtimehours', 'othours', 'overtimehrs', 'othrs'],
+  overtimeRate: ['overtimerate', 'otrate'],
+  overtimePay: ['overtimepay', 'overtimeamount', 'overtimeearnings', 'overtime', 'otpay', 'otamount'],
+  allowances: ['allowances', 'allowance', 'shiftallowance', 'totalallowances', 'penalties', 'loadings'],
+  bonuses: ['bonuses', 'bonus', 'incentive', 'incentives'],
+  commissions: ['commissions', 'commission'],
+  otherIncome: ['otherincome', 'other', 'piecerates', 'otherpayments', 'otherearnings'],
+  totalGross: ['totalgross', 'grosspay', 'gross', 'grossearnings', 'totalearnings', 'grosswages'],
+  unpaidLeave: ['unpaidleave', 'unpaidleavehours', 'lwop', 'leavewithoutpay', 'unpaid'],
+  notes: ['notes', 'comments', 'comment', 'description']
+};
+
+export const PAYSLIP_IMPORT_FIELDS: { field: PayslipImportField; label: string; required?: boolean }[] = [
+  { field: 'weekEnding', label: 'Week / Period Ending', required: true },
+  { field: 'periodStart', label: 'Period Start' },
+  { field: 'ordinaryHours', label: 'Ordinary Hours' },
+  { field: 'ordinaryRate', label: 'Ordinary Rate' },
+  { field: 'ordinaryPay', label: 'Ordinary Pay (amount)' },
+  { field: 'overtimeHours', label: 'Overtime Hours' },
+  { field: 'overtimeRate', label: 'Overtime Rate' },
+  { field: 'overtimePay', label: 'Overtime Pay (amount)' },
+  { field: 'allowances', label: 'Allowances' },
+  { field: 'bonuses', label: 'Bonuses' },
+  { field: 'commissions', label: 'Commissions' },
+  { field: 'otherIncome', label: 'Other Income' },
+  { field: 'totalGross', label: 'Total Gross' },
+  { field: 'unpaidLeave', label: 'Unpaid Leave' },
+  { field: 'notes', label: 'Notes' }
+];
+
+// Australian payroll exports are day-first; ISO is tried first because it is unambiguous
+const DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'dd/MM/yyyy',
+  'd/M/yyyy',
+  'dd/MM/yy',
+  'd/M/yy',
+  'dd-MM-yyyy',
+  'dd.MM.yyyy',
+  'd-MMM-yyyy',
+  'd-MMM-yy',
+  'd MMM yyyy',
+  'd MMMM yyyy',
+  'yyyy/MM/dd'
+];
+
+const EXCEL_EPOCH = new Date(1899, 11, 30);
+
+// Labels recognised on a single text-layer payslip page. Each pattern captures the
+// amounts that follow the label on the same line.
+const PDF_LINE_PATTERNS: { field: PayslipImportField | 'ordinaryLine' | 'overtimeLine'; pattern: RegExp }[] = [
+  { field: 'ordinaryLine', pattern: /^(?:ordinary|normal|base)\s*(?:hours|time|pay)?\b(.*)$/i },
+  { field: 'overtimeLine', pattern: /^(?:overtime|o\/t)\b(.*)$/i },
+  { field: 'allowances', pattern: /^(?:[a-z ]*allowance|penalt(?:y|ies)|loading)s?\b(.*)$/i },
+  { field: 'bonuses', pattern: /^(?:bonus|incentive)(?:es|s)?\b(.*)$/i },
+  { field: 'commissions', pattern: /^commissions?\b(.*)$/i },
+  { field: 'unpaidLeave', pattern: /^(?:unpaid leave|leave without pay|lwop)\b(.*)$/i },
+  { field: 'totalGross', pattern: /^(?:total gross|gross pay|gross earnings|gross)\b(.*)$/i }
+];
+
+const PDF_PERIOD_PATTERN = /(?:period\s*end(?:ing)?|week\s*end(?:ing)?|pay\s*period.*?\bto|pay\s*date)\s*:?\s*([0-9]{1,2}[/.-][0-9]{1,2}[/.-][0-9]{2,4}|[0-9]{4}-[0-9]{2}-[0-9]{2}|[0-9]{1,2}[\s-][A-Za-z]{3,9}[\s-][0-9]{2,4})/i;
+
+const PDF_PERIOD_START_PATTERN = /(?:period\s*start(?:ing)?|pay\s*period(?:\s*from)?|period\s*from)\s*:?\s*([0-9]{1,2}[/.-][0-9]{1,2}[/.-][0-9]{2,4}|[0-9]{4}-[0-9]{2}-[0-9]{2}|[0-9]{1,2}[\s-][A-Za-z]{3,9}[\s-][0-9]{2,4})/i;
+
+const PDF_HEADERS = ['Period Ending', 'Period Start', 'Ordinary Hours', 'Ordinary Rate', 'Ordinary Pay', 'Overtime Hours', 'Overtime Rate', 'Overtime Pay', 'Allowances', 'Bonuses', 'Commissions', 'Unpaid Leave', 'Gross Pay'];
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const extractAmounts = (text: string): number[] =>
+  (text.match(/-?\$?\(?[0-9][0-9,]*(?:\.[0-9]+)?\)?/g) || [])
+    .map(token => payslipImportService.parseNumber(token))
+    .filter((value): value is number => value !== null);
+
+export const payslipImportService = {
+  getSourceType(file: File): PayslipImportSource {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'csv' || file.type === 'text/csv') return 'csv';
+    if (extension === 'xlsx' || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') return 'xlsx';
+    if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+    throw new Error(`Unsupported payslip file "${file.name}". Upload a CSV, XLSX or text-based PDF export.`);
+  },
+
+  async readFile(file: File): Promise<PayslipImportTable> {
+    const source = this.getSourceType(file);
+    let rawRows: string[][];
+
+    switch (source) {
+      case 'csv':
+        rawRows = this.parseCSV(await file.text());
+        break;
+      case 'xlsx':
+        rawRows = await this.readXlsxRows(file);
+        break;
+      case 'pdf':
+        rawRows = await this.readPdfRows(file);
+        break;
+    }
+
+    const nonEmptyRows = rawRows.filter(row => row.some(cell => cell.trim() !== ''));
+    if (nonEmptyRows.length < 2) {
+      throw new Error(`No payslip rows were found in "${file.name}".`);
+    }
+
+    const [headers, ...rows] = nonEmptyRows;
+    return {
+      source,
+      fileName: file.name,
+      headers: headers.map((header, index) => header.trim() || `Column ${index + 1}`),
+      rows
+    };
+  },
+
+  parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    // Strip a UTF-8 BOM left behind by Excel "CSV UTF-8" exports
+    const input = text.replace(/^\uFEFF/, '');
+    const delimiter = input.split(/\r?\n/, 1)[0].includes('\t') ? '\t' : ',';
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  },
+
+  async readXlsxRows(file: File): Promise<string[][]> {
+    const rows = await readXlsxFile(file);
+    return rows.map(row => row.map(cell => {
+      if (cell === null || cell === undefined) return '';
+      // Date cells come back as UTC midnight; format from UTC parts so the day does not shift
+      if (cell instanceof Date) {
+        return format(new Date(cell.getUTCFullYear(), cell.getUTCMonth(), cell.getUTCDate()), 'yyyy-MM-dd');
+      }
+      return String(cell);
+    }));
+  },
+
+  // The text layer of each page as lines of cells, read top to bottom
+  async readPdfLines(file: File): Promise<string[][][]> {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: string[][][] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is typeof item & { str: string; transform: number[]; width: number } => 'str' in item && item.str.trim() !== '')
+        .map(item => ({ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width }));
+      pages.push(this.groupPdfLines(items));
+    }
+
+    return pages;
+  },
+
+  async readPdfRows(file: File): Promise<string[][]> {
+    const pages = await this.readPdfLines(file);
+
+    if (pages.every(lines => lines.length === 0)) {
+      throw new Error('This PDF has no text layer. Scanned payslips cannot be imported; export the payroll report as CSV, XLSX or a text-based PDF.');
+    }
+
+    // A payroll register prints one table across all pages; an individual payslip is one page per pay period
+    const tabular = this.extractPdfTable(pages.flat());
+    if (tabular) return tabular;
+
+    const rows = pages
+      .map(lines => this.extractPdfPayslip(lines))
+      .filter((row): row is string[] => row !== null);
+
+    if (rows.length === 0) {
+      throw new Error('No payslip details could be recognised in this PDF. Try the CSV or XLSX export from the payroll system instead.');
+    }
+
+    return [PDF_HEADERS, ...rows];
+  },
+
+  groupPdfLines(items: { text: string; x: number; y: number; width: number }[]): string[][] {
+    const lines: { y: number; items: typeof items }[] = [];
+
+    items.forEach(item => {
+      const line = lines.find(l => Math.abs(l.y - item.y) <= 2);
+      if (line) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item] });
+      }
+    });
+
+    // PDF y coordinates grow upwards, so sort descending to read top to bottom
+    return lines
+      .sort((a, b) => b.y - a.y)
+      .map(line => {
+        const sorted = line.items.sort((a, b) => a.x - b.x);
+        const cells: string[] = [];
+        let previousEnd = -Infinity;
+        sorted.forEach(item => {
+          // A gap wider than a couple of characters starts a new column
+          if (cells.length === 0 || item.x - previousEnd > 8) {
+            cells.push(item.text.trim());
+          } else {
+            cells[cells.length - 1] = `${cells[cells.length - 1]} ${item.text.trim()}`.trim();
+          }
+          previousEnd = item.x + item.width;
+        });
+        return cells;
+      });
+  },
+
+  extractPdfTable(lines: string[][]): string[][] | null {
+    const headerIndex = lines.findIndex(cells => {
+      const mapping = this.suggestMapping(cells);
+      return mapping.weekEnding !== undefined && Object.keys(mapping).length >= 3;
+    });
+    if (headerIndex === -1) return null;
+
+    const header = lines[headerIndex];
+    const body = lines
+      .slice(headerIndex + 1)
+      .filter(cells => cells.length === header.length && this.parseDate(cells[this.suggestMapping(header).weekEnding!]) !== null);
+
+    return body.length > 0 ? [header, ...body] : null;
+  },
+
+  extractPdfPayslip(lines: string[][]): string[] | null {
+    const text = lines.map(cells => cells.join(' ')).join('\n');
+    const periodMatch = text.match(PDF_PERIOD_PATTERN);
+    if (!periodMatch) return null;
+
+    const values: Partial<Record<string, number>> = {};
+    const add = (key: string, amount: number) => {
+      values[key] = (values[key] || 0) + amount;
+    };
+
+    lines.forEach(cells => {
+      const line = cells.join(' ');
+      for (const { field, pattern } of PDF_LINE_PATTERNS) {
+        const match = line.match(pattern);
+        if (!match) continue;
+        const amounts = extractAmounts(match[1]);
+        if (amounts.length === 0) break;
+
+        if (field === 'ordinaryLine' || field === 'overtimeLine') {
+          const prefix = field === 'ordinaryLine' ? 'ordinary' : 'overtime';
+          // Payslip lines are printed as "hours  rate  amount"; a lone figure is the amount
+          if (amounts.length >= 3) {
+            add(`${prefix}Hours`, amounts[0]);
+            values[`${prefix}Rate`] = amounts[1];
+            add(`${prefix}Pay`, amounts[amounts.length - 1]);
+          } else {
+            add(`${prefix}Pay`, amounts[amounts.length - 1]);
+          }
+        } else if (field === 'totalGross') {
+          values.totalGross = amounts[0];
+        } else {
+          add(field, amounts[amounts.length - 1]);
+        }
+        break;
+      }
+    });
+
+    const cell = (key: string) => (values[key] !== undefined ? String(values[key]) : '');
+    const startMatch = text.match(PDF_PERIOD_START_PATTERN);
+    return [
+      periodMatch[1],
+      startMatch && startMatch[1] !== periodMatch[1] ? startMatch[1] : '',
+      cell('ordinaryHours'),
+      cell('ordinaryRate'),
+      cell('ordinaryPay'),
+      cell('overtimeHours'),
+      cell('overtimeRate'),
+      cell('overtimePay'),
+      cell('allowances'),
+      cell('bonuses'),
+      cell('commissions'),
+      cell('unpaidLeave'),
+      cell('totalGross')
+    ];
+  },
+
+  suggestMapping(headers: string[]): PayslipColumnMapping {
+    const mapping: PayslipColumnMapping = {};
+    const used = new Set<number>();
+    const normalised = headers.map(normaliseHeader);
+
+    // Exact alias matches first, then "contains" matches, so "Overtime Hours" is not claimed by "hours"
+    for (const exact of [true, false]) {
+      (Object.keys(FIELD_ALIASES) as PayslipImportField[]).forEach(field => {
+        if (mapping[field] !== undefined) return;
+        for (const alias of FIELD_ALIASES[field]) {
+          const index = normalised.findIndex((header, i) =>
+            !used.has(i) && (exact ? header === alias : alias.length > 4 && header.includes(alias))
+          );
+          if (index !== -1) {
+            mapping[field] = index;
+            used.add(index);
+            return;
+          }
+        }
+      });
+    }
+
+    return mapping;
+  },
+
+  parseNumber(raw: string | undefined): number | null {
+    if (raw === undefined) return null;
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed === '-') return 0;
+    // Accounting exports show negatives in brackets, e.g. "(120.00)"
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+    const cleaned = trimmed.replace(/[$,()\s-]/g, '');
+    if (!/^[0-9]*\.?[0-9]+$/.test(cleaned)) return null;
+    const value = parseFloat(cleaned);
+    return negative ? -value : value;
+  },
+
+  parseDate(raw: string | undefined): string | null {
+    if (!raw) return null;
+    const trimmed = raw.trim();
+
+    // Excel serial date that came through a CSV export unformatted
+    if (/^[0-9]{5}(\.[0-9]+)?$/.test(trimmed)) {
+      return format(addDays(EXCEL_EPOCH, Math.floor(parseFloat(trimmed))), 'yyyy-MM-dd');
+    }
+
+    for (const dateFormat of DATE_FORMATS) {
+      const parsed = parse(trimmed, dateFormat, new Date());
+      if (isValid(parsed) && parsed.getFullYear() > 1900) {
+        return format(parsed, 'yyyy-MM-dd');
+      }
+    }
+    return null;
+  },
+
+  parseBoolean(raw: string | undefined): boolean {
+    if (!raw) return false;
+    const value = raw.trim().toLowerCase();
+    if (['y', 'yes', 'true', 'x'].includes(value)) return true;
+    const hours = this.parseNumber(value);
+    return hours !== null && hours > 0;
+  },
+
+  // Pay frequency from the length of a pay period; anything that is not a standard cycle is irregular
+  inferPayPeriod(periodStart: string, periodEnd: string): PayPeriod {
+    const days = differenceInCalendarDays(parseISO(periodEnd), parseISO(periodStart)) + 1;
+    if (days === 7) return 'weekly';
+    if (days === 14) return 'fortnightly';
+    if (days >= 28 && days <= 31) return 'monthly';
+    return 'irregular';
+  },
+
+  mapRows(table: PayslipImportTable, mapping: PayslipColumnMapping): PayslipImportResult {
+    const payslips: PayslipEntry[] = [];
+    const errors: PayslipImportRowError[] = [];
+    let skippedRows = 0;
+    const importId = Date.now();
+
+    table.rows.forEach((row, index) => {
+      const rowNumber = index + 1;
+      const raw = (field: PayslipImportField) => {
+        const column = mapping[field];
+        return column === undefined ? undefined : row[column];
+      };
+      const rowErrors: PayslipImportRowError[] = [];
+
+      // Blank lines and payroll subtotal rows are not pay periods
+      const firstCell = (row.find(cell => cell.trim() !== '') || '').trim().toLowerCase();
+      if (firstCell === '' || /^(grand )?totals?:?$/.test(firstCell)) {
+        skippedRows++;
+        return;
+      }
+
+      const weekEnding = this.parseDate(raw('weekEnding'));
+      if (!weekEnding) {
+        rowErrors.push({
+          rowNumber,
+          field: 'weekEnding',
+          value: raw('weekEnding'),
+          severity: 'error',
+          message: raw('weekEnding') ? 'Unrecognised date format' : 'Week ending date is missing'
+        });
+      }
+
+      const periodStart = raw('periodStart')?.trim() ? this.parseDate(raw('periodStart')) : undefined;
+      if (periodStart === null) {
+        rowErrors.push({ rowNumber, field: 'periodStart', value: raw('periodStart'), severity: 'error', message: 'Unrecognised date format' });
+      } else if (periodStart && weekEnding && periodStart > weekEnding) {
+        rowErrors.push({ rowNumber, field: 'periodStart', value: raw('periodStart'), severity: 'error', message: 'Period starts after it ends' });
+      }
+
+      const numeric = (field: PayslipImportField): number | undefined => {
+        const value = raw(field);
+        if (value === undefined) return undefined;
+        const parsed = this.parseNumber(value);
+        if (parsed === null) {
+          rowErrors.push({ rowNumber, field, value, severity: 'error', message: 'Not a number' });
+          return undefined;
+        }
+        return parsed;
+      };
+
+      const ordinaryHours = numeric('ordinaryHours') ?? 0;
+      let ordinaryRate = numeric('ordinaryRate') ?? 0;
+      const ordinaryPay = numeric('ordinaryPay');
+      const overtimeHours = numeric('overtimeHours') ?? 0;
+      let overtimeRate = numeric('overtimeRate') ?? 0;
+      const overtimePay = numeric('overtimePay');
+      const allowances = numeric('allowances') ?? 0;
+      const bonuses = numeric('bonuses') ?? 0;
+      const commissions = numeric('commissions') ?? 0;
+      const otherIncome = numeric('otherIncome') ?? 0;
+      const reportedGross = numeric('totalGross');
+      const notes: string[] = [];
+
+      // With hours, an amount column gives the rate. Without hours the amount is kept as it is and
+      // the rate stays at 0, so rate checks and rate-rise proposals leave the row out.
+      let ordinaryAmount: number | undefined;
+      let overtimeAmount: number | undefined;
+      if (ordinaryPay !== undefined && ordinaryRate === 0) {
+        if (ordinaryHours > 0) {
+          ordinaryRate = ordinaryPay / ordinaryHours;
+        } else if (ordinaryPay !== 0) {
+          ordinaryAmount = ordinaryPay;
+          notes.push('Ordinary pay imported as an amount without hours');
+        }
+      }
+      if (overtimePay !== undefined && overtimeRate === 0) {
+        if (overtimeHours > 0) {
+          overtimeRate = overtimePay / overtimeHours;
+        } else if (overtimePay !== 0) {
+          overtimeAmount = overtimePay;
+          notes.push('Overtime imported as an amount without hours');
+        }
+      }
+
+      if (ordinaryHours < 0 || overtimeHours < 0) {
+        rowErrors.push({ rowNumber, field: ordinaryHours < 0 ? 'ordinaryHours' : 'overtimeHours', severity: 'error', message: 'Hours cannot be negative' });
+      }
+
+      const calculatedGross = (ordinaryAmount ?? ordinaryHours * ordinaryRate) + (overtimeAmount ?? overtimeHours * overtimeRate) +
+        allowances + bonuses + commissions + otherIncome;
+
+      if (reportedGross !== undefined && Math.abs(reportedGross - calculatedGross) > 1) {
+        rowErrors.push({
+          rowNumber,
+          field: 'totalGross',
+          value: raw('totalGross'),
+          severity: 'warning',
+          message: `Gross of $${reportedGross.toFixed(2)} does not match the mapped components ($${calculatedGross.toFixed(2)}) - check for unmapped columns`
+        });
+      }
+
+      errors.push(...rowErrors);
+      if (!weekEnding || rowErrors.some(error => error.severity === 'error')) {
+        skippedRows++;
+        return;
+      }
+
+      const mappedNotes = raw('notes')?.trim();
+      if (mappedNotes) notes.unshift(mappedNotes);
+
+      payslips.push({
+        id: `import-${importId}-${rowNumber}`,
+        weekEnding,
+        ...(periodStart ? { periodStart, payPeriod: this.inferPayPeriod(periodStart, weekEnding) } : {}),
+        ordinaryHours,
+        ordinaryRate,
+        ...(ordinaryAmount !== undefined ? { ordinaryPay: ordinaryAmount } : {}),
+        overtimeHours,
+        overtimeRate,
+        ...(overtimeAmount !== undefined ? { overtimePay: overtimeAmount } : {}),
+        allowances,
+        bonuses,
+        commissions,
+        otherIncome,
+        totalGross: reportedGross ?? calculatedGross,
+        unpaidLeave: this.parseBoolean(raw('unpaidLeave')),
+        notes: notes.length > 0 ? notes.join('; ') : undefined
+      });
+    });
+
+    return { payslips, errors, skippedRows };
+  }
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import { format, parseISO, subWeeks } from 'date-fns';
+import { PayslipEntry } from '../types';
+import { piaweService } from './piaweService';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const INJURY_DATE = '2024-07-01';
+
+// Weekly payslips for the year before the injury, most recent first
+const makePayslips = (ordinaryRate: number, weeks = 52): PayslipEntry[] =>
+  Array.from({ length: weeks }, (_, index) => ({
+    id: `payslip-${index + 1}`,
+    weekEnding: format(subWeeks(parseISO('2024-06-30'), index), 'yyyy-MM-dd'),
+    ordinaryHours: 38,
+    ordinaryRate,
+    overtimeHours: 0,
+    overtimeRate: 0,
+    allowances: 0,
+    bonuses: 0,
+    commissions: 0,
+    otherIncome: 0,
+    totalGross: 38 * ordinaryRate,
+    unpaidLeave: false
+  }));
+
+describe('piaweService.getJurisdictionRules', () => {
+  it('returns the rules in force on the date', () => {
+    expect(piaweService.getJurisdictionRules('NSW', '2024-03-31').version).toBe('NSW 2023-10');
+    expect(piaweService.getJurisdictionRules('NSW', '2024-04-01').version).toBe('NSW 2024-04');
+    expect(piaweService.getJurisdictionRules('NSW', '2024-04-01').cappingRules?.maxWeeklyAmount).toBe(2450);
+  });
+
+  it('uses the oldest rules for dates before the first recorded version', () => {
+    expect(piaweService.getJurisdictionRules('NSW', '2020-01-01').version).toBe('NSW 2023-10');
+  });
+});
+
+describe('piaweService.calculatePIAWE', () => {
+  it('averages the 52 weeks before the injury', () => {
+    const calculation = piaweService.calculatePIAWE(makePayslips(30), INJURY_DATE, 'NSW');
+
+    expect(calculation.finalPIAWE).toBe(1140);
+    expect(calculation.calculations.period52Week.includedWeeks).toBe(52);
+    expect(calculation.rulesVersion).toBe('NSW 2024-04');
+  });
+
+  it('caps at the rules in force on the injury date', () => {
+    const payslips = makePayslips(100);
+
+    expect(piaweService.calculatePIAWE(payslips, INJURY_DATE, 'NSW').finalPIAWE).toBe(2450);
+    expect(piaweService.calculatePIAWE(payslips, '2024-10-14', 'NSW')).toMatchObject({ finalPIAWE: 2500, rulesVersion: 'NSW 2024-10' });
+  });
+});
+
+describe('piaweService.applyIndexation', () => {
+  it('applies each indexation published since the injury date', () => {
+    const calculation = piaweService.calculatePIAWE(makePayslips(30), INJURY_DATE, 'NSW');
+    const indexed = piaweService.applyIndexation(calculation, '2025-01-01');
+
+    expect(indexed.finalPIAWE).toBeCloseTo(1162.8, 2);
+    expect(indexed.indexedTo).toBe('2025-01-01');
+    expect(indexed.adjustments).toEqual([expect.objectContaining({ type: 'indexation', ruleVersion: 'NSW 2024-10', percentage: 2 })]);
+  });
+
+  it('applies each indexation once', () => {
+    const calculation = piaweService.calculatePIAWE(makePayslips(30), INJURY_DATE, 'NSW');
+    const indexed = piaweService.applyIndexation(calculation, '2025-01-01');
+
+    expect(piaweService.applyIndexation(indexed, '2025-01-01')).toBe(indexed);
+    expect(piaweService.applyIndexation(calculation, '2024-09-30')).toBe(calculation);
+  });
+
+  it('keeps the indexed amount within the cap in force on the date', () => {
+    const calculation = piaweService.calculatePIAWE(makePayslips(30), INJURY_DATE, 'NSW');
+
+    expect(piaweService.applyIndexation({ ...calculation, finalPIAWE: 2495 }, '2025-01-01').finalPIAWE).toBe(2500);
+  });
+});
+
+describe('piaweService.diffCalculations', () => {
+  const from = piaweService.calculatePIAWE(makePayslips(30, 4), INJURY_DATE, 'NSW');
+
+  it('finds no changes between the same calculation', () => {
+    const diff = piaweService.diffCalculations(from, from);
+
+    expect(diff.finalPIAWE.changed).toBe(false);
+    expect(diff.payslips).toEqual([]);
+    expect(diff.adjustments).toEqual([]);
+  });
+
+  it('matches re-imported payslips by week ending', () => {
+    const [latest, second, third] = makePayslips(30, 4);
+    const reimported = [
+      { ...latest, id: 'new-1', ordinaryRate: 32, totalGross: 1216 },
+      { ...second, id: 'new-2' },
+      { ...third, id: 'new-3' },
+      { ...latest, id: 'new-4', weekEnding: '2024-07-07' }
+    ];
+    const to = piaweService.calculatePIAWE(reimported, INJURY_DATE, 'NSW');
+    const diff = piaweService.diffCalculations(from, to);
+
+    expect(diff.payslips).toEqual([
+      expect.objectContaining({ weekEnding: '2024-06-09', status: 'removed' }),
+      expect.objectContaining({
+        weekEnding: '2024-06-30',
+        status: 'changed',
+        fields: [{ field: 'ordinaryRate', from: 30, to: 32 }, { field: 'totalGross', from: 1140, to: 1216 }]
+      }),
+      expect.objectContaining({ weekEnding: '2024-07-07', status: 'added' })
+    ]);
+  });
+
+  it('reports added, changed and removed adjustments', () => {
+    const adjustment = { id: 'adj-1', type: 'base-rate-increase' as const, description: 'Pay rise', amount: 40, appliedDate: '2024-05-01', reason: 'Award increase' };
+    const withAdjustment = { ...from, adjustments: [adjustment] };
+    const changed = { ...from, finalPIAWE: from.finalPIAWE + 50, adjustments: [{ ...adjustment, amount: 50 }] };
+
+    expect(piaweService.diffCalculations(from, withAdjustment).adjustments).toEqual([
+      expect.objectContaining({ id: 'adj-1', status: 'added' })
+    ]);
+    expect(piaweService.diffCalculations(withAdjustment, changed)).toMatchObject({
+      finalPIAWE: { from: from.finalPIAWE, to: from.finalPIAWE + 50, changed: true },
+      adjustments: [{ id: 'adj-1', status: 'changed' }]
+    });
+    expect(piaweService.diffCalculations(changed, from).adjustments).toEqual([
+      expect.objectContaining({ id: 'adj-1', status: 'removed' })
+    ]);
+  });
+});
@@ -1,221 +1,195 @@
-import { PIAWECalculation, PIAWEResult, PayslipEntry, JurisdictionType, JurisdictionRules, ValidationIssue, PIAWEAdjustment } from '../types';
-import { parseISO, differenceInWeeks, subWeeks, format, isAfter, isBefore, differenceInDays } from 'date-fns';
-
-// Jurisdiction-specific rules based on actual legislation
-const JURISDICTION_RULES: Record<JurisdictionType, JurisdictionRules> = {
-  NSW: {
-    jurisdiction: 'NSW',
-    defaultReferencePeriod: 52,
-    alternativeReferencePeriods: [13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100,
-    allowanceInclusions: ['shift', 'piece-rates', 'bonuses'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: false, // Only if regular
-      annualBonus: false // Excludes one-off bonuses
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: true,
-      inflationAdjustment: false
-    },
-    cappingRules: {
-      maxWeeklyAmount: 2500, // Current NSW cap
-      maxAnnualAmount: 130000
-    }
-  },
-  VIC: {
-    jurisdiction: 'VIC',
-    defaultReferencePeriod: 52,
-    alternativeReferencePeriods: [13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100, // Regular overtime only
-    allowanceInclusions: ['shift', 'commissions', 'bonuses'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: true,
-      annualBonus: false // Excludes irregular overtime
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: true,
-      inflationAdjustment: false
-    },
-    cappingRules: {
-      maxWeeklyAmount: 2400,
-      maxAnnualAmount: 124800
-    }
-  },
-  QLD: {
-    jurisdiction: 'QLD',
-    defaultReferencePeriod: 52, // 12 months = 52 weeks
-    alternativeReferencePeriods: [26, 13], // Shorter periods for seasonal workers
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100, // Consistent overtime
-    allowanceInclusions: ['allowances', 'penalties'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: true,
-      annualBonus: false
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: true,
-      inflationAdjustment: false
-    }
-  },
-  WA: {
-    jurisdiction: 'WA',
-    defaultReferencePeriod: 52, // 12 months
-    alternativeReferencePeriods: [26, 13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100,
-    allowanceInclusions: ['bonuses', 'allowances', 'incentive-payments'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: true,
-      annualBonus: true
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: true,
-      inflationAdjustment: false
-    }
-  },
-  SA: {
-    jurisdiction: 'SA',
-    defaultReferencePeriod: 52, // 12 months
-    alternativeReferencePeriods: [26, 13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100, // Regular overtime
-    allowanceInclusions: ['overtime', 'penalties', 'loadings'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: true,
-      annualBonus: false
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: true,
-      inflationAdjustment: false
-    }
-  },
-  TAS: {
-    jurisdiction: 'TAS',
-    defaultReferencePeriod: 52,
-    alternativeReferencePeriods: [26, 13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100,
-    allowanceInclusions: ['shift', 'overtime', 'allowances'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: false,
-      annualBonus: false
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: false,
-      inflationAdjustment: false
-    }
-  },
-  NT: {
-    jurisdiction: 'NT',
-    defaultReferencePeriod: 52,
-    alternativeReferencePeriods: [26, 13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100,
-    allowanceInclusions: ['shift', 'overtime', 'allowances'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: false,
-      annualBonus: false
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: false,
-      inflationAdjustment: false
-    }
-  },
-  ACT: {
-    jurisdiction: 'ACT',
-    defaultReferencePeriod: 52,
-    alternativeReferencePeriods: [26, 13],
-    minimumWeeksRequired: 1,
-    maxOvertimeInclusion: 100,
-    allowanceInclusions: ['shift', 'overtime', 'allowances'],
-    bonusInclusions: {
-      regularBonus: true,
-      performanceBonus: false,
-      annualBonus: false
-    },
-    adjustmentRules: {
-      baseRateIncrease: true,
-      industrialAgreement: false,
-      inflationAdjustment: false
-    }
-  }
+import { PIAWECalculation, PIAWEResult, PayslipEntry, JurisdictionType, JurisdictionRules, JurisdictionRuleSet, ValidationIssue, PIAWEAdjustment, PayslipColumnMapping, PayslipImportResult, PIAWEVersionDiff, PIAWEPayslipDiff, PIAWEAdjustmentDiff, PIAWEEmployer, PIAWEEmployerResult, PIAWEAdjustmentProposal, WagesSalaryInfo, PIAWEScenarioOptions, EarningsComponentType, EarningsValuationMethod } from '../types';
+import { parseISO, subWeeks, format, isAfter, isBefore, differenceInDays, differenceInCalendarDays, addDays, subDays, subMonths, subYears, max as maxDate, min as minDate } from 'date-fns';
+import { payslipImportService } from './payslipImportService';
+import { PdfDocumentBuilder } from '../utils/pdfDocumentBuilder';
+import { jurisdictionRulesService } from './jurisdictionRules';
+
+export const EARNINGS_COMPONENT_TYPES: Record<EarningsComponentType, { label: string; valuationMethods: EarningsValuationMethod[] }> = {
+  vehicle: { label: 'Private use of vehicle', valuationMethods: ['statutory-formula', 'operating-cost', 'market-value', 'agreed-value'] },
+  accommodation: { label: 'Residential accommodation', valuationMethods: ['market-rent', 'cost-to-employer', 'agreed-value'] },
+  'salary-sacrifice': { label: 'Salary sacrifice', valuationMethods: ['amount-sacrificed'] },
+  'salary-sacrifice-super': { label: 'Salary sacrifice to super', valuationMethods: ['amount-sacrificed'] }
+};
+
+export const VALUATION_METHOD_LABELS: Record<EarningsValuationMethod, string> = {
+  'statutory-formula': 'Statutory formula',
+  'operating-cost': 'Operating cost',
+  'market-value': 'Market value',
+  'market-rent': 'Market rent',
+  'cost-to-employer': 'Cost to employer',
+  'amount-sacrificed': 'Amount sacrificed',
+  'agreed-value': 'Agreed value'
 };
 
 export const piaweService = {
-  getJurisdictionRules(jurisdiction: JurisdictionType): JurisdictionRules {
-    return JURISDICTION_RULES[jurisdiction];
+  // Rules in force on the given date (defaults to today). PIAWE is always calculated with the
+  // rules in force on the injury date so an older claim keeps the cap that applied at the time.
+  getJurisdictionRules(jurisdiction: JurisdictionType, asAt: string = format(new Date(), 'yyyy-MM-dd')): JurisdictionRuleSet {
+    return jurisdictionRulesService.getRulesInForce(jurisdiction, asAt);
   },
 
   calculatePIAWE(
     payslips: PayslipEntry[],
     injuryDate: string,
     jurisdiction: JurisdictionType,
-    adjustments: PIAWEAdjustment[] = []
+    adjustments: PIAWEAdjustment[] = [],
+    employers: PIAWEEmployer[] = []
   ): PIAWECalculation {
-    const rules = this.getJurisdictionRules(jurisdiction);
+    const rules = this.getJurisdictionRules(jurisdiction, injuryDate);
     const injuryDateObj = parseISO(injuryDate);
+    // Indexation is tied to the previous base amount, so it is re-applied after recalculating
+    const baseAdjustments = adjustments.filter(adjustment => adjustment.type !== 'indexation');
     
     // Sort payslips by date (most recent first)
     const sortedPayslips = [...payslips].sort((a, b) => 
       parseISO(b.weekEnding).getTime() - parseISO(a.weekEnding).getTime()
     );
 
+    // Concurrent employment: each employer is averaged over its own payslips and the counted
+    // employers' results are combined before the method is chosen
+    const primaryEmployer = employers.find(employer => employer.isPrimary) || employers[0];
+    const employerBreakdown = employers.length > 1
+      ? this.calculateEmployerBreakdown(sortedPayslips, employers, injuryDateObj, rules, jurisdiction)
+      : undefined;
+    const countedEmployers = employerBreakdown?.filter(result => result.included);
+
     // Calculate for different reference periods based on jurisdiction
-    const period52Week = this.calculateForPeriod(sortedPayslips, injuryDateObj, 52, rules, jurisdiction);
-    const period13Week = this.calculateForPeriod(sortedPayslips, injuryDateObj, 13, rules, jurisdiction);
+    const period52Week = countedEmployers
+      ? this.combineResults(countedEmployers.map(result => result.period52Week))
+      : this.calculateForPeriod(sortedPayslips, injuryDateObj, 52, rules, jurisdiction);
+    const period13Week = countedEmployers
+      ? this.combineResults(countedEmployers.map(result => result.period13Week))
+      : this.calculateForPeriod(sortedPayslips, injuryDateObj, 13, rules, jurisdiction);
     
+    // A default reference period other than 52 weeks replaces the jurisdiction method while
+    // there is enough data for it
+    const customPeriod = rules.defaultReferencePeriod !== 52
+      ? this.calculateForReferencePeriod(sortedPayslips, employers, countedEmployers, injuryDateObj, rules.defaultReferencePeriod, rules, jurisdiction)
+      : undefined;
+    const periodCustom = customPeriod && customPeriod.includedWeeks >= rules.minimumWeeksRequired ? customPeriod : undefined;
+
     // Determine which method to use based on jurisdiction rules
-    const { finalPIAWE, methodUsed } = this.determineFinalPIAWE(period52Week, period13Week, rules, jurisdiction);
+    const determined = periodCustom
+      ? { finalPIAWE: periodCustom.averageWeekly, methodUsed: `${rules.defaultReferencePeriod}-week average (${rules.version} reference period)` }
+      : this.determineFinalPIAWE(period52Week, period13Week, rules, jurisdiction);
+    const finalPIAWE = determined.finalPIAWE;
+    const methodUsed = countedEmployers && countedEmployers.length > 1
+      ? `${determined.methodUsed}, combined across ${countedEmployers.length} employers`
+      : determined.methodUsed;
     
     // Apply jurisdiction-specific caps
     const cappedPIAWE = this.applyCapping(finalPIAWE, rules);
     
     // Apply adjustments
-    const adjustedPIAWE = this.applyAdjustments(cappedPIAWE, adjustments);
+    const { adjustedPIAWE, adjustments: appliedAdjustments } = this.applyAdjustments(cappedPIAWE, baseAdjustments, rules);
     
-    // Validate calculation
-    const validationIssues = this.validateCalculation(sortedPayslips, injuryDateObj, rules, jurisdiction);
+    // Validate calculation. With concurrent employers the primary employer's payslips are
+    // validated, as weeks overlap between jobs.
+    const validatedPayslips = employerBreakdown
+      ? sortedPayslips.filter(payslip => (payslip.employerId || primaryEmployer.id) === primaryEmployer.id)
+      : sortedPayslips;
+    const validationIssues = this.validateCalculation(validatedPayslips, injuryDateObj, rules, jurisdiction);
 
     return {
       id: `piawe-${Date.now()}`,
       caseId: '',
       workerId: '',
       jurisdiction,
-      employmentType: 'full-time',
+      employmentType: primaryEmployer?.employmentType || 'full-time',
       injuryDate,
       calculationDate: new Date().toISOString(),
-      referencePeriodsUsed: ['52-week', '13-week'],
+      referencePeriodsUsed: periodCustom ? ['52-week', '13-week', `${rules.defaultReferencePeriod}-week`] : ['52-week', '13-week'],
       payslips: sortedPayslips,
+      employers: employers.length > 0 ? employers : undefined,
+      employerBreakdown,
       calculations: {
         period52Week,
-        period13Week
+        period13Week,
+        ...(periodCustom ? { periodCustom } : {})
       },
       finalPIAWE: adjustedPIAWE,
       methodUsed: `${methodUsed} (${jurisdiction} formula)`,
-      adjustments,
+      adjustments: appliedAdjustments,
       validationIssues,
+      rulesVersion: rules.version,
       createdBy: 'System',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
   },
 
+  // What-if calculation: the same inputs with overtime, bonuses or allowances left out, or averaged
+  // over a reference period other than the jurisdiction default. The calculation keeps the original payslips.
+  calculateScenario(
+    payslips: PayslipEntry[],
+    injuryDate: string,
+    jurisdiction: JurisdictionType,
+    adjustments: PIAWEAdjustment[],
+    employers: PIAWEEmployer[],
+    name: string,
+    options: PIAWEScenarioOptions
+  ): PIAWECalculation {
+    const scenarioPayslips = payslips.map(payslip => {
+      const removed =
+        (options.includeOvertime ? 0 : this.getOvertimePay(payslip)) +
+        (options.includeBonuses ? 0 : payslip.bonuses) +
+        (options.includeAllowances ? 0 : payslip.allowances);
+      return {
+        ...payslip,
+        overtimeHours: options.includeOvertime ? payslip.overtimeHours : 0,
+        overtimePay: options.includeOvertime ? payslip.overtimePay : undefined,
+        bonuses: options.includeBonuses ? payslip.bonuses : 0,
+        allowances: options.includeAllowances ? payslip.allowances : 0,
+        totalGross: payslip.totalGross - removed
+      };
+    });
+
+    const calculation = this.calculatePIAWE(scenarioPayslips, injuryDate, jurisdiction, adjustments, employers);
+    const rules = this.getJurisdictionRules(jurisdiction, injuryDate);
+    const scenario: PIAWECalculation = {
+      ...calculation,
+      id: `piawe-scenario-${Date.now()}`,
+      payslips: [...payslips].sort((a, b) => parseISO(b.weekEnding).getTime() - parseISO(a.weekEnding).getTime()),
+      scenario: { name, options }
+    };
+    if (options.referencePeriodWeeks === rules.defaultReferencePeriod) return scenario;
+
+    // Another reference period replaces the jurisdiction method with a straight average over that period
+    const weeks = options.referencePeriodWeeks;
+    const periodCustom = this.calculateForReferencePeriod(
+      scenarioPayslips,
+      employers,
+      calculation.employerBreakdown?.filter(result => result.included),
+      parseISO(injuryDate),
+      weeks,
+      rules,
+      jurisdiction
+    );
+    const { adjustedPIAWE, adjustments: appliedAdjustments } = this.applyAdjustments(
+      this.applyCapping(periodCustom.averageWeekly, rules),
+      calculation.adjustments,
+      rules
+    );
+
+    return {
+      ...scenario,
+      referencePeriodsUsed: [...calculation.referencePeriodsUsed, `${weeks}-week`],
+      calculations: { ...calculation.calculations, periodCustom },
+      finalPIAWE: adjustedPIAWE,
+      methodUsed: `${weeks}-week average (scenario reference period) (${jurisdiction} formula)`,
+      adjustments: appliedAdjustments
+    };
+  },
+
+  describeScenario(name: string, options: PIAWEScenarioOptions): string {
+    const excluded = [
+      !options.includeOvertime && 'overtime',
+      !options.includeBonuses && 'bonuses',
+      !options.includeAllowances && 'allowances'
+    ].filter(Boolean);
+    return `${name} - ${options.referencePeriodWeeks}-week reference period${excluded.length > 0 ? `, excluding ${excluded.join(', ')}` : ''}`;
+  },
+
   calculateForPeriod(
     payslips: PayslipEntry[],
     injuryDate: Date,
@@ -223,31 +197,34 @@ export const piaweService = {
     rules: JurisdictionRules,
     jurisdiction: JurisdictionType
   ): PIAWEResult {
-    const periodStartDate = subWeeks(injuryDate, periodWeeks);
-    
-    // Filter payslips within the reference period
-    const relevantPayslips = payslips.filter(payslip => {
-      const payslipDate = parseISO(payslip.weekEnding);
-      return isAfter(payslipDate, periodStartDate) && 
-             (isBefore(payslipDate, injuryDate) || payslipDate.getTime() === injuryDate.getTime());
-    });
+    // Apportion longer pay periods to weeks and keep the share of each week inside the reference
+    // period, pro-rating any pay period that straddles its start
+    const portions = this.apportionToWeeks(payslips)
+      .map(week => {
+        const weeks = this.getWeeksInPeriod(week, injuryDate, periodWeeks);
+        const portionWeeks = week.sourcePayslipId ? this.getPayslipPeriod(week).days / 7 : 1;
+        return { payslip: weeks < portionWeeks ? this.scalePayslip(week, weeks / portionWeeks) : week, weeks };
+      })
+      .filter(portion => portion.weeks > 0);
 
     // Exclude unpaid leave periods
-    const workingPayslips = relevantPayslips.filter(payslip => !payslip.unpaidLeave);
+    const workingPortions = portions.filter(portion => !portion.payslip.unpaidLeave);
     
     // Calculate earnings based on jurisdiction-specific rules
-    const earnings = this.calculateJurisdictionEarnings(workingPayslips, jurisdiction, rules);
+    const earnings = this.calculateJurisdictionEarnings(workingPortions.map(portion => portion.payslip), jurisdiction, rules);
     
-    const includedWeeks = workingPayslips.length;
-    const excludedWeeks = relevantPayslips.length - workingPayslips.length;
+    const countWeeks = (items: typeof portions) => Math.round(items.reduce((sum, portion) => sum + portion.weeks, 0) * 100) / 100;
+    const includedWeeks = countWeeks(workingPortions);
+    const excludedWeeks = countWeeks(portions.filter(portion => portion.payslip.unpaidLeave));
     
     // Calculate average based on jurisdiction formula
     let averageWeekly = 0;
     if (includedWeeks > 0) {
       switch (jurisdiction) {
         case 'NSW':
-          // NSW: Total ordinary earnings / Number of weeks worked
-          averageWeekly = earnings.ordinaryEarnings / includedWeeks;
+          // NSW: Total ordinary earnings / Number of weeks worked. Included benefits and salary
+          // sacrifice are part of ordinary earnings.
+          averageWeekly = (earnings.ordinaryEarnings + earnings.nonPecuniaryTotal + earnings.salarySacrificeTotal) / includedWeeks;
           break;
         case 'VIC':
           // VIC: Gross earnings (excluding super) / Number of weeks worked
@@ -276,11 +253,202 @@ export const piaweService = {
       bonusesTotal: earnings.bonusesTotal,
       commissionsTotal: earnings.commissionsTotal,
       otherIncomeTotal: earnings.otherIncomeTotal,
+      nonPecuniaryTotal: earnings.nonPecuniaryTotal,
+      salarySacrificeTotal: earnings.salarySacrificeTotal,
       excludedWeeks,
       includedWeeks
     };
   },
 
+  // Per-employer subtotals. Payslips without an employer belong to the primary employer. Secondary
+  // employers are only counted where the jurisdiction includes concurrent employment.
+  calculateEmployerBreakdown(
+    payslips: PayslipEntry[],
+    employers: PIAWEEmployer[],
+    injuryDate: Date,
+    rules: JurisdictionRules,
+    jurisdiction: JurisdictionType
+  ): PIAWEEmployerResult[] {
+    const primaryEmployer = employers.find(employer => employer.isPrimary) || employers[0];
+
+    return employers.map(employer => {
+      const employerPayslips = payslips.filter(payslip => (payslip.employerId || primaryEmployer.id) === employer.id);
+      const period52Week = this.calculateForPeriod(employerPayslips, injuryDate, 52, rules, jurisdiction);
+      const period13Week = this.calculateForPeriod(employerPayslips, injuryDate, 13, rules, jurisdiction);
+      const { finalPIAWE, methodUsed } = this.determineFinalPIAWE(period52Week, period13Week, rules, jurisdiction);
+
+      return {
+        employerId: employer.id,
+        employerName: employer.name,
+        employmentType: employer.employmentType,
+        isPrimary: employer.id === primaryEmployer.id,
+        included: employer.id === primaryEmployer.id || rules.includeConcurrentEmployment,
+        payslipCount: employerPayslips.length,
+        period52Week,
+        period13Week,
+        averageWeekly: finalPIAWE,
+        methodUsed
+      };
+    });
+  },
+
+  // Straight average over any reference period, combined across the counted employers when there
+  // is concurrent employment
+  calculateForReferencePeriod(
+    payslips: PayslipEntry[],
+    employers: PIAWEEmployer[],
+    countedEmployers: PIAWEEmployerResult[] | undefined,
+    injuryDate: Date,
+    weeks: number,
+    rules: JurisdictionRules,
+    jurisdiction: JurisdictionType
+  ): PIAWEResult {
+    if (!countedEmployers) return this.calculateForPeriod(payslips, injuryDate, weeks, rules, jurisdiction);
+
+    const primaryEmployer = employers.find(employer => employer.isPrimary) || employers[0];
+    return this.combineResults(countedEmployers.map(result => this.calculateForPeriod(
+      payslips.filter(payslip => (payslip.employerId || primaryEmployer.id) === result.employerId),
+      injuryDate, weeks, rules, jurisdiction
+    )));
+  },
+
+  // Adds concurrent employers' results together. Averages are summed because the jobs run in the
+  // same weeks; the week counts are the longest any one employer has.
+  combineResults(results: PIAWEResult[]): PIAWEResult {
+    const sum = (key: keyof PIAWEResult) => results.reduce((total, result) => total + result[key], 0);
+    const longest = (key: keyof PIAWEResult) => Math.max(0, ...results.map(result => result[key]));
+
+    return {
+      totalEarnings: sum('totalEarnings'),
+      totalWeeks: longest('totalWeeks'),
+      averageWeekly: sum('averageWeekly'),
+      ordinaryEarnings: sum('ordinaryEarnings'),
+      overtimeEarnings: sum('overtimeEarnings'),
+      allowancesTotal: sum('allowancesTotal'),
+      bonusesTotal: sum('bonusesTotal'),
+      commissionsTotal: sum('commissionsTotal'),
+      otherIncomeTotal: sum('otherIncomeTotal'),
+      nonPecuniaryTotal: sum('nonPecuniaryTotal'),
+      salarySacrificeTotal: sum('salarySacrificeTotal'),
+      excludedWeeks: longest('excludedWeeks'),
+      includedWeeks: longest('includedWeeks')
+    };
+  },
+
+  isWithinPeriod(weekEnding: string, injuryDate: Date, periodWeeks: number): boolean {
+    const periodStartDate = subWeeks(injuryDate, periodWeeks);
+    const payslipDate = parseISO(weekEnding);
+    return isAfter(payslipDate, periodStartDate) &&
+           (isBefore(payslipDate, injuryDate) || payslipDate.getTime() === injuryDate.getTime());
+  },
+
+  // First and last day a payslip covers. Without a periodStart the length comes from payPeriod,
+  // and a payslip with neither covers the seven days ending on weekEnding.
+  getPayslipPeriod(payslip: PayslipEntry): { start: Date; end: Date; days: number } {
+    const end = parseISO(payslip.weekEnding);
+    let start: Date;
+    if (payslip.periodStart) {
+      start = parseISO(payslip.periodStart);
+    } else {
+      switch (payslip.payPeriod) {
+        case 'fortnightly':
+          start = subDays(end, 13);
+          break;
+        case 'monthly':
+          start = addDays(subMonths(end, 1), 1);
+          break;
+        case 'annual':
+          start = addDays(subYears(end, 1), 1);
+          break;
+        default:
+          start = subDays(end, 6);
+          break;
+      }
+    }
+    return { start, end, days: Math.max(1, differenceInCalendarDays(end, start) + 1) };
+  },
+
+  // Ordinary and overtime earnings, from hours x rate or the amount paid where there were no hours
+  getOrdinaryPay(payslip: PayslipEntry): number {
+    return payslip.ordinaryPay ?? payslip.ordinaryHours * payslip.ordinaryRate;
+  },
+
+  getOvertimePay(payslip: PayslipEntry): number {
+    return payslip.overtimePay ?? payslip.overtimeHours * payslip.overtimeRate;
+  },
+
+  // Only payslips with real ordinary hours and rate can show a rate change
+  hasHourlyRate(payslip: PayslipEntry): boolean {
+    return payslip.ordinaryPay === undefined && payslip.ordinaryHours > 0 && payslip.ordinaryRate > 0;
+  },
+
+  scalePayslip(payslip: PayslipEntry, factor: number): PayslipEntry {
+    return {
+      ...payslip,
+      ordinaryHours: payslip.ordinaryHours * factor,
+      overtimeHours: payslip.overtimeHours * factor,
+      ...(payslip.ordinaryPay !== undefined ? { ordinaryPay: payslip.ordinaryPay * factor } : {}),
+      ...(payslip.overtimePay !== undefined ? { overtimePay: payslip.overtimePay * factor } : {}),
+      allowances: payslip.allowances * factor,
+      bonuses: payslip.bonuses * factor,
+      commissions: payslip.commissions * factor,
+      otherIncome: payslip.otherIncome * factor,
+      totalGross: payslip.totalGross * factor,
+      earningsComponents: payslip.earningsComponents?.map(component => ({ ...component, amount: component.amount * factor }))
+    };
+  },
+
+  // Splits pay periods longer than a week into seven-day portions counted back from the period end,
+  // each carrying its share of the earnings by days. Weekly payslips are returned as they are.
+  // The result is ordered most recent first.
+  apportionToWeeks(payslips: PayslipEntry[]): PayslipEntry[] {
+    const weeks: PayslipEntry[] = [];
+
+    payslips.forEach(payslip => {
+      const { end, days } = this.getPayslipPeriod(payslip);
+      if (days <= 7) {
+        weeks.push(payslip);
+        return;
+      }
+
+      for (let offset = 0; offset < days; offset += 7) {
+        const portionDays = Math.min(7, days - offset);
+        const portionEnd = subDays(end, offset);
+        weeks.push({
+          ...this.scalePayslip(payslip, portionDays / days),
+          id: `${payslip.id}-w${offset / 7 + 1}`,
+          weekEnding: format(portionEnd, 'yyyy-MM-dd'),
+          periodStart: format(subDays(portionEnd, portionDays - 1), 'yyyy-MM-dd'),
+          sourcePayslipId: payslip.id
+        });
+      }
+    });
+
+    return weeks.sort((a, b) => parseISO(b.weekEnding).getTime() - parseISO(a.weekEnding).getTime());
+  },
+
+  // Weeks of a weekly payslip or apportioned portion that fall inside the reference period. Weekly
+  // payslips count in full when they end inside it; portions count by the days inside it.
+  getWeeksInPeriod(week: PayslipEntry, injuryDate: Date, periodWeeks: number): number {
+    if (!week.sourcePayslipId) {
+      return this.isWithinPeriod(week.weekEnding, injuryDate, periodWeeks) ? 1 : 0;
+    }
+
+    const { start, end } = this.getPayslipPeriod(week);
+    const overlapStart = maxDate([start, addDays(subWeeks(injuryDate, periodWeeks), 1)]);
+    const overlapEnd = minDate([end, injuryDate]);
+    return Math.max(0, differenceInCalendarDays(overlapEnd, overlapStart) + 1) / 7;
+  },
+
+  // Weeks of an original payslip inside the reference period, and the weeks it covers in total
+  getPayslipWeeksInPeriod(payslip: PayslipEntry, injuryDate: Date, periodWeeks: number): { inPeriod: number; total: number } {
+    const portions = this.apportionToWeeks([payslip]);
+    return {
+      inPeriod: portions.reduce((sum, week) => sum + this.getWeeksInPeriod(week, injuryDate, periodWeeks), 0),
+      total: portions[0]?.sourcePayslipId ? this.getPayslipPeriod(payslip).days / 7 : 1
+    };
+  },
+
   calculateJurisdictionEarnings(
     payslips: PayslipEntry[],
     jurisdiction: JurisdictionType,
@@ -293,6 +461,8 @@ export const piaweService = {
     bonusesTotal: number;
     commissionsTotal: number;
     otherIncomeTotal: number;
+    nonPecuniaryTotal: number;
+    salarySacrificeTotal: number;
   } {
     let totalEarnings = 0;
     let ordinaryEarnings = 0;
@@ -301,10 +471,12 @@ export const piaweService = {
     let bonusesTotal = 0;
     let commissionsTotal = 0;
     let otherIncomeTotal = 0;
+    let nonPecuniaryTotal = 0;
+    let salarySacrificeTotal = 0;
 
     payslips.forEach(payslip => {
       // Base wages always included
-      const ordinary = payslip.ordinaryHours * payslip.ordinaryRate;
+      const ordinary = this.getOrdinaryPay(payslip);
       ordinaryEarnings += ordinary;
       totalEarnings += ordinary;
 
@@ -314,24 +486,26 @@ export const piaweService = {
         case 'NSW':
           // NSW: Only regular overtime
           overtimeToInclude = this.isRegularOvertime(payslips, payslip) ? 
-            payslip.overtimeHours * payslip.overtimeRate : 0;
+            this.getOvertimePay(payslip) : 0;
           break;
         case 'VIC':
           // VIC: Regular overtime only
           overtimeToInclude = this.isRegularOvertime(payslips, payslip) ? 
-            payslip.overtimeHours * payslip.overtimeRate : 0;
+            this.getOvertimePay(payslip) : 0;
           break;
         case 'QLD':
         case 'WA':
         case 'SA':
           // QLD/WA/SA: Consistent/regular overtime
           overtimeToInclude = this.isConsistentOvertime(payslips, payslip) ? 
-            payslip.overtimeHours * payslip.overtimeRate : 0;
+            this.getOvertimePay(payslip) : 0;
           break;
         default:
-          overtimeToInclude = payslip.overtimeHours * payslip.overtimeRate;
+          overtimeToInclude = this.getOvertimePay(payslip);
           break;
       }
+      // Only the rule's share of countable overtime is included
+      overtimeToInclude *= rules.maxOvertimeInclusion / 100;
       overtimeEarnings += overtimeToInclude;
       totalEarnings += overtimeToInclude;
 
@@ -341,27 +515,12 @@ export const piaweService = {
         totalEarnings += payslip.allowances;
       }
 
-      // Bonuses based on jurisdiction rules
-      let bonusesToInclude = 0;
-      switch (jurisdiction) {
-        case 'NSW':
-          // NSW: Excludes one-off bonuses, includes regular bonuses
-          bonusesToInclude = this.isRegularBonus(payslips, payslip) ? payslip.bonuses : 0;
-          break;
-        case 'VIC':
-          // VIC: Includes bonuses
-          bonusesToInclude = payslip.bonuses;
-          break;
-        case 'QLD':
-        case 'WA':
-        case 'SA':
-          // QLD/WA/SA: Includes bonuses and incentive payments
-          bonusesToInclude = payslip.bonuses;
-          break;
-        default:
-          bonusesToInclude = payslip.bonuses;
-          break;
-      }
+      // Bonuses based on jurisdiction rules. Regular bonuses count under the regular bonus rule;
+      // one-off bonuses only when performance or annual bonuses are included.
+      const bonusIncluded = this.isRegularBonus(payslips, payslip)
+        ? rules.bonusInclusions.regularBonus
+        : rules.bonusInclusions.performanceBonus || rules.bonusInclusions.annualBonus;
+      const bonusesToInclude = bonusIncluded ? payslip.bonuses : 0;
       bonusesTotal += bonusesToInclude;
       totalEarnings += bonusesToInclude;
 
@@ -392,6 +551,17 @@ export const piaweService = {
           totalEarnings += payslip.otherIncome;
           break;
       }
+
+      // Non-cash benefits and salary sacrifice according to the jurisdiction's rule for each component
+      payslip.earningsComponents?.forEach(component => {
+        if (!rules.earningsComponentRules[component.type]?.included) return;
+        if (component.type === 'vehicle' || component.type === 'accommodation') {
+          nonPecuniaryTotal += component.amount;
+        } else {
+          salarySacrificeTotal += component.amount;
+        }
+        totalEarnings += component.amount;
+      });
     });
 
     return {
@@ -401,21 +571,23 @@ export const piaweService = {
       allowancesTotal,
       bonusesTotal,
       commissionsTotal,
-      otherIncomeTotal
+      otherIncomeTotal,
+      nonPecuniaryTotal,
+      salarySacrificeTotal
     };
   },
 
   isRegularOvertime(payslips: PayslipEntry[], currentPayslip: PayslipEntry): boolean {
     // Consider overtime regular if it appears in at least 50% of recent payslips
     const recentPayslips = payslips.slice(0, Math.min(8, payslips.length));
-    const overtimePayslips = recentPayslips.filter(p => p.overtimeHours > 0);
+    const overtimePayslips = recentPayslips.filter(p => this.getOvertimePay(p) > 0);
     return overtimePayslips.length >= recentPayslips.length * 0.5;
   },
 
   isConsistentOvertime(payslips: PayslipEntry[], currentPayslip: PayslipEntry): boolean {
     // Similar to regular but with slightly different threshold for QLD/WA/SA
     const recentPayslips = payslips.slice(0, Math.min(12, payslips.length));
-    const overtimePayslips = recentPayslips.filter(p => p.overtimeHours > 0);
+    const overtimePayslips = recentPayslips.filter(p => this.getOvertimePay(p) > 0);
     return overtimePayslips.length >= recentPayslips.length * 0.4;
   },
 
@@ -544,20 +716,315 @@ export const piaweService = {
     return piawe;
   },
 
-  applyAdjustments(basePIAWE: number, adjustments: PIAWEAdjustment[]): number {
-    return adjustments.reduce((adjustedAmount, adjustment) => {
+  // Applies adjustments in order and records on each one the rule it was applied under.
+  // Adjustments proposed from a pay rise already carry their jurisdiction rule.
+  applyAdjustments(
+    basePIAWE: number,
+    adjustments: PIAWEAdjustment[],
+    rules: JurisdictionRules
+  ): { adjustedPIAWE: number; adjustments: PIAWEAdjustment[] } {
+    let adjustedPIAWE = basePIAWE;
+    const applied = adjustments.map(adjustment => {
+      let rule = adjustment.rule;
       switch (adjustment.type) {
         case 'base-rate-increase':
         case 'industrial-agreement':
-          return adjustedAmount + adjustment.amount;
+          adjustedPIAWE += adjustment.amount;
+          rule = rule || `Manual ${adjustment.type === 'base-rate-increase' ? 'base rate' : 'industrial agreement'} adjustment added to PIAWE`;
+          break;
+        case 'indexation':
+          adjustedPIAWE += adjustment.amount;
+          rule = rule || `${adjustment.ruleVersion || rules.jurisdiction} indexation`;
+          break;
         case 'manual-override':
-          return adjustment.amount;
+          adjustedPIAWE = adjustment.amount;
+          rule = rule || 'Manual override replaces the calculated PIAWE';
+          break;
         default:
-          return adjustedAmount;
+          rule = rule || 'Recorded only, PIAWE unchanged';
+          break;
+      }
+      return { ...adjustment, rule };
+    });
+
+    return { adjustedPIAWE, adjustments: applied };
+  },
+
+  getRateIncreaseRule(rules: JurisdictionRules): string {
+    return rules.adjustmentRules.rateIncreaseMethod === 'average-from-increase'
+      ? `${rules.jurisdiction}: PIAWE is averaged over the weeks from the pay rise`
+      : `${rules.jurisdiction}: earnings before the pay rise are uplifted to the new rate`;
+  },
+
+  // Suggests an uplift for each rise in the ordinary rate found in the primary employer's payslips,
+  // and for the last pay increase in the case wage details when the payslips do not already show it.
+  // Proposals that have already been accepted as adjustments are left out.
+  proposeRateAdjustments(calculation: PIAWECalculation, wagesSalary?: WagesSalaryInfo): PIAWEAdjustmentProposal[] {
+    const rules = this.getJurisdictionRules(calculation.jurisdiction, calculation.injuryDate);
+    if (!rules.adjustmentRules.baseRateIncrease) return [];
+
+    const money = (amount: number) => `$${amount.toFixed(2)}`;
+    const date = (value: Date | string) => format(typeof value === 'string' ? parseISO(value) : value, 'dd/MM/yyyy');
+    const injuryDate = parseISO(calculation.injuryDate);
+    const referenceWeeks = rules.defaultReferencePeriod;
+    const periodStart = addDays(subWeeks(injuryDate, referenceWeeks), 1);
+    const rule = this.getRateIncreaseRule(rules);
+
+    // The primary employer's paid weeks in the reference period, oldest first
+    const primaryEmployerId = calculation.employers?.find(employer => employer.isPrimary)?.id;
+    const primaryResult = calculation.employerBreakdown?.find(result => result.isPrimary);
+    const payslips = calculation.payslips.filter(p => !p.employerId || p.employerId === primaryEmployerId);
+    const paidWeeks = this.apportionToWeeks(payslips.filter(p => !p.unpaidLeave))
+      .map(week => {
+        const inPeriod = this.getWeeksInPeriod(week, injuryDate, referenceWeeks);
+        const share = week.sourcePayslipId ? inPeriod * 7 / this.getPayslipPeriod(week).days : inPeriod;
+        return { week, inPeriod, share };
+      })
+      .filter(({ inPeriod }) => inPeriod > 0)
+      .reverse();
+
+    // PIAWE before adjustments and the weeks it was averaged over
+    const { period52Week, period13Week } = calculation.calculations;
+    const determined = this.determineFinalPIAWE(period52Week, period13Week, rules, calculation.jurisdiction);
+    const uses13Week = determined.methodUsed.startsWith('13-week');
+    const basePIAWE = primaryResult?.averageWeekly ?? this.applyCapping(determined.finalPIAWE, rules);
+    const averagedWeeks = primaryResult
+      ? (uses13Week ? primaryResult.period13Week : primaryResult.period52Week).includedWeeks
+      : (uses13Week ? period13Week : period52Week).includedWeeks;
+
+    const buildProposal = (
+      id: string,
+      source: PIAWEAdjustmentProposal['source'],
+      effectiveDate: Date,
+      type: PIAWEAdjustment['type'],
+      description: string,
+      reason: string,
+      workings: string[],
+      weeklyIncrease: (week: PayslipEntry, share: number) => number,
+      rates?: { previousRate: number; newRate: number }
+    ): PIAWEAdjustmentProposal | null => {
+      const before = paidWeeks.filter(({ week }) => isBefore(parseISO(week.weekEnding), effectiveDate));
+      const from = paidWeeks.filter(({ week }) => !isBefore(parseISO(week.weekEnding), effectiveDate));
+      let amount: number;
+
+      if (rules.adjustmentRules.rateIncreaseMethod === 'average-from-increase') {
+        const weeksFrom = from.reduce((sum, { inPeriod }) => sum + inPeriod, 0);
+        if (weeksFrom === 0) return null;
+        const earningsFrom = this.calculateJurisdictionEarnings(
+          from.map(({ week, share }) => this.scalePayslip(week, share)),
+          calculation.jurisdiction,
+          rules
+        ).totalEarnings;
+        const averageFrom = earningsFrom / weeksFrom;
+        amount = averageFrom - basePIAWE;
+        workings.push(
+          `Earnings from ${date(effectiveDate)}: ${money(earningsFrom)} over ${Math.round(weeksFrom * 100) / 100} weeks = ${money(averageFrom)} per week`,
+          `PIAWE before adjustment: ${money(basePIAWE)}`,
+          `Adjustment: ${money(averageFrom)} - ${money(basePIAWE)} = ${money(amount)}`
+        );
+      } else {
+        if (before.length === 0 || averagedWeeks === 0) return null;
+        const uplift = before.reduce((sum, { week, share }) => sum + weeklyIncrease(week, share), 0);
+        amount = uplift / averagedWeeks;
+        workings.push(
+          `Uplift to earnings before ${date(effectiveDate)}: ${money(uplift)}`,
+          `Spread over the ${averagedWeeks} weeks PIAWE is averaged over: ${money(uplift)} / ${averagedWeeks} = ${money(amount)} per week`
+        );
+      }
+
+      if (amount <= 0.005) return null;
+      amount = Math.round(amount * 100) / 100;
+      return {
+        id,
+        source,
+        effectiveDate: format(effectiveDate, 'yyyy-MM-dd'),
+        ...rates,
+        workings,
+        adjustment: {
+          id,
+          type,
+          description,
+          amount,
+          appliedDate: format(effectiveDate, 'yyyy-MM-dd'),
+          reason,
+          rule
+        }
+      };
+    };
+
+    const proposals: PIAWEAdjustmentProposal[] = [];
+
+    // Rises in the ordinary rate between consecutive paid weeks. Weeks paid as an amount without
+    // hours have no rate to compare.
+    const ratedWeeks = paidWeeks.filter(({ week }) => this.hasHourlyRate(week));
+    ratedWeeks.forEach(({ week }, index) => {
+      const previous = ratedWeeks[index - 1]?.week;
+      if (!previous || week.ordinaryRate - previous.ordinaryRate < 0.005) return;
+
+      const effectiveDate = maxDate([this.getPayslipPeriod(week).start, periodStart]);
+      const increase = week.ordinaryRate - previous.ordinaryRate;
+      const hoursBefore = paidWeeks
+        .filter(({ week: w }) => isBefore(parseISO(w.weekEnding), effectiveDate))
+        .reduce((sum, { week: w, share }) => sum + w.ordinaryHours * share, 0);
+      const proposal = buildProposal(
+        `rate-increase-${format(effectiveDate, 'yyyy-MM-dd')}`,
+        'payslips',
+        effectiveDate,
+        'base-rate-increase',
+        `Base rate increase from ${money(previous.ordinaryRate)} to ${money(week.ordinaryRate)} per hour`,
+        `Ordinary rate increase found in payslips from ${date(effectiveDate)}`,
+        [
+          `Ordinary rate rose from ${money(previous.ordinaryRate)} to ${money(week.ordinaryRate)} per hour from ${date(effectiveDate)}`,
+          ...(rules.adjustmentRules.rateIncreaseMethod === 'uplift-prior-weeks'
+            ? [`${hoursBefore.toFixed(1)} ordinary hours before the rise x ${money(increase)} more per hour`]
+            : [])
+        ],
+        (w, share) => w.ordinaryHours * share * increase,
+        { previousRate: previous.ordinaryRate, newRate: week.ordinaryRate }
+      );
+      if (proposal) proposals.push(proposal);
+    });
+
+    // Last pay increase from the case wage details, unless the payslips already show a rise near that date
+    const increase = wagesSalary?.lastPayIncrease;
+    if (increase?.date && increase.amount > 0) {
+      const effectiveDate = parseISO(increase.date);
+      const inPeriod = !isBefore(effectiveDate, periodStart) && !isAfter(effectiveDate, injuryDate);
+      const alreadyFound = proposals.some(p => Math.abs(differenceInCalendarDays(parseISO(p.effectiveDate), effectiveDate)) <= 14);
+      const isAgreement = /award|agreement|eba|enterprise/i.test(increase.reason || '');
+      const weeksBefore = paidWeeks
+        .filter(({ week }) => isBefore(parseISO(week.weekEnding), effectiveDate))
+        .reduce((sum, { share }) => sum + share, 0);
+
+      if (inPeriod && !alreadyFound && (!isAgreement || rules.adjustmentRules.industrialAgreement)) {
+        const proposal = buildProposal(
+          `pay-increase-${increase.date}`,
+          'wages-salary',
+          effectiveDate,
+          isAgreement ? 'industrial-agreement' : 'base-rate-increase',
+          `${isAgreement ? 'Award or agreement' : 'Pay'} increase of ${money(increase.amount)} per week`,
+          increase.reason || `Pay increase recorded in the case wage details from ${date(effectiveDate)}`,
+          [
+            `Weekly earnings rose by ${money(increase.amount)} from ${date(effectiveDate)} (case wage details)`,
+            ...(rules.adjustmentRules.rateIncreaseMethod === 'uplift-prior-weeks'
+              ? [`${Math.round(weeksBefore * 100) / 100} paid weeks before the rise x ${money(increase.amount)}`]
+              : [])
+          ],
+          (_, share) => increase.amount * share
+        );
+        if (proposal) proposals.push(proposal);
+      }
+    }
+
+    // Averaging from a rise already reflects every earlier rise, so only the latest one is proposed
+    const current = rules.adjustmentRules.rateIncreaseMethod === 'average-from-increase'
+      ? proposals.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)).slice(-1)
+      : proposals;
+
+    return current.filter(proposal => !calculation.adjustments.some(adjustment => adjustment.id === proposal.id));
+  },
+
+  // Applies each published indexation that took effect between the injury date (or the last date the
+  // calculation was indexed to) and asAt, then re-applies the cap in force on asAt.
+  applyIndexation(calculation: PIAWECalculation, asAt: string = format(new Date(), 'yyyy-MM-dd')): PIAWECalculation {
+    const from = calculation.indexedTo || calculation.injuryDate;
+    const steps = jurisdictionRulesService
+      .getIndexationSteps(calculation.jurisdiction, from, asAt)
+      .filter(step => !calculation.adjustments.some(adj => adj.type === 'indexation' && adj.ruleVersion === step.version));
+
+    if (steps.length === 0) return calculation;
+
+    let indexedPIAWE = calculation.finalPIAWE;
+    const indexationAdjustments: PIAWEAdjustment[] = steps.map(step => {
+      const amount = indexedPIAWE * (step.indexationRate! / 100);
+      indexedPIAWE += amount;
+      return {
+        id: `indexation-${step.version.replace(/\s+/g, '-')}`,
+        type: 'indexation',
+        description: `${step.version} indexation (${step.indexationRate}%)`,
+        amount,
+        percentage: step.indexationRate,
+        appliedDate: step.effectiveFrom,
+        reason: step.source || `Published ${calculation.jurisdiction} indexation`,
+        ruleVersion: step.version,
+        rule: `${step.version} indexation`
+      };
+    });
+
+    return {
+      ...calculation,
+      finalPIAWE: this.applyCapping(indexedPIAWE, this.getJurisdictionRules(calculation.jurisdiction, asAt)),
+      adjustments: [...calculation.adjustments, ...indexationAdjustments],
+      indexedTo: asAt,
+      updatedAt: new Date().toISOString()
+    };
+  },
+
+  // Differences between two calculations, `from` being the older one. Payslips are matched by
+  // week ending because re-imported payslips get new ids; adjustments are matched by id.
+  diffCalculations(from: PIAWECalculation, to: PIAWECalculation): PIAWEVersionDiff {
+    const change = <T>(a: T, b: T) => ({ from: a, to: b, changed: a !== b });
+    const payslipFields: (keyof PayslipEntry)[] = [
+      'ordinaryHours', 'ordinaryRate', 'ordinaryPay', 'overtimeHours', 'overtimeRate', 'overtimePay', 'allowances',
+      'bonuses', 'commissions', 'otherIncome', 'totalGross', 'unpaidLeave', 'notes'
+    ];
+
+    // Concurrent employers can share a week ending, so the employer is part of the key
+    const payslipKey = (payslip: PayslipEntry) => `${payslip.weekEnding}|${payslip.employerId || ''}`;
+    const fromPayslips = new Map(from.payslips.map(payslip => [payslipKey(payslip), payslip]));
+    const toPayslips = new Map(to.payslips.map(payslip => [payslipKey(payslip), payslip]));
+    const keys = Array.from(new Set([...fromPayslips.keys(), ...toPayslips.keys()])).sort();
+
+    const payslips: PIAWEPayslipDiff[] = [];
+    keys.forEach(key => {
+      const before = fromPayslips.get(key);
+      const after = toPayslips.get(key);
+      const { weekEnding, employerId } = (after || before)!;
+      if (!before || !after) {
+        payslips.push({ weekEnding, employerId, status: before ? 'removed' : 'added', fields: [] });
+        return;
+      }
+      const fields = payslipFields
+        .filter(field => (before[field] ?? '') !== (after[field] ?? ''))
+        .map(field => ({ field, from: before[field], to: after[field] }));
+      if (fields.length > 0) {
+        payslips.push({ weekEnding, employerId, status: 'changed', fields });
+      }
+    });
+
+    const fromAdjustments = new Map(from.adjustments.map(adjustment => [adjustment.id, adjustment]));
+    const toAdjustments = new Map(to.adjustments.map(adjustment => [adjustment.id, adjustment]));
+    const adjustments: PIAWEAdjustmentDiff[] = [];
+    new Set([...fromAdjustments.keys(), ...toAdjustments.keys()]).forEach(id => {
+      const before = fromAdjustments.get(id);
+      const after = toAdjustments.get(id);
+      const description = (after || before)!.description;
+      if (!before || !after) {
+        adjustments.push({ id, description, status: before ? 'removed' : 'added', from: before, to: after });
+      } else if (
+        before.type !== after.type ||
+        before.amount !== after.amount ||
+        before.percentage !== after.percentage ||
+        before.description !== after.description ||
+        before.reason !== after.reason
+      ) {
+        adjustments.push({ id, description, status: 'changed', from: before, to: after });
       }
-    }, basePIAWE);
+    });
+
+    return {
+      finalPIAWE: change(from.finalPIAWE, to.finalPIAWE),
+      methodUsed: change(from.methodUsed, to.methodUsed),
+      jurisdiction: change(from.jurisdiction, to.jurisdiction),
+      injuryDate: change(from.injuryDate, to.injuryDate),
+      rulesVersion: change(from.rulesVersion, to.rulesVersion),
+      payslips,
+      adjustments
+    };
   },
 
+  // Checks the payslips against the reference period ending on the injury date. Issue ids are
+  // built from the issue type and dates so the same problem keeps its id between recalculations.
   validateCalculation(
     payslips: PayslipEntry[],
     injuryDate: Date,
@@ -565,18 +1032,163 @@ export const piaweService = {
     jurisdiction: JurisdictionType
   ): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
-    
-    // Check for missing weeks based on jurisdiction requirements
-    const periodStartDate = subWeeks(injuryDate, 52);
-    const expectedWeeks = differenceInWeeks(injuryDate, periodStartDate);
-    const actualWeeks = payslips.length;
-    
-    // Jurisdiction-specific validation
+    const date = (value: Date | string) => format(typeof value === 'string' ? parseISO(value) : value, 'dd/MM/yyyy');
+    const referenceWeeks = rules.defaultReferencePeriod;
+    const periodStart = addDays(subWeeks(injuryDate, referenceWeeks), 1);
+    const periodDays = referenceWeeks * 7;
+    const chronological = [...payslips].sort((a, b) => parseISO(a.weekEnding).getTime() - parseISO(b.weekEnding).getTime());
+    const inPeriod = chronological.filter(p => this.getPayslipWeeksInPeriod(p, injuryDate, referenceWeeks).inPeriod > 0);
+    const byEmployer = (list: PayslipEntry[]) => list.reduce((groups, payslip) => {
+      const key = payslip.employerId || '';
+      groups.set(key, [...(groups.get(key) || []), payslip]);
+      return groups;
+    }, new Map<string, PayslipEntry[]>());
+
+    // Duplicate week-ending dates for the same employer would be counted twice
+    byEmployer(chronological).forEach((employerPayslips, employerId) => {
+      const byWeekEnding = new Map<string, PayslipEntry[]>();
+      employerPayslips.forEach(p => byWeekEnding.set(p.weekEnding, [...(byWeekEnding.get(p.weekEnding) || []), p]));
+      byWeekEnding.forEach((duplicates, weekEnding) => {
+        if (duplicates.length < 2) return;
+        issues.push({
+          id: `duplicate-week-${weekEnding}${employerId ? `-${employerId}` : ''}`,
+          type: 'duplicate-week',
+          severity: 'error',
+          message: `${duplicates.length} payslips have the period ending ${date(weekEnding)}`,
+          weekEnding,
+          payslipIds: duplicates.map(p => p.id),
+          suggestedAction: 'Remove the duplicate payslip so the earnings are only counted once'
+        });
+      });
+    });
+
+    // Payslips for periods after the injury are not pre-injury earnings
+    const postInjury = chronological.filter(p => isAfter(parseISO(p.weekEnding), injuryDate));
+    if (postInjury.length > 0) {
+      issues.push({
+        id: 'post-injury',
+        type: 'post-injury',
+        severity: 'warning',
+        message: `${postInjury.length} payslip(s) cover days after the injury on ${date(injuryDate)}: ${postInjury.map(p => date(p.weekEnding)).join(', ')}`,
+        weekEnding: postInjury[0].weekEnding,
+        payslipIds: postInjury.map(p => p.id),
+        suggestedAction: 'Earnings after the injury date are not counted towards PIAWE. Remove payslips that relate to post-injury earnings.'
+      });
+    }
+
+    // Mark each day of the reference period that a payslip covers
+    const covered = new Array<boolean>(periodDays).fill(false);
+    chronological.forEach(p => {
+      const { start, end } = this.getPayslipPeriod(p);
+      const from = Math.max(0, differenceInCalendarDays(start, periodStart));
+      const to = Math.min(periodDays - 1, differenceInCalendarDays(end, periodStart));
+      for (let day = from; day <= to; day++) covered[day] = true;
+    });
+    const coveredWeeks = Math.round((covered.filter(Boolean).length / 7) * 10) / 10;
+    // Weekly figures so fortnightly and monthly payroll is comparable with weekly
+    const paidWeeks = this.apportionToWeeks(inPeriod.filter(p => !p.unpaidLeave))
+      .filter(week => this.getWeeksInPeriod(week, injuryDate, referenceWeeks) > 0);
+    const firstCovered = covered.indexOf(true);
+    const lastCovered = covered.lastIndexOf(true);
+
+    // Gaps of a week or more between payslips, or between the last payslip and the injury
+    if (firstCovered >= 0) {
+      let day = firstCovered;
+      while (day < periodDays) {
+        if (covered[day]) {
+          day++;
+          continue;
+        }
+        const gapStart = day;
+        while (day < periodDays && !covered[day]) day++;
+        const gapEnd = day - 1;
+        if (gapEnd - gapStart + 1 < 7) continue;
+
+        const weekEndings: string[] = [];
+        for (let end = gapEnd; end >= gapStart; end -= 7) {
+          weekEndings.unshift(format(addDays(periodStart, end), 'yyyy-MM-dd'));
+        }
+        const adjacent = chronological.filter(p => {
+          const { start, end } = this.getPayslipPeriod(p);
+          return differenceInCalendarDays(end, addDays(periodStart, gapStart - 1)) === 0 ||
+                 differenceInCalendarDays(start, addDays(periodStart, gapEnd + 1)) === 0;
+        });
+        const beforeInjury = gapStart > lastCovered;
+        issues.push({
+          id: `missing-weeks-${weekEndings[0]}`,
+          type: 'missing-weeks',
+          severity: 'warning',
+          message: beforeInjury
+            ? `No payslips for the ${weekEndings.length} week(s) before the injury: weeks ending ${weekEndings.map(date).join(', ')}`
+            : `${weekEndings.length} week(s) missing between ${date(addDays(periodStart, gapStart))} and ${date(addDays(periodStart, gapEnd))}: weeks ending ${weekEndings.map(date).join(', ')}`,
+          weekEnding: weekEndings[0],
+          weekEndings,
+          payslipIds: adjacent.map(p => p.id),
+          suggestedAction: 'Obtain the missing payslips, or record the weeks as unpaid leave if the worker was not paid'
+        });
+      }
+    }
+
+    // Runs of unpaid leave are excluded, which shortens the reference period
+    const leaveRuns: PayslipEntry[][] = [];
+    byEmployer(inPeriod).forEach(employerPayslips => {
+      let run: PayslipEntry[] = [];
+      employerPayslips.forEach((p, index) => {
+        const previous = employerPayslips[index - 1];
+        const continues = previous && differenceInCalendarDays(this.getPayslipPeriod(p).start, parseISO(previous.weekEnding)) <= 1;
+        if (p.unpaidLeave && run.length > 0 && continues) {
+          run.push(p);
+        } else {
+          if (run.length > 0) leaveRuns.push(run);
+          run = p.unpaidLeave ? [p] : [];
+        }
+      });
+      if (run.length > 0) leaveRuns.push(run);
+    });
+    const leaveWeeks = (run: PayslipEntry[]) =>
+      run.reduce((sum, p) => sum + this.getPayslipWeeksInPeriod(p, injuryDate, referenceWeeks).inPeriod, 0);
+    const totalLeaveWeeks = leaveRuns.reduce((sum, run) => sum + leaveWeeks(run), 0);
+    leaveRuns.forEach(run => {
+      const weeks = Math.round(leaveWeeks(run) * 10) / 10;
+      const first = run[0];
+      const last = run[run.length - 1];
+      issues.push({
+        id: `unpaid-leave-${first.weekEnding}`,
+        type: 'unpaid-leave',
+        severity: 'warning',
+        message: `${weeks} week(s) of unpaid leave from ${date(this.getPayslipPeriod(first).start)} to ${date(last.weekEnding)} are excluded, shortening the ${referenceWeeks}-week period to ${Math.round((referenceWeeks - totalLeaveWeeks) * 10) / 10} weeks`,
+        weekEnding: first.weekEnding,
+        payslipIds: run.map(p => p.id),
+        suggestedAction: 'Confirm the leave was unpaid. Paid leave should be entered with its earnings.'
+      });
+    });
+
+    // Base rate changes part way through the period, e.g. a pay rise or award increase
+    byEmployer(inPeriod).forEach(employerPayslips => {
+      const paid = employerPayslips.filter(p => !p.unpaidLeave && this.hasHourlyRate(p));
+      paid.forEach((p, index) => {
+        const previous = paid[index - 1];
+        if (!previous || Math.abs(p.ordinaryRate - previous.ordinaryRate) < 0.005) return;
+        issues.push({
+          id: `rate-change-${p.weekEnding}${p.employerId ? `-${p.employerId}` : ''}`,
+          type: 'rate-change',
+          severity: 'warning',
+          message: `Ordinary rate changed from $${previous.ordinaryRate.toFixed(2)} to $${p.ordinaryRate.toFixed(2)} in the period ending ${date(p.weekEnding)}`,
+          weekEnding: p.weekEnding,
+          payslipIds: [previous.id, p.id],
+          suggestedAction: `Check whether ${jurisdiction} requires earnings before the change to be adjusted to the new rate`
+        });
+      });
+    });
+
+    // Jurisdiction-specific validation, against the weeks the payslips actually cover
+    const actualWeeks = coveredWeeks;
+    const expectedWeeks = referenceWeeks;
     switch (jurisdiction) {
       case 'NSW':
         if (actualWeeks < 26 && actualWeeks < expectedWeeks * 0.5) {
           issues.push({
-            id: `issue-${Date.now()}-1`,
+            id: 'insufficient-data',
             type: 'insufficient-data',
             severity: 'warning',
             message: `NSW requires substantial payslip data. Only ${actualWeeks} weeks available.`,
@@ -588,7 +1200,7 @@ export const piaweService = {
       case 'VIC':
         if (actualWeeks < 20 && actualWeeks < expectedWeeks * 0.4) {
           issues.push({
-            id: `issue-${Date.now()}-1`,
+            id: 'insufficient-data',
             type: 'insufficient-data',
             severity: 'warning',
             message: `VIC requires adequate payslip data. Only ${actualWeeks} weeks available.`,
@@ -600,7 +1212,7 @@ export const piaweService = {
       case 'QLD':
         if (actualWeeks < 26) {
           issues.push({
-            id: `issue-${Date.now()}-1`,
+            id: 'insufficient-data',
             type: 'insufficient-data',
             severity: 'warning',
             message: `QLD prefers 12 months of data. Consider seasonal worker provisions.`,
@@ -611,19 +1223,15 @@ export const piaweService = {
 
       case 'WA':
         // Check for earnings fluctuation
-        if (payslips.length > 4) {
-          const earnings = payslips.map(p => p.totalGross);
-          const average = earnings.reduce((sum, val) => sum + val, 0) / earnings.length;
-          const hasHighFluctuation = earnings.some(earning => 
-            Math.abs(earning - average) > average * 0.4
-          );
-          
-          if (hasHighFluctuation) {
+        if (paidWeeks.length > 4) {
+          const outliers = this.findOutliers(paidWeeks, 0.4);
+          if (outliers.length > 0) {
             issues.push({
-              id: `issue-${Date.now()}-2`,
+              id: 'extreme-fluctuation-WA',
               type: 'extreme-fluctuation',
               severity: 'warning',
               message: 'WA: Significant earnings fluctuation detected - may require negotiated PIAWE',
+              payslipIds: outliers,
               suggestedAction: 'Consider negotiating PIAWE due to fluctuating earnings pattern'
             });
           }
@@ -634,7 +1242,7 @@ export const piaweService = {
         // SA-specific validation
         if (actualWeeks < 26) {
           issues.push({
-            id: `issue-${Date.now()}-1`,
+            id: 'insufficient-data',
             type: 'insufficient-data',
             severity: 'warning',
             message: `SA requires 12 months average. Only ${actualWeeks} weeks available.`,
@@ -645,32 +1253,30 @@ export const piaweService = {
     }
     
     // Check for extreme fluctuations (general)
-    if (payslips.length > 4) {
-      const earnings = payslips.map(p => p.totalGross);
-      const average = earnings.reduce((sum, val) => sum + val, 0) / earnings.length;
-      const hasExtremeFluctuation = earnings.some(earning => 
-        Math.abs(earning - average) > average * 0.6
-      );
-      
-      if (hasExtremeFluctuation) {
+    if (paidWeeks.length > 4) {
+      const outliers = this.findOutliers(paidWeeks, 0.6);
+      if (outliers.length > 0) {
         issues.push({
-          id: `issue-${Date.now()}-3`,
+          id: 'extreme-fluctuation',
           type: 'extreme-fluctuation',
           severity: 'warning',
           message: 'Extreme variations in weekly earnings detected',
+          payslipIds: outliers,
           suggestedAction: `Review payslips for accuracy and consider ${jurisdiction}-specific provisions for irregular earnings`
         });
       }
     }
     
     // Check for superannuation inclusion (should be excluded)
-    const hasSuperConcern = payslips.some(p => p.totalGross > (p.ordinaryHours * p.ordinaryRate + p.overtimeHours * p.overtimeRate + p.allowances + p.bonuses + p.commissions + p.otherIncome) * 1.1);
-    if (hasSuperConcern) {
+    const superConcerns = chronological.filter(p => p.totalGross > (this.getOrdinaryPay(p) + this.getOvertimePay(p) + p.allowances + p.bonuses + p.commissions + p.otherIncome) * 1.1);
+    if (superConcerns.length > 0) {
       issues.push({
-        id: `issue-${Date.now()}-4`,
+        id: 'super-inclusion',
         type: 'inconsistent-rates',
         severity: 'error',
         message: 'Possible superannuation inclusion detected in gross earnings',
+        weekEnding: superConcerns[0].weekEnding,
+        payslipIds: superConcerns.map(p => p.id),
         suggestedAction: 'Verify that superannuation is excluded from PIAWE calculation as per legislation'
       });
     }
@@ -678,109 +1284,253 @@ export const piaweService = {
     return issues;
   },
 
-  async parsePayslipData(file: File): Promise<PayslipEntry[]> {
-    // Enhanced OCR parsing with jurisdiction awareness
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Mock parsed data with more realistic variations
-        const mockData: PayslipEntry[] = [
-          {
-            id: `entry-${Date.now()}-1`,
-            weekEnding: format(subWeeks(new Date(), 1), 'yyyy-MM-dd'),
-            ordinaryHours: 38,
-            ordinaryRate: 28.50,
-            overtimeHours: 4,
-            overtimeRate: 42.75,
-            allowances: 120, // Shift allowance
-            bonuses: 0,
-            commissions: 0,
-            otherIncome: 0,
-            totalGross: 1413, // Calculated: (38*28.50) + (4*42.75) + 120
-            unpaidLeave: false
-          },
-          {
-            id: `entry-${Date.now()}-2`,
-            weekEnding: format(subWeeks(new Date(), 2), 'yyyy-MM-dd'),
-            ordinaryHours: 38,
-            ordinaryRate: 28.50,
-            overtimeHours: 2,
-            overtimeRate: 42.75,
-            allowances: 120,
-            bonuses: 0,
-            commissions: 0,
-            otherIncome: 0,
-            totalGross: 1328.5, // (38*28.50) + (2*42.75) + 120
-            unpaidLeave: false
-          },
-          {
-            id: `entry-${Date.now()}-3`,
-            weekEnding: format(subWeeks(new Date(), 3), 'yyyy-MM-dd'),
-            ordinaryHours: 38,
-            ordinaryRate: 28.50,
-            overtimeHours: 6,
-            overtimeRate: 42.75,
-            allowances: 120,
-            bonuses: 200, // Quarterly bonus
-            commissions: 0,
-            otherIncome: 0,
-            totalGross: 1719.5, // (38*28.50) + (6*42.75) + 120 + 200
-            unpaidLeave: false
-          }
-        ];
-        resolve(mockData);
-      }, 1000);
-    });
+  // Payslips with a week whose gross is further than the tolerance from the average week.
+  // Returns the original payslip ids so apportioned weeks link back to their payslip.
+  findOutliers(weeks: PayslipEntry[], tolerance: number): string[] {
+    const average = weeks.reduce((sum, week) => sum + week.totalGross, 0) / weeks.length;
+    const outliers = weeks
+      .filter(week => Math.abs(week.totalGross - average) > average * tolerance)
+      .map(week => week.sourcePayslipId || week.id);
+    return Array.from(new Set(outliers));
   },
 
-  generatePIAWEStatement(calculation: PIAWECalculation): Blob {
-    // Enhanced PDF statement with jurisdiction-specific information
-    const content = `
-PIAWE CALCULATION STATEMENT
-${calculation.jurisdiction} JURISDICTION
+  async parsePayslipData(file: File, mapping?: PayslipColumnMapping): Promise<PayslipImportResult> {
+    const table = await payslipImportService.readFile(file);
+    return payslipImportService.mapRows(table, mapping || payslipImportService.suggestMapping(table.headers));
+  },
 
-Worker: ${calculation.workerId}
-Injury Date: ${format(parseISO(calculation.injuryDate), 'dd/MM/yyyy')}
-Jurisdiction: ${calculation.jurisdiction}
-Calculation Date: ${format(parseISO(calculation.calculationDate), 'dd/MM/yyyy')}
+  async generatePIAWEStatement(calculation: PIAWECalculation): Promise<Blob> {
+    const money = (amount: number) => `$${amount.toFixed(2)}`;
+    const date = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+    const injuryDateObj = parseISO(calculation.injuryDate);
+    const { period52Week, period13Week, periodCustom } = calculation.calculations;
+    const customWeeks = this.getCustomReferenceWeeks(calculation);
+    const workerName = calculation.workerName || calculation.workerId || 'Not recorded';
 
-JURISDICTION-SPECIFIC FORMULA:
-${this.getJurisdictionFormula(calculation.jurisdiction)}
+    const pdf = await PdfDocumentBuilder.create(`PIAWE Statement - ${workerName}`);
+    pdf.setTitle(`PIAWE Calculation Statement - ${workerName}`);
+    pdf.title('PIAWE Calculation Statement', `${calculation.jurisdiction} jurisdiction`);
 
-CALCULATION SUMMARY:
-Final PIAWE: $${calculation.finalPIAWE.toFixed(2)}
-Method Used: ${calculation.methodUsed}
+    pdf.keyValues([
+      ['Worker', workerName],
+      ['Injury Date', date(calculation.injuryDate)],
+      ['Jurisdiction', calculation.jurisdiction],
+      ['Employment Type', calculation.employmentType],
+      ['Calculation Date', date(calculation.calculationDate)],
+      ['Prepared By', calculation.createdBy]
+    ]);
 
-52-WEEK PERIOD CALCULATION:
-Total Earnings: $${calculation.calculations.period52Week.totalEarnings.toFixed(2)}
-- Ordinary Earnings: $${calculation.calculations.period52Week.ordinaryEarnings.toFixed(2)}
-- Overtime Earnings: $${calculation.calculations.period52Week.overtimeEarnings.toFixed(2)}
-- Allowances: $${calculation.calculations.period52Week.allowancesTotal.toFixed(2)}
-- Bonuses: $${calculation.calculations.period52Week.bonusesTotal.toFixed(2)}
-- Commissions: $${calculation.calculations.period52Week.commissionsTotal.toFixed(2)}
-- Other Income: $${calculation.calculations.period52Week.otherIncomeTotal.toFixed(2)}
+    pdf.heading('Calculation Summary');
+    const rules = this.getJurisdictionRules(calculation.jurisdiction, calculation.indexedTo || calculation.injuryDate);
+    const cap = rules.cappingRules?.maxWeeklyAmount;
+    pdf.keyValues([
+      ['Final PIAWE', money(calculation.finalPIAWE)],
+      ['Method Used', calculation.methodUsed],
+      ['Rule Set', calculation.rulesVersion || rules.version],
+      ['Weekly Cap', cap ? `${money(cap)} (${rules.version})` : 'No cap'],
+      ...(calculation.indexedTo ? [['Indexed To', date(calculation.indexedTo)] as [string, string]] : []),
+      ...(calculation.scenario ? [['Scenario', this.describeScenario(calculation.scenario.name, calculation.scenario.options)] as [string, string]] : [])
+    ]);
 
-Included Weeks: ${calculation.calculations.period52Week.includedWeeks}
-Excluded Weeks: ${calculation.calculations.period52Week.excludedWeeks}
-Average Weekly: $${calculation.calculations.period52Week.averageWeekly.toFixed(2)}
+    pdf.heading('Jurisdiction Formula');
+    pdf.paragraph(this.getJurisdictionFormula(calculation.jurisdiction));
 
-13-WEEK PERIOD CALCULATION:
-Total Earnings: $${calculation.calculations.period13Week.totalEarnings.toFixed(2)}
-Included Weeks: ${calculation.calculations.period13Week.includedWeeks}
-Average Weekly: $${calculation.calculations.period13Week.averageWeekly.toFixed(2)}
+    // A custom reference period that set the PIAWE is shown alongside the 52 and 13 week periods
+    pdf.heading('Reference Periods');
+    const periods = periodCustom && customWeeks
+      ? [period52Week, period13Week, periodCustom]
+      : [period52Week, period13Week];
+    const row = (label: string, value: (result: PIAWEResult) => string) => [label, ...periods.map(value)];
+    pdf.table(
+      [
+        { header: 'Component', width: periods.length === 3 ? 0.31 : 0.4 },
+        ...['52-Week Period', '13-Week Period', `${customWeeks}-Week Period (used)`]
+          .slice(0, periods.length)
+          .map(header => ({ header, width: periods.length === 3 ? 0.23 : 0.3, align: 'right' as const }))
+      ],
+      [
+        row('Ordinary earnings', result => money(result.ordinaryEarnings)),
+        row('Overtime', result => money(result.overtimeEarnings)),
+        row('Allowances', result => money(result.allowancesTotal)),
+        row('Bonuses', result => money(result.bonusesTotal)),
+        row('Commissions', result => money(result.commissionsTotal)),
+        row('Other income', result => money(result.otherIncomeTotal)),
+        row('Non-pecuniary benefits', result => money(result.nonPecuniaryTotal ?? 0)),
+        row('Salary sacrifice', result => money(result.salarySacrificeTotal ?? 0)),
+        row('Total earnings', result => money(result.totalEarnings)),
+        row('Included weeks', result => String(result.includedWeeks)),
+        row('Excluded weeks', result => String(result.excludedWeeks)),
+        row('Average weekly', result => money(result.averageWeekly))
+      ],
+      { size: 9, boldRows: [8, 11] }
+    );
 
-ADJUSTMENTS APPLIED:
-${calculation.adjustments.map(adj => `${adj.description}: $${adj.amount.toFixed(2)}`).join('\n')}
+    if (calculation.employerBreakdown) {
+      pdf.heading('Employer Breakdown');
+      pdf.table(
+        [
+          { header: 'Employer', width: 0.3 },
+          { header: 'Type', width: 0.12 },
+          { header: '52-Week Avg', width: 0.14, align: 'right' },
+          { header: '13-Week Avg', width: 0.14, align: 'right' },
+          { header: 'Average Weekly', width: 0.14, align: 'right' },
+          { header: 'Counted', width: 0.16 }
+        ],
+        calculation.employerBreakdown.map(result => [
+          result.isPrimary ? `${result.employerName} (claim employer)` : result.employerName,
+          result.employmentType,
+          money(result.period52Week.averageWeekly),
+          money(result.period13Week.averageWeekly),
+          money(result.averageWeekly),
+          result.included ? 'Yes' : `No - not counted in ${calculation.jurisdiction}`
+        ]),
+        { size: 9 }
+      );
+      pdf.paragraph('Each employer is averaged over its own payslips. The counted employers are added together before the final PIAWE method is applied.', { muted: true });
+    }
 
-VALIDATION ISSUES:
-${calculation.validationIssues.map(issue => `${issue.severity.toUpperCase()}: ${issue.message}`).join('\n')}
+    pdf.heading('Payslips');
+    const chronological = [...calculation.payslips].sort((a, b) => parseISO(a.weekEnding).getTime() - parseISO(b.weekEnding).getTime());
+    const payPeriod = (payslip: PayslipEntry) => {
+      const { start, days } = this.getPayslipPeriod(payslip);
+      return days > 7 ? `${format(start, 'dd/MM/yyyy')} - ${date(payslip.weekEnding)}` : date(payslip.weekEnding);
+    };
+    const multipleEmployers = !!calculation.employerBreakdown;
+    const employerName = (payslip: PayslipEntry) => {
+      const primary = calculation.employers?.find(employer => employer.isPrimary);
+      return calculation.employers?.find(employer => employer.id === (payslip.employerId || primary?.id))?.name || '';
+    };
+    const payslipRows = chronological.map(payslip => [
+      payPeriod(payslip),
+      ...(multipleEmployers ? [employerName(payslip)] : []),
+      money(this.getOrdinaryPay(payslip)),
+      money(this.getOvertimePay(payslip)),
+      money(payslip.allowances),
+      money(payslip.bonuses),
+      money(payslip.commissions),
+      money(payslip.otherIncome),
+      money(payslip.totalGross),
+      this.getPayslipTreatment(payslip, injuryDateObj, customWeeks)
+    ]);
+    if (payslipRows.length > 0) {
+      pdf.table(
+        [
+          { header: 'Period Ending', width: 0.11 },
+          ...(multipleEmployers ? [{ header: 'Employer', width: 0.1 }] : []),
+          { header: 'Ordinary', width: 0.1, align: 'right' },
+          { header: 'Overtime', width: 0.09, align: 'right' },
+          { header: 'Allowances', width: 0.1, align: 'right' },
+          { header: 'Bonuses', width: 0.09, align: 'right' },
+          { header: 'Comm.', width: 0.08, align: 'right' },
+          { header: 'Other', width: 0.08, align: 'right' },
+          { header: 'Gross', width: 0.1, align: 'right' },
+          { header: 'Treatment', width: multipleEmployers ? 0.15 : 0.25 }
+        ],
+        payslipRows,
+        { size: 7.5 }
+      );
+    } else {
+      pdf.paragraph('No payslips were recorded for this calculation.', { muted: true });
+    }
 
-LEGISLATIVE REFERENCE:
-${this.getLegislativeReference(calculation.jurisdiction)}
+    // Treatment of each benefit or salary sacrifice type recorded on the payslips
+    const componentTypes = Array.from(new Set(chronological.flatMap(p => (p.earningsComponents || []).map(c => c.type))));
+    if (componentTypes.length > 0) {
+      pdf.heading('Benefits and Salary Sacrifice');
+      pdf.table(
+        [
+          { header: 'Component', width: 0.2 },
+          { header: 'Valuation', width: 0.18 },
+          { header: 'Total Value', width: 0.13, align: 'right' },
+          { header: 'Treatment', width: 0.12 },
+          { header: `${calculation.jurisdiction} Basis`, width: 0.37 }
+        ],
+        componentTypes.map(type => {
+          const components = chronological.flatMap(p => (p.earningsComponents || []).filter(c => c.type === type));
+          const treatment = rules.earningsComponentRules?.[type];
+          return [
+            EARNINGS_COMPONENT_TYPES[type].label,
+            Array.from(new Set(components.map(c => VALUATION_METHOD_LABELS[c.valuationMethod]))).join(', '),
+            money(components.reduce((sum, c) => sum + c.amount, 0)),
+            treatment?.included ? 'Included' : 'Excluded',
+            treatment?.basis || ''
+          ];
+        }),
+        { size: 8.5 }
+      );
+    }
 
-This calculation complies with ${calculation.jurisdiction} workers' compensation legislation.
-    `;
-    
-    return new Blob([content], { type: 'application/pdf' });
+    pdf.heading('Included and Excluded Weeks');
+    const inReferencePeriod = (p: PayslipEntry) => this.getPayslipWeeksInPeriod(p, injuryDateObj, 52).inPeriod > 0;
+    const excluded = chronological.filter(p => inReferencePeriod(p) && p.unpaidLeave);
+    const outside = chronological.filter(p => !inReferencePeriod(p));
+    pdf.paragraph(`52-week period: ${period52Week.includedWeeks} weeks included, ${period52Week.excludedWeeks} weeks excluded.`);
+    pdf.paragraph(`13-week period: ${period13Week.includedWeeks} weeks included, ${period13Week.excludedWeeks} weeks excluded.`);
+    if (excluded.length > 0) {
+      pdf.paragraph(`Excluded for unpaid leave: ${excluded.map(p => date(p.weekEnding)).join(', ')}`);
+    }
+    if (outside.length > 0) {
+      pdf.paragraph(`Outside the reference period and not counted: ${outside.map(p => date(p.weekEnding)).join(', ')}`);
+    }
+
+    pdf.heading('Adjustments');
+    if (calculation.adjustments.length > 0) {
+      pdf.table(
+        [
+          { header: 'Type', width: 0.15 },
+          { header: 'Description', width: 0.24 },
+          { header: 'Reason', width: 0.22 },
+          { header: 'Rule Applied', width: 0.26 },
+          { header: 'Amount', width: 0.13, align: 'right' }
+        ],
+        calculation.adjustments.map(adj => [adj.type, adj.description, adj.reason, adj.rule || '', money(adj.amount)])
+      );
+    } else {
+      pdf.paragraph('No adjustments applied.', { muted: true });
+    }
+
+    pdf.heading('Validation Issues');
+    if (calculation.validationIssues.length > 0) {
+      pdf.table(
+        [
+          { header: 'Severity', width: 0.12 },
+          { header: 'Issue', width: 0.48 },
+          { header: 'Suggested Action', width: 0.4 }
+        ],
+        calculation.validationIssues.map(issue => [issue.severity.toUpperCase(), issue.message, issue.suggestedAction || ''])
+      );
+    } else {
+      pdf.paragraph('No validation issues were raised.', { muted: true });
+    }
+
+    pdf.heading('Legislative Reference');
+    pdf.paragraph(this.getLegislativeReference(calculation.jurisdiction));
+    pdf.space();
+    pdf.paragraph(`This calculation complies with ${calculation.jurisdiction} workers' compensation legislation.`, { muted: true });
+
+    return pdf.toBlob();
+  },
+
+  // The custom reference period that set the PIAWE, in weeks. Undefined when the 52 and 13 week
+  // periods were used.
+  getCustomReferenceWeeks(calculation: PIAWECalculation): number | undefined {
+    if (!calculation.calculations.periodCustom) return undefined;
+    const used = calculation.referencePeriodsUsed[calculation.referencePeriodsUsed.length - 1];
+    return parseInt(used, 10) || undefined;
+  },
+
+  // How a payslip counts towards the PIAWE: against the custom reference period when one set the
+  // PIAWE, otherwise against the 52 and 13 week periods
+  getPayslipTreatment(payslip: PayslipEntry, injuryDate: Date, customWeeks?: number): string {
+    const period = this.getPayslipWeeksInPeriod(payslip, injuryDate, customWeeks ?? 52);
+    if (period.inPeriod === 0) return 'Excluded - outside reference period';
+    if (payslip.unpaidLeave) return 'Excluded - unpaid leave';
+    const included = customWeeks
+      ? `Included (${customWeeks} week)`
+      : this.getPayslipWeeksInPeriod(payslip, injuryDate, 13).inPeriod > 0 ? 'Included (52 and 13 week)' : 'Included (52 week)';
+    return period.inPeriod < period.total
+      ? `${included}, pro-rated ${period.inPeriod.toFixed(2)} of ${period.total.toFixed(2)} weeks`
+      : included;
   },
 
   getJurisdictionFormula(jurisdiction: JurisdictionType): string {
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalCertificate, RtwPlan } from '../types';
+import { rtwPlanConflictService } from './rtwPlanConflictService';
+
+const TODAY = '2025-07-01';
+
+const makePlan = (overrides: Partial<RtwPlan> = {}): RtwPlan => ({
+  id: 'plan-1',
+  title: 'Return to work plan',
+  startDate: '2025-07-07',
+  endDate: '2025-08-01',
+  goals: [],
+  tasks: [],
+  reviewDate: '2025-07-21',
+  status: 'draft',
+  ...overrides
+});
+
+const makeCertificate = (overrides: Partial<MedicalCertificate> = {}): MedicalCertificate => ({
+  id: 'cert-1',
+  caseId: 'case-1',
+  startDate: '2025-07-01',
+  endDate: '2025-08-31',
+  doctorName: 'Dr Smith',
+  capacity: 'suitable-duties',
+  restrictions: [],
+  recommendations: [],
+  status: 'active',
+  createdAt: '2025-07-01T00:00:00Z',
+  ...overrides
+});
+
+const conflictIds = (plan: RtwPlan, certificates: MedicalCertificate[]) =>
+  rtwPlanConflictService.check(plan, certificates, TODAY).conflicts.map(conflict => `${conflict.severity}:${conflict.id}`);
+
+describe('rtwPlanConflictService.parseHours', () => {
+  it.each([
+    ['4', 4],
+    ['4h', 4],
+    ['4.5 hrs', 4.5],
+    ['9-1', 4],
+    ['1-5', 4],
+    ['12-4', 4],
+    ['6-2', 8],
+    ['9:00-13:30', 4.5],
+    ['6:00-14:00', 8],
+    ['14-10', 8],
+    ['9am-1pm', 4],
+    ['9 to 3', 6]
+  ])('reads "%s" as %s hours', (value, hours) => {
+    expect(rtwPlanConflictService.parseHours(value)).toBe(hours);
+  });
+
+  it('reads a blank entry as no hours', () => {
+    expect(rtwPlanConflictService.parseHours(undefined)).toBe(0);
+    expect(rtwPlanConflictService.parseHours('  ')).toBe(0);
+  });
+
+  it('gives NaN for a range that ends before it starts', () => {
+    expect(rtwPlanConflictService.parseHours('10pm-6am')).toBeNaN();
+    expect(rtwPlanConflictService.parseHours('9:00-1:00')).toBeNaN();
+  });
+});
+
+describe('rtwPlanConflictService.check', () => {
+  it('warns when no certificate covers the plan', () => {
+    expect(conflictIds(makePlan(), [])).toEqual(['warning:certificate-missing']);
+  });
+
+  it('blocks hours and days beyond the certificate', () => {
+    const plan = makePlan({ hoursOfWork: [{ monday: '6-2', tuesday: '4', wednesday: '4' }] });
+    const certificate = makeCertificate({ hoursPerDay: 4, daysPerWeek: 2 });
+
+    expect(conflictIds(plan, [certificate])).toEqual(['blocking:hours-week1-monday', 'blocking:days-week1']);
+  });
+
+  it('accepts an early start within the certificate hours', () => {
+    const plan = makePlan({ hoursOfWork: [{ monday: '6-2' }] });
+
+    expect(conflictIds(plan, [makeCertificate({ hoursPerDay: 8 })])).toEqual([]);
+  });
+
+  it('warns about hours it cannot read, even on a full capacity certificate', () => {
+    const plan = makePlan({ hoursOfWork: [{ monday: '4' }, { friday: '10pm-6am' }] });
+    const check = rtwPlanConflictService.check(plan, [makeCertificate({ capacity: 'full' })], TODAY);
+
+    expect(check.conflicts).toHaveLength(1);
+    expect(check.conflicts[0]).toMatchObject({ id: 'hours-unreadable-week2-friday', severity: 'warning' });
+    expect(check.conflicts[0].message).toContain('could not read hours "10pm-6am"');
+  });
+
+  it('blocks any hours on a no capacity certificate', () => {
+    const plan = makePlan({ hoursOfWork: [{ monday: '2' }] });
+
+    expect(conflictIds(plan, [makeCertificate({ capacity: 'none' })])).toEqual(['blocking:no-capacity']);
+  });
+
+  it('warns when the certificate ends before the plan', () => {
+    const plan = makePlan({ endDate: '2025-09-30' });
+
+    expect(conflictIds(plan, [makeCertificate()])).toEqual(['warning:certificate-ends-cert-1']);
+  });
+});
+
+describe('rtwPlanConflictService.checkDuties', () => {
+  const duties = (dutiesToBeUndertaken: string, restrictions: string[]) =>
+    rtwPlanConflictService.checkDuties(makePlan({ dutiesToBeUndertaken }), restrictions).map(conflict => `${conflict.severity}:${conflict.id}`);
+
+  it('blocks a restricted duty', () => {
+    expect(duties('Restocking high shelves', ['No overhead work'])).toEqual(['blocking:restriction-overhead']);
+  });
+
+  it('skips a duty only when the restricted activity is negated', () => {
+    expect(duties('No lifting; admin only', ['No lifting over 5kg'])).toEqual([]);
+    expect(duties('Filing, avoid ladders', ['No climbing ladders'])).toEqual([]);
+    expect(duties('Packing without a trolley', ['No pushing or pulling'])).toEqual([]);
+  });
+
+  it('keeps a duty in scope when the negation is elsewhere in the line', () => {
+    expect(duties('Lift 20kg boxes without a trolley', ['No lifting over 5kg'])).toEqual(['blocking:restriction-lifting-lift-20kg-boxes-without-a-trolley']);
+    expect(duties('Climb ladders, no more than two hours', ['No ladders'])).toEqual(['blocking:restriction-heights']);
+  });
+
+  it('allows lifting within the limit and flags lifting with no weight for checking', () => {
+    expect(duties('Lift 3kg parcels', ['No lifting over 5kg'])).toEqual([]);
+    expect(duties('Unload deliveries', ['No lifting over 5kg'])).toEqual(['warning:restriction-lifting-unload-deliveries']);
+  });
+});
+
+describe('rtwPlanConflictService.canActivate', () => {
+  const plan = makePlan({ hoursOfWork: [{ monday: '6' }] });
+  const certificate = makeCertificate({ hoursPerDay: 4 });
+
+  it('blocks a plan with unaccepted conflicts', () => {
+    const check = rtwPlanConflictService.check(plan, [certificate], TODAY);
+
+    expect(rtwPlanConflictService.canActivate(plan, check)).toBe(false);
+  });
+
+  it('allows a plan whose conflicts were overridden', () => {
+    const overridden = makePlan({
+      ...plan,
+      capacityOverride: { conflictIds: ['hours-week1-monday'], reason: 'Agreed with GP', overriddenBy: 'Case Manager', overriddenAt: '2025-07-01T09:00:00Z' }
+    });
+    const check = rtwPlanConflictService.check(overridden, [certificate], TODAY);
+
+    expect(rtwPlanConflictService.isOverridden(overridden, check)).toBe(true);
+    expect(rtwPlanConflictService.canActivate(overridden, check)).toBe(true);
+  });
+
+  it('blocks again when a new conflict appears after the override', () => {
+    const overridden = makePlan({
+      hoursOfWork: [{ monday: '6', tuesday: '6' }],
+      capacityOverride: { conflictIds: ['hours-week1-monday'], reason: 'Agreed with GP', overriddenBy: 'Case Manager', overriddenAt: '2025-07-01T09:00:00Z' }
+    });
+    const check = rtwPlanConflictService.check(overridden, [certificate], TODAY);
+
+    expect(rtwPlanConflictService.canActivate(overridden, check)).toBe(false);
+  });
+});
+
+describe('rtwPlanConflictService.enforce', () => {
+  const certificate = makeCertificate({ hoursPerDay: 4 });
+
+  it('moves an active plan that goes over the certificate back to draft', () => {
+    const plan = makePlan({ status: 'active', hoursOfWork: [{ monday: '6' }] });
+    const result = rtwPlanConflictService.enforce(plan, [certificate], TODAY);
+
+    expect(result.unpublished).toBe(true);
+    expect(result.plan.status).toBe('draft');
+  });
+
+  it('leaves an active plan within the certificate, or with its conflicts overridden, published', () => {
+    const within = makePlan({ status: 'active', hoursOfWork: [{ monday: '4' }] });
+    const overridden = makePlan({
+      status: 'active',
+      hoursOfWork: [{ monday: '6' }],
+      capacityOverride: { conflictIds: ['hours-week1-monday'], reason: 'Agreed with GP', overriddenBy: 'Case Manager', overriddenAt: '2025-07-01T09:00:00Z' }
+    });
+
+    expect(rtwPlanConflictService.enforce(within, [certificate], TODAY)).toEqual({ plan: within, unpublished: false });
+    expect(rtwPlanConflictService.enforce(overridden, [certificate], TODAY)).toEqual({ plan: overridden, unpublished: false });
+  });
+
+  it('unpublishes an active plan when a new certificate lowers the capacity', () => {
+    const plan = makePlan({ status: 'active', hoursOfWork: [{ monday: '4' }] });
+    const lower = makeCertificate({ id: 'cert-2', startDate: '2025-07-01', hoursPerDay: 2 });
+
+    expect(rtwPlanConflictService.enforce(plan, [makeCertificate({ startDate: '2025-06-01', hoursPerDay: 4 }), lower], TODAY).unpublished).toBe(true);
+  });
+
+  it('leaves draft plans alone', () => {
+    const plan = makePlan({ hoursOfWork: [{ monday: '6' }] });
+
+    expect(rtwPlanConflictService.enforce(plan, [certificate], TODAY).unpublished).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+import { MedicalCertificate, RtwPlan, Weekday } from '../types';
+import { format, parseISO } from 'date-fns';
+import { medicalCertificateService } from './medicalCertificateService';
+
+export interface RtwPlanConflict {
+  id: string; // Stable for the same conflict, so an override can record which conflicts it accepted
+  type: 'no-capacity' | 'hours' | 'days' | 'restriction' | 'certificate';
+  severity: 'blocking' | 'warning';
+  message: string;
+}
+
+export interface RtwPlanCheck {
+  certificate?: MedicalCertificate;
+  restrictions: string[]; // From the certificate and the plan's own medical restrictions
+  conflicts: RtwPlanConflict[];
+}
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+interface RestrictionRule {
+  id: string;
+  label: string;
+  restriction: RegExp; // Wording of the restriction on a certificate
+  duty: RegExp; // Wording of a duty the restriction rules out
+}
+
+// Restriction keywords matched against the duties to be undertaken. Lifting is handled separately
+// because a weight limit allows lighter lifting.
+const RESTRICTION_RULES: RestrictionRule[] = [
+  { id: 'overhead', label: 'overhead work', restriction: /overhead|above shoulder/i, duty: /overhead|above shoulder|reach(?:ing)? up|high shel|ceiling/i },
+  { id: 'bending', label: 'bending', restriction: /bend|stoop/i, duty: /bend|stoop|floor level|low shel/i },
+  { id: 'kneeling', label: 'kneeling or squatting', restriction: /kneel|squat|crouch/i, duty: /kneel|squat|crouch/i },
+  { id: 'heights', label: 'ladders or heights', restriction: /ladder|height|climb/i, duty: /ladder|height|climb|scaffold|roof/i },
+  { id: 'driving', label: 'driving or operating machinery', restriction: /driv|vehicle|forklift|machinery/i, duty: /driv|vehicle|forklift|machinery|deliver/i },
+  { id: 'push-pull', label: 'pushing or pulling', restriction: /push|pull/i, duty: /push|pull|trolley|pallet jack/i },
+  { id: 'repetitive', label: 'repetitive tasks', restriction: /repetitive/i, duty: /repetitive|assembly|packing|typing|keyboard|scanning/i },
+  { id: 'standing', label: 'prolonged standing', restriction: /(?:prolonged|extended) stand/i, duty: /stand|counter|checkout|production line/i },
+  { id: 'sitting', label: 'prolonged sitting', restriction: /(?:prolonged|extended) sit/i, duty: /desk|computer|data entry|seated/i }
+];
+
+const LIFTING_RESTRICTION = /lift|carry|manual handling/i;
+const LIFTING_DUTY = /lift|carry|manual handling|load|unload|stock|pallet/i;
+const WEIGHT = /(\d+(?:\.\d+)?)\s*kg/i;
+
+// A negation directly before an activity, allowing a couple of words between such as "no heavy lifting"
+const NEGATION = /\b(?:no|not|avoid|avoiding|without|except|excluding)\s+(?:[\w-]+\s+){0,2}$/i;
+
+// A duty only escapes a restriction when every mention of the restricted activity is negated
+// ("no lifting", "avoid ladders"). A negation elsewhere in the line, as in "lift boxes without a
+// trolley", leaves the duty in scope so the check fails closed.
+const involves = (duty: string, activity: RegExp): boolean =>
+  Array.from(duty.matchAll(new RegExp(activity.source, 'gi'))).some(match => !NEGATION.test(duty.slice(0, match.index)));
+
+// Hours entered as a number, "4h", "4 hrs" or a time range such as "9-1", "6-2" or "9:00-13:30".
+// A time with minutes or an hour from 13 is 24-hour time; a bare hour is read as written, and a bare
+// end hour earlier than the start is taken as the afternoon. A range that still ends before it
+// starts cannot be read and gives NaN, so the check can say so rather than treat it as no hours.
+const parseHours = (value: string | undefined): number => {
+  if (!value?.trim()) return 0;
+  const range = value.match(/(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?\s*(?:-|–|to)\s*(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/i);
+  if (range) {
+    const toHours = (hour: string, minutes: string | undefined, meridiem: string | undefined) => {
+      const h = parseInt(hour, 10);
+      const base = meridiem ? (h % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0) : h;
+      return { hours: base + (minutes ? parseInt(minutes, 10) / 60 : 0), bare: !meridiem && !minutes && h < 13 };
+    };
+    const start = toHours(range[1], range[2], range[3]);
+    const end = toHours(range[4], range[5], range[6]);
+    const endHours = end.bare && end.hours < start.hours ? end.hours + 12 : end.hours;
+    return endHours < start.hours ? NaN : Math.round((endHours - start.hours) * 100) / 100;
+  }
+  const hours = parseFloat(value.replace(/[^0-9.]/g, ''));
+  return isNaN(hours) ? 0 : hours;
+};
+
+const dayLabel = (day: Weekday) => day.charAt(0).toUpperCase() + day.slice(1);
+
+export const rtwPlanConflictService = {
+  parseHours,
+
+  // Planned hours for each week of the plan's hours grid, with the days whose entry could not be
+  // read. Weeks left blank are skipped.
+  getPlannedWeeks(plan: RtwPlan): { week: number; days: { day: Weekday; hours: number }[]; unreadable: Weekday[]; total: number }[] {
+    return (plan.hoursOfWork || [])
+      .map((grid, index) => {
+        const entries = WEEKDAYS.map(day => ({ day, hours: parseHours(grid[day]) }));
+        const days = entries.filter(entry => entry.hours > 0);
+        const unreadable = entries.filter(entry => isNaN(entry.hours)).map(entry => entry.day);
+        return { week: index + 1, days, unreadable, total: days.reduce((sum, entry) => sum + entry.hours, 0) };
+      })
+      .filter(week => week.days.length > 0 || week.unreadable.length > 0);
+  },
+
+  // The certificate in force when the plan starts, or today for a plan already under way
+  getCertificate(plan: RtwPlan, certificates: MedicalCertificate[], today: string): MedicalCertificate | undefined {
+    const from = plan.startDate > today ? plan.startDate : today;
+    return medicalCertificateService.getCurrent(certificates, from);
+  },
+
+  check(plan: RtwPlan, certificates: MedicalCertificate[], today: string = format(new Date(), 'yyyy-MM-dd')): RtwPlanCheck {
+    const certificate = this.getCertificate(plan, certificates, today);
+    const restrictions = [
+      ...(certificate?.restrictions || []),
+      ...medicalCertificateService.parseList(plan.medicalRestrictions || '')
+    ];
+    const conflicts: RtwPlanConflict[] = [
+      ...this.checkCertificate(plan, certificate),
+      ...this.checkHours(plan, certificate),
+      ...this.checkDuties(plan, restrictions)
+    ];
+    return { certificate, restrictions, conflicts };
+  },
+
+  checkCertificate(plan: RtwPlan, certificate: MedicalCertificate | undefined): RtwPlanConflict[] {
+    if (!certificate) {
+      return [{
+        id: 'certificate-missing',
+        type: 'certificate',
+        severity: 'warning',
+        message: 'No certificate of capacity covers the plan. Hours and restrictions cannot be checked against a certificate.'
+      }];
+    }
+    if (certificate.endDate < plan.endDate) {
+      return [{
+        id: `certificate-ends-${certificate.id}`,
+        type: 'certificate',
+        severity: 'warning',
+        message: `The certificate ends on ${format(parseISO(certificate.endDate), 'dd/MM/yyyy')}, before the plan ends on ${format(parseISO(plan.endDate), 'dd/MM/yyyy')}`
+      }];
+    }
+    return [];
+  },
+
+  // Planned hours against the certificate's daily hours and days per week. Entries that cannot be
+  // read are flagged whatever the certificate says.
+  checkHours(plan: RtwPlan, certificate: MedicalCertificate | undefined): RtwPlanConflict[] {
+    const weeks = this.getPlannedWeeks(plan);
+    const unreadableEntries: RtwPlanConflict[] = weeks.flatMap(({ week, unreadable }) => unreadable.map(day => ({
+      id: `hours-unreadable-week${week}-${day}`,
+      type: 'hours' as const,
+      severity: 'warning' as const,
+      message: `Week ${week} ${dayLabel(day)}: could not read hours "${plan.hoursOfWork?.[week - 1]?.[day]}". Enter a number of hours or a start and finish time.`
+    })));
+    if (!certificate || certificate.capacity === 'full') return unreadableEntries;
+
+    if (certificate.capacity === 'none') {
+      return weeks.some(week => week.days.length > 0)
+        ? [...unreadableEntries, {
+            id: 'no-capacity',
+            type: 'no-capacity',
+            severity: 'blocking',
+            message: `The certificate from ${certificate.doctorName} gives no capacity for work, but the plan schedules ${weeks.reduce((sum, week) => sum + week.total, 0)} hours`
+          }]
+        : unreadableEntries;
+    }
+
+    const conflicts: RtwPlanConflict[] = [...unreadableEntries];
+    weeks.forEach(({ week, days }) => {
+      if (certificate.hoursPerDay !== undefined) {
+        days
+          .filter(entry => entry.hours > certificate.hoursPerDay!)
+          .forEach(entry => conflicts.push({
+            id: `hours-week${week}-${entry.day}`,
+            type: 'hours',
+            severity: 'blocking',
+            message: `Week ${week} ${dayLabel(entry.day)}: ${entry.hours} hours planned, certificate allows ${certificate.hoursPerDay} per day`
+          }));
+      }
+      if (certificate.daysPerWeek !== undefined && days.length > certificate.daysPerWeek) {
+        conflicts.push({
+          id: `days-week${week}`,
+          type: 'days',
+          severity: 'blocking',
+          message: `Week ${week}: ${days.length} days planned, certificate allows ${certificate.daysPerWeek} per week`
+        });
+      }
+    });
+    return conflicts;
+  },
+
+  // Duties matched against restriction keywords. A lifting limit only conflicts with duties that
+  // name a heavier weight; lifting duties without a weight are flagged for checking.
+  checkDuties(plan: RtwPlan, restrictions: string[]): RtwPlanConflict[] {
+    const duties = (plan.dutiesToBeUndertaken || '')
+      .split(/\n|;|\.\s/)
+      .map(duty => duty.trim())
+      .filter(duty => duty);
+    if (duties.length === 0 || restrictions.length === 0) return [];
+
+    const conflicts: RtwPlanConflict[] = [];
+
+    RESTRICTION_RULES.forEach(rule => {
+      const restriction = restrictions.find(text => rule.restriction.test(text));
+      const duty = restriction && duties.find(text => involves(text, rule.duty));
+      if (restriction && duty) {
+        conflicts.push({
+          id: `restriction-${rule.id}`,
+          type: 'restriction',
+          severity: 'blocking',
+          message: `"${duty}" involves ${rule.label}, which is restricted: ${restriction}`
+        });
+      }
+    });
+
+    const lifting = restrictions.find(text => LIFTING_RESTRICTION.test(text));
+    if (lifting) {
+      const limit = lifting.match(WEIGHT);
+      duties.filter(text => involves(text, LIFTING_DUTY)).forEach(duty => {
+        const weight = duty.match(WEIGHT);
+        if (limit && weight && parseFloat(weight[1]) <= parseFloat(limit[1])) return;
+        conflicts.push({
+          id: `restriction-lifting-${duty.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+          type: 'restriction',
+          severity: !limit || weight ? 'blocking' : 'warning',
+          message: limit && !weight
+            ? `"${duty}" involves lifting with no weight stated. Check it is within the limit: ${lifting}`
+            : `"${duty}" exceeds the lifting restriction: ${lifting}`
+        });
+      });
+    }
+
+    return conflicts;
+  },
+
+  getBlocking(check: RtwPlanCheck): RtwPlanConflict[] {
+    return check.conflicts.filter(conflict => conflict.severity === 'blocking');
+  },
+
+  // An override only covers the conflicts that existed when it was given; a new conflict blocks again
+  isOverridden(plan: RtwPlan, check: RtwPlanCheck): boolean {
+    const accepted = new Set(plan.capacityOverride?.conflictIds || []);
+    return this.getBlocking(check).every(conflict => accepted.has(conflict.id));
+  },
+
+  canActivate(plan: RtwPlan, check: RtwPlanCheck): boolean {
+    return this.getBlocking(check).length === 0 || this.isOverridden(plan, check);
+  },
+
+  // An active plan that no longer passes the check, after an edit or a certificate change, goes
+  // back to draft until its conflicts are resolved or overridden
+  enforce(plan: RtwPlan, certificates: MedicalCertificate[], today?: string): { plan: RtwPlan; unpublished: boolean } {
+    if (plan.status !== 'active' || this.canActivate(plan, this.check(plan, certificates, today))) {
+      return { plan, unpublished: false };
+    }
+    return { plan: { ...plan, status: 'draft' }, unpublished: true };
+  }
+};
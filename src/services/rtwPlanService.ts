@@ -0,0 +1,85 @@
+import { Case, RtwPlan, RtwPlanWeekHours } from '../types';
+import { format, parseISO, addDays, addWeeks, max as maxDate, differenceInCalendarDays } from 'date-fns';
+
+export interface NewRtwPlanDetails {
+  title: string;
+  startDate: string;
+  endDate: string;
+  reviewDate: string;
+}
+
+export const rtwPlanService = {
+  // Every plan the case has had, oldest first, ending with the current plan
+  getPlans(caseData: Case): RtwPlan[] {
+    return [...(caseData.rtwPlanHistory || []), caseData.rtwPlan];
+  },
+
+  getSequence(caseData: Case): number {
+    return caseData.rtwPlan.sequence || (caseData.rtwPlanHistory || []).length + 1;
+  },
+
+  // A new plan picks up the day after the current one ends, or today if that has passed
+  getDefaultDetails(caseData: Case, today: Date = new Date()): NewRtwPlanDetails {
+    const start = maxDate([today, addDays(parseISO(caseData.rtwPlan.endDate), 1)]);
+    return {
+      title: `Return to Work Plan ${this.getSequence(caseData) + 1}`,
+      startDate: format(start, 'yyyy-MM-dd'),
+      endDate: format(addDays(addWeeks(start, 4), -1), 'yyyy-MM-dd'),
+      reviewDate: format(addWeeks(start, 2), 'yyyy-MM-dd')
+    };
+  },
+
+  // Number of weeks from the start date to the end date, counting a part week as a week
+  getWeekCount(plan: Pick<RtwPlan, 'startDate' | 'endDate'>): number {
+    const days = differenceInCalendarDays(parseISO(plan.endDate), parseISO(plan.startDate)) + 1;
+    return Math.max(1, Math.ceil(days / 7));
+  },
+
+  // The plan's hours grid, or blank weeks covering its dates when no hours have been entered
+  getHours(plan: RtwPlan): RtwPlanWeekHours[] {
+    if (plan.hoursOfWork?.length) return plan.hoursOfWork;
+    return Array.from({ length: this.getWeekCount(plan) }, () => ({}));
+  },
+
+  // The current plan is closed off as superseded and moved into the history. The new plan starts as
+  // a draft with the current plan's details, open tasks and the last week of hours carried over;
+  // sign-offs and any capacity override belong to the old plan and are not copied.
+  startNewPlan(caseData: Case, details: NewRtwPlanDetails, now: Date = new Date()): Pick<Case, 'rtwPlan' | 'rtwPlanHistory'> {
+    const current = caseData.rtwPlan;
+    const sequence = this.getSequence(caseData);
+    const id = `rp${now.getTime()}`;
+    const lastWeek = (current.hoursOfWork || []).slice(-1)[0];
+
+    const superseded: RtwPlan = {
+      ...current,
+      sequence,
+      status: 'superseded',
+      supersededAt: now.toISOString(),
+      supersededBy: id,
+      tasks: current.tasks.filter(task => task.completed)
+    };
+
+    const next: RtwPlan = {
+      ...current,
+      ...details,
+      id,
+      sequence: sequence + 1,
+      status: 'draft',
+      tasks: current.tasks.filter(task => !task.completed),
+      preparedOn: format(now, 'yyyy-MM-dd'),
+      workerDetails: { ...current.workerDetails, date: undefined },
+      coordinatorDetails: { ...current.coordinatorDetails, date: undefined },
+      supervisorDetailsObj: { ...current.supervisorDetailsObj, date: undefined },
+      healthPractitioner: { ...current.healthPractitioner, date: undefined },
+      hoursOfWork: Array.from({ length: this.getWeekCount(details) }, () => ({ ...lastWeek }))
+    };
+    delete next.capacityOverride;
+    delete next.supersededAt;
+    delete next.supersededBy;
+
+    return {
+      rtwPlan: next,
+      rtwPlanHistory: [...(caseData.rtwPlanHistory || []), superseded]
+    };
+  }
+};
@@ -0,0 +1,285 @@
+import { Case, JurisdictionType, RtwPlan, RtwPlanWeekHours, Weekday } from '../types';
+import { format, parseISO } from 'date-fns';
+import { PDFDocument, PDFTextField } from 'pdf-lib';
+import { rtwPlanConflictService } from './rtwPlanConflictService';
+
+export interface RtwPlanTemplateContext {
+  plan: RtwPlan;
+  caseData: Case;
+}
+
+export interface RtwPlanTemplateField {
+  label: string;
+  value: (context: RtwPlanTemplateContext) => string | undefined;
+  field?: string; // Form field name on a fillable template
+}
+
+export interface RtwPlanHourGridRow {
+  week: string;
+  days: Record<Weekday, string>;
+  total: string;
+}
+
+// Form fields for the weekly hours table. A plan with more weeks than rows repeats the grid page.
+export interface RtwPlanHourGrid {
+  page: number; // Zero-based
+  rows: RtwPlanHourGridRow[];
+}
+
+export type RtwPlanTemplateLayout =
+  | { type: 'form'; url: string; fields: RtwPlanTemplateField[]; hourGrid: RtwPlanHourGrid; ignoredFields: string[] }
+  | { type: 'unsupported' }; // The scheme's form has not been added, so no plan PDF can be produced
+
+export interface RtwPlanTemplate {
+  jurisdiction: JurisdictionType;
+  title: string;
+  authority: string;
+  layout: RtwPlanTemplateLayout;
+}
+
+export interface RtwPlanPdf {
+  blob: Blob;
+  template: RtwPlanTemplate;
+  unmappedFields: string[]; // Fields on the template form with nothing mapped to them
+  emptyFields: string[]; // Mapped fields the plan and case had no value for
+}
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// ISO dates are printed day first; anything else was typed free-form and is printed as entered
+const date = (value: string | undefined) =>
+  value && /^\d{4}-\d{2}-\d{2}/.test(value) ? format(parseISO(value), 'dd/MM/yyyy') : value;
+
+const workerName = ({ plan, caseData }: RtwPlanTemplateContext) =>
+  plan.workerDetails?.name || `${caseData.worker.firstName} ${caseData.worker.lastName}`;
+
+// Plan fields shared by every form. Plan entries win over the case so a plan can record details
+// that differ from the case, such as a host employer.
+const FIELDS: Record<string, RtwPlanTemplateField> = {
+  workerName: { label: 'Worker name', value: workerName },
+  claimNumber: { label: 'Claim number', value: ({ plan, caseData }) => plan.claimNumber || caseData.claimNumber },
+  preInjuryJobTitle: { label: 'Pre-injury job title', value: ({ plan, caseData }) => plan.preInjuryJobTitle || caseData.worker.position },
+  preInjuryWorkHours: { label: 'Pre-injury days and hours', value: ({ plan }) => plan.preInjuryWorkHours },
+  preInjuryLocation: { label: 'Pre-injury work location', value: ({ plan }) => plan.preInjuryLocation },
+  employerName: { label: 'Employer', value: ({ plan, caseData }) => plan.employerName || caseData.employer.name },
+  dutiesToBeUndertaken: { label: 'Duties to be undertaken', value: ({ plan }) => plan.dutiesToBeUndertaken },
+  supportsOrModifications: { label: 'Supports or workplace modifications', value: ({ plan }) => plan.supportsOrModifications },
+  dutiesToBeAvoided: { label: 'Duties to be avoided', value: ({ plan }) => plan.dutiesToBeAvoided },
+  medicalRestrictions: { label: 'Medical restrictions', value: ({ plan }) => plan.medicalRestrictions },
+  workLocation: { label: 'Work location', value: ({ plan }) => plan.workLocation },
+  startDate: { label: 'Start date', value: ({ plan }) => date(plan.startDate) },
+  endDate: { label: 'End date', value: ({ plan }) => date(plan.endDate) },
+  supervisor: { label: 'Supervisor details', value: ({ plan }) => plan.supervisorDetails },
+  reviewDate: { label: 'Review date', value: ({ plan }) => date(plan.reviewDate) },
+  preparedBy: { label: 'Prepared by', value: ({ plan }) => plan.preparedBy },
+  preparedOn: { label: 'Prepared on', value: ({ plan }) => date(plan.preparedOn) },
+  goals: { label: 'Goals', value: ({ plan }) => plan.goals.map(goal => `• ${goal}`).join('\n') },
+  workerSignatoryName: { label: 'Worker name', value: workerName },
+  workerPhone: { label: 'Worker phone', value: ({ plan, caseData }) => plan.workerDetails?.phone || caseData.worker.phone },
+  workerDate: { label: 'Worker date', value: ({ plan }) => date(plan.workerDetails?.date) },
+  coordinatorName: { label: 'Coordinator name', value: ({ plan }) => plan.coordinatorDetails?.name },
+  coordinatorPhone: { label: 'Coordinator phone', value: ({ plan }) => plan.coordinatorDetails?.phone },
+  coordinatorDate: { label: 'Coordinator date', value: ({ plan }) => date(plan.coordinatorDetails?.date) },
+  supervisorName: { label: 'Supervisor name', value: ({ plan }) => plan.supervisorDetailsObj?.name },
+  supervisorPhone: { label: 'Supervisor phone', value: ({ plan }) => plan.supervisorDetailsObj?.phone },
+  supervisorDate: { label: 'Supervisor date', value: ({ plan }) => date(plan.supervisorDetailsObj?.date) },
+  practitionerName: { label: 'Practitioner name', value: ({ plan }) => plan.healthPractitioner?.name },
+  practitionerPhone: { label: 'Practitioner phone', value: ({ plan }) => plan.healthPractitioner?.phone },
+  practitionerDate: { label: 'Practitioner date', value: ({ plan }) => date(plan.healthPractitioner?.date) },
+  additionalNotes: { label: 'Additional information', value: ({ plan }) => plan.additionalNotes }
+};
+
+const formField = (field: string, mapping: RtwPlanTemplateField): RtwPlanTemplateField => ({ ...mapping, field });
+
+// Nine fields per week row: the week, Monday to Sunday, then the weekly total
+const gridRow = (first: number): RtwPlanHourGridRow => ({
+  week: String(first),
+  days: Object.fromEntries(WEEKDAYS.map((day, index) => [day, String(first + 1 + index)])) as Record<Weekday, string>,
+  total: String(first + 8)
+});
+
+// Each scheme's own plan form, filled through its field map. Only Victoria's form ships with the app
+// (public/Return-work-plan-vic.pdf); the other schemes are listed as unsupported until their form is
+// added to public/ with a field map, rather than producing a document that only looks like theirs.
+const RTW_PLAN_TEMPLATES: Record<JurisdictionType, RtwPlanTemplate> = {
+  VIC: {
+    jurisdiction: 'VIC',
+    title: 'Return to Work Plan',
+    authority: 'WorkSafe Victoria',
+    layout: {
+      type: 'form',
+      url: '/Return-work-plan-vic.pdf',
+      fields: [
+        formField('1', FIELDS.workerName),
+        formField('2', FIELDS.claimNumber),
+        formField('3', FIELDS.preInjuryJobTitle),
+        formField('4', FIELDS.preInjuryWorkHours),
+        formField('5', FIELDS.preInjuryLocation),
+        formField('6', FIELDS.employerName),
+        formField('7', FIELDS.dutiesToBeUndertaken),
+        formField('8', FIELDS.supportsOrModifications),
+        formField('9', FIELDS.dutiesToBeAvoided),
+        formField('10', FIELDS.medicalRestrictions),
+        formField('47', FIELDS.workLocation),
+        formField('48', FIELDS.startDate),
+        formField('49', FIELDS.supervisor),
+        formField('50', FIELDS.reviewDate),
+        formField('51', FIELDS.preparedBy),
+        formField('52', FIELDS.preparedOn),
+        formField('53', FIELDS.additionalNotes),
+        formField('54', FIELDS.workerSignatoryName),
+        formField('55', FIELDS.workerPhone),
+        formField('56', FIELDS.workerDate),
+        formField('57', FIELDS.coordinatorName),
+        formField('58', FIELDS.coordinatorPhone),
+        formField('59', FIELDS.coordinatorDate),
+        formField('60', FIELDS.supervisorName),
+        formField('61', FIELDS.supervisorPhone),
+        formField('62', FIELDS.supervisorDate),
+        formField('63', FIELDS.practitionerName),
+        formField('64', FIELDS.practitionerPhone),
+        formField('65', FIELDS.practitionerDate)
+      ],
+      hourGrid: { page: 2, rows: [gridRow(11), gridRow(20), gridRow(29), gridRow(38)] },
+      // Signed by hand once printed
+      ignoredFields: ['Signature Field 3', 'Signature Field 4', 'Signature Field 5', 'Signature Field 6']
+    }
+  },
+  NSW: {
+    jurisdiction: 'NSW',
+    title: 'Recover at Work Plan',
+    authority: 'State Insurance Regulatory Authority',
+    layout: { type: 'unsupported' }
+  },
+  QLD: {
+    jurisdiction: 'QLD',
+    title: 'Suitable Duties Plan',
+    authority: 'WorkCover Queensland',
+    layout: { type: 'unsupported' }
+  },
+  SA: {
+    jurisdiction: 'SA',
+    title: 'Recovery/Return to Work Plan',
+    authority: 'ReturnToWorkSA',
+    layout: { type: 'unsupported' }
+  },
+  WA: {
+    jurisdiction: 'WA',
+    title: 'Return to Work Plan',
+    authority: 'WorkCover WA',
+    layout: { type: 'unsupported' }
+  },
+  TAS: {
+    jurisdiction: 'TAS',
+    title: 'Return to Work Plan',
+    authority: 'WorkSafe Tasmania',
+    layout: { type: 'unsupported' }
+  },
+  NT: {
+    jurisdiction: 'NT',
+    title: 'Return to Work Plan',
+    authority: 'NT WorkSafe',
+    layout: { type: 'unsupported' }
+  },
+  ACT: {
+    jurisdiction: 'ACT',
+    title: 'Return to Work Plan',
+    authority: 'WorkSafe ACT',
+    layout: { type: 'unsupported' }
+  }
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.max(1, Math.ceil(items.length / size)) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+export const rtwPlanTemplateService = {
+  // Cases recorded before jurisdictions were captured are Victorian
+  getTemplate(jurisdiction: JurisdictionType | undefined): RtwPlanTemplate {
+    return RTW_PLAN_TEMPLATES[jurisdiction || 'VIC'];
+  },
+
+  // Weeks of the hours grid up to the last one with any hours entered
+  getHourWeeks(plan: RtwPlan): RtwPlanWeekHours[] {
+    const weeks = plan.hoursOfWork || [];
+    const last = weeks.map(week => WEEKDAYS.some(day => week[day]?.trim()) || !!week.total?.trim()).lastIndexOf(true);
+    return weeks.slice(0, last + 1);
+  },
+
+  // The entered total, or the sum of the day entries when it was left blank
+  getWeekTotal(week: RtwPlanWeekHours): string {
+    if (week.total?.trim()) return week.total;
+    const total = WEEKDAYS.reduce((sum, day) => sum + rtwPlanConflictService.parseHours(week[day]), 0);
+    return total > 0 ? String(total) : '';
+  },
+
+  isSupported(jurisdiction: JurisdictionType | undefined): boolean {
+    return this.getTemplate(jurisdiction).layout.type === 'form';
+  },
+
+  async generate(plan: RtwPlan, caseData: Case): Promise<RtwPlanPdf> {
+    const template = this.getTemplate(caseData.jurisdiction);
+    if (template.layout.type !== 'form') {
+      throw new Error(`The ${template.jurisdiction} ${template.title} form is not supported yet`);
+    }
+    return this.fillForm(template, template.layout, { plan, caseData });
+  },
+
+  async fillForm(
+    template: RtwPlanTemplate,
+    layout: Extract<RtwPlanTemplateLayout, { type: 'form' }>,
+    context: RtwPlanTemplateContext
+  ): Promise<RtwPlanPdf> {
+    const response = await fetch(layout.url);
+    if (!response.ok) throw new Error(`Failed to fetch the ${template.jurisdiction} RTW plan template`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    const values = layout.fields.map(mapping => ({ mapping, value: mapping.value(context) || '' }));
+    const weeks = chunk(this.getHourWeeks(context.plan), layout.hourGrid.rows.length);
+    let weekNumber = 0;
+
+    // Each block of weeks is filled into a fresh copy of the form, so every grid page carries the
+    // same plan details
+    const fill = async (block: RtwPlanWeekHours[]) => {
+      const pdf = await PDFDocument.load(bytes);
+      const form = pdf.getForm();
+      values.forEach(({ mapping, value }) => form.getTextField(mapping.field!).setText(value));
+      layout.hourGrid.rows.forEach((row, index) => {
+        const week = block[index];
+        if (!week) return;
+        weekNumber += 1;
+        form.getTextField(row.week).setText(`Wk ${weekNumber}`);
+        WEEKDAYS.forEach(day => form.getTextField(row.days[day]).setText(week[day] || ''));
+        form.getTextField(row.total).setText(this.getWeekTotal(week));
+      });
+      return pdf;
+    };
+
+    const pdf = await fill(weeks[0]);
+    const form = pdf.getForm();
+    const mapped = new Set([
+      ...layout.fields.map(mapping => mapping.field!),
+      ...layout.hourGrid.rows.flatMap(row => [row.week, ...Object.values(row.days), row.total]),
+      ...layout.ignoredFields
+    ]);
+    const unmappedFields = form.getFields()
+      .filter(field => !mapped.has(field.getName()) && field instanceof PDFTextField)
+      .map(field => field.getName());
+    form.flatten();
+
+    // Continuation grid pages go straight after the first one
+    for (const [index, block] of weeks.slice(1).entries()) {
+      const continuation = await fill(block);
+      continuation.getForm().flatten();
+      const [page] = await pdf.copyPages(continuation, [layout.hourGrid.page]);
+      pdf.insertPage(layout.hourGrid.page + 1 + index, page);
+    }
+
+    const pdfBytes = await pdf.save();
+    return {
+      blob: new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }),
+      template,
+      unmappedFields,
+      emptyFields: values.filter(({ value }) => !value).map(({ mapping }) => mapping.label)
+    };
+  }
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalCertificate, RtwPlanWeekHours, Weekday } from '../types';
+import { RtwRampProfile, RtwScheduleInput, rtwScheduleService } from './rtwScheduleService';
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const MONDAY_TO_FRIDAY: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+const makeCertificate = (overrides: Partial<MedicalCertificate> = {}): MedicalCertificate => ({
+  id: 'cert-1',
+  caseId: 'case-1',
+  startDate: '2025-07-01',
+  endDate: '2025-08-31',
+  doctorName: 'Dr Smith',
+  capacity: 'suitable-duties',
+  restrictions: [],
+  recommendations: [],
+  status: 'active',
+  createdAt: '2025-07-01T00:00:00Z',
+  ...overrides
+});
+
+const makeInput = (overrides: Partial<RtwScheduleInput> = {}): RtwScheduleInput => ({
+  startDate: '2025-07-07',
+  targetDate: '2025-08-25',
+  preInjuryHoursPerDay: 8,
+  preInjuryDaysPerWeek: 5,
+  rosteredDays: MONDAY_TO_FRIDAY,
+  profile: 'linear',
+  ...overrides
+});
+
+const workedDays = (week: RtwPlanWeekHours) => WEEKDAYS.filter(day => Number(week[day]) > 0);
+
+describe('rtwScheduleService.generate', () => {
+  it('ramps up to pre-injury hours by the target week', () => {
+    const { weeks, notes } = rtwScheduleService.generate(makeInput());
+
+    expect(weeks).toHaveLength(8);
+    expect(weeks[0].total).toBe('20');
+    expect(weeks[7]).toMatchObject({ monday: '8', friday: '8', saturday: '0', total: '40' });
+    expect(notes).toEqual([]);
+  });
+
+  it.each<RtwRampProfile>(['linear', 'stepped', 'certificate'])('never schedules more than the certificate allows on the %s profile', profile => {
+    const certificate = makeCertificate({ hoursPerDay: 4.5, daysPerWeek: 3 });
+    const { weeks } = rtwScheduleService.generate(makeInput({ profile, certificate, startPercent: 20 }));
+
+    expect(weeks).toHaveLength(8);
+    weeks.forEach(week => {
+      expect(workedDays(week).length).toBeLessThanOrEqual(3);
+      WEEKDAYS.forEach(day => expect(Number(week[day])).toBeLessThanOrEqual(4.5));
+      expect(Number(week.total)).toBeLessThanOrEqual(13.5);
+    });
+    expect(weeks[7].total).toBe('13.5');
+  });
+
+  it('rounds reduced days down to the half hour', () => {
+    const { weeks } = rtwScheduleService.generate(makeInput({ preInjuryHoursPerDay: 7.6, certificate: makeCertificate({ hoursPerDay: 6 }) }));
+
+    expect(weeks[0].monday).toBe('3.5');
+    expect(weeks[7].monday).toBe('6');
+  });
+
+  it('spreads reduced days across the roster', () => {
+    const { weeks } = rtwScheduleService.generate(makeInput({ certificate: makeCertificate({ daysPerWeek: 3 }) }));
+
+    expect(workedDays(weeks[0])).toEqual(['monday', 'tuesday', 'thursday']);
+  });
+
+  it('schedules no hours on a no capacity certificate', () => {
+    const { weeks, notes } = rtwScheduleService.generate(makeInput({ certificate: makeCertificate({ capacity: 'none' }) }));
+
+    expect(weeks.every(week => week.total === '0' && workedDays(week).length === 0)).toBe(true);
+    expect(notes).toEqual(['The certificate from Dr Smith gives no capacity for work, so no hours are scheduled']);
+  });
+
+  it('names the certificate when it caps the hours or days', () => {
+    const { notes } = rtwScheduleService.generate(makeInput({ certificate: makeCertificate({ hoursPerDay: 4, daysPerWeek: 3 }) }));
+
+    expect(notes).toEqual(["Capped at the certificate's capacity of 4 hours a day, 3 days a week, so pre-injury hours are not reached"]);
+  });
+
+  it('names the roster when there are fewer rostered days than the certificate allows', () => {
+    const { notes } = rtwScheduleService.generate(makeInput({
+      rosteredDays: ['monday', 'tuesday', 'wednesday'],
+      certificate: makeCertificate({ hoursPerDay: 4, daysPerWeek: 4 })
+    }));
+
+    expect(notes).toEqual([
+      "Capped at the certificate's capacity of 4 hours a day, so pre-injury hours are not reached",
+      'Only 3 rostered days are available, so pre-injury hours are not reached'
+    ]);
+  });
+
+  it('needs a rostered day and pre-injury hours', () => {
+    expect(rtwScheduleService.generate(makeInput({ rosteredDays: [] }))).toEqual({ weeks: [], notes: ['Select at least one rostered day'] });
+    expect(rtwScheduleService.generate(makeInput({ preInjuryHoursPerDay: 0 })).notes).toEqual(['Enter the pre-injury hours per day and days per week']);
+  });
+});
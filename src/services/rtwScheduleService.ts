@@ -0,0 +1,123 @@
+import { MedicalCertificate, RtwPlanWeekHours, Weekday } from '../types';
+import { parseISO, differenceInCalendarDays } from 'date-fns';
+
+export type RtwRampProfile = 'linear' | 'stepped' | 'certificate';
+
+export const RTW_RAMP_PROFILES: { value: RtwRampProfile; label: string; description: string }[] = [
+  { value: 'linear', label: 'Linear', description: 'Equal weekly increases from the starting level to pre-injury hours by the target date' },
+  { value: 'stepped', label: 'Stepped', description: 'Increases in 25% steps, holding each level until the linear ramp reaches the next' },
+  { value: 'certificate', label: 'Capped by certificate', description: 'The most the current certificate allows from the first week' }
+];
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export interface RtwScheduleInput {
+  startDate: string; // First day of week 1
+  targetDate: string; // Pre-injury hours are reached in the week containing this date
+  preInjuryHoursPerDay: number;
+  preInjuryDaysPerWeek: number;
+  rosteredDays: Weekday[]; // Days the employer can roster the worker on
+  certificate?: MedicalCertificate;
+  profile: RtwRampProfile;
+  startPercent?: number; // Share of pre-injury weekly hours in week 1
+}
+
+export interface RtwSchedule {
+  weeks: RtwPlanWeekHours[];
+  notes: string[];
+}
+
+const DEFAULT_START_PERCENT = 50;
+const STEP = 0.25;
+
+// Hours are rostered in half hours and always rounded down, so rounding can never take a day
+// over the certificate
+const roundDown = (hours: number) => Math.floor(hours * 2) / 2;
+
+// Picks days spread across the roster so a reduced week keeps rest days between shifts
+const spreadDays = (rostered: Weekday[], count: number): Weekday[] => {
+  const ordered = WEEKDAYS.filter(day => rostered.includes(day));
+  if (count >= ordered.length) return ordered;
+  return Array.from({ length: count }, (_, index) => ordered[Math.floor((index * ordered.length) / count)]);
+};
+
+export const rtwScheduleService = {
+  getWeekCount(startDate: string, targetDate: string): number {
+    const days = differenceInCalendarDays(parseISO(targetDate), parseISO(startDate));
+    return Math.max(1, Math.floor(days / 7) + 1);
+  },
+
+  // Share of pre-injury weekly hours planned for a week (zero-based) of the ramp
+  getRampFraction(profile: RtwRampProfile, week: number, weekCount: number, startPercent: number = DEFAULT_START_PERCENT): number {
+    if (profile === 'certificate') return 1;
+    const start = Math.min(100, Math.max(0, startPercent)) / 100;
+    const linear = weekCount <= 1 ? 1 : start + ((1 - start) * week) / (weekCount - 1);
+    if (profile === 'linear') return linear;
+    return Math.max(start, Math.floor(linear / STEP + 1e-9) * STEP);
+  },
+
+  // The certificate's daily hours and days per week. Suitable duties certificates without hours or
+  // days leave that dimension to the pre-injury pattern.
+  getCapacityLimits(certificate: MedicalCertificate | undefined): { hoursPerDay?: number; daysPerWeek?: number; none: boolean } {
+    if (!certificate || certificate.capacity === 'full') return { none: false };
+    if (certificate.capacity === 'none') return { none: true };
+    return { hoursPerDay: certificate.hoursPerDay, daysPerWeek: certificate.daysPerWeek, none: false };
+  },
+
+  generate(input: RtwScheduleInput): RtwSchedule {
+    const notes: string[] = [];
+    const weekCount = this.getWeekCount(input.startDate, input.targetDate);
+    const limits = this.getCapacityLimits(input.certificate);
+
+    if (limits.none) {
+      return {
+        weeks: Array.from({ length: weekCount }, () => ({ ...Object.fromEntries(WEEKDAYS.map(day => [day, '0'])), total: '0' })),
+        notes: [`The certificate from ${input.certificate!.doctorName} gives no capacity for work, so no hours are scheduled`]
+      };
+    }
+
+    const rostered = WEEKDAYS.filter(day => input.rosteredDays.includes(day));
+    if (rostered.length === 0) {
+      return { weeks: [], notes: ['Select at least one rostered day'] };
+    }
+    if (!(input.preInjuryHoursPerDay > 0) || !(input.preInjuryDaysPerWeek > 0)) {
+      return { weeks: [], notes: ['Enter the pre-injury hours per day and days per week'] };
+    }
+
+    const maxDays = Math.min(rostered.length, input.preInjuryDaysPerWeek, limits.daysPerWeek ?? Infinity);
+    const maxHours = Math.min(input.preInjuryHoursPerDay, limits.hoursPerDay ?? Infinity);
+
+    // Names whichever limit is lower in each dimension: only the certificate limits daily hours, but
+    // days can be limited by the certificate or by the roster
+    const certificateLimits: string[] = [];
+    if (maxHours < input.preInjuryHoursPerDay) certificateLimits.push(`${maxHours} hours a day`);
+    const daysLimited = maxDays < input.preInjuryDaysPerWeek;
+    const rosterLimited = daysLimited && maxDays === rostered.length && maxDays !== limits.daysPerWeek;
+    if (daysLimited && !rosterLimited) certificateLimits.push(`${maxDays} days a week`);
+    if (certificateLimits.length > 0) {
+      notes.push(`Capped at the certificate's capacity of ${certificateLimits.join(', ')}, so pre-injury hours are not reached`);
+    }
+    if (rosterLimited) {
+      notes.push(`Only ${rostered.length} rostered days are available, so pre-injury hours are not reached`);
+    }
+
+    const weeks = Array.from({ length: weekCount }, (_, index) => {
+      const fraction = this.getRampFraction(input.profile, index, weekCount, input.startPercent);
+      const weeklyTarget = input.preInjuryHoursPerDay * input.preInjuryDaysPerWeek * fraction;
+
+      // Reduced hours on every available day rather than fewer days, so the daily hours climb steadily
+      const daily = weeklyTarget / maxDays;
+      const hours = daily >= maxHours ? maxHours : roundDown(daily);
+
+      const week: RtwPlanWeekHours = {};
+      const scheduled = hours > 0 ? spreadDays(rostered, maxDays) : [];
+      WEEKDAYS.forEach(day => {
+        week[day] = scheduled.includes(day) ? String(hours) : '0';
+      });
+      week.total = String(Math.round(hours * scheduled.length * 100) / 100);
+      return week;
+    });
+
+    return { weeks, notes };
+  }
+};
@@ -1,5 +1,5 @@
 import { supabase, STORAGE_BUCKETS } from '../lib/supabase'
-import { Case, Communication, Document, CaseNote, SupervisorNote, Stakeholder } from '../types'
+import { Case, Communication, Document, CaseNote, SupervisorNote, Stakeholder, PIAWECalculation, PIAWECalculationVersion, JurisdictionRuleVersion, Payment, TreatmentApproval, TreatmentUsage, InvoiceLine, InvoiceLineStatus, ArrearsStatement, MedicalCertificate } from '../types'
 import { Database, Json } from '../types/database'
 
 type Tables = Database['public']['Tables']
@@ -69,7 +69,8 @@ export class SupabaseService {
           documents(*),
           case_notes(*),
           supervisor_notes(*),
-          stakeholders(*)
+          stakeholders(*),
+          medical_certificates(*)
         `)
         .order('created_at', { ascending: false })
       
@@ -133,7 +134,8 @@ export class SupabaseService {
           documents(*),
           case_notes(*),
           supervisor_notes(*),
-          stakeholders(*)
+          stakeholders(*),
+          medical_certificates(*)
         `)
         .eq('id', id)
         .single()
@@ -171,7 +173,8 @@ export class SupabaseService {
         documents(*),
         case_notes(*),
         supervisor_notes(*),
-        stakeholders(*)
+        stakeholders(*),
+        medical_certificates(*)
       `)
       .single()
 
@@ -202,7 +205,8 @@ export class SupabaseService {
         documents(*),
         case_notes(*),
         supervisor_notes(*),
-        stakeholders(*)
+        stakeholders(*),
+        medical_certificates(*)
       `)
       .single()
 
@@ -455,6 +459,498 @@ export class SupabaseService {
     if (error) throw error
   }
 
+  // PIAWE calculation history
+  async getPiaweVersions(caseId: string): Promise<PIAWECalculationVersion[]> {
+    const { data, error } = await supabase
+      .from('piawe_calculation_versions')
+      .select('*')
+      .eq('case_id', caseId)
+      .order('version_number', { ascending: false })
+
+    if (error) throw error
+
+    return (data || []).map(this.transformPiaweVersionFromDB)
+  }
+
+  async addPiaweVersion(
+    caseId: string,
+    calculation: PIAWECalculation,
+    reason: string,
+    author: { id?: string; name: string }
+  ): Promise<PIAWECalculationVersion> {
+    const { data: latest, error: latestError } = await supabase
+      .from('piawe_calculation_versions')
+      .select('version_number')
+      .eq('case_id', caseId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+
+    if (latestError) throw latestError
+
+    const versionNumber = (latest?.[0]?.version_number || 0) + 1
+    const { data, error } = await supabase
+      .from('piawe_calculation_versions')
+      .insert({
+        case_id: caseId,
+        version_number: versionNumber,
+        calculation: { ...calculation, versionNumber, agreed: false } as unknown as Json,
+        final_piawe: calculation.finalPIAWE,
+        reason,
+        created_by: author.name,
+        created_by_id: author.id || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformPiaweVersionFromDB(data)
+  }
+
+  // Only one version per case can be agreed, so any earlier agreement is withdrawn first
+  async agreePiaweVersion(caseId: string, versionId: string, agreedBy: string): Promise<void> {
+    const { error: clearError } = await supabase
+      .from('piawe_calculation_versions')
+      .update({ is_agreed: false, agreed_by: null, agreed_at: null })
+      .eq('case_id', caseId)
+      .eq('is_agreed', true)
+
+    if (clearError) throw clearError
+
+    const { error } = await supabase
+      .from('piawe_calculation_versions')
+      .update({ is_agreed: true, agreed_by: agreedBy, agreed_at: new Date().toISOString() })
+      .eq('id', versionId)
+
+    if (error) throw error
+  }
+
+  // Payments ledger
+  async getPayments(caseId: string): Promise<Payment[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('case_id', caseId)
+      .order('payment_date', { ascending: true })
+
+    if (error) throw error
+
+    return (data || []).map(this.transformPaymentFromDB)
+  }
+
+  async addPayments(caseId: string, payments: Omit<Payment, 'id' | 'status'>[], createdBy: { id?: string; name: string }): Promise<Payment[]> {
+    if (payments.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('payments')
+      .insert(payments.map(payment => ({
+        case_id: caseId,
+        type: payment.type,
+        amount: payment.amount,
+        payment_date: payment.date,
+        period_start: payment.periodStart || null,
+        period_end: payment.periodEnd || null,
+        provider_id: payment.providerId || null,
+        provider: payment.provider || null,
+        reference: payment.reference || null,
+        description: payment.description || null,
+        schedule_key: payment.scheduleKey || null,
+        created_by: createdBy.name,
+        created_by_id: createdBy.id || null
+      })))
+      .select()
+
+    if (error) throw error
+
+    return (data || []).map(this.transformPaymentFromDB)
+  }
+
+  // Replaces the draft payments generated from the entitlement schedule. Scheduled payments that
+  // have been approved, processed or rejected are left in place.
+  async replaceScheduledPayments(caseId: string, payments: Payment[], createdBy: { id?: string; name: string }): Promise<Payment[]> {
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('case_id', caseId)
+      .eq('status', 'draft')
+      .not('schedule_key', 'is', null)
+
+    if (error) throw error
+
+    return this.addPayments(caseId, payments, createdBy)
+  }
+
+  // Status changes are checked by the database: approvals against the approver's role limit and
+  // transitions against the draft -> approved -> processed workflow
+  async updatePaymentStatus(
+    id: string,
+    status: Payment['status'],
+    details: { approvedBy?: string; rejectedReason?: string; processedAt?: string; remittanceReference?: string } = {}
+  ): Promise<Payment> {
+    const { data, error } = await supabase
+      .from('payments')
+      .update({
+        status,
+        ...(details.approvedBy !== undefined && { approved_by: details.approvedBy }),
+        ...(details.rejectedReason !== undefined && { rejected_reason: details.rejectedReason }),
+        ...(details.processedAt !== undefined && { processed_at: details.processedAt }),
+        ...(details.remittanceReference !== undefined && { remittance_reference: details.remittanceReference })
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformPaymentFromDB(data)
+  }
+
+  async deletePayment(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Treatment approvals, with the attendances and invoices recorded against each
+  async getTreatmentApprovals(caseId: string): Promise<TreatmentApproval[]> {
+    const { data, error } = await supabase
+      .from('treatment_approvals')
+      .select('*, treatment_usage(*)')
+      .eq('case_id', caseId)
+      .order('start_date', { ascending: false })
+
+    if (error) throw error
+
+    return (data || []).map(approval => this.transformTreatmentApprovalFromDB(approval))
+  }
+
+  async addTreatmentApproval(
+    caseId: string,
+    approval: Omit<TreatmentApproval, 'id' | 'caseId' | 'usage' | 'createdBy' | 'createdAt'>,
+    createdBy: { id?: string; name: string }
+  ): Promise<TreatmentApproval> {
+    const { data, error } = await supabase
+      .from('treatment_approvals')
+      .insert({
+        case_id: caseId,
+        stakeholder_id: approval.stakeholderId || null,
+        provider: approval.provider,
+        treatment_type: approval.treatmentType,
+        sessions_approved: approval.sessionsApproved,
+        start_date: approval.startDate,
+        end_date: approval.endDate,
+        cost_limit: approval.costLimit ?? null,
+        session_cost_limit: approval.sessionCostLimit ?? null,
+        reference: approval.reference || null,
+        notes: approval.notes || null,
+        created_by: createdBy.name,
+        created_by_id: createdBy.id || null
+      })
+      .select('*, treatment_usage(*)')
+      .single()
+
+    if (error) throw error
+
+    return this.transformTreatmentApprovalFromDB(data)
+  }
+
+  // The database refuses to delete an approval once usage is recorded against it
+  async deleteTreatmentApproval(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('treatment_approvals')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async addTreatmentUsage(approvalId: string, usage: Omit<TreatmentUsage, 'id' | 'recordedBy'>, recordedBy: { id?: string; name: string }): Promise<TreatmentUsage> {
+    const { data, error } = await supabase
+      .from('treatment_usage')
+      .insert({
+        approval_id: approvalId,
+        kind: usage.kind,
+        usage_date: usage.date,
+        sessions: usage.sessions,
+        amount: usage.amount ?? null,
+        payment_id: usage.paymentId || null,
+        notes: usage.notes || null,
+        recorded_by: recordedBy.name,
+        recorded_by_id: recordedBy.id || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformTreatmentUsageFromDB(data)
+  }
+
+  async deleteTreatmentUsage(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('treatment_usage')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Invoice intake
+  async getInvoiceLines(statuses?: InvoiceLineStatus[]): Promise<InvoiceLine[]> {
+    let query = supabase
+      .from('invoice_lines')
+      .select('*')
+
+    if (statuses) query = query.in('status', statuses)
+
+    const { data, error } = await query
+      .order('imported_at', { ascending: false })
+      .order('line_number', { ascending: true })
+
+    if (error) throw error
+
+    return (data || []).map(this.transformInvoiceLineFromDB)
+  }
+
+  async addInvoiceLines(
+    lines: Omit<InvoiceLine, 'id' | 'paymentId' | 'rejectedReason' | 'importedBy' | 'importedAt'>[],
+    importedBy: { id?: string; name: string }
+  ): Promise<InvoiceLine[]> {
+    if (lines.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('invoice_lines')
+      .insert(lines.map(line => ({
+        file_name: line.fileName,
+        line_number: line.lineNumber,
+        invoice_number: line.invoiceNumber || null,
+        provider: line.provider,
+        provider_number: line.providerNumber || null,
+        claim_number: line.claimNumber || null,
+        worker_name: line.workerName || null,
+        service_date: line.serviceDate,
+        item_code: line.itemCode || null,
+        description: line.description || null,
+        amount: line.amount,
+        sessions: line.sessions,
+        case_id: line.caseId || null,
+        stakeholder_id: line.stakeholderId || null,
+        approval_id: line.approvalId || null,
+        status: line.status,
+        imported_by: importedBy.name,
+        imported_by_id: importedBy.id || null
+      })))
+      .select()
+
+    if (error) throw error
+
+    return (data || []).map(this.transformInvoiceLineFromDB)
+  }
+
+  // Approved and rejected lines are final; the database refuses further changes
+  async updateInvoiceLine(
+    id: string,
+    updates: Partial<Pick<InvoiceLine, 'caseId' | 'stakeholderId' | 'approvalId' | 'paymentId' | 'insurerAmount' | 'status' | 'rejectedReason'>>
+  ): Promise<InvoiceLine> {
+    const { data, error } = await supabase
+      .from('invoice_lines')
+      .update({
+        ...(updates.caseId !== undefined && { case_id: updates.caseId || null }),
+        ...(updates.stakeholderId !== undefined && { stakeholder_id: updates.stakeholderId || null }),
+        ...(updates.approvalId !== undefined && { approval_id: updates.approvalId || null }),
+        ...(updates.paymentId !== undefined && { payment_id: updates.paymentId || null }),
+        ...(updates.insurerAmount !== undefined && { insurer_amount: updates.insurerAmount }),
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.rejectedReason !== undefined && { rejected_reason: updates.rejectedReason })
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformInvoiceLineFromDB(data)
+  }
+
+  // Medical certificates are loaded with the case; these keep the register up to date
+  async addMedicalCertificate(
+    certificate: Omit<MedicalCertificate, 'id' | 'status' | 'createdBy' | 'createdAt'>,
+    createdBy: { id?: string; name: string }
+  ): Promise<MedicalCertificate> {
+    const { data, error } = await supabase
+      .from('medical_certificates')
+      .insert({
+        case_id: certificate.caseId,
+        stakeholder_id: certificate.stakeholderId || null,
+        doctor_name: certificate.doctorName,
+        issue_date: certificate.issueDate || null,
+        start_date: certificate.startDate,
+        end_date: certificate.endDate,
+        capacity: certificate.capacity,
+        hours_per_day: certificate.hoursPerDay ?? null,
+        days_per_week: certificate.daysPerWeek ?? null,
+        restrictions: certificate.restrictions,
+        recommendations: certificate.recommendations,
+        document_id: certificate.documentId || null,
+        notes: certificate.notes || null,
+        created_by: createdBy.name,
+        created_by_id: createdBy.id || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformMedicalCertificateFromDB(data)
+  }
+
+  async deleteMedicalCertificate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('medical_certificates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Marks lapsed certificates expired and returns how many were changed
+  async expireMedicalCertificates(): Promise<number> {
+    const { data, error } = await supabase.rpc('expire_medical_certificates')
+
+    if (error) throw error
+
+    return data || 0
+  }
+
+  // Arrears statements, newest first
+  async getArrearsStatements(caseId: string): Promise<ArrearsStatement[]> {
+    const { data, error } = await supabase
+      .from('arrears_statements')
+      .select('*')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return (data || []).map(this.transformArrearsStatementFromDB)
+  }
+
+  // A new statement supersedes any draft still waiting from an earlier PIAWE version
+  async addArrearsStatement(
+    statement: Omit<ArrearsStatement, 'id' | 'status' | 'createdBy' | 'createdAt'>,
+    createdBy: { id?: string; name: string }
+  ): Promise<ArrearsStatement> {
+    const { error: supersedeError } = await supabase
+      .from('arrears_statements')
+      .update({ status: 'superseded' })
+      .eq('case_id', statement.caseId)
+      .eq('status', 'draft')
+
+    if (supersedeError) throw supersedeError
+
+    const { data, error } = await supabase
+      .from('arrears_statements')
+      .insert({
+        case_id: statement.caseId,
+        piawe_version_id: statement.piaweVersionId || null,
+        version_number: statement.versionNumber ?? null,
+        previous_piawe: statement.previousPIAWE ?? null,
+        new_piawe: statement.newPIAWE,
+        lines: statement.lines as unknown as Json,
+        total_entitled: statement.totalEntitled,
+        total_paid: statement.totalPaid,
+        net_amount: statement.netAmount,
+        created_by: createdBy.name,
+        created_by_id: createdBy.id || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformArrearsStatementFromDB(data)
+  }
+
+  // Only drafts can change; the database refuses anything else
+  async updateArrearsStatement(
+    id: string,
+    updates: Partial<Pick<ArrearsStatement, 'status' | 'paymentId' | 'rejectedReason' | 'approvedBy' | 'approvedAt'>>
+  ): Promise<ArrearsStatement> {
+    const { data, error } = await supabase
+      .from('arrears_statements')
+      .update({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.paymentId !== undefined && { payment_id: updates.paymentId || null }),
+        ...(updates.rejectedReason !== undefined && { rejected_reason: updates.rejectedReason }),
+        ...(updates.approvedBy !== undefined && { approved_by: updates.approvedBy }),
+        ...(updates.approvedAt !== undefined && { approved_at: updates.approvedAt })
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformArrearsStatementFromDB(data)
+  }
+
+  // Raises and approves the arrears payment and approves the statement in one transaction, so a
+  // failure (such as the approval limit) leaves nothing behind and a retry cannot pay twice.
+  // Returns the new payment's id.
+  async approveArrearsStatement(id: string, payment: Omit<Payment, 'id' | 'status'>, approvedBy: string): Promise<string> {
+    const { data, error } = await supabase.rpc('approve_arrears_statement', {
+      p_statement_id: id,
+      p_payment_date: payment.date,
+      p_period_start: payment.periodStart || null,
+      p_period_end: payment.periodEnd || null,
+      p_description: payment.description || null,
+      p_user_name: approvedBy
+    })
+
+    if (error) throw error
+
+    return data
+  }
+
+  // Jurisdiction rule changes, oldest first so later publications on the same date win
+  async getJurisdictionRuleVersions(): Promise<JurisdictionRuleVersion[]> {
+    const { data, error } = await supabase
+      .from('jurisdiction_rule_versions')
+      .select('*')
+      .order('effective_from', { ascending: true })
+      .order('published_at', { ascending: true })
+
+    if (error) throw error
+
+    return (data || []).map(this.transformJurisdictionRuleVersionFromDB)
+  }
+
+  async publishJurisdictionRuleVersion(
+    version: Omit<JurisdictionRuleVersion, 'id' | 'publishedAt'>
+  ): Promise<JurisdictionRuleVersion> {
+    const { data, error } = await supabase
+      .from('jurisdiction_rule_versions')
+      .insert({
+        jurisdiction: version.jurisdiction,
+        version: version.version,
+        effective_from: version.effectiveFrom,
+        rules: version.rules as unknown as Json,
+        previous_rules: version.previousRules as unknown as Json,
+        reason: version.reason,
+        published_by: version.publishedBy,
+        published_by_id: version.publishedById || null
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.transformJurisdictionRuleVersionFromDB(data)
+  }
+
   // Notifications
   async createNotification(notification: {
     userId: string
@@ -598,7 +1094,9 @@ export class SupabaseService {
         readBy: note.read_by
       })),
       stakeholders: (dbCase.stakeholders || []).map(this.transformStakeholderFromDB),
+      medicalCertificates: (dbCase.medical_certificates || []).map(this.transformMedicalCertificateFromDB),
       rtwPlan: dbCase.rtw_plan,
+      rtwPlanHistory: dbCase.rtw_plan_history || [],
       consultant: dbCase.consultant_id,
       status: dbCase.status,
       claimType: dbCase.claim_type,
@@ -606,6 +1104,7 @@ export class SupabaseService {
       agent: dbCase.agent,
       wagesSalary: dbCase.wages_salary,
       piaweCalculation: dbCase.piawe_calculation,
+      compensation: dbCase.compensation,
       outcome: dbCase.outcome,
       createdAt: dbCase.created_at,
       updatedAt: dbCase.updated_at,
@@ -625,6 +1124,7 @@ export class SupabaseService {
       planned_rtw_date: caseData.plannedRtwDate,
       review_dates: caseData.reviewDates,
       rtw_plan: caseData.rtwPlan as unknown as Json,
+      rtw_plan_history: (caseData.rtwPlanHistory || []) as unknown as Json,
       consultant_id: caseData.consultant,
       status: caseData.status,
       claim_type: caseData.claimType,
@@ -632,6 +1132,7 @@ export class SupabaseService {
       agent: caseData.agent,
       wages_salary: caseData.wagesSalary as unknown as Json,
       piawe_calculation: caseData.piaweCalculation as unknown as Json,
+      compensation: caseData.compensation as unknown as Json,
       outcome: caseData.outcome as unknown as Json
     }
   }
@@ -650,6 +1151,7 @@ export class SupabaseService {
     if (updates.plannedRtwDate) dbUpdates.planned_rtw_date = updates.plannedRtwDate
     if (updates.reviewDates) dbUpdates.review_dates = updates.reviewDates
     if (updates.rtwPlan) dbUpdates.rtw_plan = updates.rtwPlan as unknown as Json
+    if (updates.rtwPlanHistory) dbUpdates.rtw_plan_history = updates.rtwPlanHistory as unknown as Json
     if (updates.status) dbUpdates.status = updates.status
     if (updates.consultant !== undefined) dbUpdates.consultant_id = updates.consultant
     if (updates.claimType !== undefined) dbUpdates.claim_type = updates.claimType
@@ -657,12 +1159,175 @@ export class SupabaseService {
     if (updates.agent !== undefined) dbUpdates.agent = updates.agent
     if (updates.wagesSalary !== undefined) dbUpdates.wages_salary = updates.wagesSalary as unknown as Json
     if (updates.piaweCalculation !== undefined) dbUpdates.piawe_calculation = updates.piaweCalculation as unknown as Json
+    if (updates.compensation !== undefined) dbUpdates.compensation = updates.compensation as unknown as Json
     if (updates.outcome !== undefined) dbUpdates.outcome = updates.outcome as unknown as Json
     if (updates.workcoverType !== undefined) dbUpdates.workcover_type = updates.workcoverType;
 
     return dbUpdates
   }
 
+  private transformPiaweVersionFromDB(dbVersion: any): PIAWECalculationVersion {
+    return {
+      id: dbVersion.id,
+      caseId: dbVersion.case_id,
+      versionNumber: dbVersion.version_number,
+      calculation: dbVersion.calculation,
+      finalPIAWE: Number(dbVersion.final_piawe),
+      reason: dbVersion.reason,
+      createdBy: dbVersion.created_by,
+      createdById: dbVersion.created_by_id,
+      createdAt: dbVersion.created_at,
+      isAgreed: dbVersion.is_agreed,
+      agreedBy: dbVersion.agreed_by,
+      agreedAt: dbVersion.agreed_at
+    }
+  }
+
+  private transformPaymentFromDB(dbPayment: any): Payment {
+    return {
+      id: dbPayment.id,
+      caseId: dbPayment.case_id,
+      date: dbPayment.payment_date,
+      amount: Number(dbPayment.amount),
+      type: dbPayment.type,
+      providerId: dbPayment.provider_id || undefined,
+      provider: dbPayment.provider || undefined,
+      reference: dbPayment.reference || undefined,
+      description: dbPayment.description || undefined,
+      status: dbPayment.status,
+      periodStart: dbPayment.period_start || undefined,
+      periodEnd: dbPayment.period_end || undefined,
+      scheduleKey: dbPayment.schedule_key || undefined,
+      createdBy: dbPayment.created_by || undefined,
+      approvedBy: dbPayment.approved_by || undefined,
+      approvedAt: dbPayment.approved_at || undefined,
+      rejectedReason: dbPayment.rejected_reason || undefined,
+      processedAt: dbPayment.processed_at || undefined,
+      remittanceReference: dbPayment.remittance_reference || undefined
+    }
+  }
+
+  private transformTreatmentApprovalFromDB(dbApproval: any): TreatmentApproval {
+    return {
+      id: dbApproval.id,
+      caseId: dbApproval.case_id,
+      stakeholderId: dbApproval.stakeholder_id || undefined,
+      provider: dbApproval.provider,
+      treatmentType: dbApproval.treatment_type,
+      sessionsApproved: dbApproval.sessions_approved,
+      startDate: dbApproval.start_date,
+      endDate: dbApproval.end_date,
+      costLimit: dbApproval.cost_limit !== null ? Number(dbApproval.cost_limit) : undefined,
+      sessionCostLimit: dbApproval.session_cost_limit !== null ? Number(dbApproval.session_cost_limit) : undefined,
+      reference: dbApproval.reference || undefined,
+      notes: dbApproval.notes || undefined,
+      usage: (dbApproval.treatment_usage || [])
+        .map(this.transformTreatmentUsageFromDB)
+        .sort((a: TreatmentUsage, b: TreatmentUsage) => a.date.localeCompare(b.date)),
+      createdBy: dbApproval.created_by || undefined,
+      createdAt: dbApproval.created_at
+    }
+  }
+
+  private transformTreatmentUsageFromDB(dbUsage: any): TreatmentUsage {
+    return {
+      id: dbUsage.id,
+      kind: dbUsage.kind,
+      date: dbUsage.usage_date,
+      sessions: dbUsage.sessions,
+      amount: dbUsage.amount !== null ? Number(dbUsage.amount) : undefined,
+      paymentId: dbUsage.payment_id || undefined,
+      notes: dbUsage.notes || undefined,
+      recordedBy: dbUsage.recorded_by || undefined
+    }
+  }
+
+  private transformInvoiceLineFromDB(dbLine: any): InvoiceLine {
+    return {
+      id: dbLine.id,
+      fileName: dbLine.file_name,
+      lineNumber: dbLine.line_number,
+      invoiceNumber: dbLine.invoice_number || undefined,
+      provider: dbLine.provider,
+      providerNumber: dbLine.provider_number || undefined,
+      claimNumber: dbLine.claim_number || undefined,
+      workerName: dbLine.worker_name || undefined,
+      serviceDate: dbLine.service_date,
+      itemCode: dbLine.item_code || undefined,
+      description: dbLine.description || undefined,
+      amount: Number(dbLine.amount),
+      sessions: dbLine.sessions,
+      caseId: dbLine.case_id || undefined,
+      stakeholderId: dbLine.stakeholder_id || undefined,
+      approvalId: dbLine.approval_id || undefined,
+      paymentId: dbLine.payment_id || undefined,
+      insurerAmount: dbLine.insurer_amount != null ? Number(dbLine.insurer_amount) : undefined,
+      status: dbLine.status,
+      rejectedReason: dbLine.rejected_reason || undefined,
+      importedBy: dbLine.imported_by || undefined,
+      importedAt: dbLine.imported_at
+    }
+  }
+
+  private transformMedicalCertificateFromDB(dbCertificate: any): MedicalCertificate {
+    return {
+      id: dbCertificate.id,
+      caseId: dbCertificate.case_id,
+      issueDate: dbCertificate.issue_date || undefined,
+      startDate: dbCertificate.start_date,
+      endDate: dbCertificate.end_date,
+      stakeholderId: dbCertificate.stakeholder_id || undefined,
+      doctorName: dbCertificate.doctor_name,
+      capacity: dbCertificate.capacity,
+      hoursPerDay: dbCertificate.hours_per_day !== null ? Number(dbCertificate.hours_per_day) : undefined,
+      daysPerWeek: dbCertificate.days_per_week ?? undefined,
+      restrictions: dbCertificate.restrictions || [],
+      recommendations: dbCertificate.recommendations || [],
+      documentId: dbCertificate.document_id || undefined,
+      notes: dbCertificate.notes || undefined,
+      status: dbCertificate.status,
+      createdBy: dbCertificate.created_by || undefined,
+      createdAt: dbCertificate.created_at
+    }
+  }
+
+  private transformArrearsStatementFromDB(dbStatement: any): ArrearsStatement {
+    return {
+      id: dbStatement.id,
+      caseId: dbStatement.case_id,
+      piaweVersionId: dbStatement.piawe_version_id || undefined,
+      versionNumber: dbStatement.version_number ?? undefined,
+      previousPIAWE: dbStatement.previous_piawe !== null ? Number(dbStatement.previous_piawe) : undefined,
+      newPIAWE: Number(dbStatement.new_piawe),
+      lines: dbStatement.lines || [],
+      totalEntitled: Number(dbStatement.total_entitled),
+      totalPaid: Number(dbStatement.total_paid),
+      netAmount: Number(dbStatement.net_amount),
+      status: dbStatement.status,
+      paymentId: dbStatement.payment_id || undefined,
+      rejectedReason: dbStatement.rejected_reason || undefined,
+      createdBy: dbStatement.created_by,
+      createdAt: dbStatement.created_at,
+      approvedBy: dbStatement.approved_by || undefined,
+      approvedAt: dbStatement.approved_at || undefined
+    }
+  }
+
+  private transformJurisdictionRuleVersionFromDB(dbVersion: any): JurisdictionRuleVersion {
+    return {
+      id: dbVersion.id,
+      jurisdiction: dbVersion.jurisdiction,
+      version: dbVersion.version,
+      effectiveFrom: dbVersion.effective_from,
+      rules: dbVersion.rules,
+      previousRules: dbVersion.previous_rules,
+      reason: dbVersion.reason,
+      publishedBy: dbVersion.published_by,
+      publishedById: dbVersion.published_by_id,
+      publishedAt: dbVersion.published_at
+    }
+  }
+
   private transformStakeholderFromDB(dbStakeholder: any): Stakeholder {
     return {
       id: dbStakeholder.id,
@@ -0,0 +1,132 @@
+import { Payment, Task, TreatmentApproval, TreatmentApprovalStatus, TreatmentType, TreatmentUsage } from '../types';
+import { parseISO, format, differenceInCalendarDays, subDays, max as maxDate } from 'date-fns';
+
+export const TREATMENT_TYPES: { value: TreatmentType; label: string }[] = [
+  { value: 'physiotherapy', label: 'Physiotherapy' },
+  { value: 'psychology', label: 'Psychology' },
+  { value: 'exercise_physiology', label: 'Exercise physiology' },
+  { value: 'other', label: 'Other treatment' }
+];
+
+// An approval is running low with this many sessions or days left
+const LOW_SESSIONS = 2;
+const LOW_DAYS = 14;
+
+// Follow-up tasks are due this many days before the approval ends, so a new treatment plan can
+// be requested and approved without a gap in treatment
+const FOLLOW_UP_LEAD_DAYS = 7;
+
+// Follow-up tasks carry this key so each approval only ever raises one
+const FOLLOW_UP_TASK_PREFIX = 'treatment-plan-';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const treatmentApprovalService = {
+  getTypeLabel(type: TreatmentType): string {
+    return TREATMENT_TYPES.find(option => option.value === type)?.label || type;
+  },
+
+  // Usage that counts against the approval. Invoices whose ledger payment was rejected are left out.
+  getCountedUsage(approval: TreatmentApproval, payments: Payment[]): TreatmentUsage[] {
+    const rejected = new Set(payments.filter(payment => payment.status === 'rejected').map(payment => payment.id));
+    return approval.usage.filter(usage => !usage.paymentId || !rejected.has(usage.paymentId));
+  },
+
+  getStatus(approval: TreatmentApproval, payments: Payment[], today: Date = new Date()): TreatmentApprovalStatus {
+    const usage = this.getCountedUsage(approval, payments);
+    const sessionsUsed = usage.reduce((sum, entry) => sum + entry.sessions, 0);
+    const costUsed = roundCents(usage.reduce((sum, entry) => sum + (entry.amount || 0), 0));
+    const sessionsRemaining = Math.max(0, approval.sessionsApproved - sessionsUsed);
+    const costRemaining = approval.costLimit !== undefined ? Math.max(0, roundCents(approval.costLimit - costUsed)) : undefined;
+    const daysRemaining = Math.max(0, differenceInCalendarDays(parseISO(approval.endDate), today) + 1);
+
+    // Cost is running low when what is left would not cover another session at the usual rate
+    const invoicedSessions = usage.filter(entry => entry.kind === 'invoice').reduce((sum, entry) => sum + entry.sessions, 0);
+    const sessionCost = approval.sessionCostLimit || (invoicedSessions > 0 ? costUsed / invoicedSessions : 0);
+    const costLow = costRemaining !== undefined && sessionCost > 0 && costRemaining < sessionCost;
+
+    const warnings: string[] = [];
+    if (sessionsUsed > approval.sessionsApproved) {
+      warnings.push(`${plural(sessionsUsed - approval.sessionsApproved, 'session')} over the ${approval.sessionsApproved} approved`);
+    } else if (sessionsRemaining <= LOW_SESSIONS) {
+      warnings.push(sessionsRemaining === 0 ? 'All approved sessions used' : `${plural(sessionsRemaining, 'session')} left`);
+    }
+    if (approval.costLimit !== undefined && costUsed > approval.costLimit) {
+      warnings.push(`$${(costUsed - approval.costLimit).toFixed(2)} invoiced over the cost limit`);
+    } else if (costRemaining !== undefined && (costRemaining === 0 || costLow)) {
+      warnings.push(`$${costRemaining.toFixed(2)} of the cost limit left`);
+    }
+    if (daysRemaining === 0) {
+      warnings.push(`Approval ended ${formatDate(approval.endDate)}`);
+    } else if (daysRemaining <= LOW_DAYS) {
+      warnings.push(`Approval ends in ${plural(daysRemaining, 'day')}`);
+    }
+
+    const state: TreatmentApprovalStatus['state'] =
+      differenceInCalendarDays(parseISO(approval.startDate), today) > 0 ? 'upcoming'
+        : daysRemaining === 0 ? 'expired'
+          : sessionsRemaining === 0 || costRemaining === 0 ? 'exhausted'
+            : warnings.length > 0 ? 'running-low'
+              : 'active';
+
+    return { sessionsUsed, sessionsRemaining, costUsed, costRemaining, daysRemaining, state, warnings };
+  },
+
+  // Problems with recording an attendance or invoice against the approval. These are warnings
+  // rather than blockers: treatment that has happened is still recorded.
+  getUsageIssues(
+    approval: TreatmentApproval,
+    entry: Pick<TreatmentUsage, 'date' | 'sessions' | 'amount'>,
+    payments: Payment[]
+  ): string[] {
+    const status = this.getStatus(approval, payments, parseISO(entry.date));
+    const issues: string[] = [];
+
+    if (entry.date < approval.startDate || entry.date > approval.endDate) {
+      issues.push(`${formatDate(entry.date)} is outside the approval (${formatDate(approval.startDate)} to ${formatDate(approval.endDate)})`);
+    }
+    if (entry.sessions > status.sessionsRemaining) {
+      issues.push(`Only ${plural(status.sessionsRemaining, 'session')} left on the approval`);
+    }
+    if (entry.amount !== undefined) {
+      if (status.costRemaining !== undefined && entry.amount > status.costRemaining) {
+        issues.push(`Only $${status.costRemaining.toFixed(2)} left under the cost limit`);
+      }
+      if (approval.sessionCostLimit && entry.sessions > 0 && entry.amount / entry.sessions > approval.sessionCostLimit) {
+        issues.push(`More than the $${approval.sessionCostLimit.toFixed(2)} approved per session`);
+      }
+    }
+
+    return issues;
+  },
+
+  needsFollowUp(status: TreatmentApprovalStatus): boolean {
+    return status.state === 'running-low' || status.state === 'exhausted' || status.state === 'expired';
+  },
+
+  getFollowUpTaskId(approval: TreatmentApproval): string {
+    return `${FOLLOW_UP_TASK_PREFIX}${approval.id}`;
+  },
+
+  // A task to request a new treatment plan for each approval that is running low or has run out.
+  // Approvals that already have a follow-up task, open or completed, are skipped.
+  toFollowUpTasks(approvals: TreatmentApproval[], payments: Payment[], existing: Task[] = [], today: Date = new Date()): Task[] {
+    const raised = new Set(existing.map(task => task.id));
+
+    const followUps: Task[] = approvals
+      .filter(approval => !raised.has(this.getFollowUpTaskId(approval)))
+      .map(approval => ({ approval, status: this.getStatus(approval, payments, today) }))
+      .filter(({ status }) => this.needsFollowUp(status))
+      .map(({ approval, status }) => ({
+        id: this.getFollowUpTaskId(approval),
+        title: `Request treatment plan: ${this.getTypeLabel(approval.treatmentType)} (${approval.provider})`,
+        description: `${status.warnings.join('. ')}. Ask ${approval.provider} for an updated treatment plan and decide whether to approve further sessions.`,
+        dueDate: format(maxDate([today, subDays(parseISO(approval.endDate), FOLLOW_UP_LEAD_DAYS)]), 'yyyy-MM-dd'),
+        completed: false
+      }));
+
+    return [...existing, ...followUps];
+  }
+};
@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { CERTIFICATE_EXPIRY_WARNING_DAYS } from '../services/medicalCertificateService';
+
+interface AlertSettingsState {
+  certificateExpiryWarningDays: number; // Certificates ending within this many days raise an expiry alert
+
+  // Actions
+  setCertificateExpiryWarningDays: (days: number) => void;
+}
+
+export const useAlertSettingsStore = create<AlertSettingsState>()(
+  persist(
+    (set) => ({
+      certificateExpiryWarningDays: CERTIFICATE_EXPIRY_WARNING_DAYS,
+
+      setCertificateExpiryWarningDays: (days: number) => {
+        set({ certificateExpiryWarningDays: Math.max(0, Math.round(days)) });
+      }
+    }),
+    {
+      name: 'alert-settings'
+    }
+  )
+);
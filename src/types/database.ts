@@ -50,6 +50,7 @@ export interface Database {
           planned_rtw_date: string
           review_dates: string[]
           rtw_plan: Json
+          rtw_plan_history: Json
           consultant_id: string
           status: 'open' | 'closed' | 'pending'
           claim_type: 'insured' | 'self-insured' | null
@@ -57,6 +58,7 @@ export interface Database {
           agent: string | null
           wages_salary: Json | null
           piawe_calculation: Json | null
+          compensation: Json | null
           outcome: Json | null
           created_at: string
           updated_at: string
@@ -74,6 +76,7 @@ export interface Database {
           planned_rtw_date: string
           review_dates?: string[]
           rtw_plan: Json
+          rtw_plan_history?: Json
           consultant_id: string
           status?: 'open' | 'closed' | 'pending'
           claim_type?: 'insured' | 'self-insured' | null
@@ -81,6 +84,7 @@ export interface Database {
           agent?: string | null
           wages_salary?: Json | null
           piawe_calculation?: Json | null
+          compensation?: Json | null
           outcome?: Json | null
           created_at?: string
           updated_at?: string
@@ -97,6 +101,7 @@ export interface Database {
           planned_rtw_date?: string
           review_dates?: string[]
           rtw_plan?: Json
+          rtw_plan_history?: Json
           consultant_id?: string
           status?: 'open' | 'closed' | 'pending'
           claim_type?: 'insured' | 'self-insured' | null
@@ -104,6 +109,7 @@ export interface Database {
           agent?: string | null
           wages_salary?: Json | null
           piawe_calculation?: Json | null
+          compensation?: Json | null
           outcome?: Json | null
           updated_at?: string
           workcover_type?: string | null
@@ -305,12 +311,400 @@ export interface Database {
           metadata?: Json | null
         }
       }
+      piawe_calculation_versions: {
+        Row: {
+          id: string
+          case_id: string
+          version_number: number
+          calculation: Json
+          final_piawe: number
+          reason: string
+          created_by: string
+          created_by_id: string | null
+          is_agreed: boolean
+          agreed_by: string | null
+          agreed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          version_number: number
+          calculation: Json
+          final_piawe: number
+          reason: string
+          created_by: string
+          created_by_id?: string | null
+          is_agreed?: boolean
+          created_at?: string
+        }
+        Update: {
+          is_agreed?: boolean
+          agreed_by?: string | null
+          agreed_at?: string | null
+        }
+      }
+      jurisdiction_rule_versions: {
+        Row: {
+          id: string
+          jurisdiction: string
+          version: string
+          effective_from: string
+          rules: Json
+          previous_rules: Json
+          reason: string
+          published_by: string
+          published_by_id: string | null
+          published_at: string
+        }
+        Insert: {
+          id?: string
+          jurisdiction: string
+          version: string
+          effective_from: string
+          rules: Json
+          previous_rules: Json
+          reason: string
+          published_by: string
+          published_by_id?: string | null
+          published_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      payments: {
+        Row: {
+          id: string
+          case_id: string
+          type: 'weekly' | 'superannuation' | 'medical' | 'legal' | 'other'
+          amount: number
+          payment_date: string
+          period_start: string | null
+          period_end: string | null
+          provider_id: string | null
+          provider: string | null
+          reference: string | null
+          description: string | null
+          status: 'draft' | 'approved' | 'processed' | 'rejected'
+          schedule_key: string | null
+          created_by: string | null
+          created_by_id: string | null
+          approved_by: string | null
+          approved_by_id: string | null
+          approved_at: string | null
+          rejected_reason: string | null
+          processed_at: string | null
+          remittance_reference: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          type: 'weekly' | 'superannuation' | 'medical' | 'legal' | 'other'
+          amount: number
+          payment_date: string
+          period_start?: string | null
+          period_end?: string | null
+          provider_id?: string | null
+          provider?: string | null
+          reference?: string | null
+          description?: string | null
+          status?: 'draft'
+          schedule_key?: string | null
+          created_by?: string | null
+          created_by_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          type?: 'weekly' | 'superannuation' | 'medical' | 'legal' | 'other'
+          amount?: number
+          payment_date?: string
+          period_start?: string | null
+          period_end?: string | null
+          provider_id?: string | null
+          provider?: string | null
+          reference?: string | null
+          description?: string | null
+          status?: 'draft' | 'approved' | 'processed' | 'rejected'
+          approved_by?: string | null
+          rejected_reason?: string | null
+          processed_at?: string | null
+          remittance_reference?: string | null
+        }
+      }
+      treatment_approvals: {
+        Row: {
+          id: string
+          case_id: string
+          stakeholder_id: string | null
+          provider: string
+          treatment_type: 'physiotherapy' | 'psychology' | 'exercise_physiology' | 'other'
+          sessions_approved: number
+          start_date: string
+          end_date: string
+          cost_limit: number | null
+          session_cost_limit: number | null
+          reference: string | null
+          notes: string | null
+          created_by: string | null
+          created_by_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          stakeholder_id?: string | null
+          provider: string
+          treatment_type: 'physiotherapy' | 'psychology' | 'exercise_physiology' | 'other'
+          sessions_approved: number
+          start_date: string
+          end_date: string
+          cost_limit?: number | null
+          session_cost_limit?: number | null
+          reference?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_by_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          stakeholder_id?: string | null
+          provider?: string
+          sessions_approved?: number
+          start_date?: string
+          end_date?: string
+          cost_limit?: number | null
+          session_cost_limit?: number | null
+          reference?: string | null
+          notes?: string | null
+          updated_at?: string
+        }
+      }
+      treatment_usage: {
+        Row: {
+          id: string
+          approval_id: string
+          kind: 'attendance' | 'invoice'
+          usage_date: string
+          sessions: number
+          amount: number | null
+          payment_id: string | null
+          notes: string | null
+          recorded_by: string | null
+          recorded_by_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          approval_id: string
+          kind: 'attendance' | 'invoice'
+          usage_date: string
+          sessions?: number
+          amount?: number | null
+          payment_id?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          recorded_by_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          usage_date?: string
+          sessions?: number
+          amount?: number | null
+          payment_id?: string | null
+          notes?: string | null
+        }
+      }
+      invoice_lines: {
+        Row: {
+          id: string
+          file_name: string
+          line_number: number
+          invoice_number: string | null
+          provider: string
+          provider_number: string | null
+          claim_number: string | null
+          worker_name: string | null
+          service_date: string
+          item_code: string | null
+          description: string | null
+          amount: number
+          sessions: number
+          case_id: string | null
+          stakeholder_id: string | null
+          approval_id: string | null
+          payment_id: string | null
+          insurer_amount: number | null
+          status: 'unmatched' | 'matched' | 'approved' | 'rejected'
+          rejected_reason: string | null
+          imported_by: string | null
+          imported_by_id: string | null
+          imported_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          file_name: string
+          line_number: number
+          invoice_number?: string | null
+          provider: string
+          provider_number?: string | null
+          claim_number?: string | null
+          worker_name?: string | null
+          service_date: string
+          item_code?: string | null
+          description?: string | null
+          amount: number
+          sessions?: number
+          case_id?: string | null
+          stakeholder_id?: string | null
+          approval_id?: string | null
+          status?: 'unmatched' | 'matched'
+          imported_by?: string | null
+          imported_by_id?: string | null
+          imported_at?: string
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string | null
+          stakeholder_id?: string | null
+          approval_id?: string | null
+          payment_id?: string | null
+          insurer_amount?: number | null
+          status?: 'unmatched' | 'matched' | 'approved' | 'rejected'
+          rejected_reason?: string | null
+        }
+      }
+      arrears_statements: {
+        Row: {
+          id: string
+          case_id: string
+          piawe_version_id: string | null
+          version_number: number | null
+          previous_piawe: number | null
+          new_piawe: number
+          lines: Json
+          total_entitled: number
+          total_paid: number
+          net_amount: number
+          status: 'draft' | 'approved' | 'rejected' | 'superseded'
+          payment_id: string | null
+          rejected_reason: string | null
+          created_by: string
+          created_by_id: string | null
+          created_at: string
+          approved_by: string | null
+          approved_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          piawe_version_id?: string | null
+          version_number?: number | null
+          previous_piawe?: number | null
+          new_piawe: number
+          lines: Json
+          total_entitled: number
+          total_paid: number
+          net_amount: number
+          status?: 'draft'
+          created_by: string
+          created_by_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          status?: 'draft' | 'approved' | 'rejected' | 'superseded'
+          payment_id?: string | null
+          rejected_reason?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+        }
+      }
+      medical_certificates: {
+        Row: {
+          id: string
+          case_id: string
+          stakeholder_id: string | null
+          doctor_name: string
+          issue_date: string | null
+          start_date: string
+          end_date: string
+          capacity: 'full' | 'suitable-duties' | 'none'
+          hours_per_day: number | null
+          days_per_week: number | null
+          restrictions: string[]
+          recommendations: string[]
+          document_id: string | null
+          notes: string | null
+          status: 'active' | 'expired'
+          created_by: string | null
+          created_by_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          stakeholder_id?: string | null
+          doctor_name: string
+          issue_date?: string | null
+          start_date: string
+          end_date: string
+          capacity: 'full' | 'suitable-duties' | 'none'
+          hours_per_day?: number | null
+          days_per_week?: number | null
+          restrictions?: string[]
+          recommendations?: string[]
+          document_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_by_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          stakeholder_id?: string | null
+          doctor_name?: string
+          issue_date?: string | null
+          start_date?: string
+          end_date?: string
+          capacity?: 'full' | 'suitable-duties' | 'none'
+          hours_per_day?: number | null
+          days_per_week?: number | null
+          restrictions?: string[]
+          recommendations?: string[]
+          document_id?: string | null
+          notes?: string | null
+          status?: 'active' | 'expired'
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      expire_medical_certificates: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      approve_arrears_statement: {
+        Args: {
+          p_statement_id: string
+          p_payment_date: string
+          p_period_start: string | null
+          p_period_end: string | null
+          p_description: string | null
+          p_user_name: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
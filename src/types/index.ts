@@ -96,6 +96,20 @@ export interface Task {
   assignedTo?: string;
 }
 
+// Hours for each day of one week of an RTW plan, as entered on the plan form
+export interface RtwPlanWeekHours {
+  monday?: string;
+  tuesday?: string;
+  wednesday?: string;
+  thursday?: string;
+  friday?: string;
+  saturday?: string;
+  sunday?: string;
+  total?: string;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
 export interface RtwPlan {
   id: string;
   title: string;
@@ -104,7 +118,10 @@ export interface RtwPlan {
   goals: string[];
   tasks: Task[];
   reviewDate: string;
-  status: 'draft' | 'active' | 'completed';
+  status: 'draft' | 'active' | 'completed' | 'superseded';
+  sequence?: number; // Position of the plan in the case's run of plans, from 1
+  supersededAt?: string;
+  supersededBy?: string; // Id of the plan that replaced this one
 
   // --- PDF Mapping Fields ---
   claimNumber?: string;
@@ -116,12 +133,7 @@ export interface RtwPlan {
   supportsOrModifications?: string;
   dutiesToBeAvoided?: string;
   medicalRestrictions?: string;
-  hoursOfWork?: {
-    week1?: { monday?: string; tuesday?: string; wednesday?: string; thursday?: string; friday?: string; saturday?: string; sunday?: string; total?: string };
-    week2?: { monday?: string; tuesday?: string; wednesday?: string; thursday?: string; friday?: string; saturday?: string; sunday?: string; total?: string };
-    week3?: { monday?: string; tuesday?: string; wednesday?: string; thursday?: string; friday?: string; saturday?: string; sunday?: string; total?: string };
-    week4?: { monday?: string; tuesday?: string; wednesday?: string; thursday?: string; friday?: string; saturday?: string; sunday?: string; total?: string };
-  };
+  hoursOfWork?: RtwPlanWeekHours[]; // One entry per week from the start date
   workLocation?: string;
   supervisorDetails?: string;
   preparedBy?: string;
@@ -147,36 +159,237 @@ export interface RtwPlan {
     date?: string;
   };
   additionalNotes?: string;
+  capacityOverride?: RtwPlanCapacityOverride;
 }
 
+// Accepts the capacity conflicts listed so the plan can go active while they stand
+export interface RtwPlanCapacityOverride {
+  conflictIds: string[];
+  reason: string;
+  overriddenBy: string;
+  overriddenAt: string;
+}
+
+// Payments are kept in the payments ledger rather than on the compensation record
 export interface Compensation {
   weeklyAmount: number;
   startDate: string;
   endDate?: string;
   type: 'weekly' | 'medical' | 'legal' | 'other';
   status: 'claimed' | 'approved' | 'paid' | 'rejected';
-  payments: Payment[];
+  currentWeeklyEarnings?: CurrentWeeklyEarnings[]; // Earnings from suitable duties, deducted from entitlement
+  workCapacityDecisions?: WorkCapacityDecision[];
 }
 
+// The outcome at a work capacity decision point. Weekly payments past the point are only
+// scheduled once a decision to continue them is recorded.
+export interface WorkCapacityDecision {
+  decisionPointId: string;
+  outcome: 'continue' | 'cease';
+  decidedOn: string;
+  decidedBy: string;
+  notes?: string;
+}
+
+// Earnings while on suitable duties. An open-ended entry has no endDate.
+export interface CurrentWeeklyEarnings {
+  id: string;
+  startDate: string;
+  endDate?: string;
+  weeklyAmount: number;
+  hoursPerWeek?: number;
+  notes?: string;
+}
+
+export type PaymentType = 'weekly' | 'superannuation' | 'medical' | 'legal' | 'other';
+
+// Draft payments need approval before they can be processed. Processed and rejected are final.
+export type PaymentStatus = 'draft' | 'approved' | 'processed' | 'rejected';
+
 export interface Payment {
   id: string;
+  caseId?: string;
+  date: string;
+  amount: number;
+  type: PaymentType;
+  providerId?: string; // Stakeholder the payment is made to
+  provider?: string; // Payee name, copied from the stakeholder when there is one
+  reference?: string; // Invoice or claim reference quoted on the remittance
+  description?: string;
+  status: PaymentStatus;
+  periodStart?: string; // Entitlement week a weekly payment covers
+  periodEnd?: string;
+  scheduleKey?: string; // Set on weekly payments generated from the entitlement schedule
+  createdBy?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  rejectedReason?: string;
+  processedAt?: string;
+  remittanceReference?: string; // Remittance line the payment was reconciled against
+}
+
+// Medical costs the employer pays before the insurer takes over, worked out from approved and
+// processed medical payments in date order
+export interface MedicalExcess {
+  threshold: number;
+  current: number;
+  remaining: number;
+  rulesVersion: string; // Rule set in force on the injury date that set the threshold
+  exhaustedByPaymentId?: string; // Payment that used up the excess
+  exhaustedOn?: string;
+  allocations: Record<string, { employer: number; insurer: number }>; // Split of each counted payment
+}
+
+// Draft statements are approved or rejected once. A draft is superseded when a later PIAWE
+// version is agreed before it has been dealt with.
+export type ArrearsStatementStatus = 'draft' | 'approved' | 'rejected' | 'superseded';
+
+// One week already paid, compared with the entitlement at the revised PIAWE
+export interface ArrearsLine {
+  weekNumber: number;
+  weekStarting: string;
+  weekEnding: string;
+  entitled: number;
+  paid: number; // Approved and processed weekly payments, plus earlier approved statements
+  difference: number; // Positive when the worker was underpaid
+}
+
+// Back-pay, or an overpayment to recover, worked out when a PIAWE version is agreed
+export interface ArrearsStatement {
+  id: string;
+  caseId: string;
+  piaweVersionId?: string;
+  versionNumber?: number;
+  previousPIAWE?: number;
+  newPIAWE: number;
+  lines: ArrearsLine[];
+  totalEntitled: number;
+  totalPaid: number;
+  netAmount: number; // Arrears when positive, an overpayment when negative
+  status: ArrearsStatementStatus;
+  paymentId?: string; // The single payment raised when arrears are approved
+  rejectedReason?: string;
+  createdBy: string;
+  createdAt: string;
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+// A line from a payment remittance file
+export interface RemittanceLine {
+  lineNumber: number;
+  reference?: string;
+  payee?: string;
   date: string;
   amount: number;
-  type: 'medical' | 'legal' | 'weekly' | 'other';
-  provider?: string;
+}
+
+export interface RemittanceMatch {
+  line: RemittanceLine;
+  payment?: Payment;
+  matchedOn?: 'reference' | 'amount-and-date';
+  issue?: string; // Why the line could not be matched
+}
+
+export type TreatmentType = 'physiotherapy' | 'psychology' | 'exercise_physiology' | 'other';
+
+// A block of treatment sessions approved for a treating stakeholder
+export interface TreatmentApproval {
+  id: string;
+  caseId: string;
+  stakeholderId?: string;
+  provider: string; // Copied from the stakeholder so the approval reads the same if they are removed
+  treatmentType: TreatmentType;
+  sessionsApproved: number;
+  startDate: string;
+  endDate: string;
+  costLimit?: number; // Most that can be invoiced under the approval
+  sessionCostLimit?: number; // Most that can be invoiced for one session
+  reference?: string; // Insurer's approval reference
+  notes?: string;
+  usage: TreatmentUsage[];
+  createdBy?: string;
+  createdAt: string;
+}
+
+// An attendance or invoice recorded against a treatment approval
+export interface TreatmentUsage {
+  id: string;
+  kind: 'attendance' | 'invoice';
+  date: string;
+  sessions: number; // 0 for an invoice covering attendances already recorded
+  amount?: number; // Invoices only
+  paymentId?: string; // Draft medical payment raised in the ledger for an invoice
+  notes?: string;
+  recordedBy?: string;
+}
+
+export interface TreatmentApprovalStatus {
+  sessionsUsed: number;
+  sessionsRemaining: number;
+  costUsed: number;
+  costRemaining?: number; // Only when the approval has a cost limit
+  daysRemaining: number; // Days left in the approval, including today
+  state: 'upcoming' | 'active' | 'running-low' | 'exhausted' | 'expired';
+  warnings: string[];
+}
+
+// Unmatched lines wait in the intake work queue. Matched lines have a case and provider and can be
+// approved into the payments ledger.
+export type InvoiceLineStatus = 'unmatched' | 'matched' | 'approved' | 'rejected';
+
+// A line imported from a treating provider's invoice
+export interface InvoiceLine {
+  id: string;
+  fileName: string;
+  lineNumber: number; // Row in the file, or the order of the line in a PDF
+  invoiceNumber?: string;
+  provider: string;
+  providerNumber?: string;
+  claimNumber?: string;
+  workerName?: string;
+  serviceDate: string;
+  itemCode?: string;
   description?: string;
-  status: 'pending' | 'processed' | 'rejected';
+  amount: number;
+  sessions: number;
+  caseId?: string;
+  stakeholderId?: string;
+  approvalId?: string;
+  paymentId?: string; // Draft payment raised when the line was approved
+  insurerAmount?: number; // Part of the line sent to the insurer once the medical excess was used up; the payment covers the rest
+  status: InvoiceLineStatus;
+  rejectedReason?: string;
+  importedBy?: string;
+  importedAt: string;
+}
+
+export interface InvoiceLineFlag {
+  type: 'duplicate' | 'outside-approval' | 'over-approval';
+  message: string;
 }
 
+export type WorkCapacity = 'full' | 'suitable-duties' | 'none';
+
+// A certificate of capacity. Certificates are marked expired once their end date has passed.
 export interface MedicalCertificate {
   id: string;
+  caseId: string;
+  issueDate?: string;
   startDate: string;
   endDate: string;
+  stakeholderId?: string; // Issuing practitioner
   doctorName: string;
+  capacity: WorkCapacity;
+  hoursPerDay?: number; // Suitable duties capacity
+  daysPerWeek?: number;
   restrictions: string[];
   recommendations: string[];
-  documentId: string;
+  documentId?: string;
+  notes?: string;
   status: 'active' | 'expired';
+  createdBy?: string;
+  createdAt: string;
 }
 
 // Stakeholder Types
@@ -202,34 +415,135 @@ export interface Stakeholder {
 
 // PIAWE Calculator Types
 export type EmploymentType = 'full-time' | 'part-time' | 'casual';
-export type PayPeriod = 'weekly' | 'fortnightly' | 'monthly' | 'annual';
+export type PayPeriod = 'weekly' | 'fortnightly' | 'monthly' | 'annual' | 'irregular';
 
 export interface PayslipEntry {
   id: string;
-  weekEnding: string;
+  weekEnding: string; // Last day of the pay period
+  periodStart?: string; // First day of the pay period, derived from payPeriod when not given
+  payPeriod?: PayPeriod; // Defaults to weekly; irregular periods need a periodStart
+  sourcePayslipId?: string; // Set on the weekly portions apportioned from a longer pay period
+  employerId?: string; // Concurrent employment; payslips without one belong to the primary employer
   ordinaryHours: number;
   ordinaryRate: number;
+  ordinaryPay?: number; // Ordinary earnings paid as an amount with no hours (e.g. salary); hours and rate are left at 0
   overtimeHours: number;
   overtimeRate: number;
+  overtimePay?: number; // Overtime paid as an amount with no hours
   allowances: number;
   bonuses: number;
   commissions: number;
   otherIncome: number;
-  totalGross: number;
+  totalGross: number; // Cash earnings; earnings components are valued separately
+  earningsComponents?: EarningsComponent[];
   unpaidLeave: boolean;
   notes?: string;
 }
 
+// Non-cash benefits and salary-sacrificed amounts. Whether each counts towards PIAWE depends on
+// the jurisdiction's earningsComponentRules.
+export type EarningsComponentType = 'vehicle' | 'accommodation' | 'salary-sacrifice' | 'salary-sacrifice-super';
+export type EarningsValuationMethod =
+  | 'statutory-formula'
+  | 'operating-cost'
+  | 'market-value'
+  | 'market-rent'
+  | 'cost-to-employer'
+  | 'amount-sacrificed'
+  | 'agreed-value';
+
+export interface EarningsComponent {
+  id: string;
+  type: EarningsComponentType;
+  amount: number; // Value for the payslip's pay period
+  valuationMethod: EarningsValuationMethod;
+  notes?: string;
+}
+
+export interface EarningsComponentRule {
+  included: boolean;
+  basis: string; // Why the component is included or excluded, shown on the statement
+}
+
+// Payslip import (CSV / XLSX / text-layer PDF)
+export type PayslipImportSource = 'csv' | 'xlsx' | 'pdf';
+
+export type PayslipImportField =
+  | 'weekEnding'
+  | 'periodStart'
+  | 'ordinaryHours'
+  | 'ordinaryRate'
+  | 'ordinaryPay'
+  | 'overtimeHours'
+  | 'overtimeRate'
+  | 'overtimePay'
+  | 'allowances'
+  | 'bonuses'
+  | 'commissions'
+  | 'otherIncome'
+  | 'totalGross'
+  | 'unpaidLeave'
+  | 'notes';
+
+// Maps each payslip field to a zero-based column index in the imported table
+export type PayslipColumnMapping = Partial<Record<PayslipImportField, number>>;
+
+export interface PayslipImportTable {
+  source: PayslipImportSource;
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PayslipImportRowError {
+  rowNumber: number; // 1-based, as shown in the source file (header row excluded)
+  field?: PayslipImportField;
+  value?: string;
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+export interface PayslipImportResult {
+  payslips: PayslipEntry[];
+  errors: PayslipImportRowError[];
+  skippedRows: number;
+}
+
+// An employer whose earnings count towards PIAWE. Most workers have one; casual workers with
+// concurrent jobs have one per job.
+export interface PIAWEEmployer {
+  id: string;
+  name: string;
+  employmentType: EmploymentType;
+  isPrimary: boolean; // Employer the claim is made against
+}
+
+export interface PIAWEEmployerResult {
+  employerId: string;
+  employerName: string;
+  employmentType: EmploymentType;
+  isPrimary: boolean;
+  included: boolean; // False when the jurisdiction does not count concurrent employment
+  payslipCount: number;
+  period52Week: PIAWEResult;
+  period13Week: PIAWEResult;
+  averageWeekly: number;
+  methodUsed: string;
+}
+
 export interface PIAWECalculation {
   id: string;
   caseId: string;
   workerId: string;
+  workerName?: string;
   jurisdiction: JurisdictionType;
   employmentType: EmploymentType;
   injuryDate: string;
   calculationDate: string;
   referencePeriodsUsed: string[];
   payslips: PayslipEntry[];
+  employers?: PIAWEEmployer[];
+  employerBreakdown?: PIAWEEmployerResult[]; // Per-employer subtotals when there is more than one employer
   calculations: {
     period52Week: PIAWEResult;
     period13Week: PIAWEResult;
@@ -239,11 +553,63 @@ export interface PIAWECalculation {
   methodUsed: string;
   adjustments: PIAWEAdjustment[];
   validationIssues: ValidationIssue[];
+  rulesVersion?: string; // Jurisdiction rule set in force on the injury date
+  indexedTo?: string; // Date the PIAWE was last indexed to
+  versionNumber?: number; // Saved version this calculation was loaded from or saved as
+  agreed?: boolean; // Set when the saved version is the agreed PIAWE
+  scenario?: { name: string; options: PIAWEScenarioOptions }; // Set when promoted from a what-if scenario
   createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Immutable snapshot of a saved PIAWE calculation
+export interface PIAWECalculationVersion {
+  id: string;
+  caseId: string;
+  versionNumber: number;
+  calculation: PIAWECalculation;
+  finalPIAWE: number;
+  reason: string;
+  createdBy: string;
+  createdById?: string;
+  createdAt: string;
+  isAgreed: boolean;
+  agreedBy?: string;
+  agreedAt?: string;
+}
+
+export interface PIAWEValueChange<T> {
+  from: T;
+  to: T;
+  changed: boolean;
+}
+
+export interface PIAWEPayslipDiff {
+  weekEnding: string;
+  employerId?: string;
+  status: 'added' | 'removed' | 'changed';
+  fields: { field: keyof PayslipEntry; from: PayslipEntry[keyof PayslipEntry]; to: PayslipEntry[keyof PayslipEntry] }[];
+}
+
+export interface PIAWEAdjustmentDiff {
+  id: string;
+  description: string;
+  status: 'added' | 'removed' | 'changed';
+  from?: PIAWEAdjustment;
+  to?: PIAWEAdjustment;
+}
+
+export interface PIAWEVersionDiff {
+  finalPIAWE: PIAWEValueChange<number>;
+  methodUsed: PIAWEValueChange<string>;
+  jurisdiction: PIAWEValueChange<JurisdictionType>;
+  injuryDate: PIAWEValueChange<string>;
+  rulesVersion: PIAWEValueChange<string | undefined>;
+  payslips: PIAWEPayslipDiff[];
+  adjustments: PIAWEAdjustmentDiff[];
+}
+
 export interface PIAWEResult {
   totalEarnings: number;
   totalWeeks: number;
@@ -254,26 +620,66 @@ export interface PIAWEResult {
   bonusesTotal: number;
   commissionsTotal: number;
   otherIncomeTotal: number;
+  nonPecuniaryTotal: number; // Included vehicle and accommodation benefits
+  salarySacrificeTotal: number; // Included salary-sacrificed amounts
   excludedWeeks: number;
   includedWeeks: number;
 }
 
+// Earnings components and reference period a what-if scenario uses
+export interface PIAWEScenarioOptions {
+  includeOvertime: boolean;
+  includeBonuses: boolean;
+  includeAllowances: boolean;
+  referencePeriodWeeks: number;
+}
+
+// A named copy of the calculator inputs, recalculated with its own options
+export interface PIAWEScenario {
+  id: string;
+  name: string;
+  options: PIAWEScenarioOptions;
+  payslips: PayslipEntry[];
+  adjustments: PIAWEAdjustment[];
+  employers: PIAWEEmployer[];
+  injuryDate: string;
+  jurisdiction: JurisdictionType;
+  calculation: PIAWECalculation;
+  createdAt: string;
+}
+
 export interface PIAWEAdjustment {
   id: string;
-  type: 'base-rate-increase' | 'industrial-agreement' | 'manual-override' | 'jurisdiction-rule';
+  type: 'base-rate-increase' | 'industrial-agreement' | 'manual-override' | 'jurisdiction-rule' | 'indexation';
   description: string;
   amount: number;
   percentage?: number;
   appliedDate: string;
   reason: string;
+  ruleVersion?: string; // Rule set that published an indexation adjustment
+  rule?: string; // Rule that produced the adjustment, recorded by applyAdjustments
 }
 
-export interface ValidationIssue {
+// An uplift suggested from a pay rise found in the payslips or the case wage details. It only
+// affects PIAWE once the consultant accepts it and it becomes an adjustment.
+export interface PIAWEAdjustmentProposal {
   id: string;
-  type: 'missing-weeks' | 'extreme-fluctuation' | 'insufficient-data' | 'inconsistent-rates';
+  source: 'payslips' | 'wages-salary';
+  effectiveDate: string;
+  previousRate?: number;
+  newRate?: number;
+  adjustment: PIAWEAdjustment;
+  workings: string[]; // Supporting arithmetic, one step per line
+}
+
+export interface ValidationIssue {
+  id: string; // Stable across recalculations, built from the issue type and the dates involved
+  type: 'missing-weeks' | 'extreme-fluctuation' | 'insufficient-data' | 'inconsistent-rates' | 'duplicate-week' | 'post-injury' | 'unpaid-leave' | 'rate-change';
   severity: 'warning' | 'error';
   message: string;
   weekEnding?: string;
+  weekEndings?: string[]; // Missing weeks for gaps
+  payslipIds?: string[]; // Payslips the issue relates to
   suggestedAction?: string;
 }
 
@@ -293,11 +699,142 @@ export interface JurisdictionRules {
     baseRateIncrease: boolean;
     industrialAgreement: boolean;
     inflationAdjustment: boolean;
+    // How a pay rise in the reference period is reflected: earnings before the rise are uplifted
+    // to the new rate, or PIAWE is averaged over the weeks from the rise
+    rateIncreaseMethod: 'uplift-prior-weeks' | 'average-from-increase';
   };
   cappingRules?: {
     maxWeeklyAmount?: number;
     maxAnnualAmount?: number;
   };
+  medicalExcessThreshold?: number; // Medical costs the employer pays before the insurer; 0 or unset when there is none
+  includeConcurrentEmployment: boolean; // Earnings from other employers at the time of injury count towards PIAWE
+  earningsComponentRules: Record<EarningsComponentType, EarningsComponentRule>;
+  entitlementPeriods: EntitlementPeriod[];
+  superannuation?: SuperannuationRule; // Set where the insurer pays super on top of long-term weekly payments
+  decisionPoints?: WorkCapacityDecisionPoint[];
+}
+
+// Percentage of PIAWE payable for a range of weeks of incapacity. An open-ended period has no toWeek.
+export interface EntitlementPeriod {
+  fromWeek: number;
+  toWeek?: number;
+  percentage: number;
+  label: string;
+}
+
+// Superannuation contributions paid on weekly payments from fromWeek of incapacity
+export interface SuperannuationRule {
+  fromWeek: number;
+  rate: number; // percentage of the weekly amount payable
+  label: string;
+}
+
+// A week of incapacity where weekly payments stop unless a work capacity decision continues them.
+// The continuation period applies from that week when it does.
+export interface WorkCapacityDecisionPoint {
+  id: string;
+  week: number;
+  label: string;
+  description: string;
+  noticeWeeks: number; // Weeks ahead of the decision point that the reminder falls due
+  continuation: EntitlementPeriod;
+}
+
+// A version of a jurisdiction's rules, in force from effectiveFrom until the next version starts
+export interface JurisdictionRuleSet extends JurisdictionRules {
+  version: string;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  indexationRate?: number; // Published percentage indexation of PIAWE and caps taking effect on effectiveFrom
+  source?: string;
+}
+
+// Rule fields admins can change without a release. Published overrides apply on top of the
+// version in force on their effective date and carry forward to later versions.
+export type JurisdictionRuleOverride = Partial<Pick<
+  JurisdictionRules,
+  | 'defaultReferencePeriod'
+  | 'alternativeReferencePeriods'
+  | 'minimumWeeksRequired'
+  | 'maxOvertimeInclusion'
+  | 'allowanceInclusions'
+  | 'bonusInclusions'
+  | 'cappingRules'
+  | 'medicalExcessThreshold'
+>>;
+
+// A published rule change. Rows are immutable and double as the audit trail.
+export interface JurisdictionRuleVersion {
+  id: string;
+  jurisdiction: JurisdictionType;
+  version: string;
+  effectiveFrom: string;
+  rules: JurisdictionRuleOverride;
+  previousRules: JurisdictionRuleOverride; // The same fields as in force on effectiveFrom before the change
+  reason: string;
+  publishedBy: string;
+  publishedById?: string;
+  publishedAt: string;
+}
+
+export interface EntitlementWeek {
+  weekNumber: number; // 1-based week of incapacity
+  weekStarting: string;
+  weekEnding: string;
+  periodLabel: string;
+  percentage: number;
+  piawe: number;
+  grossEntitlement: number; // percentage of PIAWE, before deductions
+  currentWeeklyEarnings: number;
+  weeklyPayable: number;
+  superannuation: number; // Contribution on top of the weekly payment, 0 before it applies
+  capped: boolean;
+  rulesVersion: string;
+}
+
+export interface EntitlementStepDown {
+  weekNumber: number;
+  date: string; // First day paid at the new percentage
+  fromPercentage: number;
+  toPercentage: number;
+  label: string;
+}
+
+export interface EntitlementSchedule {
+  calculationId: string;
+  jurisdiction: JurisdictionType;
+  startDate: string;
+  weeks: EntitlementWeek[];
+  stepDowns: EntitlementStepDown[];
+  decisionPoints: EntitlementDecisionPoint[];
+  superannuationFrom?: string; // First day of the first week with a superannuation contribution
+  totalPayable: number;
+  totalSuperannuation: number;
+  generatedAt: string;
+}
+
+export interface EntitlementDecisionPoint {
+  id: string;
+  weekNumber: number;
+  date: string; // First day of the week that needs the decision
+  label: string;
+  description: string;
+  reminderDate: string;
+  status: 'pending' | 'continue' | 'cease';
+  decision?: WorkCapacityDecision;
+}
+
+// How long the claim has run, and the next step-down, contribution or decision point to act on
+export interface BenefitDuration {
+  weeksSinceInjury: number;
+  weekOfIncapacity?: number; // Unset before incapacity starts and after the schedule ends
+  nextThreshold?: {
+    label: string;
+    date: string;
+    weekNumber: number;
+    weeksAway: number;
+  };
 }
 
 // Wages and Salary Information
@@ -326,7 +863,7 @@ export interface WagesSalaryInfo {
   startDate: string;
   lastPayIncrease?: {
     date: string;
-    amount: number;
+    amount: number; // Increase in weekly earnings
     reason: string;
   };
   notes?: string;
@@ -368,7 +905,8 @@ export interface Case {
   notes: CaseNote[];
   supervisorNotes?: SupervisorNote[];
   stakeholders?: Stakeholder[];
-  rtwPlan: RtwPlan;
+  rtwPlan: RtwPlan; // The current plan
+  rtwPlanHistory?: RtwPlan[]; // Earlier plans in the order they ran, each superseded by the next
   consultant: string;
   status: CaseStatus;
   createdAt: string;
@@ -380,11 +918,6 @@ export interface Case {
   medicalCertificates?: MedicalCertificate[];
   payments?: Payment[];
   iCareSyncStatus?: 'pending' | 'synced' | 'failed';
-  medicalExcess?: {
-    threshold: number;
-    current: number;
-    remaining: number;
-  };
   piaweCalculation?: PIAWECalculation;
   wagesSalary?: WagesSalaryInfo;
   outcome?: CaseOutcome; // Case outcome when closed or pending
@@ -0,0 +1,230 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+
+export interface PdfTableColumn {
+  header: string
+  width: number // fraction of the printable width, all columns should add up to 1
+  align?: 'left' | 'right'
+}
+
+const PAGE_WIDTH = 595.28 // A4 portrait
+const PAGE_HEIGHT = 841.89
+const MARGIN = 48
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_HEIGHT = 24
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13)
+const MUTED_COLOR = rgb(0.42, 0.42, 0.42)
+const RULE_COLOR = rgb(0.82, 0.82, 0.82)
+const HEADER_FILL = rgb(0.95, 0.95, 0.95)
+const BRAND_COLOR = rgb(0.73, 0.04, 0.04)
+
+// The standard fonts only cover WinAnsi, so anything outside it is swapped for a safe equivalent
+const sanitise = (text: string) =>
+  text
+    .replace(/[≥]/g, '>=')
+    .replace(/[≤]/g, '<=')
+    .replace(/[✓✔]/g, 'Y')
+    .replace(/[⚠]/g, '!')
+    .replace(/[^\x20-\x7E\xA0-\xFF•–—‘’“”…\n]/g, '?')
+
+// Small flowing-layout helper over pdf-lib for generated (non-template) reports.
+// Content is written top to bottom and new pages are added as the cursor runs out of room.
+export class PdfDocumentBuilder {
+  private page!: PDFPage
+  private y = 0
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont,
+    private readonly footerText: string
+  ) {
+    this.addPage()
+  }
+
+  static async create(footerText = ''): Promise<PdfDocumentBuilder> {
+    const doc = await PDFDocument.create()
+    const font = await doc.embedFont(StandardFonts.Helvetica)
+    const boldFont = await doc.embedFont(StandardFonts.HelveticaBold)
+    return new PdfDocumentBuilder(doc, font, boldFont, footerText)
+  }
+
+  setTitle(title: string) {
+    this.doc.setTitle(title)
+    this.doc.setCreationDate(new Date())
+  }
+
+  addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage()
+      return true
+    }
+    return false
+  }
+
+  space(height = 8) {
+    this.y -= height
+  }
+
+  wrap(text: string, size: number, maxWidth: number, bold = false): string[] {
+    const font = bold ? this.boldFont : this.font
+    const lines: string[] = []
+
+    sanitise(text).split('\n').forEach(paragraph => {
+      let line = ''
+      paragraph.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+          line = candidate
+        } else {
+          lines.push(line)
+          line = word
+        }
+      })
+      lines.push(line)
+    })
+
+    return lines
+  }
+
+  title(text: string, subtitle?: string) {
+    this.ensureSpace(40)
+    this.page.drawText(sanitise(text), { x: MARGIN, y: this.y - 18, size: 18, font: this.boldFont, color: BRAND_COLOR })
+    this.y -= 24
+    if (subtitle) {
+      this.page.drawText(sanitise(subtitle), { x: MARGIN, y: this.y - 11, size: 11, font: this.font, color: MUTED_COLOR })
+      this.y -= 16
+    }
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y - 4 },
+      thickness: 1.5,
+      color: BRAND_COLOR
+    })
+    this.y -= 16
+  }
+
+  heading(text: string) {
+    // Keep a heading with at least a couple of lines of the section it introduces
+    this.ensureSpace(48)
+    this.y -= 6
+    this.page.drawText(sanitise(text.toUpperCase()), { x: MARGIN, y: this.y - 11, size: 11, font: this.boldFont, color: TEXT_COLOR })
+    this.y -= 15
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: RULE_COLOR
+    })
+    this.y -= 8
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; muted?: boolean; indent?: number } = {}) {
+    const size = options.size || 9.5
+    const indent = options.indent || 0
+    const lineHeight = size * 1.35
+    this.wrap(text, size, CONTENT_WIDTH - indent, options.bold).forEach(line => {
+      this.ensureSpace(lineHeight)
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y - size,
+        size,
+        font: options.bold ? this.boldFont : this.font,
+        color: options.muted ? MUTED_COLOR : TEXT_COLOR
+      })
+      this.y -= lineHeight
+    })
+  }
+
+  keyValues(rows: [string, string][], labelWidth = 0.35) {
+    const size = 9.5
+    const lineHeight = size * 1.4
+    const labelX = MARGIN
+    const valueX = MARGIN + CONTENT_WIDTH * labelWidth
+    const valueWidth = CONTENT_WIDTH * (1 - labelWidth)
+
+    rows.forEach(([label, value]) => {
+      const lines = this.wrap(value || '-', size, valueWidth)
+      this.ensureSpace(lineHeight * lines.length)
+      this.page.drawText(sanitise(label), { x: labelX, y: this.y - size, size, font: this.font, color: MUTED_COLOR })
+      lines.forEach((line, index) => {
+        this.page.drawText(line, { x: valueX, y: this.y - size - index * lineHeight, size, font: this.boldFont, color: TEXT_COLOR })
+      })
+      this.y -= lineHeight * lines.length
+    })
+  }
+
+  table(columns: PdfTableColumn[], rows: string[][], options: { size?: number; boldRows?: number[] } = {}) {
+    const size = options.size || 8
+    const padding = 3
+    const lineHeight = size * 1.3
+    const widths = columns.map(column => column.width * CONTENT_WIDTH)
+
+    const measure = (cells: string[], bold: boolean) => {
+      const wrapped = cells.map((cell, i) => this.wrap(cell || '', size, widths[i] - padding * 2, bold))
+      return { wrapped, height: Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2 }
+    }
+
+    const drawRow = (wrapped: string[][], height: number, bold: boolean, fill?: ReturnType<typeof rgb>) => {
+      const font = bold ? this.boldFont : this.font
+      if (fill) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: fill })
+      }
+
+      let x = MARGIN
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, lineIndex) => {
+          const textWidth = font.widthOfTextAtSize(line, size)
+          const textX = columns[i].align === 'right' ? x + widths[i] - padding - textWidth : x + padding
+          this.page.drawText(line, { x: textX, y: this.y - padding - size - lineIndex * lineHeight, size, font, color: TEXT_COLOR })
+        })
+        x += widths[i]
+      })
+
+      this.y -= height
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+        thickness: 0.25,
+        color: RULE_COLOR
+      })
+    }
+
+    const header = measure(columns.map(column => column.header), true)
+    const drawHeader = () => drawRow(header.wrapped, header.height, true, HEADER_FILL)
+
+    // Keep the header with at least the first row
+    const first = rows.length > 0 ? measure(rows[0], !!options.boldRows?.includes(0)) : { height: 0 }
+    this.ensureSpace(header.height + first.height)
+    drawHeader()
+
+    rows.forEach((row, index) => {
+      const bold = !!options.boldRows?.includes(index)
+      const { wrapped, height } = measure(row, bold)
+      // Repeat the header at the top of each continuation page
+      if (this.ensureSpace(height)) drawHeader()
+      drawRow(wrapped, height, bold)
+    })
+    this.space(6)
+  }
+
+  async toBytes(): Promise<Uint8Array> {
+    const pages = this.doc.getPages()
+    pages.forEach((page, index) => {
+      const label = sanitise(`${this.footerText}${this.footerText ? '  |  ' : ''}Page ${index + 1} of ${pages.length}`)
+      const width = this.font.widthOfTextAtSize(label, 7.5)
+      page.drawText(label, { x: PAGE_WIDTH - MARGIN - width, y: MARGIN / 2, size: 7.5, font: this.font, color: MUTED_COLOR })
+    })
+    return this.doc.save()
+  }
+
+  async toBlob(): Promise<Blob> {
+    const bytes = await this.toBytes()
+    return new Blob([bytes as BlobPart], { type: 'application/pdf' })
+  }
+}
@@ -0,0 +1,9 @@
+/*
+  # Add compensation to cases
+
+  1. Changes
+    - Add `compensation` jsonb column to `cases` for the weekly benefit
+      entitlement schedule, scheduled payments and suitable duties earnings
+*/
+
+ALTER TABLE cases ADD COLUMN IF NOT EXISTS compensation jsonb;
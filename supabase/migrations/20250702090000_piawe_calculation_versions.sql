@@ -0,0 +1,116 @@
+/*
+  # PIAWE calculation history
+
+  1. New Tables
+    - `piawe_calculation_versions` - Immutable snapshots of each saved PIAWE calculation,
+      recording who ran it and why
+
+  2. Rules
+    - Snapshots cannot be edited or deleted; only the agreed flag can change
+    - At most one agreed version per case
+
+  3. Security
+    - Enable RLS
+    - Users involved in a case can read, add and agree versions
+*/
+
+CREATE TABLE IF NOT EXISTS piawe_calculation_versions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id uuid REFERENCES cases(id) ON DELETE CASCADE NOT NULL,
+  version_number integer NOT NULL,
+  calculation jsonb NOT NULL,
+  final_piawe numeric(10,2) NOT NULL,
+  reason text NOT NULL,
+  created_by text NOT NULL,
+  created_by_id uuid REFERENCES profiles(id),
+  is_agreed boolean NOT NULL DEFAULT false,
+  agreed_by text,
+  agreed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (case_id, version_number)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_piawe_versions_one_agreed
+  ON piawe_calculation_versions(case_id) WHERE is_agreed;
+CREATE INDEX IF NOT EXISTS idx_piawe_versions_case_id ON piawe_calculation_versions(case_id);
+
+-- Reject changes to anything but the agreed flag
+CREATE OR REPLACE FUNCTION prevent_piawe_version_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.case_id IS DISTINCT FROM OLD.case_id
+    OR NEW.version_number IS DISTINCT FROM OLD.version_number
+    OR NEW.calculation IS DISTINCT FROM OLD.calculation
+    OR NEW.final_piawe IS DISTINCT FROM OLD.final_piawe
+    OR NEW.reason IS DISTINCT FROM OLD.reason
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_by_id IS DISTINCT FROM OLD.created_by_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'PIAWE calculation versions are immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS piawe_versions_immutable ON piawe_calculation_versions;
+CREATE TRIGGER piawe_versions_immutable
+  BEFORE UPDATE ON piawe_calculation_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_piawe_version_changes();
+
+ALTER TABLE piawe_calculation_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read PIAWE versions for their cases"
+  ON piawe_calculation_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can add PIAWE versions to their cases"
+  ON piawe_calculation_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can agree PIAWE versions for their cases"
+  ON piawe_calculation_versions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
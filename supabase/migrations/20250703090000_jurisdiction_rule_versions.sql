@@ -0,0 +1,66 @@
+/*
+  # Jurisdiction rule versions
+
+  1. New Tables
+    - `jurisdiction_rule_versions` - PIAWE rule changes published by admins, each taking effect
+      from a stated date on top of the rules built into the application
+
+  2. Rules
+    - Versions cannot be edited or deleted; a correction is published as a new version
+    - Each row records the rules before and after the change, who published it and why
+
+  3. Security
+    - Enable RLS
+    - Authenticated users can read versions so calculations use the rules in force
+    - Only admins can publish versions
+*/
+
+CREATE TABLE IF NOT EXISTS jurisdiction_rule_versions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  jurisdiction text NOT NULL CHECK (jurisdiction IN ('NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'NT', 'ACT')),
+  version text NOT NULL,
+  effective_from date NOT NULL,
+  rules jsonb NOT NULL,
+  previous_rules jsonb NOT NULL,
+  reason text NOT NULL,
+  published_by text NOT NULL,
+  published_by_id uuid REFERENCES profiles(id),
+  published_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jurisdiction_rule_versions_jurisdiction
+  ON jurisdiction_rule_versions(jurisdiction, effective_from);
+
+-- Published versions are the audit trail, so they cannot be changed or removed
+CREATE OR REPLACE FUNCTION prevent_jurisdiction_rule_version_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Jurisdiction rule versions are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS jurisdiction_rule_versions_immutable ON jurisdiction_rule_versions;
+CREATE TRIGGER jurisdiction_rule_versions_immutable
+  BEFORE UPDATE OR DELETE ON jurisdiction_rule_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_jurisdiction_rule_version_changes();
+
+ALTER TABLE jurisdiction_rule_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read jurisdiction rule versions"
+  ON jurisdiction_rule_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can publish jurisdiction rule versions"
+  ON jurisdiction_rule_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
@@ -0,0 +1,218 @@
+/*
+  # Payments ledger
+
+  1. New Tables
+    - `payments` - Weekly, medical, legal and other payments on a case, optionally made to a
+      case stakeholder, moving from draft through approved to processed or rejected
+
+  2. Rules
+    - Status can only move draft -> approved -> processed, or to rejected before processing
+    - Approving a payment is limited by the approver's role: support staff cannot approve,
+      consultants can approve payments up to $5,000 and admins have no limit
+    - Amounts, dates and payees can only change while a payment is a draft
+
+  3. Data
+    - Payments previously stored in `cases.compensation` are moved into the ledger
+
+  4. Security
+    - Enable RLS
+    - Users involved in a case can read, add and update its payments
+    - Only draft payments can be deleted
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id uuid REFERENCES cases(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('weekly', 'medical', 'legal', 'other')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  payment_date date NOT NULL,
+  period_start date,
+  period_end date,
+  provider_id uuid REFERENCES stakeholders(id) ON DELETE SET NULL,
+  provider text,
+  reference text,
+  description text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'processed', 'rejected')),
+  schedule_key text,
+  created_by text,
+  created_by_id uuid REFERENCES profiles(id),
+  approved_by text,
+  approved_by_id uuid REFERENCES profiles(id),
+  approved_at timestamptz,
+  rejected_reason text,
+  processed_at timestamptz,
+  remittance_reference text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (case_id, schedule_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_case_id ON payments(case_id);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+
+-- Largest single payment a role can approve, or NULL for no limit.
+-- Kept in line with PAYMENT_APPROVAL_LIMITS in the payment service.
+CREATE OR REPLACE FUNCTION payment_approval_limit(user_role text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE user_role
+    WHEN 'admin' THEN NULL
+    WHEN 'consultant' THEN 5000
+    ELSE 0
+  END::numeric;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_payment_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  approver_role text;
+  approval_limit numeric;
+BEGIN
+  IF OLD.status <> 'draft' AND (
+    NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.payment_date IS DISTINCT FROM OLD.payment_date
+    OR NEW.provider_id IS DISTINCT FROM OLD.provider_id
+    OR NEW.provider IS DISTINCT FROM OLD.provider
+  ) THEN
+    RAISE EXCEPTION 'Only draft payments can be changed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('approved', 'rejected'))
+      OR (OLD.status = 'approved' AND NEW.status IN ('processed', 'rejected'))
+    ) THEN
+      RAISE EXCEPTION 'A % payment cannot be marked %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'approved' THEN
+      SELECT role INTO approver_role FROM profiles WHERE id = auth.uid();
+      approval_limit := payment_approval_limit(approver_role);
+      IF approval_limit IS NOT NULL AND NEW.amount > approval_limit THEN
+        RAISE EXCEPTION 'Payment of % is over the approval limit for %', NEW.amount, COALESCE(approver_role, 'this user');
+      END IF;
+      NEW.approved_by_id := auth.uid();
+      NEW.approved_at := now();
+    END IF;
+
+    IF NEW.status = 'processed' THEN
+      NEW.processed_at := COALESCE(NEW.processed_at, now());
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_workflow ON payments;
+CREATE TRIGGER payments_workflow
+  BEFORE UPDATE ON payments
+  FOR EACH ROW EXECUTE FUNCTION enforce_payment_workflow();
+
+-- Move payments out of the compensation column. Pending payments become drafts; payments
+-- generated from the entitlement schedule keep their id as the schedule key.
+INSERT INTO payments (case_id, type, amount, payment_date, period_start, period_end, provider, description, status, schedule_key)
+SELECT
+  cases.id,
+  COALESCE(payment->>'type', 'other'),
+  (payment->>'amount')::numeric,
+  (payment->>'date')::date,
+  (payment->>'periodStart')::date,
+  (payment->>'periodEnd')::date,
+  payment->>'provider',
+  payment->>'description',
+  CASE payment->>'status'
+    WHEN 'processed' THEN 'processed'
+    WHEN 'rejected' THEN 'rejected'
+    ELSE 'draft'
+  END,
+  CASE WHEN payment->>'id' LIKE 'entitlement-%' THEN payment->>'id' END
+FROM cases
+CROSS JOIN LATERAL jsonb_array_elements(cases.compensation->'payments') AS payment
+WHERE jsonb_typeof(cases.compensation->'payments') = 'array'
+  AND (payment->>'amount')::numeric > 0
+ON CONFLICT (case_id, schedule_key) DO NOTHING;
+
+UPDATE cases SET compensation = compensation - 'payments' WHERE compensation ? 'payments';
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read payments for their cases"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can add payments to their cases"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can update payments for their cases"
+  ON payments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete draft payments for their cases"
+  ON payments
+  FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft' AND
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
@@ -0,0 +1,116 @@
+/*
+  # Treatment approvals
+
+  1. New Tables
+    - `treatment_approvals` - Blocks of physiotherapy, psychology, exercise physiology or other
+      treatment sessions approved for a treating stakeholder, with a date range and cost limits
+    - `treatment_usage` - Attendances and invoices recorded against an approval, each using up
+      sessions and, for invoices, part of the cost limit
+
+  2. Rules
+    - An approval covers at least one session and ends on or after the day it starts
+    - Invoices can be linked to the draft medical payment raised for them in the payments ledger
+
+  3. Security
+    - Enable RLS
+    - Users involved in a case can read, add and update its approvals and usage
+    - Usage can be deleted; approvals can only be deleted while nothing is recorded against them
+*/
+
+CREATE TABLE IF NOT EXISTS treatment_approvals (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id uuid REFERENCES cases(id) ON DELETE CASCADE NOT NULL,
+  stakeholder_id uuid REFERENCES stakeholders(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  treatment_type text NOT NULL CHECK (treatment_type IN ('physiotherapy', 'psychology', 'exercise_physiology', 'other')),
+  sessions_approved integer NOT NULL CHECK (sessions_approved > 0),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  cost_limit numeric(10,2) CHECK (cost_limit > 0),
+  session_cost_limit numeric(10,2) CHECK (session_cost_limit > 0),
+  reference text,
+  notes text,
+  created_by text,
+  created_by_id uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS treatment_usage (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  approval_id uuid REFERENCES treatment_approvals(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('attendance', 'invoice')),
+  usage_date date NOT NULL,
+  sessions integer NOT NULL DEFAULT 1 CHECK (sessions >= 0),
+  amount numeric(10,2) CHECK (amount > 0),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  notes text,
+  recorded_by text,
+  recorded_by_id uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (kind = 'invoice' OR amount IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_treatment_approvals_case_id ON treatment_approvals(case_id);
+CREATE INDEX IF NOT EXISTS idx_treatment_usage_approval_id ON treatment_usage(approval_id);
+
+ALTER TABLE treatment_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE treatment_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage treatment approvals for their cases"
+  ON treatment_approvals
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can manage treatment usage for their cases"
+  ON treatment_usage
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM treatment_approvals
+      JOIN cases ON cases.id = treatment_approvals.case_id
+      WHERE treatment_approvals.id = approval_id AND (
+        cases.consultant_id = auth.uid() OR
+        cases.case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- Approvals with usage recorded against them are kept for the record, unless the case itself
+-- is being deleted
+CREATE OR REPLACE FUNCTION prevent_used_treatment_approval_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cases WHERE id = OLD.case_id)
+    AND EXISTS (SELECT 1 FROM treatment_usage WHERE approval_id = OLD.id) THEN
+    RAISE EXCEPTION 'Treatment approvals with attendances or invoices cannot be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS treatment_approvals_delete ON treatment_approvals;
+CREATE TRIGGER treatment_approvals_delete
+  BEFORE DELETE ON treatment_approvals
+  FOR EACH ROW EXECUTE FUNCTION prevent_used_treatment_approval_delete();
@@ -0,0 +1,116 @@
+/*
+  # Invoice intake
+
+  1. New Tables
+    - `invoice_lines` - Service lines imported from treating providers' CSV and PDF invoices,
+      matched to a case, a provider stakeholder and a treatment approval where possible
+
+  2. Rules
+    - Lines without a case or provider stay `unmatched` in the intake work queue
+    - Approving a line raises a draft medical payment, which is linked back to the line
+    - Once the case's medical excess is used up, the excess share of an approved line is sent to
+      the insurer (`insurer_amount`) and the line's payment covers the rest; a line sent to the
+      insurer in full has no payment
+    - Approved and rejected lines are final
+
+  3. Security
+    - Enable RLS
+    - Authenticated users can import lines and work the queue of unmatched lines
+    - Once a line is matched to a case, only users involved in that case can see or change it
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  file_name text NOT NULL,
+  line_number integer NOT NULL,
+  invoice_number text,
+  provider text NOT NULL,
+  provider_number text,
+  claim_number text,
+  worker_name text,
+  service_date date NOT NULL,
+  item_code text,
+  description text,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  sessions integer NOT NULL DEFAULT 1 CHECK (sessions >= 0),
+  case_id uuid REFERENCES cases(id) ON DELETE SET NULL,
+  stakeholder_id uuid REFERENCES stakeholders(id) ON DELETE SET NULL,
+  approval_id uuid REFERENCES treatment_approvals(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  insurer_amount numeric(10,2) CHECK (insurer_amount >= 0),
+  status text NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'approved', 'rejected')),
+  rejected_reason text,
+  imported_by text,
+  imported_by_id uuid REFERENCES profiles(id),
+  imported_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status NOT IN ('matched', 'approved') OR case_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_status ON invoice_lines(status);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_case_id ON invoice_lines(case_id);
+
+CREATE OR REPLACE FUNCTION enforce_invoice_line_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A % invoice line cannot be changed', OLD.status;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoice_lines_workflow ON invoice_lines;
+CREATE TRIGGER invoice_lines_workflow
+  BEFORE UPDATE ON invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION enforce_invoice_line_workflow();
+
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read unmatched invoice lines and lines for their cases"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    case_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can import invoice lines"
+  ON invoice_lines
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (status IN ('unmatched', 'matched'));
+
+CREATE POLICY "Users can update unmatched invoice lines and lines for their cases"
+  ON invoice_lines
+  FOR UPDATE
+  TO authenticated
+  USING (
+    case_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
@@ -0,0 +1,14 @@
+/*
+  # Superannuation payments
+
+  1. Changes
+    - `payments.type` accepts `superannuation` for contributions the insurer pays on top of
+      long-term weekly payments, scheduled from the entitlement schedule like weekly payments
+
+  2. Notes
+    - Work capacity decisions are kept with the rest of the compensation record on `cases`
+*/
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_type_check;
+ALTER TABLE payments ADD CONSTRAINT payments_type_check
+  CHECK (type IN ('weekly', 'superannuation', 'medical', 'legal', 'other'));
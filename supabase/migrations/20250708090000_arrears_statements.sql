@@ -0,0 +1,139 @@
+/*
+  # Arrears statements
+
+  1. New Tables
+    - `arrears_statements` - Back-pay or overpayment worked out week by week when a revised
+      PIAWE version is agreed, comparing the new entitlement with weekly payments already made
+
+  2. Rules
+    - Statements start as drafts and are approved, rejected or superseded once
+    - Approving arrears raises a single weekly payment, which is linked back to the statement
+    - Line items and totals cannot change after the statement is created
+
+  3. Functions
+    - `approve_arrears_statement()` raises the arrears payment, approves it and marks the
+      statement approved with the payment linked, all in one transaction
+    - Only a draft statement for arrears (a positive net amount) can be approved this way
+    - The statement row is locked first, so a repeated call waits and then finds it approved
+      instead of raising a second payment
+    - The payment approval limit is still enforced by the payments workflow trigger; if it or any
+      other step fails, nothing is saved
+
+  4. Security
+    - Enable RLS
+    - Users involved in a case can read, add and update its statements
+*/
+
+CREATE TABLE IF NOT EXISTS arrears_statements (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id uuid REFERENCES cases(id) ON DELETE CASCADE NOT NULL,
+  piawe_version_id uuid REFERENCES piawe_calculation_versions(id) ON DELETE SET NULL,
+  version_number integer,
+  previous_piawe numeric(10,2),
+  new_piawe numeric(10,2) NOT NULL,
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total_entitled numeric(12,2) NOT NULL,
+  total_paid numeric(12,2) NOT NULL,
+  net_amount numeric(12,2) NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'rejected', 'superseded')),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  rejected_reason text,
+  created_by text NOT NULL,
+  created_by_id uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  approved_by text,
+  approved_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_arrears_statements_case_id ON arrears_statements(case_id);
+
+CREATE OR REPLACE FUNCTION enforce_arrears_statement_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'A % arrears statement cannot be changed', OLD.status;
+  END IF;
+
+  IF NEW.lines IS DISTINCT FROM OLD.lines
+    OR NEW.total_entitled IS DISTINCT FROM OLD.total_entitled
+    OR NEW.total_paid IS DISTINCT FROM OLD.total_paid
+    OR NEW.net_amount IS DISTINCT FROM OLD.net_amount
+    OR NEW.new_piawe IS DISTINCT FROM OLD.new_piawe THEN
+    RAISE EXCEPTION 'Arrears statement line items cannot be changed';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS arrears_statements_workflow ON arrears_statements;
+CREATE TRIGGER arrears_statements_workflow
+  BEFORE UPDATE ON arrears_statements
+  FOR EACH ROW EXECUTE FUNCTION enforce_arrears_statement_workflow();
+
+ALTER TABLE arrears_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage arrears statements for their cases"
+  ON arrears_statements
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- Row security still applies, so a user can only approve statements on their own cases
+CREATE OR REPLACE FUNCTION approve_arrears_statement(
+  p_statement_id uuid,
+  p_payment_date date,
+  p_period_start date,
+  p_period_end date,
+  p_description text,
+  p_user_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  statement arrears_statements%ROWTYPE;
+  new_payment_id uuid;
+BEGIN
+  SELECT * INTO statement FROM arrears_statements WHERE id = p_statement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Arrears statement not found';
+  END IF;
+  IF statement.status <> 'draft' THEN
+    RAISE EXCEPTION 'A % arrears statement cannot be approved', statement.status;
+  END IF;
+  IF statement.net_amount <= 0 THEN
+    RAISE EXCEPTION 'An overpayment statement does not raise a payment';
+  END IF;
+
+  INSERT INTO payments (case_id, type, amount, payment_date, period_start, period_end, description, created_by, created_by_id)
+  VALUES (statement.case_id, 'weekly', statement.net_amount, p_payment_date, p_period_start, p_period_end, p_description, p_user_name, auth.uid())
+  RETURNING id INTO new_payment_id;
+
+  UPDATE payments
+  SET status = 'approved', approved_by = p_user_name
+  WHERE id = new_payment_id;
+
+  UPDATE arrears_statements
+  SET status = 'approved', payment_id = new_payment_id, approved_by = p_user_name, approved_at = now()
+  WHERE id = p_statement_id;
+
+  RETURN new_payment_id;
+END;
+$$;
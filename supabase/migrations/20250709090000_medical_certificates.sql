@@ -0,0 +1,95 @@
+/*
+  # Medical certificate register
+
+  1. New Tables
+    - `medical_certificates` - Certificates of capacity for a case, recording the issuing
+      practitioner, the worker's capacity for the period and the certificate document
+
+  2. Rules
+    - Capacity is full, suitable duties or none; hours and days only apply to suitable duties
+    - A certificate ends on or after the day it starts
+    - A certificate whose end date has passed is saved as expired, and
+      `expire_medical_certificates()` marks any that have lapsed since they were saved
+
+  3. Security
+    - Enable RLS
+    - Users involved in a case can read, add, update and delete its certificates
+*/
+
+CREATE TABLE IF NOT EXISTS medical_certificates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id uuid REFERENCES cases(id) ON DELETE CASCADE NOT NULL,
+  stakeholder_id uuid REFERENCES stakeholders(id) ON DELETE SET NULL,
+  doctor_name text NOT NULL,
+  issue_date date,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  capacity text NOT NULL CHECK (capacity IN ('full', 'suitable-duties', 'none')),
+  hours_per_day numeric(4,1) CHECK (hours_per_day > 0 AND hours_per_day <= 24),
+  days_per_week integer CHECK (days_per_week BETWEEN 1 AND 7),
+  restrictions text[] NOT NULL DEFAULT '{}',
+  recommendations text[] NOT NULL DEFAULT '{}',
+  document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired')),
+  created_by text,
+  created_by_id uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (capacity = 'suitable-duties' OR (hours_per_day IS NULL AND days_per_week IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_medical_certificates_case_id ON medical_certificates(case_id);
+CREATE INDEX IF NOT EXISTS idx_medical_certificates_end_date ON medical_certificates(end_date) WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION set_medical_certificate_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.status := CASE WHEN NEW.end_date < CURRENT_DATE THEN 'expired' ELSE 'active' END;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS medical_certificates_status ON medical_certificates;
+CREATE TRIGGER medical_certificates_status
+  BEFORE INSERT OR UPDATE ON medical_certificates
+  FOR EACH ROW EXECUTE FUNCTION set_medical_certificate_status();
+
+-- Marks active certificates past their end date as expired. Row security still applies, so a
+-- user only expires certificates on their own cases.
+CREATE OR REPLACE FUNCTION expire_medical_certificates()
+RETURNS integer
+LANGUAGE sql
+AS $$
+  WITH expired AS (
+    UPDATE medical_certificates
+    SET status = 'expired'
+    WHERE status = 'active' AND end_date < CURRENT_DATE
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM expired;
+$$;
+
+ALTER TABLE medical_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage medical certificates for their cases"
+  ON medical_certificates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM cases
+      WHERE id = case_id AND (
+        consultant_id = auth.uid() OR
+        case_manager_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
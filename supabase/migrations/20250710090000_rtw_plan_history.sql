@@ -0,0 +1,23 @@
+/*
+  # RTW plan history
+
+  1. Changes
+    - Add `rtw_plan_history` jsonb column to `cases` for earlier RTW plans, in the order they ran.
+      `rtw_plan` stays the current plan; starting a new plan moves the current one into the
+      history as superseded
+    - Convert each plan's `hoursOfWork` from fixed `week1`-`week4` keys to a list of weeks, so a
+      plan can run for any number of weeks
+*/
+
+ALTER TABLE cases ADD COLUMN IF NOT EXISTS rtw_plan_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE cases
+SET rtw_plan = jsonb_set(
+  rtw_plan,
+  '{hoursOfWork}',
+  (
+    SELECT jsonb_agg(COALESCE(rtw_plan->'hoursOfWork'->week, '{}'::jsonb) ORDER BY week)
+    FROM unnest(ARRAY['week1', 'week2', 'week3', 'week4']) AS week
+  )
+)
+WHERE jsonb_typeof(rtw_plan->'hoursOfWork') = 'object';